@@ -0,0 +1,153 @@
+'use server';
+
+/**
+ * Event Analytics Server Actions
+ *
+ * Time-series and distributions for the analytics page, aggregated in
+ * MongoDB from the timestamps on participant documents: college and
+ * lab check-in times, lab check-out times and meal redemption times.
+ *
+ * @module actions/analytics
+ */
+
+import clientPromise, { PARTICIPANTS_DB } from '@/lib/mongodb';
+import { requireSession } from '@/lib/require-session';
+import { NOT_TRASHED } from '@/lib/trash';
+import { getEventStats } from '@/lib/event-stats';
+import { getMealSchedule } from '@/lib/event-config';
+import type { DwellBucket, EventAnalytics, HourlyActivity } from '@/types';
+
+/** Hours are bucketed on the venue's clock */
+const TIMEZONE = 'Asia/Kolkata';
+const HOUR_MS = 3_600_000;
+/** Longest span of hours returned; older activity (test scans, imports) is dropped */
+const MAX_HOURS = 24 * 7;
+
+/** Lower bounds of the dwell-time buckets in minutes; the last is open-ended */
+const DWELL_BOUNDARIES = [0, 30, 60, 120, 240, 480, 720, 1080, 1440, 2160];
+
+interface CountRow { _id: Date; count: number }
+
+const formatMinutes = (m: number) => (m < 60 ? `${m}m` : `${m / 60}h`);
+
+const hourOf = (date: string) => ({ $dateTrunc: { date, unit: 'hour', timezone: TIMEZONE } });
+
+const countByHour = (date: string) => [{ $group: { _id: hourOf(date), count: { $sum: 1 } } }];
+
+/** Minutes between lab check-in and check-out, for participants with both */
+const DWELL_STAGES = [
+  { $match: { 'labCheckIn.time': { $type: 'date' }, 'labCheckOut.time': { $type: 'date' } } },
+  { $project: { minutes: { $divide: [{ $subtract: ['$labCheckOut.time', '$labCheckIn.time'] }, 60_000] } } },
+  { $match: { minutes: { $gte: 0 } } },
+];
+
+/** Merges per-hour counts into consecutive hours, newest `MAX_HOURS` at most */
+function fillHours(series: Record<'arrivals' | 'labEntries' | 'meals', CountRow[]>): HourlyActivity[] {
+  const byHour = new Map<number, HourlyActivity>();
+  for (const [field, rows] of Object.entries(series) as [keyof typeof series, CountRow[]][]) {
+    for (const { _id, count } of rows) {
+      const t = new Date(_id).getTime();
+      const row = byHour.get(t) ?? { hour: new Date(t), arrivals: 0, labEntries: 0, meals: 0 };
+      row[field] = count;
+      byHour.set(t, row);
+    }
+  }
+  if (byHour.size === 0) return [];
+
+  const hours = [...byHour.keys()];
+  const last = Math.max(...hours);
+  const first = Math.max(Math.min(...hours), last - (MAX_HOURS - 1) * HOUR_MS);
+
+  const filled: HourlyActivity[] = [];
+  for (let t = first; t <= last; t += HOUR_MS) {
+    filled.push(byHour.get(t) ?? { hour: new Date(t), arrivals: 0, labEntries: 0, meals: 0 });
+  }
+  return filled;
+}
+
+/**
+ * Hourly arrivals, lab dwell times, meal uptake and no-shows
+ */
+export const getEventAnalytics = requireSession('participants.read')(async (): Promise<EventAnalytics> => {
+  try {
+    const client = await clientPromise;
+    const collection = client.db(PARTICIPANTS_DB).collection('participants');
+    const [schedule, stats] = await Promise.all([getMealSchedule(), getEventStats()]);
+
+    // Headcount per windowed slot, keyed by position — slot keys are free text
+    const headcountFacets = Object.fromEntries(
+      schedule.flatMap((slot, i) => {
+        if (!slot.startsAt || !slot.endsAt) return [];
+        return [[`meal${i}`, [
+          {
+            $match: {
+              'collegeCheckIn.time': { $lt: new Date(slot.endsAt) },
+              $nor: [{ 'collegeCheckOut.status': true, 'collegeCheckOut.time': { $lt: new Date(slot.startsAt) } }],
+            },
+          },
+          { $count: 'count' },
+        ]]];
+      })
+    );
+
+    const [result] = await collection.aggregate<{
+      arrivals: CountRow[];
+      labEntries: CountRow[];
+      meals: CountRow[];
+      dwellBuckets: { _id: number | 'longer'; count: number }[];
+      dwellSummary: { count: number; average: number }[];
+    } & Record<string, { count: number }[]>>([
+      { $match: NOT_TRASHED },
+      {
+        $facet: {
+          arrivals: [{ $match: { 'collegeCheckIn.time': { $type: 'date' } } }, ...countByHour('$collegeCheckIn.time')],
+          labEntries: [{ $match: { 'labCheckIn.time': { $type: 'date' } } }, ...countByHour('$labCheckIn.time')],
+          meals: [
+            { $project: { redeemed: { $objectToArray: { $ifNull: ['$mealTimes', {}] } } } },
+            { $unwind: '$redeemed' },
+            { $match: { 'redeemed.v': { $type: 'date' } } },
+            ...countByHour('$redeemed.v'),
+          ],
+          dwellBuckets: [
+            ...DWELL_STAGES,
+            { $bucket: { groupBy: '$minutes', boundaries: DWELL_BOUNDARIES, default: 'longer', output: { count: { $sum: 1 } } } },
+          ],
+          dwellSummary: [
+            ...DWELL_STAGES,
+            { $group: { _id: null, count: { $sum: 1 }, average: { $avg: '$minutes' } } },
+          ],
+          ...headcountFacets,
+        },
+      },
+    ]).toArray();
+
+    const bucketCounts = new Map(result.dwellBuckets.map(b => [b._id, b.count]));
+    const buckets: DwellBucket[] = DWELL_BOUNDARIES.map((min, i) => {
+      const max = DWELL_BOUNDARIES[i + 1];
+      return max === undefined
+        ? { label: `${formatMinutes(min)}+`, minMinutes: min, count: bucketCounts.get('longer') ?? 0 }
+        : { label: `${formatMinutes(min)}–${formatMinutes(max)}`, minMinutes: min, maxMinutes: max, count: bucketCounts.get(min) ?? 0 };
+    });
+    const summary = result.dwellSummary[0];
+
+    return {
+      hourly: fillHours({ arrivals: result.arrivals, labEntries: result.labEntries, meals: result.meals }),
+      dwell: {
+        buckets,
+        completed: summary?.count ?? 0,
+        averageMinutes: summary ? Math.round(summary.average) : null,
+      },
+      meals: stats.meals.map(({ key, label, collected }) => {
+        const i = schedule.findIndex(slot => slot.key === key);
+        const facet = result[`meal${i}`];
+        return { key, label, collected, headcount: facet ? facet[0]?.count ?? 0 : stats.funnel.arrived };
+      }),
+      institutes: stats.institutes,
+      states: stats.states,
+      generatedAt: new Date(),
+    };
+  } catch (error) {
+    console.error('Error computing event analytics:', error);
+    throw new Error('Failed to load analytics');
+  }
+});
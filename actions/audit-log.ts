@@ -0,0 +1,139 @@
+'use server';
+
+/**
+ * Audit Log Server Actions
+ *
+ * Read access to the administrative audit trail written by
+ * `recordAudit`: a filtered, paginated listing for the dashboard viewer
+ * and a CSV export of the same filters.
+ *
+ * @module actions/audit-log
+ */
+
+import type { Filter } from 'mongodb';
+import { getAuditLogCollection } from '@/lib/audit-log';
+import { requireSession } from '@/lib/require-session';
+import type { AuditLogEntry, AuditLogQuery } from '@/types';
+
+type AuditRecord = Omit<AuditLogEntry, '_id'>;
+
+const MAX_PAGE_SIZE = 200;
+/** Upper bound on rows in one CSV export */
+const MAX_EXPORT_ROWS = 50_000;
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const escapeCell = (v: unknown): string => {
+  if (v == null) return '';
+  const s = String(v);
+  return s.includes(',') || s.includes('"') || s.includes('\n')
+    ? `"${s.replace(/"/g, '""')}"`
+    : s;
+};
+
+function buildFilter(query: AuditLogQuery): Filter<AuditRecord> {
+  const filter: Filter<AuditRecord> = {};
+
+  if (query.actor?.trim())    filter.actorEmail = { $regex: escapeRegex(query.actor.trim()), $options: 'i' };
+  if (query.action?.trim())   filter.action     = { $regex: `^${escapeRegex(query.action.trim())}` };
+  if (query.targetType)       filter.targetType = query.targetType;
+  if (query.targetId?.trim()) filter.targetIds  = query.targetId.trim();
+
+  if (query.from || query.to) {
+    filter.timestamp = {
+      ...(query.from && { $gte: new Date(query.from) }),
+      ...(query.to   && { $lt:  new Date(query.to) }),
+    };
+  }
+
+  return filter;
+}
+
+/** Plain-JSON copy — `changes` may hold ObjectIds and Dates from the diffed documents */
+function serialize(entry: AuditRecord & { _id: unknown }): AuditLogEntry {
+  return JSON.parse(
+    JSON.stringify(entry, (_key, val) => {
+      if (val && typeof val === 'object' && val.constructor?.name === 'ObjectId') {
+        return val.toString();
+      }
+      return val;
+    })
+  );
+}
+
+/**
+ * One page of audit entries matching `query`, newest first
+ *
+ * `action` matches by prefix, so `participant.` lists every participant
+ * action. `actor` is a case-insensitive substring of the actor's email.
+ */
+export const getAuditLog = requireSession('audit')(async (
+  _user,
+  query: AuditLogQuery = {},
+  page: number = 1,
+  pageSize: number = 50
+): Promise<{ entries: AuditLogEntry[]; total: number }> => {
+  try {
+    const collection = await getAuditLogCollection();
+    const filter = buildFilter(query);
+    const limit = Math.min(Math.max(pageSize, 1), MAX_PAGE_SIZE);
+
+    const [entries, total] = await Promise.all([
+      collection
+        .find(filter)
+        .sort({ timestamp: -1 })
+        .skip((Math.max(page, 1) - 1) * limit)
+        .limit(limit)
+        .toArray(),
+      collection.countDocuments(filter),
+    ]);
+
+    return { entries: entries.map(serialize), total };
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    throw new Error('Failed to fetch audit log');
+  }
+});
+
+/**
+ * Export the entries matching `query` as CSV, newest first
+ *
+ * Changes are flattened to one `field: before → after` line per field.
+ */
+export const exportAuditLogCSV = requireSession('audit')(async (
+  _user,
+  query: AuditLogQuery = {}
+): Promise<{ csv: string; count: number }> => {
+  try {
+    const collection = await getAuditLogCollection();
+    const entries = await collection
+      .find(buildFilter(query))
+      .sort({ timestamp: -1 })
+      .limit(MAX_EXPORT_ROWS)
+      .toArray();
+
+    const headers = ['timestamp', 'actorEmail', 'actorId', 'action', 'targetType', 'targetIds', 'summary', 'changes'];
+    const rows = entries.map(serialize).map(e =>
+      [
+        new Date(e.timestamp).toISOString(),
+        e.actorEmail,
+        e.actorId,
+        e.action,
+        e.targetType,
+        e.targetIds.join(' '),
+        e.summary,
+        e.changes
+          ?.map(c => `${c.field}: ${JSON.stringify(c.before) ?? '—'} → ${JSON.stringify(c.after) ?? '—'}`)
+          .join('\n'),
+      ]
+        .map(escapeCell)
+        .join(',')
+    );
+
+    const csv = [headers.join(','), ...rows].join('\n');
+    return { csv, count: entries.length };
+  } catch (error) {
+    console.error('Error exporting audit log:', error);
+    throw new Error('Failed to export audit log');
+  }
+});
@@ -16,7 +16,7 @@
  * @module actions/auth
  */
 
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import bcrypt from 'bcryptjs';
 import clientPromise from '@/lib/mongodb';
 import {
@@ -24,20 +24,35 @@ import {
   verifyToken,
   getSecureCookieOptions,
   getClearCookieOptions,
+  generateTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  needsTwoFactorSetup,
   JWT_CONFIG,
+  TWO_FACTOR_CHALLENGE,
   type SessionUser,
 } from '@/lib/auth';
 import {
   LoginRequestSchema,
+  SetPasswordSchema,
+  TwoFactorCodeSchema,
   safeValidate,
   formatValidationErrors,
 } from '@/lib/validation';
 import {
-  checkRateLimit,
-  getClientIdentifier,
+  checkSharedRateLimit,
+  getClientIdentifierFromHeaders,
   RateLimitPresets,
 } from '@/lib/rate-limiter';
-import { ObjectId } from 'mongodb';
+import { hashPasswordToken } from '@/lib/password-links';
+import { createSession, isSessionActive, revokeSession, revokeAllSessions } from '@/lib/sessions';
+import {
+  getLockedUntil,
+  recordLoginFailure,
+  clearLoginFailures,
+  type LoginFailureReason,
+} from '@/lib/login-guard';
+import { verifySecondFactor } from '@/lib/two-factor';
+import { ObjectId, type Document, type WithId } from 'mongodb';
 
 // ── Result types ────────────────────────────────────────────
 
@@ -45,6 +60,10 @@ interface LoginActionResult {
   readonly success: boolean;
   readonly error?: string;
   readonly rateLimitExceeded?: boolean;
+  /** Password accepted; call `verifyTwoFactorLoginAction` with a code */
+  readonly twoFactorRequired?: boolean;
+  /** The two-factor step timed out; start again from the password */
+  readonly twoFactorExpired?: boolean;
   readonly user?: {
     readonly id: string;
     readonly email: string;
@@ -58,6 +77,13 @@ interface SessionActionResult {
   readonly user: SessionUser | null;
 }
 
+interface SetPasswordActionResult {
+  readonly success: boolean;
+  readonly error?: string;
+  readonly rateLimitExceeded?: boolean;
+  readonly email?: string;
+}
+
 interface LogoutActionResult {
   readonly success: boolean;
   readonly error?: string;
@@ -66,12 +92,64 @@ interface LogoutActionResult {
 
 /**
  * Get client identifier for rate limiting in server actions
- * In production, you might want to use more sophisticated tracking
+ *
+ * Server actions have no request object, but the incoming headers are
+ * available via next/headers — so each caller gets its own bucket.
  */
-function getClientIdForAction(): string {
-  // For server actions, we'll use a simple identifier
-  // Note: Request context is not directly available in server actions
-  return 'server-action:general';
+async function getClientIdForAction(): Promise<string> {
+  return getClientIdentifierFromHeaders(await headers());
+}
+
+/**
+ * Seconds until a rate limit or lock ends, for user-facing messages
+ */
+function secondsUntil(timestamp: number): number {
+  return Math.max(1, Math.ceil((timestamp - Date.now()) / 1000));
+}
+
+/**
+ * Finish a login once every factor has been verified: open a
+ * server-side session, set the auth cookie and record the login.
+ */
+async function completeLogin(
+  user: WithId<Document>,
+  clientId: string,
+  userAgent?: string
+): Promise<LoginActionResult> {
+  // Open a server-side session and generate its JWT
+  const jti = await createSession({
+    userId: user._id.toString(),
+    maxAgeSeconds: JWT_CONFIG.COOKIE_MAX_AGE,
+    ip: clientId,
+    userAgent,
+  });
+
+  const token = generateToken({
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role ?? 'admin',
+    jti,
+  });
+
+  // Update last login (fire-and-forget)
+  const client = await clientPromise;
+  client.db('hackoverflow').collection('users')
+    .updateOne({ _id: user._id }, { $set: { lastLoginAt: new Date() } })
+    .catch((err) => console.error('Failed to update lastLoginAt:', err));
+
+  // Set HTTP-only cookie
+  const cookieStore = await cookies();
+  cookieStore.set(JWT_CONFIG.COOKIE_NAME, token, getSecureCookieOptions());
+
+  // Return success with user data
+  const userData = {
+    id: user._id.toString(),
+    email: user.email,
+    name: user.name,
+    role: user.role ?? 'admin',
+  };
+
+  return { success: true, user: userData };
 }
 
 // ── Login Action ────────────────────────────────────────────
@@ -87,14 +165,14 @@ export async function loginAction(
   password: string
 ): Promise<LoginActionResult> {
   try {
-    // Step 1: Rate limiting check
-    const clientId = getClientIdForAction();
-    const rateLimitResult = checkRateLimit(clientId, RateLimitPresets.LOGIN);
+    // Step 1: Per-IP rate limiting check
+    const clientId = await getClientIdForAction();
+    const rateLimitResult = await checkSharedRateLimit(clientId, RateLimitPresets.LOGIN);
     
     if (!rateLimitResult.allowed) {
       return {
         success: false,
-        error: `Too many login attempts. Try again in ${Math.ceil(rateLimitResult.resetTime / 1000)} seconds.`,
+        error: `Too many login attempts. Try again in ${secondsUntil(rateLimitResult.resetTime)} seconds.`,
         rateLimitExceeded: true,
       };
     }
@@ -110,7 +188,24 @@ export async function loginAction(
     const validatedEmail = validationResult.data.email;
     const validatedPassword = validationResult.data.password;
 
-    // Step 3: Find user in database
+    const userAgent = (await headers()).get('user-agent') ?? undefined;
+    const fail = async (reason: LoginFailureReason, error = 'Invalid credentials'): Promise<LoginActionResult> => {
+      await recordLoginFailure({ email: validatedEmail, ip: clientId, userAgent, reason });
+      return { success: false, error };
+    };
+
+    // Step 3: Per-account lockout check
+    const lockedUntil = await getLockedUntil(validatedEmail);
+    if (lockedUntil) {
+      await recordLoginFailure({ email: validatedEmail, ip: clientId, userAgent, reason: 'locked' });
+      return {
+        success: false,
+        error: `Too many failed attempts for this account. Try again in ${secondsUntil(lockedUntil.getTime())} seconds.`,
+        rateLimitExceeded: true,
+      };
+    }
+
+    // Step 4: Find user in database
     const client = await clientPromise;
     const db = client.db('hackoverflow');
 
@@ -124,52 +219,141 @@ export async function loginAction(
           name: 1,
           role: 1,
           isActive: 1,
+          'twoFactor.enabledAt': 1,
         },
       }
     );
 
     if (!user) {
-      return { success: false, error: 'Invalid credentials' };
+      return fail('unknown_email');
+    }
+
+    // Invited accounts have no password until the invite link is used
+    if (!user.password) {
+      return fail('no_password');
     }
 
-    // Step 4: Check if account is active
+    // Step 5: Check if account is active
     if (user.isActive === false) {
-      return { success: false, error: 'Account is deactivated' };
+      return fail('deactivated', 'Account is deactivated');
     }
 
-    // Step 5: Verify password
+    // Step 6: Verify password
     const isValidPassword = await bcrypt.compare(validatedPassword, user.password);
     if (!isValidPassword) {
-      return { success: false, error: 'Invalid credentials' };
+      return fail('bad_password');
+    }
+
+    // Step 7: Ask for the second factor if the account has 2FA enabled
+    if (user.twoFactor) {
+      const cookieStore = await cookies();
+      cookieStore.set(
+        TWO_FACTOR_CHALLENGE.COOKIE_NAME,
+        generateTwoFactorChallenge(user._id.toString()),
+        { ...getSecureCookieOptions(), maxAge: TWO_FACTOR_CHALLENGE.MAX_AGE }
+      );
+      return { success: false, twoFactorRequired: true };
+    }
+
+    // Step 8: Open the session
+    await clearLoginFailures(validatedEmail);
+    return await completeLogin(user, clientId, userAgent);
+  } catch (error) {
+    console.error('Login action error:', error);
+    return {
+      success: false,
+      error: 'An unexpected error occurred. Please try again.',
+    };
+  }
+}
+
+// ── Two-Factor Login Action ─────────────────────────────────
+
+/**
+ * Server Action: Second login step for accounts with 2FA enabled.
+ *
+ * Reads the short-lived challenge cookie set by `loginAction`, checks
+ * the authenticator or recovery code and opens the session. Wrong codes
+ * count towards the same per-account lockout as wrong passwords.
+ */
+export async function verifyTwoFactorLoginAction(code: string): Promise<LoginActionResult> {
+  try {
+    // Step 1: Per-IP rate limiting check
+    const clientId = await getClientIdForAction();
+    const rateLimitResult = await checkSharedRateLimit(clientId, RateLimitPresets.LOGIN);
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        error: `Too many login attempts. Try again in ${secondsUntil(rateLimitResult.resetTime)} seconds.`,
+        rateLimitExceeded: true,
+      };
     }
 
-    // Step 6: Generate JWT token
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role ?? 'admin',
-    });
+    // Step 2: Validate input with Zod
+    const validationResult = safeValidate(TwoFactorCodeSchema, code);
 
-    // Step 7: Update last login (fire-and-forget)
-    db.collection('users')
-      .updateOne({ _id: user._id }, { $set: { lastLoginAt: new Date() } })
-      .catch((err) => console.error('Failed to update lastLoginAt:', err));
+    if (!validationResult.success) {
+      const { message } = formatValidationErrors(validationResult.errors);
+      return { success: false, error: message };
+    }
 
-    // Step 8: Set HTTP-only cookie
+    // Step 3: Resolve the pending login from the challenge cookie
     const cookieStore = await cookies();
-    cookieStore.set(JWT_CONFIG.COOKIE_NAME, token, getSecureCookieOptions());
-
-    // Step 9: Return success with user data
-    const userData = {
-      id: user._id.toString(),
-      email: user.email,
-      name: user.name,
-      role: user.role ?? 'admin',
+    const challenge = cookieStore.get(TWO_FACTOR_CHALLENGE.COOKIE_NAME)?.value;
+    const userId = challenge ? verifyTwoFactorChallenge(challenge) : null;
+
+    const expired: LoginActionResult = {
+      success: false,
+      error: 'Your sign-in has expired. Please enter your password again.',
+      twoFactorExpired: true,
     };
 
-    return { success: true, user: userData };
+    if (!userId || !ObjectId.isValid(userId)) {
+      return expired;
+    }
+
+    const client = await clientPromise;
+    const user = await client.db('hackoverflow').collection('users').findOne(
+      { _id: new ObjectId(userId) },
+      { projection: { _id: 1, email: 1, name: 1, role: 1, isActive: 1, 'twoFactor.enabledAt': 1 } }
+    );
+
+    if (!user || user.isActive === false || !user.twoFactor) {
+      cookieStore.set(TWO_FACTOR_CHALLENGE.COOKIE_NAME, '', getClearCookieOptions());
+      return expired;
+    }
+
+    const userAgent = (await headers()).get('user-agent') ?? undefined;
+
+    // Step 4: Per-account lockout check
+    const lockedUntil = await getLockedUntil(user.email);
+    if (lockedUntil) {
+      await recordLoginFailure({ email: user.email, ip: clientId, userAgent, reason: 'locked' });
+      return {
+        success: false,
+        error: `Too many failed attempts for this account. Try again in ${secondsUntil(lockedUntil.getTime())} seconds.`,
+        rateLimitExceeded: true,
+      };
+    }
+
+    // Step 5: Verify the code
+    const method = await verifySecondFactor(user._id, validationResult.data);
+    if (!method) {
+      await recordLoginFailure({ email: user.email, ip: clientId, userAgent, reason: 'bad_2fa' });
+      return { success: false, error: 'Invalid authentication code' };
+    }
+
+    if (method === 'recovery') {
+      console.info(`Recovery code used to sign in as ${user.email}`);
+    }
+
+    // Step 6: Open the session
+    cookieStore.set(TWO_FACTOR_CHALLENGE.COOKIE_NAME, '', getClearCookieOptions());
+    await clearLoginFailures(user.email);
+    return await completeLogin(user, clientId, userAgent);
   } catch (error) {
-    console.error('Login action error:', error);
+    console.error('Two-factor login error:', error);
     return {
       success: false,
       error: 'An unexpected error occurred. Please try again.',
@@ -183,7 +367,8 @@ export async function loginAction(
  * Server Action: Verify the current session.
  *
  * Reads the auth cookie, verifies the JWT, and checks
- * that the user still exists and is active in the database.
+ * that the user still exists and is active in the database
+ * and that the token's session has not been revoked.
  */
 export async function checkSessionAction(): Promise<SessionActionResult> {
   try {
@@ -200,7 +385,7 @@ export async function checkSessionAction(): Promise<SessionActionResult> {
       return { authenticated: false, user: null };
     }
 
-    const { userId, email, role } = tokenResult.payload;
+    const { userId, email, role, jti } = tokenResult.payload;
 
     // Verify user in database
     const client = await clientPromise;
@@ -220,6 +405,11 @@ export async function checkSessionAction(): Promise<SessionActionResult> {
       return { authenticated: false, user: null };
     }
 
+    // Verify the session is still live
+    if (!(await isSessionActive(jti, userId))) {
+      return { authenticated: false, user: null };
+    }
+
     return {
       authenticated: true,
       user: {
@@ -227,6 +417,8 @@ export async function checkSessionAction(): Promise<SessionActionResult> {
         email: user.email,
         name: user.name,
         role: user.role ?? role,
+        sessionId: jti,
+        twoFactorSetupRequired: await needsTwoFactorSetup({ role: user.role ?? role, twoFactor: user.twoFactor }),
       },
     };
   } catch (error) {
@@ -235,34 +427,100 @@ export async function checkSessionAction(): Promise<SessionActionResult> {
   }
 }
 
+// ── Set Password Action ─────────────────────────────────────
+
+/**
+ * Server Action: Set a password from a one-time invite or reset link.
+ *
+ * The token is matched by hash and cleared in the same update, so each
+ * link works exactly once and only until it expires. The account's
+ * existing sessions are revoked, so a stolen session does not outlive
+ * the reset.
+ */
+export async function setPasswordAction(
+  token: string,
+  password: string
+): Promise<SetPasswordActionResult> {
+  try {
+    // Step 1: Rate limiting check
+    const clientId = await getClientIdForAction();
+    const rateLimitResult = await checkSharedRateLimit(clientId, RateLimitPresets.AUTH);
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        error: `Too many requests. Try again in ${secondsUntil(rateLimitResult.resetTime)} seconds.`,
+        rateLimitExceeded: true,
+      };
+    }
+
+    // Step 2: Validate input with Zod
+    const validationResult = safeValidate(SetPasswordSchema, { token, password });
+
+    if (!validationResult.success) {
+      const { message } = formatValidationErrors(validationResult.errors);
+      return { success: false, error: message };
+    }
+
+    // Step 3: Consume the token and store the new hash
+    const hashedPassword = await bcrypt.hash(validationResult.data.password, 12);
+
+    const client = await clientPromise;
+    const user = await client.db('hackoverflow').collection('users').findOneAndUpdate(
+      {
+        'passwordToken.hash': hashPasswordToken(validationResult.data.token),
+        'passwordToken.expiresAt': { $gt: new Date() },
+      },
+      {
+        $set: { password: hashedPassword, updatedAt: new Date() },
+        $unset: { passwordToken: '' },
+      },
+      { projection: { email: 1 } }
+    );
+
+    if (!user) {
+      return { success: false, error: 'This link is invalid or has expired' };
+    }
+
+    await revokeAllSessions(user._id.toString());
+
+    return { success: true, email: user.email };
+  } catch (error) {
+    console.error('Set password action error:', error);
+    return { success: false, error: 'An unexpected error occurred. Please try again.' };
+  }
+}
+
 // ── Logout Action ───────────────────────────────────────────
 
 /**
  * Server Action: Log out the current user.
  *
- * Clears the auth cookie by setting it to expire immediately with rate limiting.
+ * Revokes the token's session and clears the auth cookie by setting it
+ * to expire immediately, with rate limiting.
  */
 export async function logoutAction(): Promise<LogoutActionResult> {
   try {
     // Step 1: Rate limiting check
-    const clientId = getClientIdForAction();
-    const rateLimitResult = checkRateLimit(clientId, RateLimitPresets.AUTH);
+    const clientId = await getClientIdForAction();
+    const rateLimitResult = await checkSharedRateLimit(clientId, RateLimitPresets.AUTH);
     
     if (!rateLimitResult.allowed) {
       return {
         success: false,
-        error: `Too many requests. Try again in ${Math.ceil(rateLimitResult.resetTime / 1000)} seconds.`,
+        error: `Too many requests. Try again in ${secondsUntil(rateLimitResult.resetTime)} seconds.`,
         rateLimitExceeded: true,
       };
     }
 
     const cookieStore = await cookies();
 
-    // Step 2: Optionally log the logout
+    // Step 2: Revoke the session and log the logout
     const token = cookieStore.get(JWT_CONFIG.COOKIE_NAME)?.value;
     if (token) {
       const tokenResult = verifyToken(token);
       if (tokenResult.valid) {
+        await revokeSession(tokenResult.payload.jti, tokenResult.payload.userId);
         console.info(
           `[Logout] User ${tokenResult.payload.userId} (${tokenResult.payload.email}) logged out`
         );
@@ -279,3 +537,30 @@ export async function logoutAction(): Promise<LogoutActionResult> {
   }
 }
 
+// ── Logout Everywhere Action ────────────────────────────────
+
+/**
+ * Server Action: Log the current user out on every device.
+ *
+ * Revokes all of the user's sessions, including this one, and clears
+ * the auth cookie.
+ */
+export async function logoutEverywhereAction(): Promise<LogoutActionResult> {
+  try {
+    const session = await checkSessionAction();
+    if (!session.authenticated || !session.user) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const revoked = await revokeAllSessions(session.user.id);
+    console.info(`[Logout] User ${session.user.id} (${session.user.email}) logged out of ${revoked} session(s)`);
+
+    const cookieStore = await cookies();
+    cookieStore.set(JWT_CONFIG.COOKIE_NAME, '', getClearCookieOptions());
+
+    return { success: true };
+  } catch (error) {
+    console.error('Logout everywhere action error:', error);
+    return { success: false, error: 'An unexpected error occurred during logout' };
+  }
+}
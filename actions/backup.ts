@@ -3,6 +3,8 @@
 import { google } from 'googleapis';
 import { Readable } from 'stream';
 import { exportDatabaseAsCSV } from '@/actions/database';
+import { requireSession } from '@/lib/require-session';
+import { isUnauthorized } from '@/types';
 
 export interface BackupResult {
   count:    number;
@@ -39,8 +41,10 @@ async function uploadToDrive(csv: string, filename: string): Promise<string> {
   return response.data.webViewLink ?? `https://drive.google.com/file/d/${response.data.id}/view`;
 }
 
-export async function backupToDrive(): Promise<BackupResult> {
-  const { csv, count } = await exportDatabaseAsCSV();
+export const backupToDrive = requireSession('database')(async (): Promise<BackupResult> => {
+  const exported = await exportDatabaseAsCSV();
+  if (isUnauthorized(exported)) throw new Error(exported.error);
+  const { csv, count } = exported;
 
   const now      = new Date();
   const ts       = now.toISOString().replace(/[:.]/g, '-').slice(0, 19);
@@ -49,4 +53,4 @@ export async function backupToDrive(): Promise<BackupResult> {
   const driveUrl = await uploadToDrive(csv, filename);
 
   return { count, filename, driveUrl, time: now.toISOString() };
-}
\ No newline at end of file
+});
@@ -3,17 +3,14 @@
 import { getClient } from '@/lib/mongodb';
 import { DBParticipant } from '@/types';
 import { ObjectId } from 'mongodb';
+import { getMealSchedule } from '@/lib/event-config';
+import { requireSession } from '@/lib/require-session';
+import { recordAudit, AUDIT_LOG_COLLECTION } from '@/lib/audit-log';
+import { NOT_TRASHED } from '@/lib/trash';
 
 const DB_NAME = 'hackoverflow';
 const COLLECTION_NAME = 'participants';
 
-// ── Password ──────────────────────────────────────────────────────────────────
-const DB_PASSWORD = process.env.DB_PAGE_PASSWORD ?? 'hackoverflow-db-2024';
-
-export async function verifyDbPassword(password: string): Promise<boolean> {
-  return password === DB_PASSWORD;
-}
-
 // ── Helpers ───────────────────────────────────────────────────────────────────
 type ParticipantDocument = Omit<DBParticipant, '_id'> & {
   _id?: ObjectId;
@@ -61,11 +58,23 @@ const CSV_HEADERS = [
   'updatedAt',
 ] as const;
 
+/** Meal columns follow the fixed headers — one status + time pair per slot */
+const mealColumn     = (key: string) => `meal_${key}`;
+const mealTimeColumn = (key: string) => `meal_${key}Time`;
+
 // ── Export ────────────────────────────────────────────────────────────────────
-export async function exportDatabaseAsCSV(): Promise<{ csv: string; count: number }> {
+export const exportDatabaseAsCSV = requireSession('database')(async (): Promise<{ csv: string; count: number }> => {
   try {
     const collection = await getCollection();
-    const participants = await collection.find({}).sort({ createdAt: -1 }).toArray();
+    const [participants, schedule] = await Promise.all([
+      collection.find(NOT_TRASHED).sort({ createdAt: -1 }).toArray(),
+      getMealSchedule(),
+    ]);
+
+    const headers = [
+      ...CSV_HEADERS,
+      ...schedule.flatMap(slot => [mealColumn(slot.key), mealTimeColumn(slot.key)]),
+    ];
 
     const rows = participants.map(p =>
       [
@@ -89,18 +98,22 @@ export async function exportDatabaseAsCSV(): Promise<{ csv: string; count: numbe
         p.tempLabCheckOut?.time    ? new Date(p.tempLabCheckOut.time).toISOString()    : '',
         p.createdAt ? new Date(p.createdAt).toISOString() : '',
         p.updatedAt ? new Date(p.updatedAt).toISOString() : '',
+        ...schedule.flatMap(slot => [
+          p.meals?.[slot.key] ?? false,
+          p.mealTimes?.[slot.key] ? new Date(p.mealTimes[slot.key]).toISOString() : '',
+        ]),
       ]
         .map(escapeCell)
         .join(',')
     );
 
-    const csv = [CSV_HEADERS.join(','), ...rows].join('\n');
+    const csv = [headers.join(','), ...rows].join('\n');
     return { csv, count: participants.length };
   } catch (error) {
     console.error('Error exporting database:', error);
     throw new Error('Failed to export database');
   }
-}
+});
 
 // ── Import — upsert by participantId via bulkWrite ────────────────────────────
 export interface ImportResult {
@@ -109,15 +122,22 @@ export interface ImportResult {
   errors: string[];
 }
 
-export async function upsertParticipantsFromCSV(
+export const upsertParticipantsFromCSV = requireSession('database')(async (
+  user,
   headers: string[],
   rows: string[][]
-): Promise<ImportResult> {
+): Promise<ImportResult> => {
   try {
     const collection = await getCollection();
     const now = new Date();
     const errors: string[] = [];
 
+    // Meal columns are optional — only restore meals when the CSV carries them
+    const mealKeys = headers
+      .map(h => h.trim())
+      .filter(h => h.startsWith('meal_') && !h.endsWith('Time'))
+      .map(h => h.slice('meal_'.length));
+
     const ops = rows
       .map((row, idx) => {
         const obj: Record<string, string> = {};
@@ -162,12 +182,26 @@ export async function upsertParticipantsFromCSV(
           updatedAt: now,
         };
 
+        if (mealKeys.length > 0) {
+          doc.meals = Object.fromEntries(
+            mealKeys.map(k => [k, obj[mealColumn(k)] === 'true'])
+          );
+          doc.mealTimes = Object.fromEntries(
+            mealKeys
+              .filter(k => obj[mealTimeColumn(k)])
+              .map(k => [k, new Date(obj[mealTimeColumn(k)])])
+          );
+        }
+
         return {
           updateOne: {
             filter: { participantId },
             update: {
               $set: doc,
               $setOnInsert: { createdAt: doc.createdAt },
+              // Re-derive the check-in state from the restored flags, and
+              // bring back a trashed participant with the same ID
+              $unset: { checkInState: '', deletedAt: '', deletedBy: '' },
             },
             upsert: true,
           },
@@ -178,6 +212,14 @@ export async function upsertParticipantsFromCSV(
     if (ops.length === 0) return { upserted: 0, modified: 0, errors };
 
     const result = await collection.bulkWrite(ops as Parameters<typeof collection.bulkWrite>[0], { ordered: false });
+
+    await recordAudit(user, {
+      action: 'participant.import_csv',
+      targetType: 'participant',
+      targetIds: [],
+      summary: `CSV import: ${result.upsertedCount} inserted, ${result.modifiedCount} updated, ${errors.length} skipped of ${rows.length} row(s)`,
+    });
+
     return {
       upserted: result.upsertedCount,
       modified: result.modifiedCount,
@@ -189,34 +231,10 @@ export async function upsertParticipantsFromCSV(
       error instanceof Error ? error.message : 'Failed to import participants'
     );
   }
-}
-
-// ── Live stats ────────────────────────────────────────────────────────────────
-export interface DbStats {
-  total: number;
-  collegeCheckedIn: number;
-  labCheckedIn: number;
-  checkedOut: number;
-}
-
-export async function getDbStats(): Promise<DbStats> {
-  try {
-    const collection = await getCollection();
-    const [total, collegeCheckedIn, labCheckedIn, checkedOut] = await Promise.all([
-      collection.countDocuments(),
-      collection.countDocuments({ 'collegeCheckIn.status':  true }),
-      collection.countDocuments({ 'labCheckIn.status':      true }),
-      collection.countDocuments({ 'collegeCheckOut.status': true }),
-    ]);
-    return { total, collegeCheckedIn, labCheckedIn, checkedOut };
-  } catch (error) {
-    console.error('Error fetching DB stats:', error);
-    throw new Error('Failed to fetch database stats');
-  }
-}
+});
 
 // ── Data Browser — list all collections ──────────────────────────────────────
-export async function getCollections(): Promise<string[]> {
+export const getCollections = requireSession('database')(async (): Promise<string[]> => {
   try {
     const db = await getDb();
     const collections = await db.listCollections().toArray();
@@ -225,15 +243,16 @@ export async function getCollections(): Promise<string[]> {
     console.error('Error listing collections:', error);
     throw new Error('Failed to list collections');
   }
-}
+});
 
 // ── Data Browser — paginated documents with optional search ──────────────────
-export async function getCollectionDocuments(
+export const getCollectionDocuments = requireSession('database')(async (
+  _user,
   collectionName: string,
-  page = 1,
-  pageSize = 20,
-  search = ''
-): Promise<{ docs: Record<string, unknown>[]; total: number }> {
+  page: number = 1,
+  pageSize: number = 20,
+  search: string = ''
+): Promise<{ docs: Record<string, unknown>[]; total: number }> => {
   try {
     const db = await getDb();
     const col = db.collection(collectionName);
@@ -280,17 +299,29 @@ export async function getCollectionDocuments(
     console.error('Error fetching collection documents:', error);
     throw new Error('Failed to fetch documents');
   }
-}
+});
 
 // ── Drop an entire collection ─────────────────────────────────────────────────
-export async function deleteCollection(collectionName: string): Promise<void> {
+export const deleteCollection = requireSession('database')(async (user, collectionName: string): Promise<void> => {
   try {
+    if (collectionName === AUDIT_LOG_COLLECTION) {
+      throw new Error('The audit log cannot be deleted');
+    }
+
     const db = await getDb();
+    const count = await db.collection(collectionName).estimatedDocumentCount();
     await db.dropCollection(collectionName);
+
+    await recordAudit(user, {
+      action: 'collection.drop',
+      targetType: 'collection',
+      targetIds: [collectionName],
+      summary: `Dropped ${collectionName} (~${count} document(s))`,
+    });
   } catch (error) {
     console.error('Error dropping collection:', error);
     throw new Error(
       error instanceof Error ? error.message : 'Failed to delete collection'
     );
   }
-}
\ No newline at end of file
+});
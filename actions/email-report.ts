@@ -2,6 +2,7 @@
 
 import nodemailer from 'nodemailer';
 import type { BackupLogEntry } from '@/actions/backup-log';
+import type { EventStats } from '@/types';
 
 // ─── Snapshots ─────────────────────────────────────────────────────────────────
 
@@ -55,6 +56,10 @@ function relTime(iso: string): string {
   return `${Math.floor(diff / 3600)}h ago`;
 }
 
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
 function pingColor(ms: number | null): string {
   if (ms === null) return '#666';
   if (ms < 100)   return '#4ade80';
@@ -69,6 +74,7 @@ export async function sendHourlyBackupReport(
   recipient:  string,
   botConfig?: BotConfigSnapshot,
   botStatus?: BotStatusSnapshot,
+  eventStats?: EventStats,
 ): Promise<void> {
   const transporter = createTransport();
 
@@ -227,6 +233,44 @@ export async function sendHourlyBackupReport(
       </div>`;
   }
 
+  // ── Event Stats Section ─────────────────────────────────────────────────────
+  let eventStatsSection = '';
+  if (eventStats) {
+    const { funnel, teams, meals, institutes, states } = eventStats;
+    const pct = (n: number) => funnel.registered > 0 ? ` <span style="font-size:11px;color:rgba(255,255,255,0.3)">${Math.round(n / funnel.registered * 100)}%</span>` : '';
+
+    const funnelCells = [
+      { label: 'REGISTERED',  value: funnel.registered, color: '#fff',    share: '' },
+      { label: 'ARRIVED',     value: funnel.arrived,    color: '#4ade80', share: pct(funnel.arrived) },
+      { label: 'ENTERED LAB', value: funnel.enteredLab, color: '#4ade80', share: pct(funnel.enteredLab) },
+      { label: 'LEFT',        value: funnel.left,       color: '#facc15', share: pct(funnel.left) },
+      { label: 'TEAMS',       value: teams.total,       color: '#fff',    share: '' },
+    ].map(c => `
+      <td style="padding:12px 16px;border:1px solid rgba(255,255,255,0.08);text-align:center;">
+        <div style="font-family:monospace;font-size:10px;color:rgba(255,255,255,0.3);letter-spacing:0.1em;margin-bottom:4px">${c.label}</div>
+        <div style="font-family:monospace;font-size:18px;font-weight:900;color:${c.color}">${c.value}${c.share}</div>
+      </td>`).join('');
+
+    const line = (label: string, items: string[]) => items.length === 0 ? '' : `
+      <div style="font-family:monospace;font-size:11px;color:rgba(255,255,255,0.5);margin-top:8px;line-height:1.7">
+        <span style="color:rgba(255,255,255,0.3);letter-spacing:0.1em">${label}</span>&nbsp; ${items.join(' &middot; ')}
+      </div>`;
+
+    eventStatsSection = `
+      <!-- Event Stats Section -->
+      <div style="margin-top:12px;border:1px solid rgba(255,255,255,0.09);padding:20px 24px;">
+        <div style="font-family:monospace;font-size:10px;letter-spacing:0.14em;color:rgba(255,255,255,0.3);margin-bottom:4px">
+          EVENT SNAPSHOT
+        </div>
+        <table class="stat-table" style="border-collapse:separate;border-spacing:6px;margin-top:10px;">
+          <tbody><tr>${funnelCells}</tr></tbody>
+        </table>
+        ${line('MEALS', meals.map(m => `${escapeHtml(m.label)} ${m.collected}`))}
+        ${line('TOP INSTITUTES', institutes.slice(0, 5).map(i => `${escapeHtml(i.name)} ${i.arrived}/${i.registered}`))}
+        ${line('TOP STATES', states.slice(0, 5).map(st => `${escapeHtml(st.name)} ${st.arrived}/${st.registered}`))}
+      </div>`;
+  }
+
   // ── Full HTML ───────────────────────────────────────────────────────────────
   const html = `<!DOCTYPE html>
 <html lang="en">
@@ -269,6 +313,9 @@ export async function sendHourlyBackupReport(
       </table>
     </div>
 
+    <!-- Event Snapshot -->
+    ${eventStatsSection}
+
     <!-- Bot Runtime Status -->
     ${botStatusSection}
 
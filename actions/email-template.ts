@@ -38,13 +38,25 @@ const GRAD_BAR  = 'linear-gradient(90deg,#FCB216 0%,#E85D24 35%,#D91B57 70%,#632
 const GRAD_BTN  = 'linear-gradient(90deg,#FCB216 0%,#E85D24 40%,#D91B57 100%)';
 const GRAD_DIAG = 'linear-gradient(135deg,#FCB216 0%,#E85D24 30%,#D91B57 65%,#63205F 100%)';
 
-const GOLD  = '#FCB216';
-const ORG   = '#E85D24';
-const PINK  = '#D91B57';
-const WHITE = '#FFFFFF';
-const DARK  = '#0D0D0D';
-const CARD  = '#161616';
-const FOOT  = '#0A0A0A';
+// Shared with the post-event PDF report (utils/generate-report-pdf.ts)
+export const BRAND_PALETTE = {
+  gold:    '#FCB216',
+  orange:  '#E85D24',
+  pink:    '#D91B57',
+  plum:    '#63205F',
+  white:   '#FFFFFF',
+  dark:    '#0D0D0D',
+  card:    '#161616',
+  foot:    '#0A0A0A',
+} as const;
+
+const GOLD  = BRAND_PALETTE.gold;
+const ORG   = BRAND_PALETTE.orange;
+const PINK  = BRAND_PALETTE.pink;
+const WHITE = BRAND_PALETTE.white;
+const DARK  = BRAND_PALETTE.dark;
+const CARD  = BRAND_PALETTE.card;
+const FOOT  = BRAND_PALETTE.foot;
 
 // ─── Layout themes ────────────────────────────────────────────────────────────
 
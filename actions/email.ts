@@ -17,10 +17,14 @@
  * @module actions/email
  */
 
+import { headers } from 'next/headers';
 import { sendBatchEmails, isValidEmail } from '@/lib/email';
 import { checkSessionAction } from './auth';
+import { hasPermission } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit-log';
 import {
-  checkRateLimit,
+  checkSharedRateLimit,
+  getClientIdentifierFromHeaders,
   RateLimitPresets,
 } from '@/lib/rate-limiter';
 import type { Participant, EmailResult } from '@/types';
@@ -37,10 +41,11 @@ interface SendEmailActionResult {
 }
 
 /**
- * Get client identifier for rate limiting in server actions
+ * Rate limit key for a sender: client address plus account, so one
+ * user cannot use up the mailer quota of everyone else
  */
-function getClientIdForAction(): string {
-  return 'server-action:email';
+async function getClientIdForAction(userId: string): Promise<string> {
+  return `${getClientIdentifierFromHeaders(await headers())}:${userId}`;
 }
 
 /**
@@ -72,31 +77,40 @@ export async function sendEmailsAction(
   recipients: Participant[]
 ): Promise<SendEmailActionResult> {
   try {
-    // Step 1: Rate limiting check
-    const clientId = getClientIdForAction();
-    const rateLimitResult = checkRateLimit(clientId, RateLimitPresets.SEND_EMAIL);
-    
-    if (!rateLimitResult.allowed) {
+    // Step 1: Authentication check
+    const session = await checkSessionAction();
+    if (!session.authenticated || !session.user) {
       return {
         success: false,
-        message: `Too many email requests. Try again in ${Math.ceil(rateLimitResult.resetTime / 1000)} seconds.`,
+        message: 'Authentication required to send emails',
         sent: 0,
         failed: 0,
-        rateLimitExceeded: true,
       };
     }
 
-    // Step 2: Authentication check
-    const session = await checkSessionAction();
-    if (!session.authenticated) {
+    if (!hasPermission(session.user?.role, 'mailer')) {
       return {
         success: false,
-        message: 'Authentication required to send emails',
+        message: 'You do not have permission to send emails',
         sent: 0,
         failed: 0,
       };
     }
 
+    // Step 2: Rate limiting check, per sender
+    const clientId = await getClientIdForAction(session.user.id);
+    const rateLimitResult = await checkSharedRateLimit(clientId, RateLimitPresets.SEND_EMAIL);
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Too many email requests. Try again in ${Math.max(1, Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000))} seconds.`,
+        sent: 0,
+        failed: 0,
+        rateLimitExceeded: true,
+      };
+    }
+
     // Step 3: Input validation
     if (!subject?.trim()) {
       return { 
@@ -139,6 +153,14 @@ export async function sendEmailsAction(
     // Step 5: Send emails
     const result: EmailResult = await sendBatchEmails(subject, htmlContent, recipients);
 
+    await recordAudit(session.user, {
+      action: 'email.send_batch',
+      targetType: 'email',
+      targetIds: [],
+      summary: `"${subject}" to ${recipients.length} recipient(s): ${result.sent} sent, ${result.failed} failed`,
+      email: { subject, recipients: recipients.length, sent: result.sent, failed: result.failed },
+    });
+
     if (result.success) {
       return {
         success: true,
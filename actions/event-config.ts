@@ -0,0 +1,309 @@
+'use server';
+
+/**
+ * Event Configuration Server Actions
+ *
+ * Reads and writes the single event configuration document that holds
+ * settings which vary between editions — the meal schedule, the
+ * overdue temporary-exit alert settings, the admin security policy, the
+ * team size limits and the lab definitions.
+ *
+ * Every action requires a session. Cron routes and other server code
+ * read the configuration through lib/event-config instead.
+ *
+ * @module actions/event-config
+ */
+
+import {
+  MealScheduleSchema,
+  TempExitAlertSchema,
+  SecurityPolicySchema,
+  TeamSizeLimitsSchema,
+  LabDefinitionsSchema,
+  formatValidationErrors,
+} from '@/lib/validation';
+import type {
+  LabDefinition,
+  MealSlot,
+  SecurityPolicy,
+  TeamSizeLimits,
+  TempExitAlertSettings,
+} from '@/types';
+import { requireSession } from '@/lib/require-session';
+import { recordAudit, diffFields } from '@/lib/audit-log';
+import { getSecurityPolicy } from '@/lib/two-factor';
+import { hasPermission } from '@/lib/permissions';
+import {
+  getEventConfigCollection as getCollection,
+  getMealSchedule as readMealSchedule,
+  getTempExitAlertSettings as readTempExitAlertSettings,
+  getLabDefinitions as readLabDefinitions,
+  EVENT_CONFIG_DOC_ID as DOC_ID,
+} from '@/lib/event-config';
+
+/**
+ * Get the configured meal schedule
+ */
+export const getMealSchedule = requireSession('participants.read')(async (): Promise<MealSlot[]> => {
+  return readMealSchedule();
+});
+
+/**
+ * Replace the meal schedule
+ *
+ * Existing participant `meals.<key>` flags are left untouched, so
+ * renaming a slot's label is safe but changing its key orphans the
+ * flags recorded under the old key.
+ */
+export const updateMealSchedule = requireSession('settings')(async (
+  user,
+  meals: MealSlot[]
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const parsed = MealScheduleSchema.safeParse(meals);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationErrors(parsed.error).message };
+    }
+
+    const col = await getCollection();
+    const before = await col.findOneAndUpdate(
+      { _id: DOC_ID as never },
+      {
+        $set: {
+          meals:     parsed.data,
+          updatedAt: new Date(),
+          updatedBy: user.email,
+        },
+      },
+      { upsert: true, projection: { meals: 1 } }
+    );
+
+    await recordAudit(user, {
+      action: 'event_config.update',
+      targetType: 'event_config',
+      targetIds: [DOC_ID],
+      changes: diffFields(before ?? {}, { meals: parsed.data }, ['meals']),
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating meal schedule:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update meal schedule',
+    };
+  }
+});
+
+/**
+ * Get the overdue temporary-exit alert settings
+ */
+export const getTempExitAlertSettings = requireSession('checkin')(async (): Promise<TempExitAlertSettings> => {
+  return readTempExitAlertSettings();
+});
+
+/**
+ * Replace the overdue temporary-exit alert settings
+ */
+export const updateTempExitAlertSettings = requireSession('settings')(async (
+  user,
+  settings: TempExitAlertSettings
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const parsed = TempExitAlertSchema.safeParse(settings);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationErrors(parsed.error).message };
+    }
+
+    const col = await getCollection();
+    const before = await col.findOneAndUpdate(
+      { _id: DOC_ID as never },
+      {
+        $set: {
+          tempExitAlert: parsed.data,
+          updatedAt: new Date(),
+          updatedBy: user.email,
+        },
+      },
+      { upsert: true, projection: { tempExitAlert: 1 } }
+    );
+
+    await recordAudit(user, {
+      action: 'event_config.update',
+      targetType: 'event_config',
+      targetIds: [DOC_ID],
+      changes: diffFields(before ?? {}, { tempExitAlert: parsed.data }, ['tempExitAlert']),
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating temp exit alert settings:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update alert settings',
+    };
+  }
+});
+
+/**
+ * Get the admin security policy for the user management page
+ */
+export const getSecurityPolicyAction = requireSession('users')(async (): Promise<SecurityPolicy> => {
+  return getSecurityPolicy();
+});
+
+/**
+ * Replace the admin security policy
+ *
+ * Guarded by 'users' rather than 'settings' since it controls how
+ * dashboard accounts sign in.
+ */
+export const updateSecurityPolicy = requireSession('users')(async (
+  user,
+  policy: SecurityPolicy
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const parsed = SecurityPolicySchema.safeParse(policy);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationErrors(parsed.error).message };
+    }
+
+    const col = await getCollection();
+    const before = await col.findOneAndUpdate(
+      { _id: DOC_ID as never },
+      {
+        $set: {
+          security:  parsed.data,
+          updatedAt: new Date(),
+          updatedBy: user.email,
+        },
+      },
+      { upsert: true, projection: { security: 1 } }
+    );
+
+    await recordAudit(user, {
+      action: 'event_config.update',
+      targetType: 'event_config',
+      targetIds: [DOC_ID],
+      changes: diffFields(before ?? {}, { security: parsed.data }, ['security']),
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating security policy:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update security policy',
+    };
+  }
+});
+
+/**
+ * Replace the allowed team sizes
+ *
+ * Existing teams are not changed; the teams page flags any that fall
+ * outside the new limits.
+ */
+export const updateTeamSizeLimits = requireSession('settings')(async (
+  user,
+  limits: TeamSizeLimits
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const parsed = TeamSizeLimitsSchema.safeParse(limits);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationErrors(parsed.error).message };
+    }
+
+    const col = await getCollection();
+    const before = await col.findOneAndUpdate(
+      { _id: DOC_ID as never },
+      {
+        $set: {
+          teamSize:  parsed.data,
+          updatedAt: new Date(),
+          updatedBy: user.email,
+        },
+      },
+      { upsert: true, projection: { teamSize: 1 } }
+    );
+
+    await recordAudit(user, {
+      action: 'event_config.update',
+      targetType: 'event_config',
+      targetIds: [DOC_ID],
+      changes: diffFields(before ?? {}, { teamSize: parsed.data }, ['teamSize']),
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating team size limits:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update team size limits',
+    };
+  }
+});
+
+/**
+ * Get the defined labs
+ *
+ * WiFi passwords are only returned to roles that may edit the labs.
+ */
+export const getLabDefinitions = requireSession('participants.read')(async (user): Promise<LabDefinition[]> => {
+  const labs = await readLabDefinitions();
+  if (hasPermission(user.role, 'settings')) return labs;
+  return labs.map(lab => ({ ...lab, wifiPassword: undefined }));
+});
+
+/**
+ * Replace the lab definitions
+ *
+ * Participants keep their `labAllotted`; those in a lab that no longer
+ * exists are seated again by the next allocation run.
+ */
+export const updateLabDefinitions = requireSession('settings')(async (
+  user,
+  labs: LabDefinition[]
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const parsed = LabDefinitionsSchema.safeParse(labs);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationErrors(parsed.error).message };
+    }
+
+    // Empty WiFi fields are stored as absent so they don't overwrite credentials on allocation
+    const cleaned = parsed.data.map(({ wifiSsid, wifiPassword, ...lab }) => ({
+      ...lab,
+      ...(wifiSsid && { wifiSsid }),
+      ...(wifiPassword && { wifiPassword }),
+    }));
+
+    const col = await getCollection();
+    const before = await col.findOneAndUpdate(
+      { _id: DOC_ID as never },
+      {
+        $set: {
+          labs:      cleaned,
+          updatedAt: new Date(),
+          updatedBy: user.email,
+        },
+      },
+      { upsert: true, projection: { labs: 1 } }
+    );
+
+    await recordAudit(user, {
+      action: 'event_config.update',
+      targetType: 'event_config',
+      targetIds: [DOC_ID],
+      changes: diffFields(before ?? {}, { labs: cleaned }, ['labs']),
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating lab definitions:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update lab definitions',
+    };
+  }
+});
@@ -1,6 +1,7 @@
 'use server';
 
 import { checkSessionAction } from './auth';
+import { hasPermission } from '@/lib/permissions';
 import { assembleEmailHtml, type EmailContent } from './email-template';
 export type { EmailContent } from './email-template';
 
@@ -148,6 +149,7 @@ export async function generateEmailAction(
   try {
     const session = await checkSessionAction();
     if (!session.authenticated) return { success: false, error: 'Authentication required' };
+    if (!hasPermission(session.user?.role, 'mailer')) return { success: false, error: 'Mailer access required' };
     if (!subject?.trim())        return { success: false, error: 'Subject is required' };
     if (!brief?.trim())          return { success: false, error: 'Email brief is required' };
     if (brief.length > 3000)     return { success: false, error: 'Brief too long (max 3000 chars)' };
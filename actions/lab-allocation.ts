@@ -0,0 +1,196 @@
+'use server';
+
+/**
+ * Lab Allocation Server Actions
+ *
+ * Seat teams in the labs defined in the event config, filling each
+ * member's `labAllotted` and `wifiCredentials`. The plan is computed by
+ * lib/lab-allocation; `previewLabAllocation` returns it without writing
+ * and `applyLabAllocation` recomputes it from current data and writes it,
+ * so an apply never acts on a stale preview.
+ *
+ * Participants who have left the event take no seat and are not moved.
+ * A reset also takes teams it cannot seat out of their old lab, so the
+ * data always matches the plan.
+ *
+ * @module actions/lab-allocation
+ */
+
+import { ObjectId } from 'mongodb';
+import clientPromise from '@/lib/mongodb';
+import { requireSession } from '@/lib/require-session';
+import { recordAudit } from '@/lib/audit-log';
+import { NOT_TRASHED } from '@/lib/trash';
+import { getTeamsCollection } from '@/lib/teams';
+import { deriveCheckInState } from '@/lib/checkin';
+import { planLabAllocation, needsUpdate, labAssignment, hasLabWifi, type AllocationResult, type AllocationUnit } from '@/lib/lab-allocation';
+import { LabAllocationOptionsSchema, formatValidationErrors } from '@/lib/validation';
+import { getLabDefinitions } from '@/lib/event-config';
+import type { CheckInState, DBParticipant, LabAllocationOptions, LabAllocationPlan, LabDefinition } from '@/types';
+
+type ParticipantDocument = Omit<DBParticipant, '_id'> & { _id?: ObjectId };
+
+interface LabAllocationResult {
+  success: boolean;
+  error?: string;
+  plan?: LabAllocationPlan;
+}
+
+/** States in which a participant is physically in their lab */
+const IN_LAB_STATES: CheckInState[] = ['in-lab', 'temp-out'];
+
+async function getParticipantsCollection() {
+  const client = await clientPromise;
+  return client.db('hackoverflow').collection<ParticipantDocument>('participants');
+}
+
+/** Most frequent non-empty value, or undefined */
+function mostCommon(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const v of values) if (v) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Current teams and participants as allocation units
+ */
+async function loadUnits(): Promise<AllocationUnit[]> {
+  const [teamsCol, participants] = await Promise.all([getTeamsCollection(), getParticipantsCollection()]);
+  const [teams, docs] = await Promise.all([
+    teamsCol.find({}).toArray(),
+    participants.find(NOT_TRASHED).toArray(),
+  ]);
+
+  const teamsById = new Map(teams.map(t => [t.teamId, t]));
+  const grouped = new Map<string, ParticipantDocument[]>();
+  const units: AllocationUnit[] = [];
+
+  for (const doc of docs) {
+    if (deriveCheckInState(doc) === 'left') continue;
+    if (doc.teamId && teamsById.has(doc.teamId)) {
+      grouped.set(doc.teamId, [...(grouped.get(doc.teamId) ?? []), doc]);
+    } else {
+      units.push(toUnit(doc.participantId, `${doc.name} (${doc.participantId})`, [doc], doc.labAllotted));
+    }
+  }
+
+  for (const [teamId, members] of grouped) {
+    const team = teamsById.get(teamId)!;
+    const currentLab = team.labAllotted || mostCommon(members.map(m => m.labAllotted));
+    units.push({ ...toUnit(teamId, `${teamId} · ${team.name}`, members, currentLab), teamId });
+  }
+
+  return units;
+}
+
+function toUnit(key: string, label: string, docs: ParticipantDocument[], currentLab?: string): AllocationUnit {
+  return {
+    key,
+    label,
+    currentLab,
+    pinned: docs.some(d => IN_LAB_STATES.includes(deriveCheckInState(d))),
+    members: docs.flatMap(d => (d._id ? [{
+      id: d._id.toString(),
+      institute: d.institute,
+      labAllotted: d.labAllotted,
+      wifiSsid: d.wifiCredentials?.ssid,
+      wifiPassword: d.wifiCredentials?.password,
+    }] : [])),
+  };
+}
+
+async function plan(options: LabAllocationOptions): Promise<(AllocationResult & { labs: LabDefinition[] }) | { error: string }> {
+  const parsed = LabAllocationOptionsSchema.safeParse(options);
+  if (!parsed.success) return { error: formatValidationErrors(parsed.error).message };
+
+  const labs = await getLabDefinitions();
+  if (labs.length === 0) return { error: 'Define at least one lab first' };
+
+  return { ...planLabAllocation(labs, await loadUnits(), parsed.data), labs };
+}
+
+/**
+ * Compute an allocation without changing anything
+ */
+export const previewLabAllocation = requireSession('participants.write')(async (
+  _user,
+  options: LabAllocationOptions
+): Promise<LabAllocationResult> => {
+  try {
+    const result = await plan(options);
+    if ('error' in result) return { success: false, error: result.error };
+    return { success: true, plan: result.plan };
+  } catch (error) {
+    console.error('Error previewing lab allocation:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to plan lab allocation' };
+  }
+});
+
+/**
+ * Compute an allocation and write it to participants and teams
+ */
+export const applyLabAllocation = requireSession('participants.write')(async (
+  user,
+  options: LabAllocationOptions
+): Promise<LabAllocationResult> => {
+  try {
+    const result = await plan(options);
+    if ('error' in result) return { success: false, error: result.error };
+
+    const [participants, teams] = await Promise.all([getParticipantsCollection(), getTeamsCollection()]);
+    const { labs } = result;
+    const now = new Date();
+
+    for (const lab of labs) {
+      const units = result.placements.get(lab.name) ?? [];
+      const ids = units.flatMap(u => u.members.filter(m => needsUpdate(m, lab)).map(m => new ObjectId(m.id)));
+
+      if (ids.length > 0) {
+        await participants.updateMany(
+          { _id: { $in: ids } },
+          {
+            $set: { ...labAssignment(lab), updatedAt: now },
+          }
+        );
+      }
+
+      const teamIds = units.flatMap(u => (u.teamId ? [u.teamId] : []));
+      if (teamIds.length > 0) {
+        await teams.updateMany({ teamId: { $in: teamIds } }, { $set: { labAllotted: lab.name, updatedAt: now } });
+      }
+    }
+
+    // Units a reset could not seat lose their old lab and its WiFi details
+    const labsByName = new Map(labs.map(l => [l.name, l]));
+    const releasedMembers = result.released.flatMap(u => u.members);
+    const unseatIds = releasedMembers.filter(m => m.labAllotted).map(m => new ObjectId(m.id));
+    const wifiIds = releasedMembers
+      .filter(m => hasLabWifi(m, labsByName.get(m.labAllotted ?? '')))
+      .map(m => new ObjectId(m.id));
+
+    if (unseatIds.length > 0) {
+      await participants.updateMany({ _id: { $in: unseatIds } }, { $unset: { labAllotted: '' }, $set: { updatedAt: now } });
+    }
+    if (wifiIds.length > 0) {
+      await participants.updateMany({ _id: { $in: wifiIds } }, { $unset: { wifiCredentials: '' } });
+    }
+
+    const releasedTeamIds = result.released.flatMap(u => (u.teamId ? [u.teamId] : []));
+    if (releasedTeamIds.length > 0) {
+      await teams.updateMany({ teamId: { $in: releasedTeamIds } }, { $unset: { labAllotted: '' }, $set: { updatedAt: now } });
+    }
+
+    const { moves, unplaced, changedParticipants } = result.plan;
+    await recordAudit(user, {
+      action: 'lab_allocation.apply',
+      targetType: 'lab_allocation',
+      targetIds: labs.map(l => l.name),
+      summary: `${options.mode}: ${moves.length} move(s), ${changedParticipants} participant(s) updated, ${unplaced.length} left unplaced`,
+    });
+
+    return { success: true, plan: result.plan };
+  } catch (error) {
+    console.error('Error applying lab allocation:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to apply lab allocation' };
+  }
+});
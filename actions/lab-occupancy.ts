@@ -0,0 +1,154 @@
+'use server';
+
+/**
+ * Lab Occupancy Server Actions
+ *
+ * Live per-lab headcounts computed with a single aggregation over the
+ * participants collection, so the occupancy view never loads every
+ * participant into the browser.
+ *
+ * @module actions/lab-occupancy
+ */
+
+import clientPromise from '@/lib/mongodb';
+import { requireSession } from '@/lib/require-session';
+import { NOT_TRASHED } from '@/lib/trash';
+import { CHECKIN_STATE_EXPRESSION } from '@/lib/checkin';
+import { getLabDefinitions } from '@/lib/event-config';
+import type { LabOccupancy, LabOccupancyOverview, LabOccupant } from '@/types';
+
+/** Label for participants in a lab with no allotment and no scanned lab */
+const UNKNOWN_LAB = 'UNALLOTTED';
+
+const IN_LAB = ['in-lab', 'temp-out'];
+
+interface AllottedRow { _id: string | null; allotted: number; awaiting: number; checkedOut: number }
+interface PresentRow { _id: string | null; inLab: number; tempOut: number }
+interface OccupantRow extends Omit<LabOccupant, '_id'> { _id: unknown; physicalLab: string | null }
+
+const OCCUPANT_PROJECTION = {
+  participantId: 1, name: 1, teamName: 1, labAllotted: 1, scannedLab: 1, physicalLab: 1, since: 1,
+};
+
+const toOccupant = (row: OccupantRow): LabOccupant => ({
+  _id: String(row._id),
+  participantId: row.participantId,
+  name: row.name,
+  teamName: row.teamName,
+  labAllotted: row.labAllotted,
+  scannedLab: row.scannedLab,
+  since: row.since,
+});
+
+/**
+ * Headcounts, temporarily-out members and wrong-lab participants per lab
+ *
+ * Defined labs are always listed, in config order; any other lab names
+ * found on participants follow alphabetically.
+ */
+export const getLabOccupancy = requireSession('participants.read')(async (): Promise<LabOccupancyOverview> => {
+  try {
+    const client = await clientPromise;
+    const collection = client.db('hackoverflow').collection('participants');
+
+    const [result] = await collection.aggregate<{
+      allotted: AllottedRow[];
+      present: PresentRow[];
+      tempOut: OccupantRow[];
+      wrongLab: OccupantRow[];
+    }>([
+      { $match: NOT_TRASHED },
+      {
+        $project: {
+          participantId: 1,
+          name: 1,
+          teamName: 1,
+          labAllotted: 1,
+          scannedLab: '$labCheckIn.lab',
+          state: CHECKIN_STATE_EXPRESSION,
+          since: {
+            $cond: [
+              { $eq: [CHECKIN_STATE_EXPRESSION, 'temp-out'] },
+              '$tempLabCheckOut.time',
+              '$labCheckIn.time',
+            ],
+          },
+        },
+      },
+      { $addFields: { physicalLab: { $ifNull: ['$scannedLab', '$labAllotted'] } } },
+      {
+        $facet: {
+          allotted: [
+            { $match: { labAllotted: { $nin: [null, ''] }, state: { $ne: 'left' } } },
+            {
+              $group: {
+                _id: '$labAllotted',
+                allotted:   { $sum: 1 },
+                awaiting:   { $sum: { $cond: [{ $in: ['$state', ['not-arrived', 'on-campus']] }, 1, 0] } },
+                checkedOut: { $sum: { $cond: [{ $eq: ['$state', 'lab-out'] }, 1, 0] } },
+              },
+            },
+          ],
+          present: [
+            { $match: { state: { $in: IN_LAB } } },
+            {
+              $group: {
+                _id: '$physicalLab',
+                inLab:   { $sum: { $cond: [{ $eq: ['$state', 'in-lab'] }, 1, 0] } },
+                tempOut: { $sum: { $cond: [{ $eq: ['$state', 'temp-out'] }, 1, 0] } },
+              },
+            },
+          ],
+          tempOut: [
+            { $match: { state: 'temp-out' } },
+            { $sort: { since: 1 } },
+            { $project: OCCUPANT_PROJECTION },
+          ],
+          wrongLab: [
+            {
+              $match: {
+                state: { $in: IN_LAB },
+                scannedLab: { $nin: [null, ''] },
+                $expr: { $ne: ['$scannedLab', '$labAllotted'] },
+              },
+            },
+            { $sort: { name: 1 } },
+            { $project: OCCUPANT_PROJECTION },
+          ],
+        },
+      },
+    ]).toArray();
+
+    const labs = await getLabDefinitions();
+    const byName = new Map<string, LabOccupancy>();
+    const entry = (name: string | null | undefined): LabOccupancy => {
+      const lab = name || UNKNOWN_LAB;
+      let occupancy = byName.get(lab);
+      if (!occupancy) {
+        occupancy = {
+          lab, allotted: 0, awaiting: 0, checkedOut: 0, inLab: 0, tempOut: 0, tempOutMembers: [], wrongLab: [],
+        };
+        byName.set(lab, occupancy);
+      }
+      return occupancy;
+    };
+
+    for (const lab of labs) entry(lab.name).capacity = lab.capacity;
+
+    for (const { _id, ...counts } of result.allotted) Object.assign(entry(_id), counts);
+    for (const { _id, ...counts } of result.present) Object.assign(entry(_id), counts);
+    for (const row of result.tempOut) entry(row.physicalLab).tempOutMembers.push(toOccupant(row));
+    for (const row of result.wrongLab) entry(row.physicalLab).wrongLab.push(toOccupant(row));
+
+    const defined = new Set(labs.map(l => l.name));
+    const extra = [...byName.values()].filter(o => !defined.has(o.lab)).sort((a, b) => a.lab.localeCompare(b.lab));
+
+    return {
+      labs: [...labs.map(l => byName.get(l.name)!), ...extra],
+      generatedAt: new Date(),
+    };
+  } catch (error) {
+    console.error('Error fetching lab occupancy:', error);
+    throw new Error('Failed to fetch lab occupancy');
+  }
+});
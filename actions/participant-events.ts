@@ -0,0 +1,56 @@
+'use server';
+
+/**
+ * Participant Event Server Actions
+ *
+ * Read access to the check-in movement log written by
+ * `updateCheckInStatus`.
+ *
+ * @module actions/participant-events
+ */
+
+import type { Filter } from 'mongodb';
+import { getParticipantEventsCollection } from '@/lib/participant-events';
+import { requireSession } from '@/lib/require-session';
+import type { ParticipantEvent, ParticipantEventQuery } from '@/types';
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT     = 1000;
+
+/**
+ * Query movement events by participant, team and/or time range
+ *
+ * Results are ordered oldest first so they read as a timeline.
+ */
+export const getParticipantEvents = requireSession('participants.read')(async (
+  _user,
+  query: ParticipantEventQuery = {}
+): Promise<ParticipantEvent[]> => {
+  try {
+    const collection = await getParticipantEventsCollection();
+
+    const filter: Filter<Omit<ParticipantEvent, '_id'>> = {};
+    if (query.participantId) filter.participantId = query.participantId;
+    if (query.teamName)      filter.teamName      = query.teamName;
+
+    if (query.from || query.to) {
+      filter.timestamp = {
+        ...(query.from && { $gte: new Date(query.from) }),
+        ...(query.to   && { $lt:  new Date(query.to) }),
+      };
+    }
+
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    const events = await collection
+      .find(filter)
+      .sort({ timestamp: 1 })
+      .limit(limit)
+      .toArray();
+
+    return events.map(e => ({ ...e, _id: e._id.toString() }));
+  } catch (error) {
+    console.error('Error fetching participant events:', error);
+    return [];
+  }
+});
@@ -1,8 +1,32 @@
 'use server';
 
 import clientPromise from '@/lib/mongodb';
-import { DBParticipant } from '@/types';
-import { ObjectId, WithId, Document } from 'mongodb';
+import {
+  DBParticipant,
+  CheckInState,
+  CheckInType,
+  Trashed,
+  ParticipantCounts,
+  ParticipantFilter,
+  ParticipantQuery,
+  ParticipantQueryResult,
+} from '@/types';
+import {
+  CHECKIN_FLAG_FIELDS,
+  deriveCheckInState,
+  describeInvalidTransition,
+  getNextCheckInState,
+} from '@/lib/checkin';
+import { recordParticipantEvent } from '@/lib/participant-events';
+import { recordAudit, diffFields } from '@/lib/audit-log';
+import { NOT_TRASHED, IN_TRASH, trashFields, restoreUpdate, getPurgeDate } from '@/lib/trash';
+import { ObjectId, WithId, Document, Collection } from 'mongodb';
+import { getMealSchedule, getTeamSizeLimits } from '@/lib/event-config';
+import { getTeamsCollection } from '@/lib/teams';
+import { requireSession } from '@/lib/require-session';
+import { ParticipantQuerySchema, formatValidationErrors } from '@/lib/validation';
+import { ensureParticipantIndexes, buildParticipantFilter, cursorFilter, encodeCursor } from '@/lib/participant-query';
+import { getEventStats } from '@/lib/event-stats';
 
 const DB_NAME = 'hackoverflow';
 const COLLECTION_NAME = 'participants';
@@ -14,6 +38,18 @@ type ParticipantDocument = Omit<DBParticipant, '_id'> & {
   _id?: ObjectId;
 };
 
+/**
+ * Result of a meal redemption attempt
+ */
+export interface MealRedemptionResult {
+  success: boolean;
+  error?: string;
+  /** True when the slot had already been redeemed before this scan */
+  alreadyCollected?: boolean;
+  collectedAt?: Date;
+  participant?: DBParticipant;
+}
+
 /**
  * Get database collection
  */
@@ -24,13 +60,13 @@ async function getCollection() {
 }
 
 /**
- * Get all participants from database
+ * Get all participants from database (excluding the trash)
  */
-export async function getParticipants(): Promise<DBParticipant[]> {
+export const getParticipants = requireSession('participants.read')(async (): Promise<DBParticipant[]> => {
   try {
     const collection = await getCollection();
     const participants = await collection
-      .find({})
+      .find(NOT_TRASHED)
       .sort({ createdAt: -1 })
       .toArray();
 
@@ -42,15 +78,90 @@ export async function getParticipants(): Promise<DBParticipant[]> {
     console.error('Error fetching participants:', error);
     throw new Error('Failed to fetch participants');
   }
-}
+});
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * One page of participants matching a filter and search
+ *
+ * Filters map onto indexed fields; search is a case-insensitive match
+ * applied on top of them. Pass `nextCursor` back as `cursor` for the next
+ * page, and `limit: 0` to get only the total.
+ */
+export const queryParticipants = requireSession('participants.read')(async (
+  _user,
+  query: ParticipantQuery = {}
+): Promise<ParticipantQueryResult> => {
+  const parsed = ParticipantQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    throw new Error(formatValidationErrors(parsed.error).message);
+  }
+
+  try {
+    const { filter, search, cursor, projection } = parsed.data;
+    const sort = parsed.data.sort ?? { field: 'createdAt', direction: 'desc' };
+    const limit = parsed.data.limit ?? DEFAULT_PAGE_SIZE;
+
+    const collection = await getCollection();
+    await ensureParticipantIndexes(collection as unknown as Collection<Document>);
+
+    const base = buildParticipantFilter(filter as ParticipantFilter, search);
+    const total = await collection.countDocuments(base);
+    if (limit === 0) return { participants: [], total };
+
+    const pageFilter = cursor ? { $and: [base, cursorFilter(cursor, sort.field, sort.direction)] } : base;
+    const order = sort.direction === 'asc' ? 1 : -1;
+
+    // One extra row tells us whether there is a next page
+    const docs = await collection
+      .find(pageFilter, {
+        sort: { [sort.field]: order, _id: order },
+        limit: limit + 1,
+        ...(projection && { projection: Object.fromEntries([...projection, sort.field].map(f => [f, 1])) }),
+      })
+      .toArray();
+
+    const page = docs.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      participants: page.map(p => ({ ...p, _id: p._id?.toString() } as DBParticipant)),
+      total,
+      ...(docs.length > limit && last && { nextCursor: encodeCursor(last[sort.field], last._id!) }),
+    };
+  } catch (error) {
+    console.error('Error querying participants:', error);
+    throw new Error(error instanceof Error && error.message === 'Invalid cursor' ? error.message : 'Failed to query participants');
+  }
+});
+
+/**
+ * Headcounts by check-in state, meal slot and lab, from the shared stats cache
+ */
+export const getParticipantCounts = requireSession('participants.read')(async (): Promise<ParticipantCounts> => {
+  try {
+    const stats = await getEventStats();
+    return {
+      total: stats.total,
+      byState: stats.byState,
+      meals: Object.fromEntries(stats.meals.map(m => [m.key, m.collected])),
+      labs: Object.fromEntries(stats.labs.map(l => [l.name, l.registered])),
+      teams: stats.teams.total,
+    };
+  } catch (error) {
+    console.error('Error counting participants:', error);
+    throw new Error('Failed to count participants');
+  }
+});
 
 /**
  * Get a single participant by ID
  */
-export async function getParticipantById(id: string): Promise<DBParticipant | null> {
+export const getParticipantById = requireSession('participants.read')(async (_user, id: string): Promise<DBParticipant | null> => {
   try {
     const collection = await getCollection();
-    const participant = await collection.findOne({ _id: new ObjectId(id) });
+    const participant = await collection.findOne({ _id: new ObjectId(id), ...NOT_TRASHED });
 
     if (!participant) return null;
 
@@ -62,14 +173,15 @@ export async function getParticipantById(id: string): Promise<DBParticipant | nu
     console.error('Error fetching participant:', error);
     return null;
   }
-}
+});
 
 /**
  * Create multiple participants from CSV upload
  */
-export async function createParticipants(
+export const createParticipants = requireSession('participants.write')(async (
+  user,
   participants: Omit<DBParticipant, '_id' | 'createdAt' | 'updatedAt'>[]
-): Promise<{ success: boolean; count: number; error?: string }> {
+): Promise<{ success: boolean; count: number; error?: string }> => {
   try {
     const collection = await getCollection();
 
@@ -80,12 +192,20 @@ export async function createParticipants(
       collegeCheckOut: p.collegeCheckOut || { status: false },
       labCheckOut: p.labCheckOut || { status: false },
       tempLabCheckOut: p.tempLabCheckOut || { status: false },
+      checkInState: deriveCheckInState(p),
       createdAt: new Date(),
       updatedAt: new Date(),
     }));
 
     const result = await collection.insertMany(participantsWithTimestamps);
 
+    await recordAudit(user, {
+      action: 'participant.create',
+      targetType: 'participant',
+      targetIds: Object.values(result.insertedIds).map(String),
+      summary: `Created ${result.insertedCount} participant(s)`,
+    });
+
     return {
       success: true,
       count: result.insertedCount,
@@ -98,32 +218,85 @@ export async function createParticipants(
       error: error instanceof Error ? error.message : 'Failed to create participants',
     };
   }
+});
+
+/**
+ * Team membership is by reference: `teamName` is never written directly
+ * but copied from the team named by `teamId`, which must exist and have
+ * room. An empty or unchanged `teamId` leaves the membership as it is —
+ * members are removed from a team on the teams page.
+ */
+async function resolveTeamUpdate(
+  id: string,
+  updates: Partial<Omit<DBParticipant, '_id' | 'createdAt'>>
+): Promise<{ updates: Partial<Omit<DBParticipant, '_id' | 'createdAt'>> } | { error: string }> {
+  const resolved = { ...updates };
+  delete resolved.teamName;
+
+  const teamId = resolved.teamId?.trim();
+  delete resolved.teamId;
+  if (!teamId) {
+    return { updates: resolved };
+  }
+
+  const [teams, collection, limits] = await Promise.all([getTeamsCollection(), getCollection(), getTeamSizeLimits()]);
+  const current = await collection.findOne({ _id: new ObjectId(id) }, { projection: { teamId: 1 } });
+  if (current?.teamId === teamId) {
+    return { updates: resolved };
+  }
+
+  const team = await teams.findOne({ teamId });
+  if (!team) {
+    return { error: `No team with ID ${teamId} — create it on the Teams page first` };
+  }
+
+  const others = await collection.countDocuments({ teamId, _id: { $ne: new ObjectId(id) }, ...NOT_TRASHED });
+  if (others + 1 > limits.maxSize) {
+    return { error: `${teamId} already has ${others} members — the maximum is ${limits.maxSize}` };
+  }
+
+  return { updates: { ...resolved, teamId, teamName: team.name } };
 }
 
 /**
  * Update a participant
  */
-export async function updateParticipant(
+export const updateParticipant = requireSession('participants.write')(async (
+  user,
   id: string,
   updates: Partial<Omit<DBParticipant, '_id' | 'createdAt'>>
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string }> => {
   try {
     const collection = await getCollection();
 
-    const result = await collection.updateOne(
-      { _id: new ObjectId(id) },
+    const team = await resolveTeamUpdate(id, updates);
+    if ('error' in team) {
+      return { success: false, error: team.error };
+    }
+    updates = team.updates;
+
+    const before = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id), ...NOT_TRASHED },
       {
         $set: {
           ...updates,
           updatedAt: new Date(),
         },
-      }
+      },
+      { returnDocument: 'before' }
     );
 
-    if (result.matchedCount === 0) {
+    if (!before) {
       return { success: false, error: 'Participant not found' };
     }
 
+    await recordAudit(user, {
+      action: 'participant.update',
+      targetType: 'participant',
+      targetIds: [id],
+      changes: diffFields(before, { ...before, ...updates }, Object.keys(updates)),
+    });
+
     return { success: true };
   } catch (error) {
     console.error('Error updating participant:', error);
@@ -132,21 +305,31 @@ export async function updateParticipant(
       error: error instanceof Error ? error.message : 'Failed to update participant',
     };
   }
-}
+});
 
 /**
- * Delete a participant
+ * Move a participant to the trash
  */
-export async function deleteParticipant(id: string): Promise<{ success: boolean; error?: string }> {
+export const deleteParticipant = requireSession('participants.write')(async (user, id: string): Promise<{ success: boolean; error?: string }> => {
   try {
     const collection = await getCollection();
 
-    const result = await collection.deleteOne({ _id: new ObjectId(id) });
+    const deleted = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id), ...NOT_TRASHED },
+      { $set: trashFields(user.email) }
+    );
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return { success: false, error: 'Participant not found' };
     }
 
+    await recordAudit(user, {
+      action: 'participant.delete',
+      targetType: 'participant',
+      targetIds: [id],
+      summary: `Moved ${deleted.name} (${deleted.participantId}) to the trash`,
+    });
+
     return { success: true };
   } catch (error) {
     console.error('Error deleting participant:', error);
@@ -155,44 +338,111 @@ export async function deleteParticipant(id: string): Promise<{ success: boolean;
       error: error instanceof Error ? error.message : 'Failed to delete participant',
     };
   }
+});
+
+/**
+ * Result of a check-in movement
+ */
+export interface CheckInResult {
+  success: boolean;
+  error?: string;
+  /** True when the move is not allowed from the participant's current state */
+  invalidTransition?: boolean;
+  /** Participant's state after the call (unchanged when rejected) */
+  state?: CheckInState;
+  participant?: DBParticipant;
 }
 
 /**
- * Update check-in status
+ * Record a check-in movement
+ *
+ * Runs the move through the check-in state machine, rejects illegal
+ * transitions and appends the movement to the `participant_events` log
+ * with the recording station and signed-in user. Lab entries also
+ * record `lab`, the lab the scanning station stands at, when given.
+ * The update is conditional on the state it was validated against, so
+ * two stations scanning the same badge cannot both apply a move.
  */
-export async function updateCheckInStatus(
+export const updateCheckInStatus = requireSession('checkin')(async (
+  user,
   id: string,
-  type: 'college' | 'lab' | 'collegeOut' | 'labOut' | 'tempLabOut',
-  status: boolean
-): Promise<{ success: boolean; error?: string }> {
+  type: CheckInType,
+  station: string = 'dashboard',
+  lab?: string
+): Promise<CheckInResult> => {
   try {
     const collection = await getCollection();
 
-    const updateField =
-      type === 'college' ? 'collegeCheckIn' :
-        type === 'lab' ? 'labCheckIn' :
-          type === 'collegeOut' ? 'collegeCheckOut' :
-            type === 'labOut' ? 'labCheckOut' :
-              'tempLabCheckOut';
+    const current = await collection.findOne({ _id: new ObjectId(id), ...NOT_TRASHED });
+    if (!current) {
+      return { success: false, error: 'Participant not found' };
+    }
+
+    const from = deriveCheckInState(current);
+    const to   = getNextCheckInState(from, type);
+    if (!to) {
+      return {
+        success: false,
+        error: describeInvalidTransition(from, type),
+        invalidTransition: true,
+        state: from,
+      };
+    }
+
+    const now = new Date();
 
-    const result = await collection.updateOne(
-      { _id: new ObjectId(id) },
+    const $set: Record<string, unknown> = {
+      checkInState: to,
+      updatedAt: now,
+    };
+
+    if (type === 'lab' && from === 'temp-out') {
+      // Returning from a temporary exit: keep the first lab entry time and
+      // the exit time, just close the exit
+      $set['tempLabCheckOut.status'] = false;
+      if (lab) $set['labCheckIn.lab'] = lab;
+    } else {
+      $set[CHECKIN_FLAG_FIELDS[type]] = { status: true, time: now, ...(type === 'lab' && lab && { lab }) };
+    }
+
+    const updated = await collection.findOneAndUpdate(
       {
-        $set: {
-          [updateField]: {
-            status,
-            time: status ? new Date() : undefined,
-          },
-          updatedAt: new Date(),
-        },
-      }
+        _id: new ObjectId(id),
+        ...NOT_TRASHED,
+        checkInState: current.checkInState ?? { $exists: false },
+      },
+      { $set },
+      { returnDocument: 'after' }
     );
 
-    if (result.matchedCount === 0) {
-      return { success: false, error: 'Participant not found' };
+    if (!updated) {
+      const fresh = await collection.findOne({ _id: new ObjectId(id), ...NOT_TRASHED });
+      return {
+        success: false,
+        error: 'Participant was updated by another station — scan again',
+        state: fresh ? deriveCheckInState(fresh) : undefined,
+      };
     }
 
-    return { success: true };
+    await recordParticipantEvent({
+      participantRef:  id,
+      participantId:   updated.participantId,
+      participantName: updated.name,
+      teamName:        updated.teamName,
+      type,
+      from,
+      to,
+      station,
+      ...(type === 'lab' && lab && { lab }),
+      actor:     user.email,
+      timestamp: now,
+    });
+
+    return {
+      success: true,
+      state: to,
+      participant: { ...updated, _id: updated._id?.toString() } as DBParticipant,
+    };
   } catch (error) {
     console.error('Error updating check-in status:', error);
     return {
@@ -200,19 +450,103 @@ export async function updateCheckInStatus(
       error: error instanceof Error ? error.message : 'Failed to update check-in status',
     };
   }
+});
+
+/**
+ * Format a redemption time as HH:MM in event-local time
+ */
+function formatMealTime(time: Date): string {
+  return new Date(time).toLocaleTimeString('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
 }
 
 /**
- * Delete all participants (use with caution)
+ * Redeem a meal slot for a participant (food counter).
+ *
+ * The update only matches while the slot is still unclaimed, so two
+ * counters scanning the same badge at once cannot both succeed.
+ */
+export const redeemMeal = requireSession('food')(async (
+  _user,
+  participantId: string,
+  mealKey: string
+): Promise<MealRedemptionResult> => {
+  try {
+    const schedule = await getMealSchedule();
+    if (!schedule.some(slot => slot.key === mealKey)) {
+      return { success: false, error: 'Unknown meal slot' };
+    }
+
+    const collection = await getCollection();
+    const now = new Date();
+
+    const updated = await collection.findOneAndUpdate(
+      { participantId, ...NOT_TRASHED, [`meals.${mealKey}`]: { $ne: true } },
+      {
+        $set: {
+          [`meals.${mealKey}`]: true,
+          [`mealTimes.${mealKey}`]: now,
+          updatedAt: now,
+        },
+      },
+      { returnDocument: 'after' }
+    );
+
+    if (updated) {
+      return {
+        success: true,
+        collectedAt: now,
+        participant: { ...updated, _id: updated._id?.toString() } as DBParticipant,
+      };
+    }
+
+    // Nothing matched — either the badge is unknown or the slot is taken
+    const existing = await collection.findOne({ participantId, ...NOT_TRASHED });
+    if (!existing) {
+      return { success: false, error: 'Participant not found' };
+    }
+
+    const collectedAt = existing.mealTimes?.[mealKey];
+    return {
+      success: false,
+      alreadyCollected: true,
+      collectedAt,
+      participant: { ...existing, _id: existing._id?.toString() } as DBParticipant,
+      error: collectedAt
+        ? `Already collected at ${formatMealTime(collectedAt)}`
+        : 'Already collected',
+    };
+  } catch (error) {
+    console.error('Error redeeming meal:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to redeem meal',
+    };
+  }
+});
+
+/**
+ * Move all participants to the trash (use with caution)
  */
-export async function deleteAllParticipants(): Promise<{ success: boolean; count: number; error?: string }> {
+export const deleteAllParticipants = requireSession('database')(async (user): Promise<{ success: boolean; count: number; error?: string }> => {
   try {
     const collection = await getCollection();
-    const result = await collection.deleteMany({});
+    const result = await collection.updateMany(NOT_TRASHED, { $set: trashFields(user.email) });
+
+    await recordAudit(user, {
+      action: 'participant.delete_all',
+      targetType: 'participant',
+      targetIds: [],
+      summary: `Moved all ${result.modifiedCount} participant(s) to the trash`,
+    });
 
     return {
       success: true,
-      count: result.deletedCount,
+      count: result.modifiedCount,
     };
   } catch (error) {
     console.error('Error deleting all participants:', error);
@@ -222,4 +556,91 @@ export async function deleteAllParticipants(): Promise<{ success: boolean; count
       error: error instanceof Error ? error.message : 'Failed to delete participants',
     };
   }
-} 
\ No newline at end of file
+});
+
+/**
+ * Participants in the trash, most recently deleted first
+ */
+export const getTrashedParticipants = requireSession('participants.write')(async (): Promise<Trashed<DBParticipant>[]> => {
+  try {
+    const collection = await getCollection();
+    const participants = await collection
+      .find(IN_TRASH)
+      .sort({ deletedAt: -1 })
+      .toArray();
+
+    return participants.map(p => ({
+      ...p,
+      _id: p._id?.toString(),
+      purgeAt: getPurgeDate(p.deletedAt!),
+    } as Trashed<DBParticipant>));
+  } catch (error) {
+    console.error('Error fetching trashed participants:', error);
+    throw new Error('Failed to fetch trashed participants');
+  }
+});
+
+/**
+ * Take a participant back out of the trash
+ */
+export const restoreParticipant = requireSession('participants.write')(async (user, id: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const collection = await getCollection();
+
+    const restored = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id), ...IN_TRASH },
+      restoreUpdate()
+    );
+
+    if (!restored) {
+      return { success: false, error: 'Participant is not in the trash' };
+    }
+
+    await recordAudit(user, {
+      action: 'participant.restore',
+      targetType: 'participant',
+      targetIds: [id],
+      summary: `Restored ${restored.name} (${restored.participantId}) from the trash`,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error restoring participant:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore participant',
+    };
+  }
+});
+
+/**
+ * Permanently delete a participant that is already in the trash
+ */
+export const purgeParticipant = requireSession('participants.write')(async (user, id: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const collection = await getCollection();
+
+    const deleted = await collection.findOneAndDelete({ _id: new ObjectId(id), ...IN_TRASH });
+
+    if (!deleted) {
+      return { success: false, error: 'Participant is not in the trash' };
+    }
+
+    await recordAudit(user, {
+      action: 'participant.purge',
+      targetType: 'participant',
+      targetIds: [id],
+      // Identifying fields only — credentials must not outlive the record
+      changes: diffFields(deleted, {}, ['participantId', 'name', 'email']),
+      summary: `Permanently deleted ${deleted.name} (${deleted.participantId})`,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error purging participant:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete participant',
+    };
+  }
+});
@@ -0,0 +1,156 @@
+'use server';
+
+/**
+ * Post-Event Report Server Actions
+ *
+ * Gathers the numbers for the post-event PDF report: event statistics,
+ * team and project counts, mailer volumes from the audit log and Discord
+ * bot usage from `bot_logs`. The PDF itself is drawn in the browser
+ * (utils/generate-report-pdf).
+ *
+ * @module actions/post-event-report
+ */
+
+import clientPromise, { PARTICIPANTS_DB, BOT_DB } from '@/lib/mongodb';
+import { requireSession } from '@/lib/require-session';
+import { NOT_TRASHED } from '@/lib/trash';
+import { CHECKIN_STATE_EXPRESSION } from '@/lib/checkin';
+import { getEventStats } from '@/lib/event-stats';
+import { getTeamsCollection } from '@/lib/teams';
+import { getAuditLogCollection } from '@/lib/audit-log';
+import type { PostEventReport } from '@/types';
+
+async function getTeamFigures(fallbackTotal: number): Promise<PostEventReport['teams']> {
+  const client = await clientPromise;
+  const teams = await getTeamsCollection();
+
+  const [registered, withProject, groups] = await Promise.all([
+    teams.countDocuments(),
+    // Only non-empty strings sort above ''
+    teams.countDocuments({ projectName: { $gt: '' } }),
+    client.db(PARTICIPANTS_DB).collection('participants').aggregate<{ size: number; arrived: number; project: string | null }>([
+      { $match: { ...NOT_TRASHED, $or: [{ teamId: { $nin: [null, ''] } }, { teamName: { $nin: [null, ''] } }] } },
+      {
+        $group: {
+          _id: { $ifNull: ['$teamId', '$teamName'] },
+          size: { $sum: 1 },
+          arrived: { $sum: { $cond: [{ $ne: [CHECKIN_STATE_EXPRESSION, 'not-arrived'] }, 1, 0] } },
+          project: { $max: '$projectName' },
+        },
+      },
+    ]).toArray(),
+  ]);
+
+  // Editions imported before the teams collection only have names on participants
+  const legacy = registered === 0;
+
+  return {
+    registered: legacy ? fallbackTotal : registered,
+    present: groups.filter(g => g.arrived > 0).length,
+    projects: legacy ? groups.filter(g => g.project).length : withProject,
+    averageSize: groups.length > 0
+      ? Math.round((groups.reduce((n, g) => n + g.size, 0) / groups.length) * 10) / 10
+      : null,
+  };
+}
+
+async function getMailerFigures(): Promise<PostEventReport['mailer']> {
+  const auditLog = await getAuditLogCollection();
+  // Entries written before the counts were recorded carry only a summary and are skipped
+  const groups = await auditLog.aggregate<{ _id: string; batches: number; sent: number; failed: number }>([
+    { $match: { action: 'email.send_batch', 'email.subject': { $type: 'string' } } },
+    {
+      $group: {
+        _id: '$email.subject',
+        batches: { $sum: 1 },
+        sent: { $sum: '$email.sent' },
+        failed: { $sum: '$email.failed' },
+      },
+    },
+    { $sort: { sent: -1, _id: 1 } },
+  ]).toArray();
+
+  const campaigns = groups.map(({ _id, ...counts }) => ({ subject: _id, ...counts }));
+  return {
+    batches: campaigns.reduce((n, c) => n + c.batches, 0),
+    sent: campaigns.reduce((n, c) => n + c.sent, 0),
+    failed: campaigns.reduce((n, c) => n + c.failed, 0),
+    campaigns,
+  };
+}
+
+async function getBotFigures(): Promise<PostEventReport['bot']> {
+  const client = await clientPromise;
+  const [result] = await client.db(BOT_DB).collection('bot_logs').aggregate<{
+    byType: { _id: string; total: number; errors: number; avgMs: number | null }[];
+    users: { count: number }[];
+  }>([
+    {
+      $facet: {
+        byType: [
+          {
+            $group: {
+              _id: '$type',
+              total: { $sum: 1 },
+              errors: { $sum: { $cond: [{ $eq: ['$success', false] }, 1, 0] } },
+              avgMs: { $avg: '$durationMs' },
+            },
+          },
+          { $sort: { total: -1 } },
+        ],
+        users: [
+          { $match: { userId: { $nin: [null, ''] } } },
+          { $group: { _id: '$userId' } },
+          { $count: 'count' },
+        ],
+      },
+    },
+  ]).toArray();
+
+  const byType = result.byType.map(t => ({
+    type: t._id ?? 'unknown',
+    total: t.total,
+    errors: t.errors,
+    avgMs: Math.round(t.avgMs ?? 0),
+  }));
+
+  return {
+    total: byType.reduce((n, t) => n + t.total, 0),
+    errors: byType.reduce((n, t) => n + t.errors, 0),
+    users: result.users[0]?.count ?? 0,
+    byType,
+  };
+}
+
+async function getEventWindow(): Promise<PostEventReport['window']> {
+  const client = await clientPromise;
+  const [window] = await client.db(PARTICIPANTS_DB).collection('participants').aggregate<{ firstArrival: Date | null; lastDeparture: Date | null }>([
+    { $match: NOT_TRASHED },
+    { $group: { _id: null, firstArrival: { $min: '$collegeCheckIn.time' }, lastDeparture: { $max: '$collegeCheckOut.time' } } },
+  ]).toArray();
+
+  return {
+    ...(window?.firstArrival && { firstArrival: window.firstArrival }),
+    ...(window?.lastDeparture && { lastDeparture: window.lastDeparture }),
+  };
+}
+
+/**
+ * Attendance, demographics, teams, meals, mailer and bot usage for the PDF report
+ */
+export const getPostEventReport = requireSession('database')(async (): Promise<PostEventReport> => {
+  try {
+    const stats = await getEventStats();
+    const [window, teams, mailer, bot] = await Promise.all([
+      getEventWindow(),
+      getTeamFigures(stats.teams.total),
+      getMailerFigures(),
+      getBotFigures(),
+    ]);
+
+    return { stats, window, teams, mailer, bot, generatedAt: new Date() };
+  } catch (error) {
+    console.error('Error building post-event report:', error);
+    throw new Error('Failed to build the post-event report');
+  }
+});
@@ -0,0 +1,110 @@
+'use server';
+
+/**
+ * Session Server Actions
+ *
+ * List and revoke server-side login sessions (see lib/sessions). Users
+ * can manage their own sessions; managing anyone else's requires the
+ * `users` permission.
+ *
+ * @module actions/sessions
+ */
+
+import { requireSession } from '@/lib/require-session';
+import { hasPermission } from '@/lib/permissions';
+import { listActiveSessions, revokeSession, revokeAllSessions } from '@/lib/sessions';
+import { recordAudit } from '@/lib/audit-log';
+import type { SessionUser } from '@/lib/auth';
+import type { UserSession } from '@/types';
+
+interface SessionActionResult {
+  success: boolean;
+  error?: string;
+  revoked?: number;
+}
+
+function canManage(user: SessionUser, userId: string): boolean {
+  return user.id === userId || hasPermission(user.role, 'users');
+}
+
+/**
+ * Active sessions for a user, most recently used first
+ */
+export const getUserSessions = requireSession()(async (
+  user,
+  userId: string
+): Promise<UserSession[]> => {
+  if (!canManage(user, userId)) return [];
+
+  try {
+    const sessions = await listActiveSessions(userId);
+    return sessions.map(s => ({
+      id: s.jti,
+      createdAt: s.createdAt,
+      lastSeenAt: s.lastSeenAt,
+      expiresAt: s.expiresAt,
+      ip: s.ip,
+      userAgent: s.userAgent,
+      current: s.jti === user.sessionId,
+    }));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return [];
+  }
+});
+
+/**
+ * Revoke one of a user's sessions — its token stops working immediately
+ */
+export const revokeUserSession = requireSession()(async (
+  user,
+  userId: string,
+  sessionId: string
+): Promise<SessionActionResult> => {
+  if (!canManage(user, userId)) {
+    return { success: false, error: 'You do not have permission to manage these sessions' };
+  }
+
+  try {
+    const revoked = await revokeSession(sessionId, userId);
+    if (!revoked) return { success: false, error: 'Session not found or already revoked' };
+
+    if (userId !== user.id) {
+      await recordAudit(user, { action: 'session.revoke', targetType: 'session', targetIds: [userId, sessionId] });
+    }
+    return { success: true, revoked: 1 };
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return { success: false, error: 'Failed to revoke session' };
+  }
+});
+
+/**
+ * Revoke all of a user's sessions. When called on your own account the
+ * current session is kept — use `logoutEverywhereAction` to end it too.
+ */
+export const revokeAllUserSessions = requireSession()(async (
+  user,
+  userId: string
+): Promise<SessionActionResult> => {
+  if (!canManage(user, userId)) {
+    return { success: false, error: 'You do not have permission to manage these sessions' };
+  }
+
+  try {
+    const revoked = await revokeAllSessions(userId, userId === user.id ? user.sessionId : undefined);
+
+    if (userId !== user.id) {
+      await recordAudit(user, {
+        action: 'session.revoke_all',
+        targetType: 'session',
+        targetIds: [userId],
+        summary: `Revoked ${revoked} session(s)`,
+      });
+    }
+    return { success: true, revoked };
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    return { success: false, error: 'Failed to revoke sessions' };
+  }
+});
@@ -1,7 +1,10 @@
 'use server';
 
 import clientPromise from '@/lib/mongodb';
-import { DBSponsor } from '@/types';
+import { DBSponsor, Trashed } from '@/types';
+import { requireSession } from '@/lib/require-session';
+import { recordAudit, diffFields } from '@/lib/audit-log';
+import { NOT_TRASHED, IN_TRASH, trashFields, restoreUpdate, getPurgeDate } from '@/lib/trash';
 import { ObjectId, WithId, Document } from 'mongodb';
 
 const DB_NAME = 'hackoverflow';
@@ -24,13 +27,13 @@ async function getCollection() {
 }
 
 /**
- * Get all sponsors from database
+ * Get all sponsors from database (excluding the trash)
  */
-export async function getSponsors(): Promise<DBSponsor[]> {
+export const getSponsors = requireSession('sponsors')(async (): Promise<DBSponsor[]> => {
   try {
     const collection = await getCollection();
     const sponsors = await collection
-      .find({})
+      .find(NOT_TRASHED)
       .sort({ createdAt: -1 })
       .toArray();
     
@@ -42,15 +45,15 @@ export async function getSponsors(): Promise<DBSponsor[]> {
     console.error('Error fetching sponsors:', error);
     throw new Error('Failed to fetch sponsors');
   }
-}
+});
 
 /**
  * Get a single sponsor by ID
  */
-export async function getSponsorById(id: string): Promise<DBSponsor | null> {
+export const getSponsorById = requireSession('sponsors')(async (_user, id: string): Promise<DBSponsor | null> => {
   try {
     const collection = await getCollection();
-    const sponsor = await collection.findOne({ _id: new ObjectId(id) });
+    const sponsor = await collection.findOne({ _id: new ObjectId(id), ...NOT_TRASHED });
     
     if (!sponsor) return null;
     
@@ -62,14 +65,15 @@ export async function getSponsorById(id: string): Promise<DBSponsor | null> {
     console.error('Error fetching sponsor:', error);
     return null;
   }
-}
+});
 
 /**
  * Create multiple sponsors from CSV upload
  */
-export async function createSponsors(
+export const createSponsors = requireSession('sponsors')(async (
+  user,
   sponsors: Omit<DBSponsor, '_id' | 'createdAt' | 'updatedAt'>[]
-): Promise<{ success: boolean; count: number; error?: string }> {
+): Promise<{ success: boolean; count: number; error?: string }> => {
   try {
     const collection = await getCollection();
     
@@ -80,6 +84,13 @@ export async function createSponsors(
     }));
     
     const result = await collection.insertMany(sponsorsWithTimestamps);
+
+    await recordAudit(user, {
+      action: 'sponsor.create',
+      targetType: 'sponsor',
+      targetIds: Object.values(result.insertedIds).map(String),
+      summary: `Created ${result.insertedCount} sponsor(s)`,
+    });
     
     return {
       success: true,
@@ -93,31 +104,40 @@ export async function createSponsors(
       error: error instanceof Error ? error.message : 'Failed to create sponsors',
     };
   }
-}
+});
 
 /**
  * Update a sponsor
  */
-export async function updateSponsor(
+export const updateSponsor = requireSession('sponsors')(async (
+  user,
   id: string,
   updates: Partial<Omit<DBSponsor, '_id' | 'createdAt'>>
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string }> => {
   try {
     const collection = await getCollection();
     
-    const result = await collection.updateOne(
-      { _id: new ObjectId(id) },
+    const before = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id), ...NOT_TRASHED },
       {
         $set: {
           ...updates,
           updatedAt: new Date(),
         },
-      }
+      },
+      { returnDocument: 'before' }
     );
     
-    if (result.matchedCount === 0) {
+    if (!before) {
       return { success: false, error: 'Sponsor not found' };
     }
+
+    await recordAudit(user, {
+      action: 'sponsor.update',
+      targetType: 'sponsor',
+      targetIds: [id],
+      changes: diffFields(before, { ...before, ...updates }, Object.keys(updates)),
+    });
     
     return { success: true };
   } catch (error) {
@@ -127,20 +147,30 @@ export async function updateSponsor(
       error: error instanceof Error ? error.message : 'Failed to update sponsor',
     };
   }
-}
+});
 
 /**
- * Delete a sponsor
+ * Move a sponsor to the trash
  */
-export async function deleteSponsor(id: string): Promise<{ success: boolean; error?: string }> {
+export const deleteSponsor = requireSession('sponsors')(async (user, id: string): Promise<{ success: boolean; error?: string }> => {
   try {
     const collection = await getCollection();
     
-    const result = await collection.deleteOne({ _id: new ObjectId(id) });
+    const deleted = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id), ...NOT_TRASHED },
+      { $set: trashFields(user.email) }
+    );
     
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return { success: false, error: 'Sponsor not found' };
     }
+
+    await recordAudit(user, {
+      action: 'sponsor.delete',
+      targetType: 'sponsor',
+      targetIds: [id],
+      summary: `Moved ${deleted.companyName} (${deleted.sponsorId}) to the trash`,
+    });
     
     return { success: true };
   } catch (error) {
@@ -150,19 +180,26 @@ export async function deleteSponsor(id: string): Promise<{ success: boolean; err
       error: error instanceof Error ? error.message : 'Failed to delete sponsor',
     };
   }
-}
+});
 
 /**
- * Delete all sponsors (use with caution)
+ * Move all sponsors to the trash (use with caution)
  */
-export async function deleteAllSponsors(): Promise<{ success: boolean; count: number; error?: string }> {
+export const deleteAllSponsors = requireSession('database')(async (user): Promise<{ success: boolean; count: number; error?: string }> => {
   try {
     const collection = await getCollection();
-    const result = await collection.deleteMany({});
+    const result = await collection.updateMany(NOT_TRASHED, { $set: trashFields(user.email) });
+
+    await recordAudit(user, {
+      action: 'sponsor.delete_all',
+      targetType: 'sponsor',
+      targetIds: [],
+      summary: `Moved all ${result.modifiedCount} sponsor(s) to the trash`,
+    });
     
     return {
       success: true,
-      count: result.deletedCount,
+      count: result.modifiedCount,
     };
   } catch (error) {
     console.error('Error deleting all sponsors:', error);
@@ -172,4 +209,90 @@ export async function deleteAllSponsors(): Promise<{ success: boolean; count: nu
       error: error instanceof Error ? error.message : 'Failed to delete sponsors',
     };
   }
-}
\ No newline at end of file
+});
+
+/**
+ * Sponsors in the trash, most recently deleted first
+ */
+export const getTrashedSponsors = requireSession('sponsors')(async (): Promise<Trashed<DBSponsor>[]> => {
+  try {
+    const collection = await getCollection();
+    const sponsors = await collection
+      .find(IN_TRASH)
+      .sort({ deletedAt: -1 })
+      .toArray();
+
+    return sponsors.map(s => ({
+      ...s,
+      _id: s._id?.toString(),
+      purgeAt: getPurgeDate(s.deletedAt!),
+    } as Trashed<DBSponsor>));
+  } catch (error) {
+    console.error('Error fetching trashed sponsors:', error);
+    throw new Error('Failed to fetch trashed sponsors');
+  }
+});
+
+/**
+ * Take a sponsor back out of the trash
+ */
+export const restoreSponsor = requireSession('sponsors')(async (user, id: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const collection = await getCollection();
+
+    const restored = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id), ...IN_TRASH },
+      restoreUpdate()
+    );
+
+    if (!restored) {
+      return { success: false, error: 'Sponsor is not in the trash' };
+    }
+
+    await recordAudit(user, {
+      action: 'sponsor.restore',
+      targetType: 'sponsor',
+      targetIds: [id],
+      summary: `Restored ${restored.companyName} (${restored.sponsorId}) from the trash`,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error restoring sponsor:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore sponsor',
+    };
+  }
+});
+
+/**
+ * Permanently delete a sponsor that is already in the trash
+ */
+export const purgeSponsor = requireSession('sponsors')(async (user, id: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const collection = await getCollection();
+
+    const deleted = await collection.findOneAndDelete({ _id: new ObjectId(id), ...IN_TRASH });
+
+    if (!deleted) {
+      return { success: false, error: 'Sponsor is not in the trash' };
+    }
+
+    await recordAudit(user, {
+      action: 'sponsor.purge',
+      targetType: 'sponsor',
+      targetIds: [id],
+      changes: diffFields(deleted, {}),
+      summary: `Permanently deleted ${deleted.companyName} (${deleted.sponsorId})`,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error purging sponsor:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete sponsor',
+    };
+  }
+});
@@ -0,0 +1,25 @@
+'use server';
+
+/**
+ * Event Statistics Server Actions
+ *
+ * Session-guarded access to the cached aggregate in lib/event-stats.
+ *
+ * @module actions/stats
+ */
+
+import { requireSession } from '@/lib/require-session';
+import { getEventStats } from '@/lib/event-stats';
+import type { EventStats } from '@/types';
+
+/**
+ * Check-in funnel, teams, labs, meals, institutes and states
+ */
+export const getEventStatsAction = requireSession(['participants.read', 'database'])(async (): Promise<EventStats> => {
+  try {
+    return await getEventStats();
+  } catch (error) {
+    console.error('Error loading event stats:', error);
+    throw new Error('Failed to load event statistics');
+  }
+});
@@ -0,0 +1,517 @@
+'use server';
+
+/**
+ * Team Server Actions
+ *
+ * Create, edit, merge, split and delete teams and move participants
+ * between them. Membership is the participant's `teamId` (see
+ * lib/teams), so every move is a participant update; the team actions
+ * also keep each member's `teamName` — and `labAllotted` and WiFi
+ * credentials when the team has a lab — in step with the team.
+ *
+ * Adding members never takes a team past the configured maximum size.
+ * Teams below the minimum are allowed while they form and are flagged
+ * on the teams page instead.
+ *
+ * @module actions/teams
+ */
+
+import { ObjectId } from 'mongodb';
+import clientPromise from '@/lib/mongodb';
+import { requireSession } from '@/lib/require-session';
+import { recordAudit, diffFields } from '@/lib/audit-log';
+import { NOT_TRASHED } from '@/lib/trash';
+import { getTeamsCollection, insertTeam, isDuplicateKeyError, normalizeTeamName } from '@/lib/teams';
+import { TeamInputSchema, formatValidationErrors } from '@/lib/validation';
+import { getTeamSizeLimits, getLabDefinitions } from '@/lib/event-config';
+import { labAssignment } from '@/lib/lab-allocation';
+import type { DBParticipant, Team, TeamInput, TeamsOverview, TeamWithMembers } from '@/types';
+
+type ParticipantDocument = Omit<DBParticipant, '_id'> & { _id?: ObjectId };
+
+interface TeamActionResult {
+  success: boolean;
+  error?: string;
+}
+
+async function getParticipantsCollection() {
+  const client = await clientPromise;
+  return client.db('hackoverflow').collection<ParticipantDocument>('participants');
+}
+
+const toParticipant = (p: ParticipantDocument): DBParticipant => ({ ...p, _id: p._id?.toString() } as DBParticipant);
+
+const toTeam = (t: Omit<Team, '_id'> & { _id: ObjectId }): Team => ({ ...t, _id: t._id.toString() });
+
+function parseInput(input: TeamInput): { data: TeamInput } | { error: string } {
+  const parsed = TeamInputSchema.safeParse(input);
+  if (!parsed.success) return { error: formatValidationErrors(parsed.error).message };
+  // Empty optional fields are stored as absent rather than ''
+  const data = Object.fromEntries(
+    Object.entries(parsed.data).filter(([, v]) => v !== '')
+  ) as TeamInput;
+  return { data };
+}
+
+/** Participant `_id` strings → ObjectIds; invalid IDs are rejected */
+function toObjectIds(refs: string[]): ObjectId[] | null {
+  if (!refs.every(ref => ObjectId.isValid(ref))) return null;
+  return [...new Set(refs)].map(ref => new ObjectId(ref));
+}
+
+/**
+ * Member fields for a team's lab, with the lab's WiFi details when it
+ * is one of the defined labs
+ */
+async function teamLabFields(labName?: string): Promise<Pick<DBParticipant, 'labAllotted' | 'wifiCredentials'>> {
+  if (!labName) return {};
+  const lab = (await getLabDefinitions()).find(l => l.name === labName);
+  return lab ? labAssignment(lab) : { labAllotted: labName };
+}
+
+/**
+ * Point the given participants at `team`, copying its name and lab,
+ * or take them out of their team when `team` is null
+ */
+async function assignMembers(ids: ObjectId[], team: Team | null): Promise<number> {
+  if (ids.length === 0) return 0;
+  const participants = await getParticipantsCollection();
+  const now = new Date();
+
+  const update = team
+    ? {
+        $set: {
+          teamId: team.teamId,
+          teamName: team.name,
+          ...(await teamLabFields(team.labAllotted)),
+          updatedAt: now,
+        },
+      }
+    : { $unset: { teamId: '' as const, teamName: '' as const }, $set: { updatedAt: now } };
+
+  const result = await participants.updateMany({ _id: { $in: ids }, ...NOT_TRASHED }, update);
+  return result.modifiedCount;
+}
+
+/**
+ * Error message if adding `ids` to `teamId` would exceed the maximum
+ * size; members already in the team are not counted twice
+ */
+async function checkCapacity(teamId: string, ids: ObjectId[]): Promise<string | null> {
+  const [participants, limits] = await Promise.all([getParticipantsCollection(), getTeamSizeLimits()]);
+  const staying = await participants.countDocuments({ teamId, _id: { $nin: ids }, ...NOT_TRASHED });
+  const size = staying + ids.length;
+  return size > limits.maxSize
+    ? `${teamId} would have ${size} members — the maximum is ${limits.maxSize}`
+    : null;
+}
+
+/**
+ * All teams with their members, plus participants without a valid team
+ */
+export const getTeamsOverview = requireSession('participants.read')(async (): Promise<TeamsOverview> => {
+  try {
+    const [teamsCol, participants, limits] = await Promise.all([
+      getTeamsCollection(),
+      getParticipantsCollection(),
+      getTeamSizeLimits(),
+    ]);
+
+    const [teamDocs, participantDocs] = await Promise.all([
+      teamsCol.find({}).sort({ teamId: 1 }).toArray(),
+      participants.find(NOT_TRASHED).sort({ name: 1 }).toArray(),
+    ]);
+
+    const teams: TeamWithMembers[] = teamDocs.map(t => ({ ...toTeam(t), members: [] }));
+    const byId = new Map(teams.map(t => [t.teamId, t]));
+    const orphans: DBParticipant[] = [];
+
+    for (const doc of participantDocs) {
+      const team = doc.teamId ? byId.get(doc.teamId) : undefined;
+      if (team) team.members.push(toParticipant(doc));
+      else orphans.push(toParticipant(doc));
+    }
+
+    return { teams, orphans, limits };
+  } catch (error) {
+    console.error('Error fetching teams:', error);
+    throw new Error('Failed to fetch teams');
+  }
+});
+
+/**
+ * Create a team with a generated ID, optionally moving participants
+ * into it
+ */
+export const createTeam = requireSession('participants.write')(async (
+  user,
+  input: TeamInput,
+  memberRefs: string[] = []
+): Promise<TeamActionResult & { team?: Team }> => {
+  const parsed = parseInput(input);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  const ids = toObjectIds(memberRefs);
+  if (!ids) return { success: false, error: 'Invalid participant ID' };
+
+  try {
+    const limits = await getTeamSizeLimits();
+    if (ids.length > limits.maxSize) {
+      return { success: false, error: `A team can have at most ${limits.maxSize} members` };
+    }
+
+    const now = new Date();
+    const team = await insertTeam({ ...parsed.data, createdAt: now, updatedAt: now });
+    const moved = await assignMembers(ids, team);
+
+    await recordAudit(user, {
+      action: 'team.create',
+      targetType: 'team',
+      targetIds: [team.teamId],
+      changes: diffFields({}, { ...parsed.data }),
+      summary: `Created ${team.teamId} "${team.name}" with ${moved} member(s)`,
+    });
+
+    return { success: true, team };
+  } catch (error) {
+    console.error('Error creating team:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create team' };
+  }
+});
+
+/**
+ * Edit a team's details; a new name or lab is copied to its members
+ */
+export const updateTeam = requireSession('participants.write')(async (
+  user,
+  teamId: string,
+  input: TeamInput
+): Promise<TeamActionResult> => {
+  const parsed = parseInput(input);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    const teams = await getTeamsCollection();
+    const unset: Record<string, ''> = Object.fromEntries(
+      (['projectName', 'projectDescription', 'labAllotted', 'mentor'] as const)
+        .filter(field => parsed.data[field] === undefined)
+        .map(field => [field, ''])
+    );
+
+    const before = await teams.findOneAndUpdate(
+      { teamId },
+      {
+        $set: { ...parsed.data, updatedAt: new Date() },
+        ...(Object.keys(unset).length > 0 && { $unset: unset }),
+      }
+    );
+    if (!before) return { success: false, error: 'Team not found' };
+
+    const changes = diffFields({ ...before }, { ...parsed.data }, ['name', 'projectName', 'projectDescription', 'labAllotted', 'mentor']);
+    const renamed = changes.some(c => c.field === 'name');
+    const relabbed = changes.some(c => c.field === 'labAllotted') && !!parsed.data.labAllotted;
+
+    if (renamed || relabbed) {
+      const participants = await getParticipantsCollection();
+      await participants.updateMany(
+        { teamId, ...NOT_TRASHED },
+        {
+          $set: {
+            teamName: parsed.data.name,
+            ...(relabbed && await teamLabFields(parsed.data.labAllotted)),
+            updatedAt: new Date(),
+          },
+        }
+      );
+    }
+
+    await recordAudit(user, {
+      action: 'team.update',
+      targetType: 'team',
+      targetIds: [teamId],
+      changes,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating team:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update team' };
+  }
+});
+
+/**
+ * Delete a team; its members are left without a team
+ */
+export const deleteTeam = requireSession('participants.write')(async (
+  user,
+  teamId: string
+): Promise<TeamActionResult> => {
+  try {
+    const [teams, participants] = await Promise.all([getTeamsCollection(), getParticipantsCollection()]);
+
+    const deleted = await teams.findOneAndDelete({ teamId });
+    if (!deleted) return { success: false, error: 'Team not found' };
+
+    const released = await participants.updateMany(
+      { teamId },
+      { $unset: { teamId: '', teamName: '' }, $set: { updatedAt: new Date() } }
+    );
+
+    await recordAudit(user, {
+      action: 'team.delete',
+      targetType: 'team',
+      targetIds: [teamId],
+      changes: diffFields({ ...deleted }, {}),
+      summary: `Deleted ${teamId} "${deleted.name}"; ${released.modifiedCount} member(s) left without a team`,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting team:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to delete team' };
+  }
+});
+
+/**
+ * Move participants into `toTeamId`, or out of their team when it is null
+ */
+export const moveMembers = requireSession('participants.write')(async (
+  user,
+  memberRefs: string[],
+  toTeamId: string | null
+): Promise<TeamActionResult> => {
+  const ids = toObjectIds(memberRefs);
+  if (!ids || ids.length === 0) return { success: false, error: 'Select at least one participant' };
+
+  try {
+    let team: Team | null = null;
+    if (toTeamId) {
+      const teams = await getTeamsCollection();
+      const doc = await teams.findOne({ teamId: toTeamId });
+      if (!doc) return { success: false, error: 'Team not found' };
+      team = toTeam(doc);
+
+      const overflow = await checkCapacity(toTeamId, ids);
+      if (overflow) return { success: false, error: overflow };
+    }
+
+    const moved = await assignMembers(ids, team);
+
+    await recordAudit(user, {
+      action: 'team.move_members',
+      targetType: 'team',
+      targetIds: toTeamId ? [toTeamId] : [],
+      summary: team
+        ? `Moved ${moved} participant(s) into ${team.teamId} "${team.name}": ${memberRefs.join(', ')}`
+        : `Removed ${moved} participant(s) from their team: ${memberRefs.join(', ')}`,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error moving team members:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to move members' };
+  }
+});
+
+/**
+ * Merge teams into `targetTeamId`: their members join the target and
+ * the source teams are deleted
+ */
+export const mergeTeams = requireSession('participants.write')(async (
+  user,
+  targetTeamId: string,
+  sourceTeamIds: string[]
+): Promise<TeamActionResult> => {
+  const sources = [...new Set(sourceTeamIds)].filter(id => id !== targetTeamId);
+  if (sources.length === 0) return { success: false, error: 'Select at least one other team to merge' };
+
+  try {
+    const [teams, participants, limits] = await Promise.all([
+      getTeamsCollection(),
+      getParticipantsCollection(),
+      getTeamSizeLimits(),
+    ]);
+
+    const found = await teams.find({ teamId: { $in: [targetTeamId, ...sources] } }).toArray();
+    const target = found.find(t => t.teamId === targetTeamId);
+    if (!target || found.length !== sources.length + 1) return { success: false, error: 'Team not found' };
+
+    const size = await participants.countDocuments({ teamId: { $in: [targetTeamId, ...sources] }, ...NOT_TRASHED });
+    if (size > limits.maxSize) {
+      return { success: false, error: `The merged team would have ${size} members — the maximum is ${limits.maxSize}` };
+    }
+
+    const members = await participants
+      .find({ teamId: { $in: sources }, ...NOT_TRASHED }, { projection: { _id: 1 } })
+      .toArray();
+    await assignMembers(members.map(m => m._id!), toTeam(target));
+
+    // Trashed members of the source teams follow too, so a restore lands them in the merged team
+    await participants.updateMany(
+      { teamId: { $in: sources } },
+      { $set: { teamId: targetTeamId, teamName: target.name, updatedAt: new Date() } }
+    );
+    await teams.deleteMany({ teamId: { $in: sources } });
+
+    await recordAudit(user, {
+      action: 'team.merge',
+      targetType: 'team',
+      targetIds: [targetTeamId, ...sources],
+      summary: `Merged ${sources.join(', ')} into ${targetTeamId} "${target.name}" (${size} members)`,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error merging teams:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to merge teams' };
+  }
+});
+
+/**
+ * Split some members of `teamId` off into a new team
+ */
+export const splitTeam = requireSession('participants.write')(async (
+  user,
+  teamId: string,
+  memberRefs: string[],
+  input: TeamInput
+): Promise<TeamActionResult & { team?: Team }> => {
+  const parsed = parseInput(input);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  const ids = toObjectIds(memberRefs);
+  if (!ids || ids.length === 0) return { success: false, error: 'Select the members to split off' };
+
+  try {
+    const [teams, participants] = await Promise.all([getTeamsCollection(), getParticipantsCollection()]);
+
+    const original = await teams.findOne({ teamId });
+    if (!original) return { success: false, error: 'Team not found' };
+
+    const [selected, total] = await Promise.all([
+      participants.countDocuments({ _id: { $in: ids }, teamId, ...NOT_TRASHED }),
+      participants.countDocuments({ teamId, ...NOT_TRASHED }),
+    ]);
+    if (selected !== ids.length) return { success: false, error: `Some selected participants are not in ${teamId}` };
+    if (selected === total) return { success: false, error: 'Leave at least one member in the original team — rename it instead' };
+
+    const now = new Date();
+    const team = await insertTeam({ ...parsed.data, createdAt: now, updatedAt: now });
+    await assignMembers(ids, team);
+
+    await recordAudit(user, {
+      action: 'team.split',
+      targetType: 'team',
+      targetIds: [teamId, team.teamId],
+      summary: `Split ${selected} member(s) of ${teamId} "${original.name}" into ${team.teamId} "${team.name}"`,
+    });
+
+    return { success: true, team };
+  } catch (error) {
+    console.error('Error splitting team:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to split team' };
+  }
+});
+
+/** Most frequent non-empty value, or undefined */
+function mostCommon(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const v of values) if (v?.trim()) counts.set(v.trim(), (counts.get(v.trim()) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Create team documents for the `teamId`/`teamName` strings already on
+ * participants (e.g. from a CSV import)
+ *
+ * - A `teamId` with no team document becomes a team with that ID, named
+ *   after its members' most common `teamName`.
+ * - Participants with a `teamName` but no `teamId` are grouped by name
+ *   into new teams with generated IDs.
+ * - A group whose name matches an existing team (ignoring case and
+ *   spacing) joins that team instead of creating a duplicate.
+ *
+ * Members' `teamName` is then synced to the team. Size limits are not
+ * enforced here — oversized teams are flagged on the teams page.
+ */
+export const importTeamsFromParticipants = requireSession('participants.write')(async (
+  user
+): Promise<TeamActionResult & { created?: number; merged?: number }> => {
+  try {
+    const [teams, participants] = await Promise.all([getTeamsCollection(), getParticipantsCollection()]);
+    const known = await teams.find({}, { projection: { teamId: 1, name: 1 } }).toArray();
+    const existingIds = new Set(known.map(t => t.teamId));
+    const byName = new Map(known.map(t => [normalizeTeamName(t.name), { teamId: t.teamId, name: t.name }]));
+
+    const docs = await participants
+      .find({ ...NOT_TRASHED, $or: [{ teamId: { $exists: true, $ne: '' } }, { teamName: { $exists: true, $ne: '' } }] })
+      .toArray();
+
+    const groups = new Map<string, { teamId?: string; members: ParticipantDocument[] }>();
+    for (const doc of docs) {
+      const teamId = doc.teamId?.trim();
+      if (teamId && existingIds.has(teamId)) continue;
+      const key = teamId ? `id:${teamId}` : `name:${normalizeTeamName(doc.teamName!)}`;
+      const group = groups.get(key) ?? { teamId, members: [] };
+      group.members.push(doc);
+      groups.set(key, group);
+    }
+
+    const now = new Date();
+    const created: string[] = [];
+    const merged = new Set<string>();
+
+    for (const { teamId, members } of groups.values()) {
+      const labs = new Set(members.map(m => m.labAllotted).filter(Boolean));
+      const details = {
+        name: mostCommon(members.map(m => m.teamName)) ?? teamId!,
+        projectName: mostCommon(members.map(m => m.projectName)),
+        labAllotted: labs.size === 1 ? [...labs][0] : undefined,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const clean = Object.fromEntries(Object.entries(details).filter(([, v]) => v !== undefined)) as typeof details;
+
+      // Same name as a team that exists or was created earlier in this run
+      let team: Pick<Team, 'teamId' | 'name'> | undefined = byName.get(normalizeTeamName(clean.name));
+
+      if (!team && teamId) {
+        try {
+          await teams.insertOne({ ...clean, teamId });
+          team = { teamId, name: clean.name };
+          created.push(teamId);
+        } catch (error) {
+          if (!isDuplicateKeyError(error)) throw error;
+          // Another request created this team since we looked
+          team = await teams.findOne({ teamId }, { projection: { teamId: 1, name: 1 } }) ?? undefined;
+          if (!team) throw error;
+        }
+      } else if (!team) {
+        team = await insertTeam(clean);
+        created.push(team.teamId);
+      }
+      if (!created.includes(team.teamId)) merged.add(team.teamId);
+      byName.set(normalizeTeamName(team.name), team);
+
+      await participants.updateMany(
+        { _id: { $in: members.map(m => m._id!) } },
+        { $set: { teamId: team.teamId, teamName: team.name, updatedAt: now } }
+      );
+    }
+
+    if (created.length > 0 || merged.size > 0) {
+      await recordAudit(user, {
+        action: 'team.import',
+        targetType: 'team',
+        targetIds: [...created, ...merged],
+        summary: `Created ${created.length} team(s) from participant team names/IDs` +
+          (merged.size > 0 ? `; added members to ${merged.size} existing team(s) with the same name or ID` : ''),
+      });
+    }
+
+    return { success: true, created: created.length, merged: merged.size };
+  } catch (error) {
+    console.error('Error importing teams:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to import teams' };
+  }
+});
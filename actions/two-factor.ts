@@ -0,0 +1,210 @@
+'use server';
+
+/**
+ * Two-Factor Server Actions
+ *
+ * Self-service TOTP management for the signed-in user: enroll with an
+ * authenticator app, view the remaining recovery codes, regenerate them
+ * and turn 2FA off (unless the security policy requires it for the
+ * user's role). Admins reset other users' 2FA via actions/users.
+ *
+ * None of these actions take a permission, so users the policy applies
+ * to can still enroll while every other guarded action is blocked.
+ *
+ * @module actions/two-factor
+ */
+
+import { ObjectId } from 'mongodb';
+import QRCode from 'qrcode';
+import clientPromise from '@/lib/mongodb';
+import { requireSession } from '@/lib/require-session';
+import {
+  verifyTotp,
+  generateTotpSecret,
+  buildOtpAuthUri,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from '@/lib/totp';
+import { getSecurityPolicy, isTwoFactorRequired, verifySecondFactor } from '@/lib/two-factor';
+import { TwoFactorCodeSchema, safeValidate, formatValidationErrors, type UserDocument } from '@/lib/validation';
+import type { TwoFactorStatus } from '@/types';
+
+type UserRecord = Omit<UserDocument, '_id'> & { _id: ObjectId };
+
+/** How long an unconfirmed enrollment secret stays usable */
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+interface TwoFactorActionResult {
+  success: boolean;
+  error?: string;
+}
+
+async function getCollection() {
+  const client = await clientPromise;
+  return client.db('hackoverflow').collection<UserRecord>('users');
+}
+
+function parseCode(code: string): { code: string } | { error: string } {
+  const validation = safeValidate(TwoFactorCodeSchema, code);
+  if (!validation.success) return { error: formatValidationErrors(validation.errors).message };
+  return { code: validation.data };
+}
+
+/**
+ * Whether the signed-in user has 2FA, how many recovery codes are left
+ * and whether the policy requires it
+ */
+export const getTwoFactorStatus = requireSession()(async (user): Promise<TwoFactorStatus> => {
+  try {
+    const collection = await getCollection();
+    const doc = await collection.findOne(
+      { _id: new ObjectId(user.id) },
+      { projection: { 'twoFactor.enabledAt': 1, 'twoFactor.recoveryCodes': 1 } }
+    );
+    return {
+      enabled: !!doc?.twoFactor,
+      recoveryCodesRemaining: doc?.twoFactor?.recoveryCodes.length ?? 0,
+      required: isTwoFactorRequired(user.role, await getSecurityPolicy()),
+    };
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    throw new Error('Failed to fetch two-factor status');
+  }
+});
+
+/**
+ * Start enrollment: generate a secret and return it with a QR code for
+ * the authenticator app. Nothing changes until the user confirms a code.
+ */
+export const beginTwoFactorEnrollment = requireSession()(async (
+  user
+): Promise<TwoFactorActionResult & { secret?: string; otpauthUri?: string; qrCodeDataUrl?: string }> => {
+  try {
+    const collection = await getCollection();
+    const _id = new ObjectId(user.id);
+    const existing = await collection.findOne({ _id }, { projection: { 'twoFactor.enabledAt': 1 } });
+    if (existing?.twoFactor) return { success: false, error: 'Two-factor authentication is already enabled' };
+
+    const secret = generateTotpSecret();
+    await collection.updateOne({ _id }, { $set: { twoFactorPending: { secret, createdAt: new Date() } } });
+
+    const otpauthUri = buildOtpAuthUri(secret, user.email);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { width: 240, margin: 1 });
+
+    return { success: true, secret, otpauthUri, qrCodeDataUrl };
+  } catch (error) {
+    console.error('Error starting two-factor enrollment:', error);
+    return { success: false, error: 'Failed to start two-factor enrollment' };
+  }
+});
+
+/**
+ * Finish enrollment with a code from the authenticator app. Returns the
+ * recovery codes — the only time they are shown in plain text.
+ */
+export const confirmTwoFactorEnrollment = requireSession()(async (
+  user,
+  code: string
+): Promise<TwoFactorActionResult & { recoveryCodes?: string[] }> => {
+  const parsed = parseCode(code);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    const collection = await getCollection();
+    const _id = new ObjectId(user.id);
+    const doc = await collection.findOne({ _id }, { projection: { twoFactorPending: 1, 'twoFactor.enabledAt': 1 } });
+
+    if (doc?.twoFactor) return { success: false, error: 'Two-factor authentication is already enabled' };
+
+    const pending = doc?.twoFactorPending;
+    if (!pending || Date.now() - pending.createdAt.getTime() > PENDING_TTL_MS) {
+      return { success: false, error: 'Enrollment expired. Start again to get a new QR code.' };
+    }
+
+    const step = verifyTotp(pending.secret, parsed.code);
+    if (step === null) return { success: false, error: 'Invalid code. Check the time on your device and try again.' };
+
+    const recoveryCodes = generateRecoveryCodes();
+    const result = await collection.updateOne(
+      { _id, 'twoFactorPending.secret': pending.secret, twoFactor: { $exists: false } },
+      {
+        $set: {
+          twoFactor: {
+            secret: pending.secret,
+            enabledAt: new Date(),
+            lastUsedStep: step,
+            recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+          },
+          updatedAt: new Date(),
+        },
+        $unset: { twoFactorPending: '' },
+      }
+    );
+    if (result.modifiedCount === 0) return { success: false, error: 'Enrollment changed in another tab. Start again.' };
+
+    return { success: true, recoveryCodes };
+  } catch (error) {
+    console.error('Error confirming two-factor enrollment:', error);
+    return { success: false, error: 'Failed to enable two-factor authentication' };
+  }
+});
+
+/**
+ * Replace all recovery codes after checking a current code
+ */
+export const regenerateRecoveryCodes = requireSession()(async (
+  user,
+  code: string
+): Promise<TwoFactorActionResult & { recoveryCodes?: string[] }> => {
+  const parsed = parseCode(code);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    const _id = new ObjectId(user.id);
+    if (!(await verifySecondFactor(_id, parsed.code))) {
+      return { success: false, error: 'Invalid authentication code' };
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const collection = await getCollection();
+    await collection.updateOne(
+      { _id, twoFactor: { $exists: true } },
+      { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode), updatedAt: new Date() } }
+    );
+
+    return { success: true, recoveryCodes };
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    return { success: false, error: 'Failed to regenerate recovery codes' };
+  }
+});
+
+/**
+ * Turn 2FA off after checking a current code. Not allowed while the
+ * security policy requires 2FA for the user's role.
+ */
+export const disableTwoFactor = requireSession()(async (
+  user,
+  code: string
+): Promise<TwoFactorActionResult> => {
+  const parsed = parseCode(code);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    if (isTwoFactorRequired(user.role, await getSecurityPolicy())) {
+      return { success: false, error: 'Two-factor authentication is required for your role and cannot be turned off' };
+    }
+
+    const _id = new ObjectId(user.id);
+    if (!(await verifySecondFactor(_id, parsed.code))) {
+      return { success: false, error: 'Invalid authentication code' };
+    }
+
+    const collection = await getCollection();
+    await collection.updateOne({ _id }, { $unset: { twoFactor: '' }, $set: { updatedAt: new Date() } });
+    return { success: true };
+  } catch (error) {
+    console.error('Error disabling two-factor:', error);
+    return { success: false, error: 'Failed to disable two-factor authentication' };
+  }
+});
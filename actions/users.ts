@@ -0,0 +1,271 @@
+'use server';
+
+/**
+ * Dashboard User Server Actions
+ *
+ * Account management for admins: invite users by email, change roles,
+ * deactivate accounts via `isActive`, send password reset links and
+ * reset two-factor authentication for users who lost their device.
+ * Invitees have no password until they follow their one-time link
+ * (see lib/password-links).
+ *
+ * @module actions/users
+ */
+
+import { ObjectId } from 'mongodb';
+import clientPromise from '@/lib/mongodb';
+import { requireSession } from '@/lib/require-session';
+import { issuePasswordLink, sendPasswordLinkEmail } from '@/lib/password-links';
+import { revokeAllSessions } from '@/lib/sessions';
+import { recordAudit, diffFields } from '@/lib/audit-log';
+import { InviteUserSchema, safeValidate, formatValidationErrors, type UserDocument } from '@/lib/validation';
+import { USER_ROLES, type UserRole } from '@/lib/permissions';
+import type { DashboardUser } from '@/types';
+
+type UserRecord = Omit<UserDocument, '_id'> & { _id?: ObjectId };
+
+interface UserActionResult {
+  success: boolean;
+  error?: string;
+}
+
+async function getCollection() {
+  const client = await clientPromise;
+  return client.db('hackoverflow').collection<UserRecord>('users');
+}
+
+function toDashboardUser(doc: UserRecord & { _id: ObjectId }): DashboardUser {
+  return {
+    _id: doc._id.toString(),
+    email: doc.email,
+    name: doc.name,
+    role: doc.role ?? 'admin',
+    isActive: doc.isActive !== false,
+    invitePending: !doc.password,
+    twoFactorEnabled: !!doc.twoFactor,
+    createdAt: doc.createdAt,
+    lastLoginAt: doc.lastLoginAt,
+  };
+}
+
+function parseId(id: string): ObjectId | null {
+  return ObjectId.isValid(id) ? new ObjectId(id) : null;
+}
+
+/**
+ * List all dashboard accounts, newest first
+ */
+export const getUsers = requireSession('users')(async (): Promise<DashboardUser[]> => {
+  try {
+    const collection = await getCollection();
+    const users = await collection
+      .find({}, { projection: { passwordToken: 0, 'twoFactor.secret': 0, twoFactorPending: 0 } })
+      .sort({ createdAt: -1 })
+      .toArray();
+    return users.map(toDashboardUser);
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    throw new Error('Failed to fetch users');
+  }
+});
+
+/**
+ * Create an account without a password and email the invitee a
+ * one-time set-password link
+ */
+export const inviteUser = requireSession('users')(async (
+  user,
+  input: { email: string; name?: string; role: UserRole }
+): Promise<UserActionResult & { user?: DashboardUser }> => {
+  const validation = safeValidate(InviteUserSchema, input);
+  if (!validation.success) {
+    return { success: false, error: formatValidationErrors(validation.errors).message };
+  }
+  const { email, name, role } = validation.data;
+
+  try {
+    const collection = await getCollection();
+
+    if (await collection.findOne({ email })) {
+      return { success: false, error: `An account for ${email} already exists` };
+    }
+
+    const doc: UserRecord = {
+      email,
+      name: name || undefined,
+      role,
+      isActive: true,
+      invitedBy: user.id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const { insertedId } = await collection.insertOne(doc);
+    const invited = toDashboardUser({ ...doc, _id: insertedId });
+
+    await recordAudit(user, {
+      action: 'user.invite',
+      targetType: 'user',
+      targetIds: [insertedId.toString()],
+      changes: diffFields({}, { email, name: doc.name, role }),
+    });
+
+    try {
+      const url = await issuePasswordLink(insertedId, 'invite');
+      await sendPasswordLinkEmail({ email, name: doc.name }, url, 'invite');
+    } catch (error) {
+      console.error('Error sending invitation email:', error);
+      return {
+        success: false,
+        user: invited,
+        error: 'Account created, but the invitation email could not be sent. Use RESEND LINK to try again.',
+      };
+    }
+
+    return { success: true, user: invited };
+  } catch (error) {
+    console.error('Error inviting user:', error);
+    return { success: false, error: 'Failed to invite user' };
+  }
+});
+
+/**
+ * Change an account's role. Admins cannot change their own role.
+ */
+export const updateUserRole = requireSession('users')(async (
+  user,
+  id: string,
+  role: UserRole
+): Promise<UserActionResult> => {
+  if (id === user.id) return { success: false, error: 'You cannot change your own role' };
+  if (!USER_ROLES.includes(role)) return { success: false, error: 'Invalid role' };
+
+  const _id = parseId(id);
+  if (!_id) return { success: false, error: 'Invalid user ID' };
+
+  try {
+    const collection = await getCollection();
+    const before = await collection.findOneAndUpdate(
+      { _id },
+      { $set: { role, updatedAt: new Date() } },
+      { projection: { role: 1 } }
+    );
+    if (!before) return { success: false, error: 'User not found' };
+
+    await recordAudit(user, {
+      action: 'user.role_change',
+      targetType: 'user',
+      targetIds: [id],
+      changes: diffFields(before, { role }, ['role']),
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    return { success: false, error: 'Failed to update role' };
+  }
+});
+
+/**
+ * Activate or deactivate an account. Deactivated users cannot log in
+ * and their existing sessions stop validating.
+ */
+export const setUserActive = requireSession('users')(async (
+  user,
+  id: string,
+  isActive: boolean
+): Promise<UserActionResult> => {
+  if (id === user.id && !isActive) return { success: false, error: 'You cannot deactivate your own account' };
+
+  const _id = parseId(id);
+  if (!_id) return { success: false, error: 'Invalid user ID' };
+
+  try {
+    const collection = await getCollection();
+    const before = await collection.findOneAndUpdate(
+      { _id },
+      { $set: { isActive, updatedAt: new Date() } },
+      { projection: { isActive: 1 } }
+    );
+    if (!before) return { success: false, error: 'User not found' };
+
+    await recordAudit(user, {
+      action: isActive ? 'user.activate' : 'user.deactivate',
+      targetType: 'user',
+      targetIds: [id],
+      changes: diffFields({ isActive: before.isActive !== false }, { isActive }),
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating user status:', error);
+    return { success: false, error: 'Failed to update user' };
+  }
+});
+
+/**
+ * Email a fresh one-time set-password link. Pending invitees get a new
+ * invitation; existing users get a reset link and keep their current
+ * password until they use it.
+ */
+export const resetUserPassword = requireSession('users')(async (
+  user,
+  id: string
+): Promise<UserActionResult> => {
+  const _id = parseId(id);
+  if (!_id) return { success: false, error: 'Invalid user ID' };
+
+  try {
+    const collection = await getCollection();
+    const target = await collection.findOne({ _id }, { projection: { email: 1, name: 1, password: 1 } });
+    if (!target) return { success: false, error: 'User not found' };
+
+    const kind = target.password ? 'reset' : 'invite';
+    const url = await issuePasswordLink(_id, kind);
+    await sendPasswordLinkEmail({ email: target.email, name: target.name }, url, kind);
+
+    await recordAudit(user, {
+      action: kind === 'invite' ? 'user.resend_invite' : 'user.password_reset_link',
+      targetType: 'user',
+      targetIds: [id],
+      summary: `Sent ${kind} link to ${target.email}`,
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Error sending password link:', error);
+    return { success: false, error: 'Failed to send password link' };
+  }
+});
+
+/**
+ * Turn off two-factor authentication for a user who lost their
+ * authenticator and recovery codes. Their sessions are revoked so the
+ * next login goes through the password (and, if the policy requires it,
+ * a fresh enrollment).
+ */
+export const resetUserTwoFactor = requireSession('users')(async (
+  user,
+  id: string
+): Promise<UserActionResult> => {
+  if (id === user.id) return { success: false, error: 'Use the Security page to manage your own two-factor settings' };
+
+  const _id = parseId(id);
+  if (!_id) return { success: false, error: 'Invalid user ID' };
+
+  try {
+    const collection = await getCollection();
+    const result = await collection.updateOne(
+      { _id },
+      { $unset: { twoFactor: '', twoFactorPending: '' }, $set: { updatedAt: new Date() } }
+    );
+    if (result.matchedCount === 0) return { success: false, error: 'User not found' };
+    await revokeAllSessions(id);
+
+    await recordAudit(user, {
+      action: 'user.reset_2fa',
+      targetType: 'user',
+      targetIds: [id],
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Error resetting two-factor:', error);
+    return { success: false, error: 'Failed to reset two-factor authentication' };
+  }
+});
@@ -3,12 +3,31 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { loginAction } from '@/actions/auth';
+import { loginAction, verifyTwoFactorLoginAction } from '@/actions/auth';
+
+/**
+ * Where to go after login — the page the proxy bounced the user from,
+ * limited to same-origin paths
+ */
+function getReturnPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  if (!next) return '/dashboard';
+
+  // Resolve the way the browser would, so tricks like `/\t/evil.com` show up as another origin
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : '/dashboard';
+  } catch {
+    return '/dashboard';
+  }
+}
 
 export default function LoginPage() {
   const router = useRouter();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [needsCode, setNeedsCode] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -17,10 +36,18 @@ export default function LoginPage() {
     setError('');
     setLoading(true);
     try {
-      const result = await loginAction(email, password);
+      const result = needsCode
+        ? await verifyTwoFactorLoginAction(code)
+        : await loginAction(email, password);
       if (result.success) {
-        router.push('/dashboard');
+        router.push(getReturnPath());
+      } else if (result.twoFactorRequired) {
+        setNeedsCode(true);
       } else {
+        if (result.twoFactorExpired) {
+          setNeedsCode(false);
+          setCode('');
+        }
         setError(result.error || 'Login failed');
       }
     } catch (err) {
@@ -215,11 +242,42 @@ export default function LoginPage() {
             letterSpacing: '0.05em',
             marginBottom: '2rem',
           }}>
-            Login to access your dashboard
+            {needsCode ? 'Enter the code from your authenticator app' : 'Login to access your dashboard'}
           </p>
 
           <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
 
+            {needsCode ? (
+              <div>
+                <label style={{
+                  display: 'block',
+                  fontSize: '0.65rem',
+                  color: 'rgba(255,255,255,0.4)',
+                  letterSpacing: '0.2em',
+                  marginBottom: '0.5rem',
+                }}>
+                  AUTHENTICATION CODE
+                </label>
+                <input
+                  className="input-field"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456 or recovery code"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                  style={{ fontFamily: 'monospace', letterSpacing: '0.2em' }}
+                />
+                <button
+                  type="button"
+                  onClick={() => { setNeedsCode(false); setCode(''); setError(''); }}
+                  className="back-link"
+                  style={{ background: 'none', border: 'none', cursor: 'pointer', marginTop: '0.75rem' }}
+                >
+                  ← USE A DIFFERENT ACCOUNT
+                </button>
+              </div>
+            ) : (<>
             <div>
               <label style={{
                 display: 'block',
@@ -259,6 +317,7 @@ export default function LoginPage() {
                 required
               />
             </div>
+            </>)}
 
             {error && (
               <div style={{
@@ -279,7 +338,7 @@ export default function LoginPage() {
               className="submit-btn"
               style={{ marginTop: '0.5rem' }}
             >
-              {loading ? 'LOGGING IN...' : 'LOGIN →'}
+              {loading ? (needsCode ? 'VERIFYING...' : 'LOGGING IN...') : (needsCode ? 'VERIFY →' : 'LOGIN →')}
             </button>
           </form>
         </div>
@@ -0,0 +1,206 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { setPasswordAction } from '@/actions/auth';
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '0.65rem',
+  color: 'rgba(255,255,255,0.4)',
+  letterSpacing: '0.2em',
+  marginBottom: '0.5rem',
+};
+
+function SetPasswordForm() {
+  const router = useRouter();
+  const token = useSearchParams().get('token') ?? '';
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (password !== confirm) {
+      setError('Passwords do not match');
+      return;
+    }
+    setLoading(true);
+    try {
+      const result = await setPasswordAction(token, password);
+      if (result.success) {
+        router.push('/login');
+      } else {
+        setError(result.error || 'Could not set password');
+      }
+    } catch {
+      setError('An error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <p style={{ fontSize: '0.8rem', color: '#ff6b6b', letterSpacing: '0.03em' }}>
+        ⚠ This link is missing its token. Ask an admin to send a new one.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+      <div>
+        <label style={labelStyle}>NEW PASSWORD</label>
+        <input
+          className="input-field"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="At least 8 characters"
+          autoComplete="new-password"
+          required
+        />
+      </div>
+
+      <div>
+        <label style={labelStyle}>CONFIRM PASSWORD</label>
+        <input
+          className="input-field"
+          type="password"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+          placeholder="••••••••"
+          autoComplete="new-password"
+          required
+        />
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '0.75rem 1rem',
+          border: '1px solid rgba(255,80,80,0.3)',
+          background: 'rgba(255,80,80,0.06)',
+          fontSize: '0.75rem',
+          color: '#ff6b6b',
+          letterSpacing: '0.03em',
+        }}>
+          ⚠ {error}
+        </div>
+      )}
+
+      <button type="submit" disabled={loading} className="submit-btn" style={{ marginTop: '0.5rem' }}>
+        {loading ? 'SAVING...' : 'SET PASSWORD →'}
+      </button>
+    </form>
+  );
+}
+
+export default function SetPasswordPage() {
+  return (
+    <div style={{
+      minHeight: '100vh',
+      backgroundColor: '#050505',
+      color: '#fff',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+    }}>
+      <style>{`
+        * { box-sizing: border-box; margin: 0; padding: 0; }
+
+        .input-field {
+          width: 100%;
+          background: rgba(255,255,255,0.03);
+          border: 1px solid rgba(255,255,255,0.12);
+          padding: 0.875rem 1rem;
+          color: #fff;
+          font-size: 0.875rem;
+          transition: border-color 0.3s, background 0.3s;
+          outline: none;
+        }
+
+        .input-field::placeholder {
+          color: rgba(255,255,255,0.2);
+        }
+
+        .input-field:focus {
+          border-color: rgba(255,255,255,0.35);
+          background: rgba(255,255,255,0.05);
+        }
+
+        .submit-btn {
+          width: 100%;
+          padding: 1rem;
+          background: #fff;
+          color: #000;
+          border: none;
+          font-weight: 900;
+          font-size: 0.875rem;
+          letter-spacing: 0.12em;
+          cursor: pointer;
+          transition: all 0.3s cubic-bezier(0.16, 1, 0.3, 1);
+        }
+
+        .submit-btn:hover:not(:disabled) {
+          background: rgba(255,255,255,0.88);
+        }
+
+        .submit-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .back-link {
+          font-size: 0.75rem;
+          color: rgba(255,255,255,0.3);
+          text-decoration: none;
+          letter-spacing: 0.1em;
+          transition: color 0.3s;
+        }
+
+        .back-link:hover {
+          color: rgba(255,255,255,0.7);
+        }
+      `}</style>
+
+      <div style={{ width: '100%', maxWidth: '26rem', margin: '0 1.5rem' }}>
+        <div style={{
+          border: '1px solid rgba(255,255,255,0.08)',
+          padding: '2.5rem',
+          background: 'rgba(255,255,255,0.02)',
+        }}>
+          <h1 style={{
+            fontSize: '1.75rem',
+            fontWeight: 900,
+            letterSpacing: '-0.03em',
+            marginBottom: '0.375rem',
+          }}>
+            SET PASSWORD
+          </h1>
+          <p style={{
+            fontSize: '0.8rem',
+            color: 'rgba(255,255,255,0.4)',
+            letterSpacing: '0.05em',
+            marginBottom: '2rem',
+          }}>
+            Choose a password for your dashboard account
+          </p>
+
+          <Suspense fallback={null}>
+            <SetPasswordForm />
+          </Suspense>
+        </div>
+
+        <div style={{ marginTop: '1.75rem', textAlign: 'center' }}>
+          <Link href="/login" className="back-link">
+            ← BACK TO LOGIN
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { EventAnalytics, StatsBreakdownRow, assertAuthorized } from '@/types';
+import { getEventAnalytics } from '@/actions/analytics';
+import { getPostEventReport } from '@/actions/post-event-report';
+import { checkSessionAction } from '@/actions/auth';
+import { hasPermission } from '@/lib/permissions';
+import { downloadCSV, downloadSVGAsPNG } from '@/utils/chart-export';
+import { generatePostEventReportPDF } from '@/utils/generate-report-pdf';
+
+// ─── Style tokens ────────────────────────────────────────────────────────────
+const mono: React.CSSProperties = { fontFamily: 'monospace' };
+const headStyle: React.CSSProperties = {
+  ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.35)', letterSpacing: '0.08em',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  ...mono, fontSize: '0.75rem', cursor: 'pointer',
+  letterSpacing: '0.05em', transition: 'all 0.2s',
+};
+const smallBtnStyle: React.CSSProperties = { ...btnStyle, padding: '0.3rem 0.6rem', fontSize: '0.65rem' };
+
+// Charts are exported as standalone SVG, so colours are literal values
+const AXIS  = 'rgba(255,255,255,0.45)';
+const GRID  = 'rgba(255,255,255,0.08)';
+const GREEN = '#4ade80';
+const BLUE  = '#60a5fa';
+const AMBER = '#f59e0b';
+const RED   = '#f87171';
+const MUTED = 'rgba(255,255,255,0.25)';
+
+/** Institutes / states drawn in the no-show chart; the CSV has them all */
+const TOP_ROWS = 15;
+
+const formatHour = (value: Date | string) =>
+  new Date(value).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit', hour12: false });
+
+const formatDay = (value: Date | string) =>
+  new Date(value).toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata', day: '2-digit', month: 'short' });
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+/** Smallest 1 / 2 / 2.5 / 5 × 10ⁿ at or above `value` */
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(v => v >= value)!;
+}
+
+const truncate = (s: string, max: number) => (s.length > max ? `${s.slice(0, max - 1)}…` : s);
+
+// ─── Charts ──────────────────────────────────────────────────────────────────
+interface Series { name: string; color: string; values: number[] }
+
+function Legend({ series }: { series: Pick<Series, 'name' | 'color'>[] }) {
+  return (
+    <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+      {series.map(s => (
+        <span key={s.name} style={{ ...headStyle, display: 'flex', alignItems: 'center', gap: '0.35rem' }}>
+          <span style={{ width: 10, height: 10, backgroundColor: s.color, display: 'inline-block' }} />
+          {s.name.toUpperCase()}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Vertical grouped bars, one group per category
+ *
+ * Wide data sets grow the SVG past its container, which scrolls.
+ */
+function BarChart({ svgRef, categories, subLabels, series, minSlot = 24, annotate }: {
+  svgRef: React.Ref<SVGSVGElement>;
+  categories: string[];
+  /** Second axis line under a category, e.g. the day at midnight */
+  subLabels?: (string | undefined)[];
+  series: Series[];
+  minSlot?: number;
+  /** Text drawn above a group */
+  annotate?: (index: number) => string | undefined;
+}) {
+  const padL = 44, padR = 12, padT = 22, padB = subLabels ? 44 : 32;
+  const plotH = 220;
+  const slot = Math.max(minSlot, (960 - padL - padR) / Math.max(categories.length, 1));
+  const width = padL + padR + slot * categories.length;
+  const height = padT + plotH + padB;
+
+  const max = niceMax(Math.max(0, ...series.flatMap(s => s.values)));
+  const barW = Math.max(1, (slot * 0.8) / series.length);
+  const y = (v: number) => padT + plotH - (v / max) * plotH;
+  // Skip category labels that would overlap
+  const labelEvery = Math.max(1, Math.ceil(48 / slot));
+
+  return (
+    <svg ref={svgRef} xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${width} ${height}`} width={width} height={height} style={{ display: 'block' }}>
+      {[0, 0.25, 0.5, 0.75, 1].map(f => (
+        <g key={f}>
+          <line x1={padL} x2={width - padR} y1={y(max * f)} y2={y(max * f)} stroke={GRID} />
+          <text x={padL - 6} y={y(max * f) + 3} textAnchor="end" fontFamily="monospace" fontSize="10" fill={AXIS}>
+            {Number.isInteger(max * f) ? max * f : (max * f).toFixed(1)}
+          </text>
+        </g>
+      ))}
+
+      {categories.map((category, i) => {
+        const x0 = padL + slot * i + slot * 0.1;
+        const top = Math.min(...series.map(s => y(s.values[i] ?? 0)));
+        const note = annotate?.(i);
+        return (
+          <g key={i}>
+            {series.map((s, j) => {
+              const v = s.values[i] ?? 0;
+              return (
+                <rect key={s.name} x={x0 + barW * j} y={y(v)} width={barW} height={padT + plotH - y(v)} fill={s.color}>
+                  <title>{`${category} · ${s.name}: ${v}`}</title>
+                </rect>
+              );
+            })}
+            {note && (
+              <text x={padL + slot * (i + 0.5)} y={top - 5} textAnchor="middle" fontFamily="monospace" fontSize="10" fill="#fff">{note}</text>
+            )}
+            {i % labelEvery === 0 && (
+              <text x={padL + slot * (i + 0.5)} y={padT + plotH + 14} textAnchor="middle" fontFamily="monospace" fontSize="10" fill={AXIS}>
+                {category}
+              </text>
+            )}
+            {subLabels?.[i] && (
+              <text x={padL + slot * i} y={padT + plotH + 30} fontFamily="monospace" fontSize="10" fontWeight="bold" fill="#fff">
+                {subLabels[i]}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      <line x1={padL} x2={width - padR} y1={padT + plotH} y2={padT + plotH} stroke={AXIS} />
+    </svg>
+  );
+}
+
+/** Horizontal no-show rate bars, largest groups first */
+function NoShowChart({ svgRef, rows }: { svgRef: React.Ref<SVGSVGElement>; rows: StatsBreakdownRow[] }) {
+  const labelW = 240, barArea = 560, valueW = 140, rowH = 22, padT = 8;
+  const width = labelW + barArea + valueW;
+  const height = padT * 2 + rowH * rows.length;
+
+  return (
+    <svg ref={svgRef} xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${width} ${height}`} width={width} height={height} style={{ display: 'block' }}>
+      {rows.map((row, i) => {
+        const noShows = row.registered - row.arrived;
+        const rate = percent(noShows, row.registered);
+        const yTop = padT + rowH * i;
+        return (
+          <g key={row.name}>
+            <text x={labelW - 10} y={yTop + rowH / 2 + 4} textAnchor="end" fontFamily="monospace" fontSize="11" fill="rgba(255,255,255,0.75)">
+              {truncate(row.name, 32)}
+            </text>
+            <rect x={labelW} y={yTop + 4} width={barArea} height={rowH - 8} fill={GRID} />
+            <rect x={labelW} y={yTop + 4} width={(barArea * rate) / 100} height={rowH - 8} fill={rate >= 50 ? RED : AMBER}>
+              <title>{`${row.name}: ${noShows} of ${row.registered} did not arrive`}</title>
+            </rect>
+            <text x={labelW + barArea + 10} y={yTop + rowH / 2 + 4} fontFamily="monospace" fontSize="11" fill={AXIS}>
+              {`${rate}% · ${noShows}/${row.registered}`}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function ChartCard({ title, note, svgRef, fileName, csv, children }: {
+  title: string;
+  note?: string;
+  svgRef: React.RefObject<SVGSVGElement | null>;
+  fileName: string;
+  csv: () => { headers: string[]; rows: unknown[][] };
+  children: React.ReactNode;
+}) {
+  const [error, setError] = useState('');
+
+  const exportPNG = async () => {
+    if (!svgRef.current) return;
+    try {
+      setError('');
+      await downloadSVGAsPNG(svgRef.current, `${fileName}.png`);
+    } catch (e) {
+      console.error(e);
+      setError('PNG export failed');
+    }
+  };
+
+  const exportCSV = () => {
+    const { headers, rows } = csv();
+    downloadCSV(`${fileName}.csv`, headers, rows);
+  };
+
+  return (
+    <div style={{ border: '1px solid rgba(255,255,255,0.12)', padding: '1.25rem', marginBottom: '1.5rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '1rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+        <div>
+          <div style={{ fontWeight: 900, fontSize: '1.1rem', letterSpacing: '-0.02em' }}>{title}</div>
+          {note && <div style={{ ...headStyle, marginTop: '0.3rem' }}>{note}</div>}
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          {error && <span style={{ ...mono, fontSize: '0.7rem', color: RED }}>{error}</span>}
+          <button style={smallBtnStyle} onClick={exportPNG}>PNG</button>
+          <button style={smallBtnStyle} onClick={exportCSV}>CSV</button>
+        </div>
+      </div>
+      <div style={{ overflowX: 'auto' }}>{children}</div>
+    </div>
+  );
+}
+
+// ─── Page ────────────────────────────────────────────────────────────────────
+export default function AnalyticsPage() {
+  const [analytics, setAnalytics] = useState<EventAnalytics | null>(null);
+  const [loading, setLoading]     = useState(true);
+  const [error, setError]         = useState('');
+  const [groupBy, setGroupBy]     = useState<'institutes' | 'states'>('institutes');
+  const [role, setRole]           = useState<string | undefined>();
+  const [reporting, setReporting] = useState(false);
+
+  const hourlyRef = useRef<SVGSVGElement>(null);
+  const dwellRef  = useRef<SVGSVGElement>(null);
+  const mealsRef  = useRef<SVGSVGElement>(null);
+  const noShowRef = useRef<SVGSVGElement>(null);
+
+  const load = async () => {
+    try {
+      setLoading(true);
+      setAnalytics(assertAuthorized(await getEventAnalytics()));
+      setError('');
+    } catch (e) {
+      console.error(e);
+      setError('Failed to load analytics');
+    } finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    load();
+    checkSessionAction()
+      .then(session => setRole(session.user?.role))
+      .catch(() => {});
+  }, []);
+
+  const downloadReport = async () => {
+    try {
+      setReporting(true);
+      setError('');
+      const report = assertAuthorized(await getPostEventReport());
+      generatePostEventReportPDF(report, `hackoverflow-post-event-report-${new Date().toISOString().slice(0, 10)}.pdf`);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to generate the post-event report');
+    } finally { setReporting(false); }
+  };
+
+  const hourly = analytics?.hourly ?? [];
+  const dwell  = analytics?.dwell;
+  const meals  = analytics?.meals ?? [];
+  const groups = analytics?.[groupBy] ?? [];
+
+  const peak = hourly.reduce<EventAnalytics['hourly'][number] | null>((best, h) => (!best || h.arrivals > best.arrivals ? h : best), null);
+  const served = meals.reduce((n, m) => n + m.collected, 0);
+  const expected = meals.reduce((n, m) => n + m.headcount, 0);
+  const registered = groups.reduce((n, g) => n + g.registered, 0);
+  const arrived = groups.reduce((n, g) => n + g.arrived, 0);
+  const groupLabel = groupBy === 'institutes' ? 'institute' : 'state';
+
+  return (
+    <>
+      <style>{`
+        .an-page { padding: 3rem; max-width: 1200px; }
+        @media (max-width: 900px) {
+          .an-page { padding: 1.25rem; padding-top: calc(60px + 1.25rem); }
+        }
+      `}</style>
+
+      <div className="an-page">
+
+        {/* ── Header ── */}
+        <div style={{ marginBottom: '2.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', gap: '1rem', flexWrap: 'wrap' }}>
+          <div>
+            <h1 style={{ fontSize: 'clamp(2.5rem, 6vw, 4rem)', fontWeight: 900, letterSpacing: '-0.05em', marginBottom: '0.5rem' }}>
+              ANALYTICS
+            </h1>
+            <p style={{ ...mono, color: 'rgba(255,255,255,0.5)', fontSize: '0.875rem' }}>
+              Arrivals, lab time, meals and no-shows · times in IST
+              {analytics && <> · updated {formatHour(analytics.generatedAt)}</>}
+            </p>
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            {hasPermission(role, 'database') && (
+              <button style={{ ...btnStyle, borderColor: AMBER, color: AMBER }} onClick={downloadReport} disabled={reporting}>
+                {reporting ? 'GENERATING…' : 'POST-EVENT REPORT (PDF)'}
+              </button>
+            )}
+            <button style={btnStyle} onClick={load} disabled={loading}>{loading ? 'LOADING…' : 'REFRESH'}</button>
+          </div>
+        </div>
+
+        {error && <div style={{ ...mono, fontSize: '0.75rem', color: RED, marginBottom: '1rem' }}>{error}</div>}
+
+        {!analytics ? (
+          loading && <div style={headStyle}>Loading…</div>
+        ) : (
+          <>
+            {/* ── Hourly activity ── */}
+            <ChartCard
+              title="HOURLY ACTIVITY"
+              note={peak && peak.arrivals > 0
+                ? `Peak arrivals: ${peak.arrivals} at ${formatDay(peak.hour)} ${formatHour(peak.hour)}`
+                : 'No check-ins recorded yet'}
+              svgRef={hourlyRef}
+              fileName="hourly-activity"
+              csv={() => ({
+                headers: ['hour', 'hour_ist', 'arrivals', 'lab_entries', 'meals'],
+                rows: hourly.map(h => [
+                  new Date(h.hour).toISOString(), `${formatDay(h.hour)} ${formatHour(h.hour)}`,
+                  h.arrivals, h.labEntries, h.meals,
+                ]),
+              })}
+            >
+              <Legend series={[{ name: 'College arrivals', color: GREEN }, { name: 'Lab entries', color: BLUE }, { name: 'Meals served', color: AMBER }]} />
+              {hourly.length === 0 ? (
+                <div style={headStyle}>Nothing to chart yet</div>
+              ) : (
+                <BarChart
+                  svgRef={hourlyRef}
+                  categories={hourly.map(h => formatHour(h.hour))}
+                  subLabels={hourly.map((h, i) => (i === 0 || formatHour(h.hour) === '00:00' ? formatDay(h.hour) : undefined))}
+                  series={[
+                    { name: 'Arrivals', color: GREEN, values: hourly.map(h => h.arrivals) },
+                    { name: 'Lab entries', color: BLUE, values: hourly.map(h => h.labEntries) },
+                    { name: 'Meals', color: AMBER, values: hourly.map(h => h.meals) },
+                  ]}
+                  minSlot={18}
+                />
+              )}
+            </ChartCard>
+
+            {/* ── Lab dwell time ── */}
+            <ChartCard
+              title="LAB DWELL TIME"
+              note={dwell && dwell.completed > 0
+                ? `${dwell.completed} participants checked in and out of a lab · average stay ${formatDuration(dwell.averageMinutes ?? 0)} · breaks while temporarily out are included`
+                : 'Nobody has checked out of a lab yet'}
+              svgRef={dwellRef}
+              fileName="lab-dwell-time"
+              csv={() => ({
+                headers: ['bucket', 'min_minutes', 'max_minutes', 'participants'],
+                rows: (dwell?.buckets ?? []).map(b => [b.label, b.minMinutes, b.maxMinutes ?? '', b.count]),
+              })}
+            >
+              <BarChart
+                svgRef={dwellRef}
+                categories={(dwell?.buckets ?? []).map(b => b.label)}
+                series={[{ name: 'Participants', color: BLUE, values: (dwell?.buckets ?? []).map(b => b.count) }]}
+                annotate={i => {
+                  const count = dwell?.buckets[i]?.count ?? 0;
+                  return count > 0 ? String(count) : undefined;
+                }}
+              />
+            </ChartCard>
+
+            {/* ── Meal uptake ── */}
+            <ChartCard
+              title="MEAL UPTAKE"
+              note={expected > 0
+                ? `${served} meals served against a headcount of ${expected} (${percent(served, expected)}%) · headcount is people on campus during the serving window, or everyone who arrived when a slot has none`
+                : 'No meal slots or arrivals yet'}
+              svgRef={mealsRef}
+              fileName="meal-uptake"
+              csv={() => ({
+                headers: ['slot_key', 'slot', 'collected', 'headcount', 'uptake_pct'],
+                rows: meals.map(m => [m.key, m.label, m.collected, m.headcount, percent(m.collected, m.headcount)]),
+              })}
+            >
+              <Legend series={[{ name: 'Headcount', color: MUTED }, { name: 'Collected', color: GREEN }]} />
+              <BarChart
+                svgRef={mealsRef}
+                categories={meals.map(m => truncate(m.label, 18))}
+                series={[
+                  { name: 'Headcount', color: MUTED, values: meals.map(m => m.headcount) },
+                  { name: 'Collected', color: GREEN, values: meals.map(m => m.collected) },
+                ]}
+                minSlot={110}
+                annotate={i => (meals[i].headcount > 0 ? `${percent(meals[i].collected, meals[i].headcount)}%` : undefined)}
+              />
+            </ChartCard>
+
+            {/* ── No-shows ── */}
+            <ChartCard
+              title={`NO-SHOW RATE BY ${groupLabel.toUpperCase()}`}
+              note={registered > 0
+                ? `${registered - arrived} of ${registered} registered participants with a ${groupLabel} have not arrived (${percent(registered - arrived, registered)}%)` +
+                  (groups.length > TOP_ROWS ? ` · chart shows the ${TOP_ROWS} largest, the CSV has all ${groups.length}` : '')
+                : `No participants have a ${groupLabel} recorded`}
+              svgRef={noShowRef}
+              fileName={`no-shows-by-${groupLabel}`}
+              csv={() => ({
+                headers: [groupLabel, 'registered', 'arrived', 'no_shows', 'no_show_pct'],
+                rows: groups.map(g => [g.name, g.registered, g.arrived, g.registered - g.arrived, percent(g.registered - g.arrived, g.registered)]),
+              })}
+            >
+              <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.75rem' }}>
+                {(['institutes', 'states'] as const).map(g => (
+                  <button
+                    key={g}
+                    style={{ ...smallBtnStyle, ...(groupBy === g && { borderColor: '#fff', color: '#fff' }) }}
+                    onClick={() => setGroupBy(g)}
+                  >
+                    {g.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+              {groups.length > 0 && <NoShowChart svgRef={noShowRef} rows={groups.slice(0, TOP_ROWS)} />}
+            </ChartCard>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
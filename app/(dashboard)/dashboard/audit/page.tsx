@@ -0,0 +1,287 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AUDIT_TARGET_TYPES, AuditLogEntry, AuditLogQuery, AuditTargetType, assertAuthorized } from '@/types';
+import { getAuditLog, exportAuditLogCSV } from '@/actions/audit-log';
+
+// ─── Style tokens ────────────────────────────────────────────────────────────
+const mono: React.CSSProperties = { fontFamily: 'monospace' };
+const headStyle: React.CSSProperties = {
+  ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.08em',
+};
+const inputStyle: React.CSSProperties = {
+  width: '100%', boxSizing: 'border-box',
+  backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.15)',
+  color: '#fff', ...mono, fontSize: '0.75rem',
+  padding: '0.5rem 0.6rem', outline: 'none',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  ...mono, fontSize: '0.7rem', cursor: 'pointer',
+  letterSpacing: '0.05em', transition: 'all 0.2s', whiteSpace: 'nowrap',
+};
+
+const PAGE_SIZE = 50;
+const GRID_COLS = '1fr 1.6fr 1.4fr 2.5fr auto';
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleString('en-IN', {
+    timeZone: 'Asia/Kolkata', day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  });
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+/** `datetime-local` inputs give local time without a zone — send them as ISO */
+const toIso = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+function downloadBlob(content: string, filename: string) {
+  const blob = new Blob([content], { type: 'text/csv' });
+  const url  = URL.createObjectURL(blob);
+  const a    = document.createElement('a');
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+}
+
+type Filters = { actor: string; action: string; targetType: string; targetId: string; from: string; to: string };
+
+const EMPTY_FILTERS: Filters = { actor: '', action: '', targetType: '', targetId: '', from: '', to: '' };
+
+const toQuery = (f: Filters): AuditLogQuery => ({
+  actor: f.actor || undefined,
+  action: f.action || undefined,
+  targetType: (f.targetType || undefined) as AuditTargetType | undefined,
+  targetId: f.targetId || undefined,
+  from: toIso(f.from),
+  to: toIso(f.to),
+});
+
+export default function AuditLogPage() {
+  const [entries, setEntries]   = useState<AuditLogEntry[]>([]);
+  const [total, setTotal]       = useState(0);
+  const [page, setPage]         = useState(1);
+  const [loading, setLoading]   = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [message, setMessage]   = useState<{ ok: boolean; text: string } | null>(null);
+
+  const [filters, setFilters]   = useState(EMPTY_FILTERS);
+  const [applied, setApplied]   = useState(EMPTY_FILTERS);
+
+  const load = async (f: Filters, p: number) => {
+    try {
+      const result = assertAuthorized(await getAuditLog(toQuery(f), p, PAGE_SIZE));
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (e) {
+      console.error(e);
+      setMessage({ ok: false, text: 'Failed to load audit log' });
+    } finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    getAuditLog({}, 1, PAGE_SIZE)
+      .then(result => {
+        const { entries, total } = assertAuthorized(result);
+        setEntries(entries);
+        setTotal(total);
+      })
+      .catch(err => console.error('Failed to load audit log:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setApplied(filters);
+    setPage(1);
+    setMessage(null);
+    setLoading(true);
+    load(filters, 1);
+  };
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS);
+    setApplied(EMPTY_FILTERS);
+    setPage(1);
+    setLoading(true);
+    load(EMPTY_FILTERS, 1);
+  };
+
+  const goToPage = (p: number) => {
+    setPage(p);
+    setLoading(true);
+    load(applied, p);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setMessage(null);
+    try {
+      const { csv, count } = assertAuthorized(await exportAuditLogCSV(toQuery(applied)));
+      downloadBlob(csv, `audit-log-${Date.now()}.csv`);
+      setMessage({ ok: true, text: `Exported ${count} entr${count === 1 ? 'y' : 'ies'}` });
+    } catch (e) {
+      console.error(e);
+      setMessage({ ok: false, text: 'Export failed' });
+    } finally { setExporting(false); }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const setFilter = (key: keyof Filters) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setFilters(f => ({ ...f, [key]: e.target.value }));
+
+  return (
+    <>
+      <style>{`
+        .al-page { padding: 3rem; }
+        .al-row { display: grid; grid-template-columns: ${GRID_COLS}; gap: 0.75rem; align-items: center; }
+        @media (max-width: 900px) {
+          .al-page { padding: 1.25rem; padding-top: calc(60px + 1.25rem); }
+          .al-row { grid-template-columns: 1fr; }
+          .al-head { display: none !important; }
+        }
+      `}</style>
+
+      <div className="al-page">
+
+        {/* ── Header ── */}
+        <div style={{ marginBottom: '2.5rem' }}>
+          <h1 style={{ fontSize: 'clamp(2.5rem, 6vw, 4rem)', fontWeight: 900, letterSpacing: '-0.05em', marginBottom: '0.5rem' }}>
+            AUDIT LOG
+          </h1>
+          <p style={{ ...mono, color: 'rgba(255,255,255,0.5)', fontSize: '0.875rem' }}>
+            Who changed what, and when · {total} entr{total === 1 ? 'y' : 'ies'}
+          </p>
+        </div>
+
+        {/* ── Filters ── */}
+        <form onSubmit={handleApply} style={{ border: '1px solid rgba(255,255,255,0.15)', padding: '1.25rem', marginBottom: '2rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: '0.75rem', alignItems: 'end' }}>
+            <div>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>ACTOR</div>
+              <input style={inputStyle} value={filters.actor} onChange={setFilter('actor')} placeholder="email contains…" />
+            </div>
+            <div>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>ACTION</div>
+              <input style={inputStyle} value={filters.action} onChange={setFilter('action')} placeholder="e.g. participant." />
+            </div>
+            <div>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>TARGET TYPE</div>
+              <select style={{ ...inputStyle, backgroundColor: '#000' }} value={filters.targetType} onChange={setFilter('targetType')}>
+                <option value="">All</option>
+                {AUDIT_TARGET_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </div>
+            <div>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>TARGET ID</div>
+              <input style={inputStyle} value={filters.targetId} onChange={setFilter('targetId')} placeholder="exact id" />
+            </div>
+            <div>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>FROM</div>
+              <input style={{ ...inputStyle, colorScheme: 'dark' }} type="datetime-local" value={filters.from} onChange={setFilter('from')} />
+            </div>
+            <div>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>TO</div>
+              <input style={{ ...inputStyle, colorScheme: 'dark' }} type="datetime-local" value={filters.to} onChange={setFilter('to')} />
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <button type="submit" style={{ ...btnStyle, backgroundColor: '#fff', color: '#000', border: '1px solid #fff', fontWeight: 'bold' }}>
+              APPLY
+            </button>
+            <button type="button" style={btnStyle} onClick={handleReset}>RESET</button>
+            <button type="button" disabled={exporting} style={{ ...btnStyle, marginLeft: 'auto', opacity: exporting ? 0.5 : 1 }} onClick={handleExport}>
+              {exporting ? 'EXPORTING...' : 'EXPORT CSV'}
+            </button>
+          </div>
+        </form>
+
+        {message && (
+          <div style={{ ...mono, fontSize: '0.75rem', marginBottom: '1rem', color: message.ok ? '#4ade80' : '#f87171' }}>
+            {message.text}
+          </div>
+        )}
+
+        {/* ── Column headers ── */}
+        <div className="al-row al-head" style={{ border: '1px solid rgba(255,255,255,0.08)', borderBottom: 'none', padding: '0.625rem 1.25rem', backgroundColor: 'rgba(255,255,255,0.03)' }}>
+          <div style={headStyle}>TIME</div>
+          <div style={headStyle}>ACTOR</div>
+          <div style={headStyle}>ACTION</div>
+          <div style={headStyle}>DETAILS</div>
+          <div style={headStyle}>CHANGES</div>
+        </div>
+
+        {/* ── Entries ── */}
+        <div style={{ border: '1px solid rgba(255,255,255,0.08)', display: 'flex', flexDirection: 'column', opacity: loading ? 0.5 : 1 }}>
+          {entries.length === 0 ? (
+            <div style={{ padding: '4rem', textAlign: 'center', ...mono, fontSize: '0.875rem', color: 'rgba(255,255,255,0.25)' }}>
+              {loading ? 'Loading audit log...' : 'No entries match these filters'}
+            </div>
+          ) : entries.map((e, i) => {
+            const id = e._id ?? String(i);
+            const expanded = expandedId === id;
+            return (
+              <div key={id} style={{ borderBottom: i < entries.length - 1 ? '1px solid rgba(255,255,255,0.05)' : 'none' }}>
+                <div className="al-row" style={{ padding: '0.75rem 1.25rem' }}>
+                  <div style={{ ...mono, fontSize: '0.7rem', color: 'rgba(255,255,255,0.6)' }}>{formatDate(e.timestamp)}</div>
+                  <div style={{ ...mono, fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{e.actorEmail}</div>
+                  <div style={{ ...mono, fontSize: '0.75rem', color: e.action.endsWith('delete') || e.action.endsWith('delete_all') || e.action.endsWith('drop') ? '#f87171' : '#fff' }}>
+                    {e.action}
+                  </div>
+                  <div style={{ minWidth: 0 }}>
+                    {e.summary && <div style={{ ...mono, fontSize: '0.75rem', color: 'rgba(255,255,255,0.7)' }}>{e.summary}</div>}
+                    {e.targetIds.length > 0 && (
+                      <div style={{ ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.3)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {e.targetType} · {e.targetIds.join(', ')}
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    {e.changes && e.changes.length > 0 ? (
+                      <button
+                        style={{ ...btnStyle, ...(expanded && { backgroundColor: '#fff', color: '#000' }) }}
+                        onClick={() => setExpandedId(expanded ? null : id)}
+                      >
+                        {e.changes.length} FIELD{e.changes.length === 1 ? '' : 'S'}
+                      </button>
+                    ) : (
+                      <span style={{ ...mono, fontSize: '0.7rem', color: 'rgba(255,255,255,0.25)' }}>—</span>
+                    )}
+                  </div>
+                </div>
+
+                {expanded && e.changes && (
+                  <div style={{ padding: '0 1.25rem 1rem', display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+                    {e.changes.map(c => (
+                      <div key={c.field} style={{ display: 'grid', gridTemplateColumns: 'minmax(120px, 1fr) 3fr 3fr', gap: '0.75rem', ...mono, fontSize: '0.7rem' }}>
+                        <div style={{ color: 'rgba(255,255,255,0.5)' }}>{c.field}</div>
+                        <div style={{ color: '#f87171', wordBreak: 'break-all' }}>{formatValue(c.before)}</div>
+                        <div style={{ color: '#4ade80', wordBreak: 'break-all' }}>{formatValue(c.after)}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* ── Pagination ── */}
+        {totalPages > 1 && (
+          <div style={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: '0.75rem', marginTop: '1rem' }}>
+            <button style={{ ...btnStyle, opacity: page <= 1 ? 0.3 : 1 }} disabled={page <= 1 || loading} onClick={() => goToPage(page - 1)}>
+              ← PREV
+            </button>
+            <span style={{ ...mono, fontSize: '0.7rem', color: 'rgba(255,255,255,0.5)' }}>{page} / {totalPages}</span>
+            <button style={{ ...btnStyle, opacity: page >= totalPages ? 0.3 : 1 }} disabled={page >= totalPages || loading} onClick={() => goToPage(page + 1)}>
+              NEXT →
+            </button>
+          </div>
+        )}
+
+      </div>
+    </>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import { verifyDbPassword } from "@/actions/database";
+import type { LiveUpdate } from "@/types";
+import { useLiveUpdates } from "@/lib/use-live-updates";
 
 interface HackathonData { [key: string]: unknown }
 interface Meta { updatedAt: string | null; updatedBy: string | null; version: number }
@@ -294,7 +295,10 @@ function LiveLogFeed() {
       if (isPolling && latestRef.current) {
         if (incoming.length > 0) {
           setNewCount(c => c + incoming.length);
-          setLogs(prev => [...incoming, ...prev].slice(0, 200));
+          setLogs(prev => {
+            const known = new Set(prev.map(l => l._id));
+            return [...incoming.filter(l => !known.has(l._id)), ...prev].slice(0, 200);
+          });
           latestRef.current = incoming[0].timestamp;
         }
       } else {
@@ -311,11 +315,39 @@ function LiveLogFeed() {
     fetchLogs(false);
   }, [fetchLogs]);
 
+  const handleLiveUpdate = (update: LiveUpdate) => {
+    if (update.type !== "bot_log") return;
+    const log = update.log as BotLog;
+
+    setSummary(prev => {
+      const key = log.type as keyof LogSummary;
+      const cur = prev[key] ?? { total: 0, errors: 0, avgMs: 0 };
+      const total = cur.total + 1;
+      return {
+        ...prev,
+        [key]: {
+          total,
+          errors: cur.errors + (log.success ? 0 : 1),
+          avgMs:  log.durationMs === undefined ? cur.avgMs : Math.round((cur.avgMs * cur.total + log.durationMs) / total),
+        },
+      };
+    });
+
+    if (filter !== "all" && log.type !== filter) return;
+    if (logs.some(l => l._id === log._id)) return;
+    setNewCount(c => c + 1);
+    setLogs(prev => [log, ...prev].slice(0, 200));
+    latestRef.current = log.timestamp;
+  };
+
+  // On (re)connect, catch up on anything logged while paused or disconnected
+  const live = useLiveUpdates(["bot_logs"], handleLiveUpdate, { enabled: !paused, onOpen: () => fetchLogs(true) });
+
   useEffect(() => {
-    if (paused) { if (intervalRef.current) clearInterval(intervalRef.current); return; }
+    if (paused || live) { if (intervalRef.current) clearInterval(intervalRef.current); return; }
     intervalRef.current = setInterval(() => fetchLogs(true), 8000);
     return () => { if (intervalRef.current) clearInterval(intervalRef.current); };
-  }, [paused, fetchLogs]);
+  }, [paused, live, fetchLogs]);
 
   useEffect(() => {
     const t = setInterval(() => setTick(n => n + 1), 30_000);
@@ -626,90 +658,26 @@ function LiveLogFeed() {
         fontFamily: "monospace", fontSize: "0.65rem", color: "rgba(255,255,255,0.2)",
         display: "flex", justifyContent: "space-between",
       }}>
-        <span>Showing {logs.length} entries · auto-refreshes every 8s</span>
+        <span>Showing {logs.length} entries · {live ? "live" : "auto-refreshes every 8s"}</span>
         <span>Click any row to expand</span>
       </div>
     </div>
   );
 }
 
-// ─── Lock Screen ──────────────────────────────────────────────────────────────
-
-function LockScreen({ onUnlock }: { onUnlock: () => void }) {
-  const [pw, setPw]             = useState("");
-  const [loading, setLoading]   = useState(false);
-  const [shake, setShake]       = useState(false);
-  const [attempts, setAttempts] = useState(0);
-  const [errorMsg, setErrorMsg] = useState("");
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  const submit = async () => {
-    if (!pw.trim() || loading) return;
-    setLoading(true);
-    const ok = await verifyDbPassword(pw);
-    setLoading(false);
-    if (ok) {
-      onUnlock();
-    } else {
-      setAttempts(a => a + 1);
-      setShake(true);
-      setTimeout(() => setShake(false), 450);
-      setPw("");
-      setErrorMsg("Incorrect password");
-      inputRef.current?.focus();
-    }
-  };
-
-  return (
-    <div style={{ minHeight: "80vh", display: "flex", alignItems: "center", justifyContent: "center" }}>
-      <div style={{ width: "100%", maxWidth: 400 }}>
-        <div style={{ textAlign: "center", marginBottom: "2rem" }}>
-          <svg width="44" height="44" viewBox="0 0 24 24" fill="none" stroke="rgba(255,255,255,0.22)" strokeWidth="1.2" style={{ display: "block", margin: "0 auto 1rem" }}>
-            <rect x="3" y="11" width="18" height="11" rx="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/>
-          </svg>
-          <h1 style={{ fontSize: "2rem", fontWeight: 900, letterSpacing: "-0.04em", marginBottom: "0.35rem" }}>BOT CONFIG</h1>
-          <p style={{ fontFamily: "monospace", fontSize: "0.78rem", color: "rgba(255,255,255,0.32)" }}>This area is restricted. Enter the password to continue.</p>
-        </div>
-        <div className={shake ? "bc-shake" : ""} style={{ border: "1px solid rgba(255,255,255,0.09)", padding: "1.5rem", display: "flex", flexDirection: "column", gap: "1rem" }}>
-          <div>
-            <div style={{ fontFamily: "monospace", fontSize: "0.63rem", letterSpacing: "0.14em", color: "rgba(255,255,255,0.3)", marginBottom: "0.6rem" }}>PASSWORD</div>
-            <input ref={inputRef} type="password" placeholder="Enter password" value={pw}
-              onChange={e => { setPw(e.target.value); setErrorMsg(""); }}
-              onKeyDown={e => e.key === "Enter" && submit()}
-              autoFocus
-              style={{ background: "transparent", border: "1px solid rgba(255,255,255,0.14)", color: "#fff", fontFamily: "monospace", fontSize: "0.875rem", padding: "0.7rem 1rem", width: "100%", outline: "none", boxSizing: "border-box" }}
-              onFocus={e => e.currentTarget.style.borderColor = "rgba(255,255,255,0.38)"}
-              onBlur={e => e.currentTarget.style.borderColor = "rgba(255,255,255,0.14)"} />
-          </div>
-          {errorMsg && <div style={{ fontFamily: "monospace", fontSize: "0.75rem", color: "#f87171" }}>✗ {errorMsg}{attempts > 1 ? ` (${attempts} attempts)` : ""}</div>}
-          <button onClick={submit} disabled={!pw.trim() || loading}
-            style={{ padding: "0.875rem", backgroundColor: !pw.trim() || loading ? "rgba(255,255,255,0.1)" : "#fff", border: "none", color: !pw.trim() || loading ? "rgba(255,255,255,0.4)" : "#000", fontFamily: "monospace", fontSize: "0.875rem", fontWeight: "bold", cursor: !pw.trim() || loading ? "not-allowed" : "pointer", letterSpacing: "0.05em", width: "100%" }}>
-            {loading ? "VERIFYING…" : "→ UNLOCK"}
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-}
-
 // ─── Root ─────────────────────────────────────────────────────────────────────
 
 export default function BotConfigPage() {
-  const [unlocked, setUnlocked] = useState(false);
   return (
     <>
       <style>{`
         .bc-page { padding: 3rem; }
         @media (max-width: 640px) { .bc-page { padding: 1.25rem; padding-top: calc(60px + 1.25rem); } }
         @keyframes spin { from { transform: rotate(0deg); } to { transform: rotate(360deg); } }
-        @keyframes bc-shake { 0%,100%{transform:translateX(0)} 20%{transform:translateX(-8px)} 60%{transform:translateX(8px)} 80%{transform:translateX(-4px)} }
-        .bc-shake { animation: bc-shake .4s ease; }
         @keyframes bc-pulse { 0%,100%{opacity:1} 50%{opacity:0.4} }
       `}</style>
       <div className="bc-page">
-        {unlocked
-          ? <BotConfigEditor onLock={() => setUnlocked(false)} />
-          : <LockScreen onUnlock={() => setUnlocked(true)} />}
+        <BotConfigEditor />
       </div>
     </>
   );
@@ -717,7 +685,7 @@ export default function BotConfigPage() {
 
 // ─── Config Editor + Log Feed ─────────────────────────────────────────────────
 
-function BotConfigEditor({ onLock }: { onLock: () => void }) {
+function BotConfigEditor() {
   const [data, setData]             = useState<HackathonData | null>(null);
   const [meta, setMeta]             = useState<Meta | null>(null);
   const [rawJson, setRawJson]       = useState("");
@@ -796,14 +764,6 @@ function BotConfigEditor({ onLock }: { onLock: () => void }) {
           <h1 style={{ fontSize: "clamp(2.5rem, 6vw, 4rem)", fontWeight: 900, letterSpacing: "-0.05em", marginBottom: "0.5rem" }}>BOT CONFIG</h1>
           <p style={{ fontFamily: "monospace", color: "rgba(255,255,255,0.6)", fontSize: "1rem" }}>Manage Kernel Discord bot data</p>
         </div>
-        <button onClick={onLock} style={{ ...btnBase, marginTop: "0.5rem" }}
-          onMouseEnter={e => e.currentTarget.style.backgroundColor = "rgba(255,255,255,0.08)"}
-          onMouseLeave={e => e.currentTarget.style.backgroundColor = "transparent"}>
-          <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <rect x="3" y="11" width="18" height="11" rx="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/>
-          </svg>
-          LOCK
-        </button>
       </div>
 
       <div style={{ display: "flex", flexDirection: "column", gap: "2rem" }}>
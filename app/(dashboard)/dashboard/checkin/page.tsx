@@ -1,8 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { DBParticipant } from '@/types';
-import { getParticipants, updateCheckInStatus } from '@/actions/participants';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  CheckInState,
+  DBParticipant,
+  ParticipantCounts,
+  TempExitAlertSettings,
+  DEFAULT_TEMP_EXIT_ALERT,
+  LiveUpdate,
+  assertAuthorized,
+} from '@/types';
+import { deriveCheckInState } from '@/lib/checkin';
+import { useLiveUpdates } from '@/lib/use-live-updates';
+import { getParticipantCounts, queryParticipants, updateCheckInStatus } from '@/actions/participants';
+import { getTempExitAlertSettings } from '@/actions/event-config';
+import ParticipantTimelineDrawer from '@/components/checkin/ParticipantTimelineDrawer';
+import TempExitAlertSettingsEditor from '@/components/checkin/TempExitAlertSettingsEditor';
 
 interface Participant extends DBParticipant {
   checkInStatus: {
@@ -88,13 +101,52 @@ const DUMMY_PARTICIPANTS: Participant[] = [
   },
 ];
 
+type StatusFilter = 'all' | 'college' | 'lab' | 'checked-out' | 'not-arrived';
+
+/** Check-in states shown by each status filter */
+const STATUS_FILTER_STATES: Record<StatusFilter, CheckInState[] | undefined> = {
+  'all':         undefined,
+  'not-arrived': ['not-arrived'],
+  'college':     ['on-campus'],
+  'lab':         ['in-lab', 'temp-out'],
+  'checked-out': ['lab-out', 'left'],
+};
+
+const PAGE_SIZE = 50;
+
+/** Upper bound on temporarily-out participants fetched for alerts */
+const TEMP_OUT_LIMIT = 500;
+
+/** Live updates arrive in bursts at a busy gate; recount once they settle */
+const COUNTS_REFRESH_DELAY_MS = 1_000;
+
+const toParticipant = (p: DBParticipant): Participant => ({
+  ...p,
+  checkInStatus: {
+    collegeCheckedIn: p.collegeCheckIn?.status || false,
+    collegeCheckInTime: p.collegeCheckIn?.time ? new Date(p.collegeCheckIn.time).toISOString() : undefined,
+    labCheckedIn: p.labCheckIn?.status || false,
+    labCheckInTime: p.labCheckIn?.time ? new Date(p.labCheckIn.time).toISOString() : undefined,
+    labCheckedOut: p.labCheckOut?.status || false,
+    labCheckOutTime: p.labCheckOut?.time ? new Date(p.labCheckOut.time).toISOString() : undefined,
+    tempLabCheckOut: p.tempLabCheckOut?.status || false,
+    tempLabCheckOutTime: p.tempLabCheckOut?.time ? new Date(p.tempLabCheckOut.time).toISOString() : undefined,
+  }
+});
+
 export default function CheckInPage() {
   const [participants, setParticipants] = useState<Participant[]>([]);
-  const [filteredParticipants, setFilteredParticipants] = useState<Participant[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [counts, setCounts] = useState<ParticipantCounts | null>(null);
+  const [tempOut, setTempOut] = useState<Participant[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'college' | 'lab' | 'checked-out' | 'not-arrived'>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [selectedParticipant, setSelectedParticipant] = useState<Participant | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
+  const [alertSettings, setAlertSettings] = useState<TempExitAlertSettings>(DEFAULT_TEMP_EXIT_ALERT);
+  const [editingAlerts, setEditingAlerts] = useState(false);
 
   // Auto-refresh every 30 seconds to check for alerts
   useEffect(() => {
@@ -106,70 +158,111 @@ export default function CheckInPage() {
   }, []);
 
   useEffect(() => {
-    loadParticipants();
+    loadStats();
+    getTempExitAlertSettings()
+      .then(assertAuthorized)
+      .then(setAlertSettings)
+      .catch(err => console.error('Failed to load alert settings:', err));
   }, []);
 
-  const loadParticipants = async () => {
+  const loadParticipants = useCallback(async (cursor?: string) => {
     try {
-      const dbParticipants = await getParticipants();
-      // Transform DB participants to include check-in status
-      const transformed: Participant[] = dbParticipants.map(p => ({
-        ...p,
-        checkInStatus: {
-          collegeCheckedIn: p.collegeCheckIn?.status || false,
-          collegeCheckInTime: p.collegeCheckIn?.time ? new Date(p.collegeCheckIn.time).toISOString() : undefined,
-          labCheckedIn: p.labCheckIn?.status || false,
-          labCheckInTime: p.labCheckIn?.time ? new Date(p.labCheckIn.time).toISOString() : undefined,
-          labCheckedOut: p.labCheckOut?.status || false,
-          labCheckOutTime: p.labCheckOut?.time ? new Date(p.labCheckOut.time).toISOString() : undefined,
-          tempLabCheckOut: p.tempLabCheckOut?.status || false,
-          tempLabCheckOutTime: p.tempLabCheckOut?.time ? new Date(p.tempLabCheckOut.time).toISOString() : undefined,
-        }
+      if (cursor) setLoadingMore(true);
+      const page = assertAuthorized(await queryParticipants({
+        filter: { checkInState: STATUS_FILTER_STATES[statusFilter] },
+        search: searchQuery.trim() || undefined,
+        sort: { field: 'name', direction: 'asc' },
+        cursor,
+        limit: PAGE_SIZE,
       }));
-      setParticipants(transformed);
-      setFilteredParticipants(transformed);
+      const rows = page.participants.map(toParticipant);
+      setParticipants(prev => cursor ? [...prev, ...rows] : rows);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error('Error loading participants:', error);
       // Fallback to dummy data on error
-      setParticipants(DUMMY_PARTICIPANTS);
-      setFilteredParticipants(DUMMY_PARTICIPANTS);
+      if (!cursor) {
+        setParticipants(DUMMY_PARTICIPANTS);
+        setTotal(DUMMY_PARTICIPANTS.length);
+        setNextCursor(undefined);
+      }
+    } finally {
+      setLoadingMore(false);
     }
-  };
+  }, [searchQuery, statusFilter]);
 
+  // Search and filtering run on the server; wait for typing to pause
   useEffect(() => {
-    let filtered = participants;
-
-    // Apply search filter
-    if (searchQuery.trim()) {
-      const lowercaseQuery = searchQuery.toLowerCase();
-      filtered = filtered.filter(p =>
-        p.name.toLowerCase().includes(lowercaseQuery) ||
-        p.email.toLowerCase().includes(lowercaseQuery) ||
-        (p.phone && p.phone.toLowerCase().includes(lowercaseQuery)) ||
-        (p.teamName && p.teamName.toLowerCase().includes(lowercaseQuery))
-      );
+    const timer = setTimeout(() => loadParticipants(), 300);
+    return () => clearTimeout(timer);
+  }, [loadParticipants]);
+
+  const loadStats = async () => {
+    try {
+      const [nextCounts, temp] = await Promise.all([
+        getParticipantCounts().then(assertAuthorized),
+        queryParticipants({
+          filter: { checkInState: ['temp-out'] },
+          sort: { field: 'updatedAt', direction: 'asc' },
+          limit: TEMP_OUT_LIMIT,
+        }).then(assertAuthorized),
+      ]);
+      setCounts(nextCounts);
+      setTempOut(temp.participants.map(toParticipant));
+    } catch (error) {
+      console.error('Error loading check-in stats:', error);
     }
+  };
+
+  const reload = async () => {
+    await Promise.all([loadParticipants(), loadStats()]);
+  };
+
+  const countsTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const refreshCountsSoon = () => {
+    clearTimeout(countsTimerRef.current);
+    countsTimerRef.current = setTimeout(() => {
+      getParticipantCounts()
+        .then(assertAuthorized)
+        .then(setCounts)
+        .catch(error => console.error('Error refreshing check-in stats:', error));
+    }, COUNTS_REFRESH_DELAY_MS);
+  };
+
+  // Apply changes from other gates to the rows on screen
+  const handleLiveUpdate = (update: LiveUpdate) => {
+    if (update.type === 'participant_removed') {
+      if (participants.some(p => p._id === update._id)) {
+        setParticipants(prev => prev.filter(p => p._id !== update._id));
+        setTotal(t => t - 1);
+      }
+      setTempOut(prev => prev.filter(p => p._id !== update._id));
+    } else if (update.type === 'participant') {
+      const row = toParticipant(update.participant);
+      const state = deriveCheckInState(update.participant);
+      const states = STATUS_FILTER_STATES[statusFilter];
 
-    // Apply status filter
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(p => {
-        switch (statusFilter) {
-          case 'college':
-            return p.checkInStatus.collegeCheckedIn && !p.checkInStatus.labCheckedIn;
-          case 'lab':
-            return p.checkInStatus.labCheckedIn && !p.checkInStatus.labCheckedOut;
-          case 'checked-out':
-            return p.checkInStatus.labCheckedOut;
-          case 'not-arrived':
-            return !p.checkInStatus.collegeCheckedIn;
-          default:
-            return true;
+      if (participants.some(p => p._id === row._id)) {
+        if (states && !states.includes(state)) {
+          setParticipants(prev => prev.filter(p => p._id !== row._id));
+          setTotal(t => t - 1);
+        } else {
+          setParticipants(prev => prev.map(p => p._id === row._id ? row : p));
         }
+      }
+      setTempOut(prev => {
+        const rest = prev.filter(p => p._id !== row._id);
+        return state === 'temp-out' ? [...rest, row] : rest;
       });
+      setSelectedParticipant(prev => prev?._id === row._id ? row : prev);
+    } else {
+      return;
     }
+    refreshCountsSoon();
+  };
 
-    setFilteredParticipants(filtered);
-  }, [searchQuery, statusFilter, participants]);
+  const live = useLiveUpdates(['participants'], handleLiveUpdate);
 
   const handleCheckIn = async (participantId: string, location: 'college' | 'lab') => {
     const now = new Date().toISOString();
@@ -201,11 +294,17 @@ export default function CheckInPage() {
 
     // Update in MongoDB
     try {
-      await updateCheckInStatus(participantId, location, true);
+      const result = await updateCheckInStatus(participantId, location, 'checkin-desk');
+      if (!result.success) {
+        console.error('Check-in rejected:', result.error);
+        await reload();
+      } else {
+        await loadStats();
+      }
     } catch (error) {
       console.error('Error updating check-in:', error);
       // Reload on error
-      await loadParticipants();
+      await reload();
     }
   };
 
@@ -225,13 +324,22 @@ export default function CheckInPage() {
       };
     }));
 
-    // TODO: API call to update in MongoDB
-    // await fetch('/api/participants/checkout', {
-    //   method: 'POST',
-    //   body: JSON.stringify({ participantId, timestamp: now })
-    // });
+    try {
+      const result = await updateCheckInStatus(participantId, 'labOut', 'checkin-desk');
+      if (!result.success) {
+        console.error('Check-out rejected:', result.error);
+        await reload();
+      } else {
+        await loadStats();
+      }
+    } catch (error) {
+      console.error('Error updating check-out:', error);
+      await reload();
+    }
   };
 
+  const closeTimeline = useCallback(() => setSelectedParticipant(null), []);
+
   const formatTime = (timestamp?: string) => {
     if (!timestamp) return 'N/A';
     const date = new Date(timestamp);
@@ -248,11 +356,11 @@ export default function CheckInPage() {
   const isAlert = (participant: Participant) => {
     if (!participant.checkInStatus.tempLabCheckOut) return false;
     const minutesOut = getMinutesOutsideLab(participant.checkInStatus.tempLabCheckOutTime);
-    return minutesOut > 10;
+    return minutesOut > alertSettings.thresholdMinutes;
   };
 
   const getAlertParticipants = () => {
-    return participants.filter(p => isAlert(p));
+    return tempOut.filter(p => isAlert(p));
   };
 
   const getStatusBadge = (participant: Participant) => {
@@ -263,7 +371,7 @@ export default function CheckInPage() {
     }
     if (checkInStatus.tempLabCheckOut) {
       const minutesOut = getMinutesOutsideLab(checkInStatus.tempLabCheckOutTime);
-      if (minutesOut > 10) {
+      if (minutesOut > alertSettings.thresholdMinutes) {
         return { text: `OUT ${minutesOut}m ⚠️`, color: 'rgba(255, 255, 255, 0.9)' };
       }
       return { text: `TEMP OUT ${minutesOut}m`, color: 'rgba(255, 255, 255, 0.7)' };
@@ -277,14 +385,15 @@ export default function CheckInPage() {
     return { text: 'NOT ARRIVED', color: 'rgba(255, 255, 255, 0.2)' };
   };
 
+  const byState = counts?.byState;
   const stats = {
-    total: participants.length,
-    collegeOnly: participants.filter(p => p.checkInStatus.collegeCheckedIn && !p.checkInStatus.labCheckedIn).length,
-    inLab: participants.filter(p => p.checkInStatus.labCheckedIn && !p.checkInStatus.labCheckedOut && !p.checkInStatus.tempLabCheckOut).length,
-    tempOut: participants.filter(p => p.checkInStatus.tempLabCheckOut && !p.checkInStatus.labCheckedOut).length,
+    total: counts?.total ?? 0,
+    collegeOnly: byState?.['on-campus'] ?? 0,
+    inLab: byState?.['in-lab'] ?? 0,
+    tempOut: byState?.['temp-out'] ?? 0,
     alerts: getAlertParticipants().length,
-    checkedOut: participants.filter(p => p.checkInStatus.labCheckedOut).length,
-    notArrived: participants.filter(p => !p.checkInStatus.collegeCheckedIn).length,
+    checkedOut: (byState?.['lab-out'] ?? 0) + (byState?.['left'] ?? 0),
+    notArrived: byState?.['not-arrived'] ?? 0,
   };
 
   return (
@@ -312,22 +421,43 @@ export default function CheckInPage() {
 
       <div className="ci-page">
         {/* Header */}
-        <div style={{ marginBottom: '3rem' }}>
-          <h1 style={{
-            fontSize: 'clamp(2.5rem, 6vw, 4rem)',
-            fontWeight: 900,
-            letterSpacing: '-0.05em',
-            marginBottom: '0.5rem'
-          }}>
-            CHECK-IN STATUS
-          </h1>
-          <p style={{
-            fontFamily: 'monospace',
-            color: 'rgba(255, 255, 255, 0.6)',
-            fontSize: '1rem'
-          }}>
-            Track participant arrival and movement
-          </p>
+        <div style={{ marginBottom: '3rem', display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between', flexWrap: 'wrap', gap: '1rem' }}>
+          <div>
+            <h1 style={{
+              fontSize: 'clamp(2.5rem, 6vw, 4rem)',
+              fontWeight: 900,
+              letterSpacing: '-0.05em',
+              marginBottom: '0.5rem'
+            }}>
+              CHECK-IN STATUS
+            </h1>
+            <p style={{
+              fontFamily: 'monospace',
+              color: 'rgba(255, 255, 255, 0.6)',
+              fontSize: '1rem'
+            }}>
+              Track participant arrival and movement
+              <span style={{ color: live ? '#4ade80' : 'rgba(255, 255, 255, 0.35)' }}>
+                {live ? ' · ● LIVE' : ' · reconnecting…'}
+              </span>
+            </p>
+          </div>
+          <button
+            onClick={() => setEditingAlerts(v => !v)}
+            style={{
+              padding: '0.5rem 1rem',
+              backgroundColor: editingAlerts ? '#fff' : 'transparent',
+              border: '1px solid rgba(255, 255, 255, 0.2)',
+              color: editingAlerts ? '#000' : 'rgba(255, 255, 255, 0.7)',
+              fontFamily: 'monospace',
+              fontSize: '0.75rem',
+              cursor: 'pointer',
+              letterSpacing: '0.05em',
+              transition: 'all 0.2s'
+            }}
+          >
+            ALERT SETTINGS
+          </button>
         </div>
 
         <div style={{
@@ -335,6 +465,14 @@ export default function CheckInPage() {
           gridTemplateColumns: '1fr',
           gap: '2rem'
         }}>
+          {editingAlerts && (
+            <TempExitAlertSettingsEditor
+              settings={alertSettings}
+              onSaved={settings => { setAlertSettings(settings); setEditingAlerts(false); }}
+              onCancel={() => setEditingAlerts(false)}
+            />
+          )}
+
           {/* Alert Section */}
           {stats.alerts > 0 && (
             <div style={{
@@ -361,7 +499,7 @@ export default function CheckInPage() {
                     fontWeight: 'bold',
                     letterSpacing: '0.05em'
                   }}>
-                    ALERT: {stats.alerts} PARTICIPANT{stats.alerts > 1 ? 'S' : ''} OUT FOR MORE THAN 10 MINUTES
+                    ALERT: {stats.alerts} PARTICIPANT{stats.alerts > 1 ? 'S' : ''} OUT FOR MORE THAN {alertSettings.thresholdMinutes} MINUTES
                   </div>
                   <div style={{
                     fontSize: '0.75rem',
@@ -675,7 +813,7 @@ export default function CheckInPage() {
               </label>
               <select
                 value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value as any)}
+                onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
                 style={{
                   width: '100%',
                   backgroundColor: 'transparent',
@@ -710,10 +848,10 @@ export default function CheckInPage() {
               marginBottom: '1.5rem',
               letterSpacing: '0.05em'
             }}>
-              PARTICIPANTS ({filteredParticipants.length})
+              PARTICIPANTS ({participants.length < total ? `${participants.length} OF ${total}` : total})
             </div>
 
-            {filteredParticipants.length === 0 ? (
+            {participants.length === 0 ? (
               <div style={{
                 textAlign: 'center',
                 padding: '4rem 0',
@@ -729,7 +867,7 @@ export default function CheckInPage() {
                 flexDirection: 'column',
                 gap: '0.75rem'
               }}>
-                {filteredParticipants.map((participant) => {
+                {participants.map((participant) => {
                   const badge = getStatusBadge(participant);
 
                   return (
@@ -967,15 +1105,68 @@ export default function CheckInPage() {
                             CHECK OUT FROM LAB
                           </button>
                         )}
+
+                        <button
+                          onClick={() => setSelectedParticipant(participant)}
+                          style={{
+                            padding: '0.5rem 1rem',
+                            backgroundColor: 'transparent',
+                            border: '1px solid rgba(255, 255, 255, 0.1)',
+                            color: 'rgba(255, 255, 255, 0.6)',
+                            fontFamily: 'monospace',
+                            fontSize: '0.75rem',
+                            cursor: 'pointer',
+                            transition: 'all 0.3s',
+                            letterSpacing: '0.05em'
+                          }}
+                          onMouseEnter={(e) => {
+                            e.currentTarget.style.borderColor = 'rgba(255, 255, 255, 0.3)';
+                            e.currentTarget.style.color = '#fff';
+                          }}
+                          onMouseLeave={(e) => {
+                            e.currentTarget.style.borderColor = 'rgba(255, 255, 255, 0.1)';
+                            e.currentTarget.style.color = 'rgba(255, 255, 255, 0.6)';
+                          }}
+                        >
+                          TIMELINE
+                        </button>
                       </div>
                     </div>
                   );
                 })}
               </div>
             )}
+
+            {nextCursor && (
+              <button
+                onClick={() => loadParticipants(nextCursor)}
+                disabled={loadingMore}
+                style={{
+                  width: '100%',
+                  marginTop: '1rem',
+                  padding: '0.75rem',
+                  backgroundColor: 'transparent',
+                  border: '1px solid rgba(255, 255, 255, 0.2)',
+                  color: 'rgba(255, 255, 255, 0.7)',
+                  fontFamily: 'monospace',
+                  fontSize: '0.75rem',
+                  letterSpacing: '0.05em',
+                  cursor: loadingMore ? 'wait' : 'pointer'
+                }}
+              >
+                {loadingMore ? 'LOADING…' : `LOAD MORE (${total - participants.length} LEFT)`}
+              </button>
+            )}
           </div>
         </div>
       </div>
+
+      {selectedParticipant && (
+        <ParticipantTimelineDrawer
+          participant={selectedParticipant}
+          onClose={closeTimeline}
+        />
+      )}
     </>
   );
 }
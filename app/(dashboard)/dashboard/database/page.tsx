@@ -2,22 +2,20 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react';
 import {
-  verifyDbPassword,
   exportDatabaseAsCSV,
   upsertParticipantsFromCSV,
-  getDbStats,
   getCollections,
   getCollectionDocuments,
   deleteCollection,
-  type DbStats,
   type ImportResult,
 } from '@/actions/database';
+import { getEventStatsAction } from '@/actions/stats';
 import { backupToDrive, type BackupResult } from '@/actions/backup';
+import { assertAuthorized, type EventStats } from '@/types';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
-type View  = 'lock' | 'dashboard';
 type Toast = { id: number; msg: string; type: 'ok' | 'err' | 'info' };
 
 type BackupEntry = {
@@ -172,7 +170,6 @@ function DeleteCollectionModal({
 // Root
 // ─────────────────────────────────────────────────────────────────────────────
 export default function DatabasePage() {
-  const [view,   setView]   = useState<View>('lock');
   const [toasts, setToasts] = useState<Toast[]>([]);
   const idRef = useRef(0);
 
@@ -284,12 +281,6 @@ export default function DatabasePage() {
         .db-toast-ok   { border-color: rgba(74,222,128,.4); background: rgba(74,222,128,.1);  color: #4ade80; }
         .db-toast-err  { border-color: rgba(248,113,113,.4); background: rgba(248,113,113,.1); color: #f87171; }
         .db-toast-info { border-color: rgba(255,255,255,.12); background: rgba(255,255,255,.04); color: rgba(255,255,255,.6); }
-        .db-lock-center { min-height: 80vh; display: flex; align-items: center; justify-content: center; }
-        @keyframes db-shake {
-          0%,100%{transform:translateX(0)} 20%{transform:translateX(-8px)}
-          60%{transform:translateX(8px)}   80%{transform:translateX(-4px)}
-        }
-        .db-shake { animation: db-shake .4s ease; }
         .drive-link {
           color: #60a5fa; font-family: monospace; font-size: 0.7rem;
           text-decoration: none; display: inline-flex; align-items: center; gap: 0.3rem;
@@ -337,9 +328,7 @@ export default function DatabasePage() {
       `}</style>
 
       <div className="db-page">
-        {view === 'lock'
-          ? <LockScreen onUnlock={() => setView('dashboard')} addToast={addToast} />
-          : <Dashboard addToast={addToast} onLock={() => setView('lock')} />}
+        <Dashboard addToast={addToast} />
       </div>
 
       <div className="db-toasts">
@@ -351,86 +340,6 @@ export default function DatabasePage() {
   );
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Lock screen
-// ─────────────────────────────────────────────────────────────────────────────
-function LockScreen({
-  onUnlock,
-  addToast,
-}: {
-  onUnlock: () => void;
-  addToast: (m: string, t: Toast['type']) => void;
-}) {
-  const [pw,       setPw]       = useState('');
-  const [loading,  setLoading]  = useState(false);
-  const [shake,    setShake]    = useState(false);
-  const [attempts, setAttempts] = useState(0);
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  const submit = async () => {
-    if (!pw.trim() || loading) return;
-    setLoading(true);
-    const ok = await verifyDbPassword(pw);
-    setLoading(false);
-    if (ok) {
-      addToast('Access granted', 'ok');
-      onUnlock();
-    } else {
-      setAttempts(a => a + 1);
-      setShake(true);
-      setTimeout(() => setShake(false), 450);
-      setPw('');
-      addToast('Incorrect password', 'err');
-      inputRef.current?.focus();
-    }
-  };
-
-  return (
-    <div className="db-lock-center">
-      <div style={{ width: '100%', maxWidth: 400 }}>
-        <div style={{ textAlign: 'center', marginBottom: '2rem' }}>
-          <svg width="44" height="44" viewBox="0 0 24 24" fill="none"
-            stroke="rgba(255,255,255,0.22)" strokeWidth="1.2"
-            style={{ display: 'block', margin: '0 auto 1rem' }}>
-            <rect x="3" y="11" width="18" height="11" rx="2"/>
-            <path d="M7 11V7a5 5 0 0 1 10 0v4"/>
-          </svg>
-          <h1 style={{ fontSize: '2rem', fontWeight: 900, letterSpacing: '-0.04em', marginBottom: '0.35rem' }}>
-            DATABASE ACCESS
-          </h1>
-          <p style={{ fontFamily: 'monospace', fontSize: '0.78rem', color: 'rgba(255,255,255,0.32)' }}>
-            This area is restricted. Enter the database password.
-          </p>
-        </div>
-
-        <div className={`db-card ${shake ? 'db-shake' : ''}`}
-          style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-          <div>
-            <div className="db-card-label">PASSWORD</div>
-            <input
-              ref={inputRef} type="password" className="db-input"
-              placeholder="Enter password" value={pw}
-              onChange={e => setPw(e.target.value)}
-              onKeyDown={e => e.key === 'Enter' && submit()}
-              autoFocus
-            />
-          </div>
-          {attempts > 0 && (
-            <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: '#f87171' }}>
-              ✗ {attempts} failed attempt{attempts > 1 ? 's' : ''}
-            </div>
-          )}
-          <button className="db-btn db-btn-white" onClick={submit}
-            disabled={!pw.trim() || loading}
-            style={{ width: '100%', justifyContent: 'center' }}>
-            {loading ? '↻ VERIFYING…' : '→ UNLOCK DATABASE'}
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-}
-
 // ─────────────────────────────────────────────────────────────────────────────
 // Data Browser
 // ─────────────────────────────────────────────────────────────────────────────
@@ -454,6 +363,7 @@ function DataBrowser({ addToast }: { addToast: (m: string, t: Toast['type']) =>
   const loadCollections = () => {
     setLoadingCols(true);
     getCollections()
+      .then(assertAuthorized)
       .then(cols => { setCollections(cols); setLoadingCols(false); })
       .catch(() => { addToast('Failed to load collections', 'err'); setLoadingCols(false); });
   };
@@ -465,6 +375,7 @@ function DataBrowser({ addToast }: { addToast: (m: string, t: Toast['type']) =>
     setLoadingDocs(true);
     setExpandedRow(null);
     getCollectionDocuments(activeCol, page, PAGE_SIZE, search)
+      .then(assertAuthorized)
       .then(({ docs: d, total: t }) => {
         setDocs(d);
         setTotal(t);
@@ -489,7 +400,7 @@ function DataBrowser({ addToast }: { addToast: (m: string, t: Toast['type']) =>
     if (!deleteTarget) return;
     setDeletingCol(true);
     try {
-      await deleteCollection(deleteTarget);
+      assertAuthorized(await deleteCollection(deleteTarget));
       addToast(`✓ Collection "${deleteTarget}" deleted`, 'ok');
       // Reset active collection if it was the deleted one
       if (activeCol === deleteTarget) {
@@ -689,12 +600,10 @@ function DataBrowser({ addToast }: { addToast: (m: string, t: Toast['type']) =>
 // ─────────────────────────────────────────────────────────────────────────────
 function Dashboard({
   addToast,
-  onLock,
 }: {
   addToast: (m: string, t: Toast['type']) => void;
-  onLock: () => void;
 }) {
-  const [stats,          setStats]          = useState<DbStats | null>(null);
+  const [stats,          setStats]          = useState<EventStats | null>(null);
   const [loadingExport,  setLoadingExport]  = useState(false);
   const [importFile,     setImportFile]     = useState<File | null>(null);
   const [importPreview,  setImportPreview]  = useState<string[][]>([]);
@@ -707,7 +616,7 @@ function Dashboard({
   const fileRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    getDbStats().then(setStats).catch(() => {});
+    getEventStatsAction().then(assertAuthorized).then(setStats).catch(() => {});
     try {
       const log = localStorage.getItem(BACKUP_LOG_KEY);
       if (log) setBackupLog(JSON.parse(log));
@@ -717,7 +626,7 @@ function Dashboard({
   const handleExport = async () => {
     setLoadingExport(true);
     try {
-      const { csv, count } = await exportDatabaseAsCSV();
+      const { csv, count } = assertAuthorized(await exportDatabaseAsCSV());
       downloadBlob(csv, `hackoverflow-export-${tsFilename()}.csv`);
       addToast(`Exported ${count} participants`, 'ok');
     } catch (e: any) {
@@ -746,14 +655,14 @@ function Dashboard({
       const [headerRow, ...dataRows] = parseCSV(text);
       let pct = 5;
       const ticker = setInterval(() => { pct = Math.min(pct + 4, 88); setImportProgress(pct); }, 120);
-      const result = await upsertParticipantsFromCSV(headerRow, dataRows);
+      const result = assertAuthorized(await upsertParticipantsFromCSV(headerRow, dataRows));
       clearInterval(ticker);
       setImportProgress(100);
       setImportResult(result);
       const msg = `↑ ${result.upserted} inserted · ✎ ${result.modified} updated` +
         (result.errors.length ? ` · ⚠ ${result.errors.length} skipped` : '');
       addToast(msg, result.errors.length > 0 ? 'info' : 'ok');
-      getDbStats().then(setStats).catch(() => {});
+      getEventStatsAction().then(assertAuthorized).then(setStats).catch(() => {});
       setTimeout(() => setImportProgress(0), 1500);
     } catch (e: any) {
       addToast(`Import failed: ${e.message}`, 'err');
@@ -767,8 +676,8 @@ function Dashboard({
     setBackingUp(true);
     addToast('Uploading backup to Google Drive…', 'info');
     try {
-      const result: BackupResult = await backupToDrive();
-      const { csv } = await exportDatabaseAsCSV();
+      const result: BackupResult = assertAuthorized(await backupToDrive());
+      const { csv } = assertAuthorized(await exportDatabaseAsCSV());
       downloadBlob(csv, result.filename);
       const entry: BackupEntry = { time: result.time, count: result.count, driveUrl: result.driveUrl, source: 'manual' };
       const updated = [entry, ...backupLog].slice(0, 12);
@@ -803,23 +712,16 @@ function Dashboard({
         <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap' }}>
           <span className="db-badge db-badge-green">● MONGODB CONNECTED</span>
           <span className="db-badge db-badge-blue">⬡ DRIVE BACKUP ACTIVE</span>
-          <button className="db-btn db-btn-ghost" onClick={onLock} style={{ padding: '0.5rem 0.9rem', fontSize: '0.75rem' }}>
-            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <rect x="3" y="11" width="18" height="11" rx="2"/>
-              <path d="M7 11V7a5 5 0 0 1 10 0v4"/>
-            </svg>
-            LOCK
-          </button>
         </div>
       </div>
 
       {/* ── Live stats ── */}
       <div className="db-grid-4">
         {[
-          { label: 'TOTAL PARTICIPANTS', value: stats?.total,            color: '#fff' },
-          { label: 'COLLEGE CHECK-IN',   value: stats?.collegeCheckedIn, color: '#4ade80' },
-          { label: 'LAB CHECK-IN',       value: stats?.labCheckedIn,     color: '#4ade80' },
-          { label: 'CHECKED OUT',        value: stats?.checkedOut,       color: '#facc15' },
+          { label: 'TOTAL PARTICIPANTS', value: stats?.total,             color: '#fff' },
+          { label: 'COLLEGE CHECK-IN',   value: stats?.funnel.arrived,    color: '#4ade80' },
+          { label: 'LAB CHECK-IN',       value: stats?.funnel.enteredLab, color: '#4ade80' },
+          { label: 'CHECKED OUT',        value: stats?.funnel.left,       color: '#facc15' },
         ].map(s => (
           <div key={s.label} className="db-stat">
             <div className="db-stat-label">{s.label}</div>
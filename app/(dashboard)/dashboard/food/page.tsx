@@ -1,33 +1,35 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { DBParticipant, MEAL_LABELS, MealStatus, countMealsTaken } from '@/types';
-import { getParticipants } from '@/actions/participants';
-
-const MEAL_KEYS = (Object.keys(MEAL_LABELS) as (keyof MealStatus)[]);
-
-const DAY_GROUPS = [
-  { label: 'DAY 1', meals: ['day1_dinner'] as (keyof MealStatus)[] },
-  { label: 'DAY 2', meals: ['day2_breakfast', 'day2_lunch', 'day2_dinner'] as (keyof MealStatus)[] },
-  { label: 'DAY 3', meals: ['day3_breakfast', 'day3_lunch'] as (keyof MealStatus)[] },
-];
-
-const SHORT_LABEL: Record<keyof MealStatus, string> = {
-  day1_dinner:    'Dinner',
-  day2_breakfast: 'Bfast',
-  day2_lunch:     'Lunch',
-  day2_dinner:    'Dinner',
-  day3_breakfast: 'Bfast',
-  day3_lunch:     'Lunch',
-};
-
-function getMeal(p: DBParticipant, key: keyof MealStatus): boolean {
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  DBParticipant,
+  MealSlot,
+  ParticipantCounts,
+  DEFAULT_MEAL_SCHEDULE,
+  LiveUpdate,
+  countMealsTaken,
+  groupMealsByDay,
+  assertAuthorized,
+} from '@/types';
+import { getParticipantCounts, queryParticipants } from '@/actions/participants';
+import { getMealSchedule } from '@/actions/event-config';
+import MealScheduleEditor from '@/components/food/MealScheduleEditor';
+import { useLiveUpdates } from '@/lib/use-live-updates';
+
+function getMeal(p: DBParticipant, key: string): boolean {
   return p.meals?.[key] ?? false;
 }
 
-function getMealCount(participants: DBParticipant[], key: keyof MealStatus) {
-  return participants.filter(p => getMeal(p, key)).length;
-}
+const PAGE_SIZE = 100;
+
+/** Refreshes re-fetch every loaded row, up to the query API's page limit */
+const MAX_REFRESH_ROWS = 500;
+
+/** Live updates arrive in bursts at a busy counter; recount once they settle */
+const COUNTS_REFRESH_DELAY_MS = 1_000;
+
+/** Only the fields the monitor renders */
+const ROW_FIELDS: (keyof DBParticipant)[] = ['name', 'participantId', 'teamId', 'meals'];
 
 function Dot({ taken }: { taken: boolean }) {
   return (
@@ -51,43 +53,122 @@ function Bar({ value, total }: { value: number; total: number }) {
 
 export default function FoodMonitorPage() {
   const [participants, setParticipants] = useState<DBParticipant[]>([]);
+  const [matching, setMatching]         = useState(0);
+  const [nextCursor, setNextCursor]     = useState<string | undefined>();
+  const [counts, setCounts]             = useState<ParticipantCounts | null>(null);
   const [search, setSearch]             = useState('');
   const [loading, setLoading]           = useState(true);
+  const [loadingMore, setLoadingMore]   = useState(false);
   const [lastRefresh, setLastRefresh]   = useState<Date>(new Date());
-  const [activeDay, setActiveDay]       = useState<'ALL' | 'DAY 1' | 'DAY 2' | 'DAY 3'>('ALL');
+  const [activeDay, setActiveDay]       = useState<string>('ALL');
+  const [schedule, setSchedule]         = useState<MealSlot[]>(DEFAULT_MEAL_SCHEDULE);
+  const [editingSchedule, setEditingSchedule] = useState(false);
+
+  // Read by the auto-refresh timer, which would otherwise see stale state
+  const searchRef = useRef(search);
+  const loadedRef = useRef(0);
+
+  const fetchRows = useCallback((cursor?: string, limit = PAGE_SIZE) =>
+    queryParticipants({
+      search: searchRef.current.trim() || undefined,
+      sort: { field: 'name', direction: 'asc' },
+      projection: ROW_FIELDS,
+      cursor,
+      limit,
+    }).then(assertAuthorized), []);
 
-  const load = async () => {
+  const load = useCallback(async () => {
     try {
-      const data = await getParticipants();
-      setParticipants(data);
+      const limit = Math.min(MAX_REFRESH_ROWS, Math.max(PAGE_SIZE, loadedRef.current));
+      const [page, nextCounts, meals] = await Promise.all([
+        fetchRows(undefined, limit),
+        getParticipantCounts().then(assertAuthorized),
+        getMealSchedule().then(assertAuthorized),
+      ]);
+      setParticipants(page.participants);
+      loadedRef.current = page.participants.length;
+      setMatching(page.total);
+      setNextCursor(page.nextCursor);
+      setCounts(nextCounts);
+      setSchedule(meals);
       setLastRefresh(new Date());
     } catch (e) { console.error(e); }
     finally { setLoading(false); }
+  }, [fetchRows]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchRows(nextCursor);
+      setParticipants(prev => {
+        const rows = [...prev, ...page.participants];
+        loadedRef.current = rows.length;
+        return rows;
+      });
+      setNextCursor(page.nextCursor);
+    } catch (e) { console.error(e); }
+    finally { setLoadingMore(false); }
+  };
+
+  const countsTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const refreshCountsSoon = () => {
+    clearTimeout(countsTimerRef.current);
+    countsTimerRef.current = setTimeout(() => {
+      getParticipantCounts()
+        .then(assertAuthorized)
+        .then(nextCounts => { setCounts(nextCounts); setLastRefresh(new Date()); })
+        .catch(e => console.error(e));
+    }, COUNTS_REFRESH_DELAY_MS);
+  };
+
+  // Meals served at other counters update the rows on screen
+  const handleLiveUpdate = (update: LiveUpdate) => {
+    if (update.type === 'meal_schedule') {
+      setSchedule(update.schedule);
+      return;
+    }
+    if (update.type === 'participant') {
+      const { participant } = update;
+      setParticipants(prev => prev.map(p => p._id === participant._id ? participant : p));
+    } else if (update.type === 'participant_removed') {
+      if (participants.some(p => p._id === update._id)) {
+        setParticipants(prev => prev.filter(p => p._id !== update._id));
+        setMatching(n => n - 1);
+      }
+    } else {
+      return;
+    }
+    refreshCountsSoon();
   };
 
+  const live = useLiveUpdates(['participants', 'meal_schedule'], handleLiveUpdate);
+
+  // Fall back to polling while the live stream is down
   useEffect(() => {
-    load();
+    if (live) return;
     const interval = setInterval(load, 30_000);
     return () => clearInterval(interval);
-  }, []);
-
-  const filtered = participants.filter(p => {
-    const q = search.toLowerCase();
-    return (
-      !q ||
-      p.name.toLowerCase().includes(q) ||
-      p.email.toLowerCase().includes(q) ||
-      p.participantId.toLowerCase().includes(q) ||
-      (p.teamId && p.teamId.toLowerCase().includes(q))
-    );
-  });
-
-  const activeMeals: (keyof MealStatus)[] =
-    activeDay === 'ALL' ? MEAL_KEYS : DAY_GROUPS.find(d => d.label === activeDay)!.meals;
-
-  const totalParticipants  = participants.length;
-  const totalMealsServed   = MEAL_KEYS.reduce((sum, key) => sum + getMealCount(participants, key), 0);
-  const maxMealsPossible   = totalParticipants * MEAL_KEYS.length;
+  }, [live, load]);
+
+  // Search runs on the server; wait for typing to pause
+  useEffect(() => {
+    searchRef.current = search;
+    loadedRef.current = 0;
+    const timer = setTimeout(load, 300);
+    return () => clearTimeout(timer);
+  }, [search, load]);
+
+  const filtered = participants;
+  const getMealCount = (key: string) => counts?.meals[key] ?? 0;
+
+  const dayGroups = groupMealsByDay(schedule);
+  const activeMeals: MealSlot[] =
+    dayGroups.find(d => d.label === activeDay)?.meals ?? schedule;
+
+  const totalParticipants  = counts?.total ?? 0;
+  const totalMealsServed   = schedule.reduce((sum, slot) => sum + getMealCount(slot.key), 0);
+  const maxMealsPossible   = totalParticipants * schedule.length;
 
   // grid: participant col + one col per meal + total col (no team col)
   const gridCols = `2fr ${activeMeals.map(() => '1fr').join(' ')} 80px`;
@@ -119,7 +200,7 @@ export default function FoodMonitorPage() {
                 FOOD MONITOR
               </h1>
               <p style={{ fontFamily: 'monospace', color: 'rgba(255,255,255,0.5)', fontSize: '0.875rem' }}>
-                Live meal tracking · Read-only · Auto-refreshes every 30s
+                Live meal tracking · Read-only · {live ? <span style={{ color: '#4ade80' }}>● LIVE</span> : 'Auto-refreshes every 30s'}
               </p>
             </div>
             <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
@@ -137,10 +218,23 @@ export default function FoodMonitorPage() {
                 </svg>
                 REFRESH
               </button>
+              <button onClick={() => setEditingSchedule(v => !v)}
+                style={{ padding: '0.5rem 1rem', backgroundColor: editingSchedule ? '#fff' : 'transparent', border: '1px solid rgba(255,255,255,0.2)', color: editingSchedule ? '#000' : 'rgba(255,255,255,0.7)', fontFamily: 'monospace', fontSize: '0.75rem', cursor: 'pointer', letterSpacing: '0.05em', transition: 'all 0.2s' }}
+              >
+                SCHEDULE
+              </button>
             </div>
           </div>
         </div>
 
+        {editingSchedule && (
+          <MealScheduleEditor
+            schedule={schedule}
+            onSaved={meals => { setSchedule(meals); setActiveDay('ALL'); setEditingSchedule(false); }}
+            onCancel={() => setEditingSchedule(false)}
+          />
+        )}
+
         {/* ── Top stats ── */}
         <div className="fm-stat-grid" style={{ marginBottom: '2rem' }}>
           <div style={{ border: '1px solid rgba(255,255,255,0.1)', padding: '1.25rem' }}>
@@ -155,13 +249,13 @@ export default function FoodMonitorPage() {
             </div>
             <Bar value={totalMealsServed} total={maxMealsPossible} />
           </div>
-          {MEAL_KEYS.map(key => {
-            const count = getMealCount(participants, key);
+          {schedule.map(slot => {
+            const count = getMealCount(slot.key);
             const pct   = totalParticipants === 0 ? 0 : Math.round((count / totalParticipants) * 100);
             return (
-              <div key={key} style={{ border: '1px solid rgba(255,255,255,0.08)', padding: '1.25rem' }}>
+              <div key={slot.key} style={{ border: '1px solid rgba(255,255,255,0.08)', padding: '1.25rem' }}>
                 <div style={{ fontFamily: 'monospace', fontSize: '0.65rem', color: 'rgba(255,255,255,0.35)', letterSpacing: '0.08em', marginBottom: '0.4rem' }}>
-                  {MEAL_LABELS[key].toUpperCase()}
+                  {slot.label.toUpperCase()}
                 </div>
                 <div style={{ display: 'flex', alignItems: 'baseline', gap: '0.4rem' }}>
                   <span style={{ fontSize: '1.5rem', fontWeight: 900, letterSpacing: '-0.03em', color: count > 0 ? '#4ade80' : 'rgba(255,255,255,0.5)' }}>{count}</span>
@@ -187,7 +281,7 @@ export default function FoodMonitorPage() {
               onBlur={e  => e.currentTarget.style.borderColor = 'rgba(255,255,255,0.15)'} />
           </div>
           <div style={{ display: 'flex', gap: '0.5rem' }}>
-            {(['ALL', 'DAY 1', 'DAY 2', 'DAY 3'] as const).map(day => {
+            {['ALL', ...dayGroups.map(d => d.label)].map(day => {
               const isActive = activeDay === day;
               return (
                 <button key={day} onClick={() => setActiveDay(day)}
@@ -201,7 +295,7 @@ export default function FoodMonitorPage() {
             })}
           </div>
           <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: 'rgba(255,255,255,0.35)', whiteSpace: 'nowrap' }}>
-            {filtered.length} / {totalParticipants}
+            {matching} / {totalParticipants}
           </div>
         </div>
 
@@ -216,9 +310,9 @@ export default function FoodMonitorPage() {
           <div style={{ fontFamily: 'monospace', fontSize: '0.65rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.08em' }}>
             PARTICIPANT
           </div>
-          {activeMeals.map(key => (
-            <div key={key} style={{ fontFamily: 'monospace', fontSize: '0.6rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.06em', textAlign: 'center' }}>
-              {SHORT_LABEL[key].toUpperCase()}
+          {activeMeals.map(slot => (
+            <div key={slot.key} style={{ fontFamily: 'monospace', fontSize: '0.6rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.06em', textAlign: 'center' }}>
+              {slot.shortLabel.toUpperCase()}
             </div>
           ))}
           <div style={{ fontFamily: 'monospace', fontSize: '0.65rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.08em', textAlign: 'center' }}>
@@ -230,12 +324,12 @@ export default function FoodMonitorPage() {
         <div style={{ border: '1px solid rgba(255,255,255,0.08)', display: 'flex', flexDirection: 'column' }}>
           {filtered.length === 0 ? (
             <div style={{ padding: '4rem', textAlign: 'center', fontFamily: 'monospace', fontSize: '0.875rem', color: 'rgba(255,255,255,0.25)' }}>
-              {participants.length === 0 ? 'No participants in database' : 'No results match your search'}
+              {totalParticipants === 0 ? 'No participants in database' : 'No results match your search'}
             </div>
           ) : (
             filtered.map((p, i) => {
-              const taken = countMealsTaken(p.meals ?? {} as MealStatus);
-              const total = MEAL_KEYS.length;
+              const taken = countMealsTaken(p.meals, schedule);
+              const total = schedule.length;
               return (
                 <div key={p._id || p.participantId}
                   style={{ display: 'grid', gridTemplateColumns: gridCols, gap: '0.5rem', alignItems: 'center', padding: '0.875rem 1.25rem', borderBottom: i < filtered.length - 1 ? '1px solid rgba(255,255,255,0.05)' : 'none', transition: 'background-color 0.15s' }}
@@ -258,9 +352,9 @@ export default function FoodMonitorPage() {
                   </div>
 
                   {/* Meal dots */}
-                  {activeMeals.map(key => (
-                    <div key={key} style={{ display: 'flex', justifyContent: 'center', alignItems: 'center' }}>
-                      <Dot taken={getMeal(p, key)} />
+                  {activeMeals.map(slot => (
+                    <div key={slot.key} style={{ display: 'flex', justifyContent: 'center', alignItems: 'center' }}>
+                      <Dot taken={getMeal(p, slot.key)} />
                     </div>
                   ))}
 
@@ -276,19 +370,27 @@ export default function FoodMonitorPage() {
           )}
         </div>
 
+        {nextCursor && (
+          <button onClick={loadMore} disabled={loadingMore}
+            style={{ width: '100%', marginTop: '0.75rem', padding: '0.75rem', backgroundColor: 'transparent', border: '1px solid rgba(255,255,255,0.15)', color: 'rgba(255,255,255,0.6)', fontFamily: 'monospace', fontSize: '0.75rem', letterSpacing: '0.05em', cursor: loadingMore ? 'wait' : 'pointer' }}
+          >
+            {loadingMore ? 'LOADING…' : `LOAD MORE (${matching - filtered.length} LEFT)`}
+          </button>
+        )}
+
         {/* ── Footer summary ── */}
         {filtered.length > 0 && (
           <div style={{ marginTop: '1rem', padding: '0.875rem 1.25rem', border: '1px solid rgba(255,255,255,0.06)', display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '1rem', backgroundColor: 'rgba(255,255,255,0.02)' }}>
             <div style={{ fontFamily: 'monospace', fontSize: '0.7rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.05em' }}>
-              TOTALS FOR VISIBLE ROWS
+              TOTALS FOR LOADED ROWS
             </div>
             <div style={{ display: 'flex', gap: '1.5rem', flexWrap: 'wrap' }}>
-              {activeMeals.map(key => {
-                const count = filtered.filter(p => getMeal(p, key)).length;
+              {activeMeals.map(slot => {
+                const count = filtered.filter(p => getMeal(p, slot.key)).length;
                 return (
-                  <div key={key} style={{ textAlign: 'center' }}>
+                  <div key={slot.key} style={{ textAlign: 'center' }}>
                     <div style={{ fontFamily: 'monospace', fontSize: '0.6rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.06em', marginBottom: '0.2rem' }}>
-                      {MEAL_LABELS[key].toUpperCase()}
+                      {slot.label.toUpperCase()}
                     </div>
                     <div style={{ fontFamily: 'monospace', fontSize: '0.875rem', fontWeight: 'bold', color: count > 0 ? '#4ade80' : 'rgba(255,255,255,0.2)' }}>
                       {count}
@@ -2,10 +2,10 @@
 
 import { useState, useRef } from 'react';
 import IDCardEditor, { IDCardCard, CardOverlays, DEFAULT_OVERLAYS, CARD_W_MM, CARD_H_MM } from '@/components/id-card/IDCardEditor';
-import { IDCardData, HackathonInfo } from '@/types';
+import { DBParticipant, IDCardData, HackathonInfo, assertAuthorized } from '@/types';
 import { parseCSVForIDCards } from '@/lib/csv';
 import { downloadCSVTemplate } from '@/utils/csv-download';
-import { getParticipants } from '@/actions/participants';
+import { queryParticipants } from '@/actions/participants';
 import { generateQRCode } from '@/utils/generate-qr';
 import { generateBulkVectorPDFs, generateGridPDF, GRID_CARD_W, GRID_CARD_H, GRID_GAP, CARDS_PER_PAGE } from '@/utils/generate-pdf';
 
@@ -87,7 +87,20 @@ export default function GeneratorPage() {
   const loadParticipants = async () => {
     try {
       setStatus('Loading participants from database...');
-      const db = await getParticipants();
+      // Page through with only the fields a card prints
+      const db: DBParticipant[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = assertAuthorized(await queryParticipants({
+          sort: { field: 'participantId', direction: 'asc' },
+          projection: ['name', 'email', 'role', 'institute', 'phone', 'participantId', 'teamId'],
+          cursor,
+          limit: 500,
+        }));
+        db.push(...page.participants);
+        cursor = page.nextCursor;
+        setStatus(`Loading participants from database... ${db.length}/${page.total}`);
+      } while (cursor);
       const transformed: SelectableIDCardData[] = await Promise.all(
         db.map(async (p) => ({
           name:          p.name,
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LabAllocationMode, LabAllocationOptions, LabAllocationPlan, LabDefinition, assertAuthorized, isUnauthorized } from '@/types';
+import { getLabDefinitions } from '@/actions/event-config';
+import { previewLabAllocation, applyLabAllocation } from '@/actions/lab-allocation';
+import LabDefinitionsEditor from '@/components/labs/LabDefinitionsEditor';
+
+// ─── Style tokens ────────────────────────────────────────────────────────────
+const mono: React.CSSProperties = { fontFamily: 'monospace' };
+const headStyle: React.CSSProperties = {
+  ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.08em',
+};
+const inputStyle: React.CSSProperties = {
+  width: '100%', boxSizing: 'border-box',
+  backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.15)',
+  color: '#fff', ...mono, fontSize: '0.75rem',
+  padding: '0.5rem 0.6rem', outline: 'none',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  ...mono, fontSize: '0.75rem', cursor: 'pointer',
+  letterSpacing: '0.05em', transition: 'all 0.2s', whiteSpace: 'nowrap',
+};
+
+const MODES: { value: LabAllocationMode; label: string; description: string }[] = [
+  { value: 'fill',      label: 'FILL',      description: 'Seat only teams without a lab; nobody already seated moves' },
+  { value: 'rebalance', label: 'REBALANCE', description: 'Seat newcomers, then move whole teams from the fullest labs to the emptiest' },
+  { value: 'reset',     label: 'RESET',     description: 'Allocate everyone from scratch' },
+];
+
+function OccupancyBar({ value, capacity, color }: { value: number; capacity: number; color: string }) {
+  const pct = capacity === 0 ? 0 : Math.min(100, (value / capacity) * 100);
+  return (
+    <div style={{ height: '4px', backgroundColor: 'rgba(255,255,255,0.08)', position: 'relative' }}>
+      <div style={{ position: 'absolute', left: 0, top: 0, bottom: 0, width: `${pct}%`, backgroundColor: color, transition: 'width 0.4s ease' }} />
+    </div>
+  );
+}
+
+export default function LabAllocationPage() {
+  const [labs, setLabs]           = useState<LabDefinition[]>([]);
+  const [loading, setLoading]     = useState(true);
+  const [editingLabs, setEditingLabs] = useState(false);
+
+  const [mode, setMode]                       = useState<LabAllocationMode>('fill');
+  const [spreadInstitutes, setSpreadInstitutes] = useState(false);
+  const [maxPerInstitute, setMaxPerInstitute] = useState('');
+
+  const [plan, setPlan]       = useState<LabAllocationPlan | null>(null);
+  const [applied, setApplied] = useState(false);
+  const [busy, setBusy]       = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    getLabDefinitions()
+      .then(assertAuthorized)
+      .then(setLabs)
+      .catch(err => console.error('Failed to load labs:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const options = (): LabAllocationOptions => ({
+    mode,
+    spreadInstitutes,
+    maxPerInstitute: maxPerInstitute ? Number(maxPerInstitute) : undefined,
+  });
+
+  const run = async (apply: boolean) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = apply ? await applyLabAllocation(options()) : await previewLabAllocation(options());
+      if (isUnauthorized(result) || !result.success || !result.plan) {
+        setMessage({ ok: false, text: isUnauthorized(result) ? 'Not allowed' : result.error ?? 'Allocation failed' });
+        return;
+      }
+      setPlan(result.plan);
+      setApplied(apply);
+      if (apply) setMessage({ ok: true, text: `Allocation applied — ${result.plan.changedParticipants} participant(s) updated` });
+    } catch (e) {
+      console.error(e);
+      setMessage({ ok: false, text: 'Allocation failed' });
+    } finally { setBusy(false); }
+  };
+
+  const handleApply = () => {
+    if (!plan || !confirm(`Apply this allocation? ${plan.changedParticipants} participant(s) will get a new lab or WiFi details.`)) return;
+    run(true);
+  };
+
+  const totalSeats = labs.reduce((n, l) => n + l.capacity, 0);
+
+  return (
+    <>
+      <style>{`
+        .la-page { padding: 3rem; }
+        .la-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 1rem; }
+        @media (max-width: 900px) {
+          .la-page { padding: 1.25rem; padding-top: calc(60px + 1.25rem); }
+        }
+      `}</style>
+
+      <div className="la-page">
+
+        {/* ── Header ── */}
+        <div style={{ marginBottom: '2.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', gap: '1rem', flexWrap: 'wrap' }}>
+          <div>
+            <h1 style={{ fontSize: 'clamp(2.5rem, 6vw, 4rem)', fontWeight: 900, letterSpacing: '-0.05em', marginBottom: '0.5rem' }}>
+              LAB ALLOCATION
+            </h1>
+            <p style={{ ...mono, color: 'rgba(255,255,255,0.5)', fontSize: '0.875rem' }}>
+              {loading ? 'Loading…' : `${labs.length} lab${labs.length === 1 ? '' : 's'} · ${totalSeats} seats`}
+            </p>
+          </div>
+          <button
+            onClick={() => setEditingLabs(v => !v)}
+            style={{ ...btnStyle, backgroundColor: editingLabs ? '#fff' : 'transparent', color: editingLabs ? '#000' : 'rgba(255,255,255,0.7)' }}
+          >
+            LABS
+          </button>
+        </div>
+
+        {editingLabs && (
+          <LabDefinitionsEditor
+            labs={labs}
+            onSaved={saved => { setLabs(saved); setPlan(null); setEditingLabs(false); }}
+            onCancel={() => setEditingLabs(false)}
+          />
+        )}
+
+        {!loading && labs.length === 0 && !editingLabs && (
+          <div style={{ ...headStyle, fontSize: '0.75rem', marginBottom: '2rem' }}>
+            No labs defined yet — add them with LABS before allocating
+          </div>
+        )}
+
+        {/* ── Options ── */}
+        <div style={{ border: '1px solid rgba(255,255,255,0.15)', padding: '1.25rem', marginBottom: '2rem', display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          <div>
+            <div style={{ ...headStyle, marginBottom: '0.5rem' }}>MODE</div>
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+              {MODES.map(m => (
+                <button
+                  key={m.value}
+                  onClick={() => { setMode(m.value); setPlan(null); }}
+                  style={{ ...btnStyle, backgroundColor: mode === m.value ? '#fff' : 'transparent', color: mode === m.value ? '#000' : 'rgba(255,255,255,0.7)' }}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            <div style={{ ...mono, fontSize: '0.7rem', color: 'rgba(255,255,255,0.45)', marginTop: '0.5rem' }}>
+              {MODES.find(m => m.value === mode)?.description}. Teams with someone inside a lab right now are never moved.
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', gap: '2rem', flexWrap: 'wrap', alignItems: 'end' }}>
+            <label style={{ ...mono, fontSize: '0.75rem', display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+              <input type="checkbox" checked={spreadInstitutes} onChange={e => { setSpreadInstitutes(e.target.checked); setPlan(null); }} />
+              Mix institutes across labs
+            </label>
+            <div style={{ width: '200px' }}>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>MAX PER INSTITUTE PER LAB</div>
+              <input
+                style={inputStyle} type="number" min={1} placeholder="no limit"
+                value={maxPerInstitute} onChange={e => { setMaxPerInstitute(e.target.value); setPlan(null); }}
+              />
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <button disabled={busy || labs.length === 0} style={{ ...btnStyle, opacity: busy ? 0.5 : 1 }} onClick={() => run(false)}>
+              {busy ? 'WORKING…' : 'PREVIEW'}
+            </button>
+            <button
+              disabled={busy || !plan || applied}
+              style={{ ...btnStyle, backgroundColor: '#fff', color: '#000', border: 'none', fontWeight: 'bold', opacity: !plan || applied || busy ? 0.4 : 1 }}
+              onClick={handleApply}
+            >
+              APPLY
+            </button>
+          </div>
+
+          {message && (
+            <div style={{ ...mono, fontSize: '0.75rem', color: message.ok ? '#4ade80' : '#f87171' }}>{message.text}</div>
+          )}
+        </div>
+
+        {/* ── Plan ── */}
+        {plan && (
+          <>
+            <div style={{ ...headStyle, fontSize: '0.75rem', marginBottom: '1rem' }}>
+              {applied ? 'APPLIED' : 'PREVIEW — nothing has been changed yet'} · {plan.moves.length} move(s) · {plan.changedParticipants} participant(s) updated
+            </div>
+
+            <div className="la-grid" style={{ marginBottom: '2rem' }}>
+              {plan.labs.map(lab => (
+                <div key={lab.name} style={{ border: `1px solid ${lab.after > lab.capacity ? '#f87171' : 'rgba(255,255,255,0.1)'}`, padding: '1rem' }}>
+                  <div style={{ fontWeight: 'bold', marginBottom: '0.5rem' }}>{lab.name}</div>
+                  <div style={{ ...mono, fontSize: '0.7rem', color: 'rgba(255,255,255,0.45)', marginBottom: '0.3rem' }}>
+                    BEFORE {lab.before}/{lab.capacity}
+                  </div>
+                  <OccupancyBar value={lab.before} capacity={lab.capacity} color="rgba(255,255,255,0.35)" />
+                  <div style={{ ...mono, fontSize: '0.7rem', marginTop: '0.6rem', marginBottom: '0.3rem' }}>
+                    AFTER {lab.after}/{lab.capacity} · {Math.round((lab.after / lab.capacity) * 100)}%
+                  </div>
+                  <OccupancyBar value={lab.after} capacity={lab.capacity} color={lab.after > lab.capacity ? '#f87171' : '#4ade80'} />
+                </div>
+              ))}
+            </div>
+
+            {plan.unplaced.length > 0 && (
+              <div style={{ border: '1px solid rgba(248,113,113,0.3)', padding: '1rem 1.5rem', marginBottom: '2rem' }}>
+                <div style={{ ...headStyle, color: '#f87171', fontSize: '0.75rem', marginBottom: '0.5rem' }}>
+                  COULD NOT SEAT · {plan.unplaced.length}
+                </div>
+                {plan.unplaced.map(u => (
+                  <div key={u.teamId ?? u.label} style={{ ...mono, fontSize: '0.75rem', padding: '0.3rem 0' }}>
+                    {u.label} <span style={{ color: 'rgba(255,255,255,0.4)' }}>· {u.size} · {u.reason}{u.removedFrom && ` · removed from ${u.removedFrom}`}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div style={{ border: '1px solid rgba(255,255,255,0.1)' }}>
+              <div style={{ display: 'grid', gridTemplateColumns: '2fr 0.5fr 1fr 1fr', gap: '0.75rem', padding: '0.75rem 1rem', borderBottom: '1px solid rgba(255,255,255,0.1)' }}>
+                <div style={headStyle}>TEAM / PARTICIPANT</div>
+                <div style={headStyle}>SIZE</div>
+                <div style={headStyle}>FROM</div>
+                <div style={headStyle}>TO</div>
+              </div>
+              {plan.moves.length === 0 ? (
+                <div style={{ ...headStyle, padding: '1rem' }}>Nobody moves</div>
+              ) : plan.moves.map(m => (
+                <div key={m.teamId ?? m.label} style={{ display: 'grid', gridTemplateColumns: '2fr 0.5fr 1fr 1fr', gap: '0.75rem', padding: '0.5rem 1rem', borderBottom: '1px solid rgba(255,255,255,0.05)', ...mono, fontSize: '0.75rem' }}>
+                  <div style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{m.label}</div>
+                  <div>{m.size}</div>
+                  <div style={{ color: 'rgba(255,255,255,0.45)' }}>{m.from ?? '—'}</div>
+                  <div style={{ color: '#4ade80' }}>{m.to}</div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
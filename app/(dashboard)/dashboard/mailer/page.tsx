@@ -2,8 +2,9 @@
 
 import { useState, useCallback } from 'react';
 import Papa from 'papaparse';
-import { getParticipants } from '@/actions/participants';
+import { queryParticipants } from '@/actions/participants';
 import { getSponsors } from '@/actions/sponsors';
+import { DBParticipant, assertAuthorized } from '@/types';
 import { sendEmailsAction } from '@/actions/email';
 import { generateEmailAction } from '@/actions/generate-email';
 import type { EmailContent } from '@/actions/generate-email';
@@ -118,7 +119,22 @@ export default function MailerPage() {
   const loadParticipants = async () => {
     try {
       setMsg('Loading participants…');
-      const raw = await getParticipants();
+      // Page through with only the fields templates can reference
+      const raw: DBParticipant[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = assertAuthorized(await queryParticipants({
+          sort: { field: 'name', direction: 'asc' },
+          projection: [
+            'name', 'email', 'role', 'institute', 'phone', 'teamName', 'teamId',
+            'projectName', 'state', 'labAllotted', 'participantId',
+          ],
+          cursor,
+          limit: 500,
+        }));
+        raw.push(...page.participants);
+        cursor = page.nextCursor;
+      } while (cursor);
       const rows: Recipient[] = raw.map((p) => ({
         name:          p.name,
         email:         p.email,
@@ -142,7 +158,7 @@ export default function MailerPage() {
   const loadSponsors = async () => {
     try {
       setMsg('Loading sponsors…');
-      const raw = await getSponsors();
+      const raw = assertAuthorized(await getSponsors());
       const rows: Recipient[] = raw.map((s) => ({
         name: s.name, email: s.email, role: s.role || '',
         company: s.companyName, phone: s.phone || '', selected: true,
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LabOccupancy, LabOccupancyOverview, LabOccupant, assertAuthorized } from '@/types';
+import { getLabOccupancy } from '@/actions/lab-occupancy';
+
+// ─── Style tokens ────────────────────────────────────────────────────────────
+const mono: React.CSSProperties = { fontFamily: 'monospace' };
+const headStyle: React.CSSProperties = {
+  ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.35)', letterSpacing: '0.08em',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  ...mono, fontSize: '0.75rem', cursor: 'pointer',
+  letterSpacing: '0.05em', transition: 'all 0.2s',
+};
+
+const REFRESH_MS = 15_000;
+
+const formatTime = (value?: Date | string) =>
+  value
+    ? new Date(value).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit', hour12: false })
+    : '—';
+
+const minutesSince = (value?: Date | string) =>
+  value ? Math.floor((Date.now() - new Date(value).getTime()) / 60_000) : 0;
+
+function Stat({ label, value, color }: { label: string; value: number | string; color?: string }) {
+  return (
+    <div>
+      <div style={headStyle}>{label}</div>
+      <div style={{ fontSize: '1.4rem', fontWeight: 900, letterSpacing: '-0.03em', color }}>{value}</div>
+    </div>
+  );
+}
+
+function OccupantList({ title, color, people, detail }: {
+  title: string;
+  color: string;
+  people: LabOccupant[];
+  detail: (p: LabOccupant) => string;
+}) {
+  if (people.length === 0) return null;
+  return (
+    <div style={{ marginTop: '0.9rem' }}>
+      <div style={{ ...headStyle, color, marginBottom: '0.3rem' }}>{title} · {people.length}</div>
+      {people.map(p => (
+        <div key={p._id} style={{ ...mono, fontSize: '0.75rem', padding: '0.25rem 0', borderBottom: '1px solid rgba(255,255,255,0.05)', display: 'flex', justifyContent: 'space-between', gap: '0.75rem' }}>
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {p.name} <span style={{ color: 'rgba(255,255,255,0.35)' }}>{p.participantId}{p.teamName ? ` · ${p.teamName}` : ''}</span>
+          </span>
+          <span style={{ color, whiteSpace: 'nowrap' }}>{detail(p)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function LabCard({ occupancy }: { occupancy: LabOccupancy }) {
+  const { lab, capacity, inLab, tempOut, allotted, awaiting, checkedOut, tempOutMembers, wrongLab } = occupancy;
+  const pct = capacity ? Math.min(100, (inLab / capacity) * 100) : 0;
+  const over = capacity !== undefined && inLab > capacity;
+
+  return (
+    <div style={{ border: `1px solid ${over ? '#f87171' : wrongLab.length > 0 ? 'rgba(250,204,21,0.45)' : 'rgba(255,255,255,0.12)'}`, padding: '1.25rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '0.75rem', gap: '0.5rem' }}>
+        <div style={{ fontWeight: 900, fontSize: '1.1rem', letterSpacing: '-0.02em' }}>{lab}</div>
+        <div style={{ ...mono, fontSize: '0.8rem', color: over ? '#f87171' : 'rgba(255,255,255,0.6)' }}>
+          {inLab}{capacity !== undefined ? ` / ${capacity}` : ''}
+        </div>
+      </div>
+
+      {capacity !== undefined ? (
+        <div style={{ height: '4px', backgroundColor: 'rgba(255,255,255,0.08)', position: 'relative', marginBottom: '1rem' }}>
+          <div style={{ position: 'absolute', left: 0, top: 0, bottom: 0, width: `${pct}%`, backgroundColor: over ? '#f87171' : '#4ade80', transition: 'width 0.4s ease' }} />
+        </div>
+      ) : (
+        <div style={{ ...headStyle, marginBottom: '1rem' }}>Not a defined lab — no capacity set</div>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '0.5rem' }}>
+        <Stat label="IN LAB" value={inLab} color="#4ade80" />
+        <Stat label="TEMP OUT" value={tempOut} color={tempOut > 0 ? '#facc15' : undefined} />
+        <Stat label="AWAITING" value={awaiting} />
+        <Stat label="ALLOTTED" value={allotted} />
+      </div>
+      {checkedOut > 0 && (
+        <div style={{ ...headStyle, marginTop: '0.5rem' }}>{checkedOut} allotted here have checked out of the lab</div>
+      )}
+
+      <OccupantList
+        title="TEMPORARILY OUT"
+        color="#facc15"
+        people={tempOutMembers}
+        detail={p => `since ${formatTime(p.since)} · ${minutesSince(p.since)}m`}
+      />
+      <OccupantList
+        title="WRONG LAB"
+        color="#f87171"
+        people={wrongLab}
+        detail={p => `allotted ${p.labAllotted || 'none'}`}
+      />
+    </div>
+  );
+}
+
+export default function LabOccupancyPage() {
+  const [overview, setOverview] = useState<LabOccupancyOverview | null>(null);
+  const [loading, setLoading]   = useState(true);
+  const [error, setError]       = useState('');
+
+  const load = async () => {
+    try {
+      setOverview(assertAuthorized(await getLabOccupancy()));
+      setError('');
+    } catch (e) {
+      console.error(e);
+      setError('Failed to load lab occupancy');
+    } finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(load, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const labs = overview?.labs ?? [];
+  const totals = labs.reduce(
+    (t, l) => ({ inLab: t.inLab + l.inLab, tempOut: t.tempOut + l.tempOut, wrong: t.wrong + l.wrongLab.length, seats: t.seats + (l.capacity ?? 0) }),
+    { inLab: 0, tempOut: 0, wrong: 0, seats: 0 }
+  );
+
+  return (
+    <>
+      <style>{`
+        .lo-page { padding: 3rem; }
+        .lo-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(340px, 1fr)); gap: 1rem; }
+        @media (max-width: 900px) {
+          .lo-page { padding: 1.25rem; padding-top: calc(60px + 1.25rem); }
+          .lo-grid { grid-template-columns: 1fr; }
+        }
+      `}</style>
+
+      <div className="lo-page">
+
+        {/* ── Header ── */}
+        <div style={{ marginBottom: '2.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', gap: '1rem', flexWrap: 'wrap' }}>
+          <div>
+            <h1 style={{ fontSize: 'clamp(2.5rem, 6vw, 4rem)', fontWeight: 900, letterSpacing: '-0.05em', marginBottom: '0.5rem' }}>
+              LAB OCCUPANCY
+            </h1>
+            <p style={{ ...mono, color: 'rgba(255,255,255,0.5)', fontSize: '0.875rem' }}>
+              {totals.inLab} in labs{totals.seats > 0 ? ` of ${totals.seats} seats` : ''} · {totals.tempOut} temporarily out · {totals.wrong} in the wrong lab
+              {overview && <> · updated {formatTime(overview.generatedAt)}</>}
+            </p>
+          </div>
+          <button style={btnStyle} onClick={load}>REFRESH</button>
+        </div>
+
+        {error && <div style={{ ...mono, fontSize: '0.75rem', color: '#f87171', marginBottom: '1rem' }}>{error}</div>}
+
+        {loading ? (
+          <div style={headStyle}>Loading…</div>
+        ) : labs.length === 0 ? (
+          <div style={{ ...headStyle, fontSize: '0.75rem' }}>No labs defined and nobody has a lab allotted yet</div>
+        ) : (
+          <div className="lo-grid">
+            {labs.map(l => <LabCard key={l.lab} occupancy={l} />)}
+          </div>
+        )}
+
+        <div style={{ ...headStyle, marginTop: '2rem' }}>
+          Wrong-lab detection needs lab entries scanned with a lab selected on the scanner. Refreshes every {REFRESH_MS / 1000}s.
+        </div>
+      </div>
+    </>
+  );
+}
@@ -3,9 +3,9 @@
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { checkSessionAction, logoutAction } from '@/actions/auth';
-import { getParticipants } from '@/actions/participants';
-import { DBParticipant } from '@/types';
+import { checkSessionAction, logoutAction, logoutEverywhereAction } from '@/actions/auth';
+import { getEventStatsAction } from '@/actions/stats';
+import { assertAuthorized } from '@/types';
 
 type DashboardStats = {
   totalParticipants: number;
@@ -29,6 +29,12 @@ export default function DashboardPage() {
     router.push('/login');
   };
 
+  const handleLogoutEverywhere = async () => {
+    if (!confirm('Sign out of every device, including this one?')) return;
+    await logoutEverywhereAction();
+    router.push('/login');
+  };
+
   useEffect(() => {
     checkSessionAction()
       .then(data => { if (data.user?.name) setUserName(data.user.name); })
@@ -43,19 +49,13 @@ export default function DashboardPage() {
   const loadStats = async () => {
     try {
       setLoading(true);
-      const participants: DBParticipant[] = await getParticipants();
-
-      const collegeCheckedIn = participants.filter(p => p.collegeCheckIn?.status).length;
-      const labCheckedIn     = participants.filter(p => p.labCheckIn?.status).length;
-      const uniqueTeams      = new Set(
-        participants.map(p => p.teamName).filter(Boolean)
-      );
+      const { total, funnel, teams } = assertAuthorized(await getEventStatsAction());
 
       setStats({
-        totalParticipants: participants.length,
-        collegeCheckedIn,
-        labCheckedIn,
-        totalTeams: uniqueTeams.size,
+        totalParticipants: total,
+        collegeCheckedIn:  funnel.arrived,
+        labCheckedIn:      funnel.enteredLab,
+        totalTeams:        teams.total,
       });
     } catch (err) {
       console.error('Error loading dashboard stats:', err);
@@ -125,38 +125,52 @@ export default function DashboardPage() {
                 {currentTime}
               </p>
             </div>
-            <button
-              onClick={handleLogout}
-              style={{
-                display: 'flex', alignItems: 'center', gap: '0.5rem',
-                padding: '0.6rem 1.25rem',
-                backgroundColor: 'transparent',
-                border: '1px solid rgba(255,255,255,0.15)',
-                color: 'rgba(255,255,255,0.55)',
-                fontFamily: 'monospace', fontSize: '0.75rem',
-                letterSpacing: '0.05em', cursor: 'pointer',
-                transition: 'all 0.25s',
-                flexShrink: 0,
-                marginTop: '0.5rem',
-              }}
-              onMouseEnter={e => {
-                e.currentTarget.style.borderColor = 'rgba(248,113,113,0.5)';
-                e.currentTarget.style.color = '#f87171';
-                e.currentTarget.style.backgroundColor = 'rgba(248,113,113,0.08)';
-              }}
-              onMouseLeave={e => {
-                e.currentTarget.style.borderColor = 'rgba(255,255,255,0.15)';
-                e.currentTarget.style.color = 'rgba(255,255,255,0.55)';
-                e.currentTarget.style.backgroundColor = 'transparent';
-              }}
-            >
-              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                <path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4"></path>
-                <polyline points="16 17 21 12 16 7"></polyline>
-                <line x1="21" y1="12" x2="9" y2="12"></line>
-              </svg>
-              SIGN OUT
-            </button>
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '0.5rem' }}>
+              <button
+                onClick={handleLogout}
+                style={{
+                  display: 'flex', alignItems: 'center', gap: '0.5rem',
+                  padding: '0.6rem 1.25rem',
+                  backgroundColor: 'transparent',
+                  border: '1px solid rgba(255,255,255,0.15)',
+                  color: 'rgba(255,255,255,0.55)',
+                  fontFamily: 'monospace', fontSize: '0.75rem',
+                  letterSpacing: '0.05em', cursor: 'pointer',
+                  transition: 'all 0.25s',
+                  flexShrink: 0,
+                  marginTop: '0.5rem',
+                }}
+                onMouseEnter={e => {
+                  e.currentTarget.style.borderColor = 'rgba(248,113,113,0.5)';
+                  e.currentTarget.style.color = '#f87171';
+                  e.currentTarget.style.backgroundColor = 'rgba(248,113,113,0.08)';
+                }}
+                onMouseLeave={e => {
+                  e.currentTarget.style.borderColor = 'rgba(255,255,255,0.15)';
+                  e.currentTarget.style.color = 'rgba(255,255,255,0.55)';
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4"></path>
+                  <polyline points="16 17 21 12 16 7"></polyline>
+                  <line x1="21" y1="12" x2="9" y2="12"></line>
+                </svg>
+                SIGN OUT
+              </button>
+              <button
+                onClick={handleLogoutEverywhere}
+                style={{
+                  padding: 0, backgroundColor: 'transparent', border: 'none',
+                  color: 'rgba(255,255,255,0.35)', fontFamily: 'monospace',
+                  fontSize: '0.65rem', letterSpacing: '0.05em', cursor: 'pointer',
+                }}
+                onMouseEnter={e => { e.currentTarget.style.color = '#f87171'; }}
+                onMouseLeave={e => { e.currentTarget.style.color = 'rgba(255,255,255,0.35)'; }}
+              >
+                SIGN OUT EVERYWHERE
+              </button>
+            </div>
           </div>
         </div>
 
@@ -193,7 +207,7 @@ export default function DashboardPage() {
                 icon: <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="2" y="4" width="20" height="16" rx="2"></rect><circle cx="8" cy="10" r="2"></circle><path d="M14 10h4"></path><path d="M14 14h4"></path><path d="M6 16h4"></path></svg>,
               },
               {
-                title: 'View Analytics', desc: 'Check email and event stats', href: '/dashboard/analytics',
+                title: 'View Analytics', desc: 'Arrivals, lab time, meals and no-shows', href: '/dashboard/analytics',
                 icon: <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="18" y1="20" x2="18" y2="10"></line><line x1="12" y1="20" x2="12" y2="4"></line><line x1="6" y1="20" x2="6" y2="14"></line></svg>,
               },
             ].map((action, i) => (
@@ -2,19 +2,23 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import Papa from 'papaparse';
-import { DBParticipant } from '@/types';
+import { DBParticipant, LiveUpdate, ParticipantCounts, ParticipantQueryResult, assertAuthorized } from '@/types';
 import {
-  getParticipants,
+  queryParticipants,
+  getParticipantCounts,
   createParticipants,
   updateParticipant,
   deleteParticipant,
+  getTrashedParticipants,
+  restoreParticipant,
+  purgeParticipant,
 } from '@/actions/participants';
+import TrashPanel from '@/components/trash/TrashPanel';
+import { useLiveUpdates } from '@/lib/use-live-updates';
 
 // ─── Bulk-edit field options ──────────────────────────────────────────────────
 const BULK_EDIT_FIELDS = [
   { key: 'labAllotted',        label: 'Lab Allotted' },
-  { key: 'teamName',           label: 'Team Name' },
-  { key: 'teamId',             label: 'Team ID' },
   { key: 'role',               label: 'Role' },
   { key: 'institute',          label: 'Institute' },
   { key: 'state',              label: 'State' },
@@ -25,6 +29,26 @@ const BULK_EDIT_FIELDS = [
 ] as const;
 type BulkField = typeof BULK_EDIT_FIELDS[number]['key'];
 
+// ─── Paging ───────────────────────────────────────────────────────────────────
+const PAGE_SIZE = 50;
+/** Refreshes re-fetch every loaded row, up to the query API's page limit */
+const MAX_REFRESH_ROWS = 500;
+const EXPORT_PAGE_SIZE = 500;
+/** Bulk edits arrive as one update per participant; recount once they settle */
+const COUNTS_REFRESH_DELAY_MS = 1_000;
+
+interface ListQuery { search: string; lab: string }
+
+function fetchParticipantPage({ search, lab }: ListQuery, cursor?: string, limit = PAGE_SIZE): Promise<ParticipantQueryResult> {
+  return queryParticipants({
+    filter: lab === 'ALL' ? undefined : { lab },
+    search: search.trim() || undefined,
+    sort: { field: 'name', direction: 'asc' },
+    cursor,
+    limit,
+  }).then(assertAuthorized);
+}
+
 // ─── Shared style tokens ──────────────────────────────────────────────────────
 const inputStyle: React.CSSProperties = {
   width: '100%', boxSizing: 'border-box',
@@ -68,7 +92,10 @@ function EF({ label, value, onChange, textarea }: {
 // ─── Main component ───────────────────────────────────────────────────────────
 export default function ParticipantsPage() {
   const [participants,          setParticipants]          = useState<DBParticipant[]>([]);
-  const [filteredParticipants,  setFilteredParticipants]  = useState<DBParticipant[]>([]);
+  const [total,                 setTotal]                 = useState(0);
+  const [nextCursor,            setNextCursor]            = useState<string | undefined>();
+  const [loadingMore,           setLoadingMore]           = useState(false);
+  const [counts,                setCounts]                = useState<ParticipantCounts | null>(null);
   const [searchQuery,           setSearchQuery]           = useState('');
   const [labFilter,             setLabFilter]             = useState<string>('ALL');
   const [fileName,              setFileName]              = useState('');
@@ -76,7 +103,10 @@ export default function ParticipantsPage() {
   const [loading,               setLoading]               = useState(true);
   const [lastRefreshed,         setLastRefreshed]         = useState<Date | null>(null);
   const [autoRefresh,           setAutoRefresh]           = useState(true);
+  const [showTrash,             setShowTrash]             = useState(false);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Read by the auto-refresh timer, which would otherwise see stale filters
+  const queryRef = useRef<ListQuery & { loaded: number }>({ search: '', lab: 'ALL', loaded: 0 });
 
   const [editingId,   setEditingId]   = useState<string | null>(null);
   const [editForm,    setEditForm]    = useState<any | null>(null);
@@ -88,47 +118,90 @@ export default function ParticipantsPage() {
   const [bulkSaving,   setBulkSaving]   = useState(false);
 
   // ── Derived lab list ──────────────────────────────────────────────────────
-  const labOptions = ['ALL', ...Array.from(
-    new Set(participants.map(p => p.labAllotted).filter(Boolean))
-  ).sort()];
-
-  // ── Filter ────────────────────────────────────────────────────────────────
-  const applyFilters = useCallback((all: DBParticipant[], q: string, lab: string) => {
-    let r = all;
-    if (lab !== 'ALL') r = r.filter(p => p.labAllotted === lab);
-    if (q.trim()) {
-      const lq = q.toLowerCase();
-      r = r.filter(p => [
-        p.name, p.email, p.phone, p.participantId, p.teamName,
-        (p as any).teamId, p.role, p.institute, p.state, p.labAllotted,
-        (p as any).projectName, (p as any).projectDescription,
-        p.wifiCredentials?.ssid, p.wifiCredentials?.password,
-      ].some(v => v?.toLowerCase().includes(lq)));
-    }
-    return r;
-  }, []);
-
-  useEffect(() => {
-    setFilteredParticipants(applyFilters(participants, searchQuery, labFilter));
-  }, [searchQuery, labFilter, participants, applyFilters]);
+  const labCounts  = counts?.labs ?? {};
+  const labOptions = ['ALL', ...Object.keys(labCounts).sort()];
+  const allCount   = counts?.total ?? 0;
 
   // ── Load ──────────────────────────────────────────────────────────────────
   const loadParticipants = useCallback(async (silent = false) => {
     try {
       if (!silent) setLoading(true);
-      const data = await getParticipants();
-      setParticipants(data);
+      const limit = Math.min(MAX_REFRESH_ROWS, Math.max(PAGE_SIZE, queryRef.current.loaded));
+      const [page, nextCounts] = await Promise.all([
+        fetchParticipantPage(queryRef.current, undefined, limit),
+        getParticipantCounts().then(assertAuthorized),
+      ]);
+      setParticipants(page.participants);
+      queryRef.current.loaded = page.participants.length;
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+      setCounts(nextCounts);
       setLastRefreshed(new Date());
     } catch (err) { setStatus('Error loading participants'); console.error(err); }
-    finally { if (!silent) setLoading(false); }
+    finally { setLoading(false); }
   }, []);
 
-  useEffect(() => { loadParticipants(); }, []);
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchParticipantPage(queryRef.current, nextCursor);
+      setParticipants(prev => {
+        const rows = [...prev, ...page.participants];
+        queryRef.current.loaded = rows.length;
+        return rows;
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err) { setStatus('Error loading participants'); console.error(err); }
+    finally { setLoadingMore(false); }
+  };
+
+  // Search and lab filtering run on the server; wait for typing to pause
+  useEffect(() => {
+    queryRef.current = { search: searchQuery, lab: labFilter, loaded: 0 };
+    const timer = setTimeout(() => loadParticipants(true), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery, labFilter, loadParticipants]);
+
+  const countsTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const refreshCountsSoon = () => {
+    clearTimeout(countsTimerRef.current);
+    countsTimerRef.current = setTimeout(() => {
+      getParticipantCounts()
+        .then(assertAuthorized)
+        .then(nextCounts => { setCounts(nextCounts); setLastRefreshed(new Date()); })
+        .catch(err => console.error(err));
+    }, COUNTS_REFRESH_DELAY_MS);
+  };
+
+  // ── Live updates ──────────────────────────────────────────────────────────
+  const dropRow = (id: string) => {
+    if (!participants.some(p => p._id === id)) return;
+    setParticipants(prev => prev.filter(p => p._id !== id));
+    setTotal(t => t - 1);
+    queryRef.current.loaded -= 1;
+  };
+
+  const handleLiveUpdate = (update: LiveUpdate) => {
+    if (update.type === 'participant') {
+      const { participant } = update;
+      if (labFilter !== 'ALL' && participant.labAllotted !== labFilter) dropRow(participant._id!);
+      else setParticipants(prev => prev.map(p => p._id === participant._id ? participant : p));
+    } else if (update.type === 'participant_removed') {
+      dropRow(update._id);
+    } else {
+      return;
+    }
+    refreshCountsSoon();
+  };
 
+  const live = useLiveUpdates(['participants'], handleLiveUpdate, { enabled: autoRefresh });
+
+  // Fall back to polling while the live stream is down
   useEffect(() => {
-    if (autoRefresh) timerRef.current = setInterval(() => loadParticipants(true), 30_000);
+    if (autoRefresh && !live) timerRef.current = setInterval(() => loadParticipants(true), 30_000);
     return () => { if (timerRef.current) clearInterval(timerRef.current); };
-  }, [autoRefresh, loadParticipants]);
+  }, [autoRefresh, live, loadParticipants]);
 
   // ── CSV Upload ────────────────────────────────────────────────────────────
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -174,7 +247,7 @@ export default function ParticipantsPage() {
   };
 
   // ── Selection ─────────────────────────────────────────────────────────────
-  const handleSelectAll    = () => setSelectedIds(new Set(filteredParticipants.map(p => p._id!).filter(Boolean)));
+  const handleSelectAll    = () => setSelectedIds(new Set(participants.map(p => p._id!).filter(Boolean)));
   const handleDeselectAll  = () => setSelectedIds(new Set());
   const handleToggleSelect = (id: string) => {
     const n = new Set(selectedIds);
@@ -191,7 +264,7 @@ export default function ParticipantsPage() {
       setStatus('Updating…');
       const result = await updateParticipant(editingId, {
         name: editForm.name, email: editForm.email, phone: editForm.phone,
-        role: editForm.role, teamName: editForm.teamName, teamId: editForm.teamId,
+        role: editForm.role, teamId: editForm.teamId,
         institute: editForm.institute,
         state: editForm.state,
         loginPassword: editForm.loginPassword, // ── NEW ──
@@ -206,17 +279,17 @@ export default function ParticipantsPage() {
 
   // ── Delete ────────────────────────────────────────────────────────────────
   const handleDelete = async (id: string) => {
-    if (!confirm('Delete this participant?')) return;
+    if (!confirm('Move this participant to the trash?')) return;
     const result = await deleteParticipant(id);
-    if (result.success) { setStatus('Deleted'); await loadParticipants(); }
+    if (result.success) { setStatus('Moved to trash'); await loadParticipants(); }
     else setStatus(`Error: ${result.error}`);
   };
 
   const handleBulkDelete = async () => {
-    if (!selectedIds.size || !confirm(`Delete ${selectedIds.size} participant(s)?`)) return;
+    if (!selectedIds.size || !confirm(`Move ${selectedIds.size} participant(s) to the trash?`)) return;
     setStatus(`Deleting ${selectedIds.size}…`);
     const results = await Promise.all(Array.from(selectedIds).map(id => deleteParticipant(id)));
-    setStatus(`Deleted ${results.filter(r => r.success).length}/${results.length}`);
+    setStatus(`Moved ${results.filter(r => r.success).length}/${results.length} to trash`);
     setSelectedIds(new Set()); await loadParticipants();
   };
 
@@ -241,8 +314,19 @@ export default function ParticipantsPage() {
   };
 
   // ── Export ────────────────────────────────────────────────────────────────
-  const handleExport = () => {
-    const csv = Papa.unparse((filteredParticipants.length < participants.length ? filteredParticipants : participants).map((p: any) => ({
+  const handleExport = async () => {
+    setStatus('Exporting…');
+    const rows: DBParticipant[] = [];
+    try {
+      let cursor: string | undefined;
+      do {
+        const page = await fetchParticipantPage(queryRef.current, cursor, EXPORT_PAGE_SIZE);
+        rows.push(...page.participants);
+        cursor = page.nextCursor;
+      } while (cursor);
+    } catch (err) { setStatus('Error exporting participants'); console.error(err); return; }
+
+    const csv = Papa.unparse(rows.map((p: any) => ({
       participant_id: p.participantId, name: p.name, email: p.email,
       phone: p.phone || '', role: p.role || '', team: p.teamName || '',
       team_id: p.teamId || '', institute: p.institute || '',
@@ -379,9 +463,19 @@ export default function ParticipantsPage() {
             </button>
             <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', cursor: 'pointer', userSelect: 'none' }}>
               <input type="checkbox" checked={autoRefresh} onChange={e => setAutoRefresh(e.target.checked)} style={{ accentColor: '#fff', cursor: 'pointer' }} />
-              Auto-refresh every 30s
+              Live updates
             </label>
+            {autoRefresh && (
+              <span style={{ color: live ? '#4ade80' : undefined }}>{live ? '● LIVE' : 'Reconnecting… refreshing every 30s'}</span>
+            )}
             {lastRefreshed && <span>Last updated: {lastRefreshed.toLocaleTimeString()}</span>}
+            <button onClick={() => setShowTrash(v => !v)} style={{ ...btnBase, padding: '0.4rem 0.9rem', marginLeft: 'auto', ...(showTrash && { background: '#fff', color: '#000' }) }} className={showTrash ? undefined : 'pp-hov'}>
+              <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <polyline points="3 6 5 6 21 6"></polyline>
+                <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+              </svg>
+              TRASH
+            </button>
           </div>
         </div>
 
@@ -405,7 +499,7 @@ export default function ParticipantsPage() {
                   <div style={{ fontFamily: 'monospace', fontSize: '0.875rem', color: 'rgba(255,255,255,0.6)', textAlign: 'center' }}>
                     {fileName || 'Click to upload CSV'}
                   </div>
-                  {fileName && <div style={{ fontSize: '0.72rem', color: 'rgba(255,255,255,0.35)', marginTop: '0.35rem' }}>{participants.length} participants</div>}
+                  {fileName && <div style={{ fontSize: '0.72rem', color: 'rgba(255,255,255,0.35)', marginTop: '0.35rem' }}>{allCount} participants</div>}
                 </label>
               </div>
               <div style={{ fontSize: '0.68rem', color: 'rgba(255,255,255,0.3)', marginTop: '0.75rem', fontFamily: 'monospace', lineHeight: 1.6 }}>
@@ -425,7 +519,7 @@ export default function ParticipantsPage() {
                     <circle cx="11" cy="11" r="8"></circle><path d="m21 21-4.35-4.35"></path>
                   </svg>
                   <input type="text" value={searchQuery} onChange={e => setSearchQuery(e.target.value)}
-                    placeholder="Name, email, ID, team, state, lab, project, WiFi…"
+                    placeholder="Name, email, phone, ID, team, institute…"
                     style={{ ...inputStyle, paddingLeft: '2.4rem', paddingRight: searchQuery ? '2rem' : '0.75rem' }}
                     onFocus={e => e.currentTarget.style.borderColor = 'rgba(255,255,255,0.5)'}
                     onBlur={e  => e.currentTarget.style.borderColor = 'rgba(255,255,255,0.2)'} />
@@ -444,8 +538,8 @@ export default function ParticipantsPage() {
                     {labOptions.map(lab => (
                       <option key={lab} value={lab}>
                         {lab === 'ALL'
-                          ? `All Labs  (${participants.length} participants)`
-                          : `${lab}  —  ${participants.filter(p => p.labAllotted === lab).length} participants`}
+                          ? `All Labs  (${allCount} participants)`
+                          : `${lab}  —  ${labCounts[lab] ?? 0} participants`}
                       </option>
                     ))}
                   </select>
@@ -461,10 +555,10 @@ export default function ParticipantsPage() {
             <div className="pp-card" style={{ display: 'flex', flexDirection: 'column', justifyContent: 'space-between', gap: '1rem' }}>
               <div>
                 <div className="pp-lbl">{labFilter === 'ALL' ? 'TOTAL PARTICIPANTS' : `LAB: ${labFilter}`}</div>
-                <div style={{ fontSize: '3rem', fontWeight: 900, lineHeight: 1, marginBottom: '0.25rem' }}>{filteredParticipants.length}</div>
+                <div style={{ fontSize: '3rem', fontWeight: 900, lineHeight: 1, marginBottom: '0.25rem' }}>{total}</div>
                 {(searchQuery || labFilter !== 'ALL') && (
                   <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: 'rgba(255,255,255,0.4)' }}>
-                    of {participants.length} total
+                    of {allCount} total
                   </div>
                 )}
               </div>
@@ -472,7 +566,7 @@ export default function ParticipantsPage() {
                 {labFilter !== 'ALL' && (
                   <button onClick={() => setLabFilter('ALL')} style={{ ...btnBase, justifyContent: 'center', fontSize: '0.7rem' }} className="pp-hov">CLEAR LAB FILTER</button>
                 )}
-                {participants.length > 0 && (
+                {total > 0 && (
                   <button onClick={handleExport} style={{ ...btnBase, justifyContent: 'center', background: 'rgba(255,255,255,0.07)' }} className="pp-hov">
                     EXPORT {labFilter !== 'ALL' ? `(${labFilter})` : ''} CSV
                   </button>
@@ -481,6 +575,18 @@ export default function ParticipantsPage() {
             </div>
           </div>
 
+          {/* Trash */}
+          {showTrash && (
+            <TrashPanel<DBParticipant>
+              noun="participants"
+              load={getTrashedParticipants}
+              restore={restoreParticipant}
+              purge={purgeParticipant}
+              describe={p => ({ title: `${p.name} (${p.participantId})`, detail: [p.email, p.teamName, p.labAllotted].filter(Boolean).join(' · ') })}
+              onRestored={() => loadParticipants(true)}
+            />
+          )}
+
           {/* Status bar */}
           {status && (
             <div style={{ border: '1px solid rgba(255,255,255,0.12)', padding: '0.875rem 1rem', background: 'rgba(255,255,255,0.04)', display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
@@ -493,7 +599,7 @@ export default function ParticipantsPage() {
           )}
 
           {/* ── Bulk action bar ── */}
-          {filteredParticipants.length > 0 && (
+          {participants.length > 0 && (
             <div className="pp-bbar" style={{ border: '1px solid rgba(255,255,255,0.1)', padding: '1rem 1.5rem' }}>
               <div style={{ fontFamily: 'monospace', fontSize: '0.875rem', color: 'rgba(255,255,255,0.5)' }}>
                 {selectedIds.size > 0
@@ -506,7 +612,7 @@ export default function ParticipantsPage() {
                 )}
               </div>
               <div className="pp-bbtns">
-                <button onClick={handleSelectAll}   disabled={selectedIds.size === filteredParticipants.length} style={{ ...btnBase, opacity: selectedIds.size === filteredParticipants.length ? 0.4 : 1 }} className="pp-hov">SELECT ALL</button>
+                <button onClick={handleSelectAll}   disabled={selectedIds.size === participants.length} style={{ ...btnBase, opacity: selectedIds.size === participants.length ? 0.4 : 1 }} className="pp-hov">SELECT ALL</button>
                 <button onClick={handleDeselectAll} disabled={!selectedIds.size} style={{ ...btnBase, opacity: !selectedIds.size ? 0.4 : 1 }} className="pp-hov">DESELECT ALL</button>
                 <button
                   onClick={() => { setBulkField('labAllotted'); setBulkValue(''); setBulkEditOpen(true); }}
@@ -544,12 +650,12 @@ export default function ParticipantsPage() {
               PARTICIPANTS LIST
               {(searchQuery || labFilter !== 'ALL') && (
                 <span style={{ color: 'rgba(255,255,255,0.3)', fontWeight: 400 }}>
-                  — {filteredParticipants.length} of {participants.length}
+                  — {total} of {allCount}
                 </span>
               )}
             </div>
 
-            {filteredParticipants.length === 0 ? (
+            {participants.length === 0 ? (
               <div style={{ textAlign: 'center', padding: '4rem 0', color: 'rgba(255,255,255,0.3)', fontFamily: 'monospace', fontSize: '0.875rem' }}>
                 <svg width="44" height="44" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"
                   style={{ margin: '0 auto 1rem', display: 'block', opacity: 0.22 }}>
@@ -558,11 +664,11 @@ export default function ParticipantsPage() {
                   <path d="M23 21v-2a4 4 0 0 0-3-3.87"></path>
                   <path d="M16 3.13a4 4 0 0 1 0 7.75"></path>
                 </svg>
-                {participants.length === 0 ? <>No participants loaded<br />Upload a CSV to begin</> : 'No participants match your filters'}
+                {allCount === 0 ? <>No participants loaded<br />Upload a CSV to begin</> : 'No participants match your filters'}
               </div>
             ) : (
               <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
-                {filteredParticipants.map((participant: any) => (
+                {participants.map((participant: any) => (
                   <div key={participant._id || participant.participantId}
                     style={{ border: `1px solid ${selectedIds.has(participant._id) ? 'rgba(96,165,250,0.28)' : 'rgba(255,255,255,0.1)'}`, padding: '1.25rem', transition: 'all 0.22s', background: editingId === participant._id ? 'rgba(255,255,255,0.04)' : selectedIds.has(participant._id) ? 'rgba(96,165,250,0.04)' : 'transparent' }}
                     onMouseEnter={e => { if (editingId !== participant._id) e.currentTarget.style.borderColor = selectedIds.has(participant._id) ? 'rgba(96,165,250,0.45)' : 'rgba(255,255,255,0.22)'; }}
@@ -578,7 +684,6 @@ export default function ParticipantsPage() {
                           <EF label="NAME"           value={editForm.name        || ''} onChange={v => setEditForm({ ...editForm, name: v })} />
                           <EF label="EMAIL"          value={editForm.email       || ''} onChange={v => setEditForm({ ...editForm, email: v })} />
                           <EF label="PHONE"          value={editForm.phone       || ''} onChange={v => setEditForm({ ...editForm, phone: v })} />
-                          <EF label="TEAM NAME"      value={editForm.teamName    || ''} onChange={v => setEditForm({ ...editForm, teamName: v })} />
                           <EF label="TEAM ID"        value={editForm.teamId      || ''} onChange={v => setEditForm({ ...editForm, teamId: v })} />
                           <EF label="ROLE"           value={editForm.role        || ''} onChange={v => setEditForm({ ...editForm, role: v })} />
                           <EF label="INSTITUTE"      value={editForm.institute   || ''} onChange={v => setEditForm({ ...editForm, institute: v })} />
@@ -682,6 +787,12 @@ export default function ParticipantsPage() {
                 ))}
               </div>
             )}
+
+            {nextCursor && (
+              <button onClick={loadMore} disabled={loadingMore} style={{ ...btnBase, width: '100%', justifyContent: 'center', marginTop: '1rem', cursor: loadingMore ? 'wait' : 'pointer' }} className="pp-hov">
+                {loadingMore ? 'LOADING…' : `LOAD MORE (${total - participants.length} LEFT)`}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -2,11 +2,35 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import jsQR from 'jsqr';
-import { getParticipants } from '@/actions/participants';
-import { DBParticipant } from '@/types';
+import { queryParticipants, redeemMeal, updateCheckInStatus } from '@/actions/participants';
+import { getMealSchedule, getLabDefinitions } from '@/actions/event-config';
+import { checkSessionAction } from '@/actions/auth';
+import { hasPermission } from '@/lib/permissions';
+import { DBParticipant, MealSlot, CheckInType, DEFAULT_MEAL_SCHEDULE, getOpenMealSlot, assertAuthorized, isUnauthorized } from '@/types';
 
 type ScanStatus = 'idle' | 'scanning' | 'found' | 'not_found' | 'error';
 
+/**
+ * lookup = show badge details only
+ * gate   = record a movement for the selected station
+ * food   = redeem the selected meal slot
+ */
+type ScanMode = 'lookup' | 'gate' | 'food';
+
+/** Outcome of the action a scan triggered in gate / food mode */
+interface ScanActionResult {
+  success: boolean;
+  message: string;
+}
+
+const STATIONS: { value: CheckInType; label: string; done: string }[] = [
+  { value: 'college',    label: 'College Entry',      done: 'CHECKED IN AT COLLEGE' },
+  { value: 'lab',        label: 'Lab Entry',          done: 'CHECKED IN AT LAB' },
+  { value: 'tempLabOut', label: 'Temporary Lab Exit', done: 'TEMPORARILY OUT OF LAB' },
+  { value: 'labOut',     label: 'Lab Checkout',       done: 'CHECKED OUT OF LAB' },
+  { value: 'collegeOut', label: 'College Checkout',   done: 'CHECKED OUT OF COLLEGE' },
+];
+
 const QR_BASE_URL = 'https://checkin.hackoverflow4.tech/checkin/';
 
 // Smaller decode canvas = faster jsQR (only used as fallback)
@@ -43,18 +67,64 @@ export default function ScannerPage() {
 
   const [scanStatus, setScanStatus] = useState<ScanStatus>('idle');
   const [foundParticipant, setFoundParticipant] = useState<DBParticipant | null>(null);
-  const [allParticipants, setAllParticipants] = useState<DBParticipant[]>([]);
+  const [dbSize, setDbSize] = useState<number | null>(null);
   const [cameraError, setCameraError] = useState('');
   const [scanCount, setScanCount] = useState(0);
   const [isCameraActive, setIsCameraActive] = useState(false);
-  const [loadingParticipants, setLoadingParticipants] = useState(true);
 
-  // Load participants
+  const [mode, setMode] = useState<ScanMode>('lookup');
+  const [schedule, setSchedule] = useState<MealSlot[]>(DEFAULT_MEAL_SCHEDULE);
+  const [mealKey, setMealKey] = useState<string>(DEFAULT_MEAL_SCHEDULE[0].key);
+  const [station, setStation] = useState<CheckInType>('college');
+  const [labs, setLabs] = useState<string[]>([]);
+  const [lab, setLab] = useState<string>('');
+  const [actionResult, setActionResult] = useState<ScanActionResult | null>(null);
+  const [actionPending, setActionPending] = useState(false);
+  const [role, setRole] = useState<string | undefined>();
+
+  // The RAF loop keeps the handler it started with, so read mode via refs
+  const modeRef = useRef<ScanMode>(mode);
+  const mealKeyRef = useRef<string>(mealKey);
+  const stationRef = useRef<CheckInType>(station);
+  const labRef = useRef<string>(lab);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  useEffect(() => { modeRef.current = mode; }, [mode]);
+  useEffect(() => { mealKeyRef.current = mealKey; }, [mealKey]);
+  useEffect(() => { stationRef.current = station; }, [station]);
+  useEffect(() => { labRef.current = lab; }, [lab]);
+
+  // Participants are looked up per scan; only the headcount is loaded up front
+  useEffect(() => {
+    queryParticipants({ limit: 0 })
+      .then(assertAuthorized)
+      .then(res => setDbSize(res.total))
+      .catch(err => console.error('Failed to count participants:', err));
+  }, []);
+
+  // Gate and food modes are only offered to roles that may use them
+  useEffect(() => {
+    checkSessionAction()
+      .then(session => setRole(session.user?.role))
+      .catch(err => console.error('Failed to load session:', err));
+  }, []);
+
+  // Load meal schedule and preselect whichever slot is currently being served
   useEffect(() => {
-    getParticipants()
-      .then(data => setAllParticipants(data))
-      .catch(err => console.error('Failed to load participants:', err))
-      .finally(() => setLoadingParticipants(false));
+    getMealSchedule()
+      .then(assertAuthorized)
+      .then(meals => {
+        setSchedule(meals);
+        setMealKey((getOpenMealSlot(meals) ?? meals[0]).key);
+      })
+      .catch(err => console.error('Failed to load meal schedule:', err));
+  }, []);
+
+  // Lab entry stations record which lab they stand at
+  useEffect(() => {
+    getLabDefinitions()
+      .then(assertAuthorized)
+      .then(defs => setLabs(defs.map(d => d.name)))
+      .catch(err => console.error('Failed to load labs:', err));
   }, []);
 
   // Init BarcodeDetector once
@@ -80,26 +150,62 @@ export default function ScannerPage() {
     setScanStatus('idle');
   }, []);
 
-  const handleQRCode = useCallback((rawValue: string) => {
+  const handleQRCode = useCallback(async (rawValue: string) => {
     if (rawValue === lastRawRef.current) return;
     lastRawRef.current = rawValue;
+    // Pause decoding while the lookup is in flight
+    isScanning.current = false;
     setScanCount(c => c + 1);
 
     const participantId = extractParticipantId(rawValue);
-    const match = allParticipants.find(p => p.participantId === participantId);
+    let match: DBParticipant | undefined;
+    try {
+      const res = assertAuthorized(await queryParticipants({ filter: { participantIds: [participantId] }, limit: 1 }));
+      match = res.participants[0];
+    } catch (err) {
+      console.error('Participant lookup failed:', err);
+    }
 
     if (match) {
       setScanStatus('found');
       setFoundParticipant(match);
       isScanning.current = false;
       setTimeout(() => { isScanning.current = true; }, 2000);
+
+      const finish = (result: ScanActionResult, updated?: DBParticipant) => {
+        setActionResult(result);
+        playFeedback(audioCtxRef.current, result.success);
+        if (updated) setFoundParticipant(updated);
+      };
+
+      if (modeRef.current === 'food') {
+        setActionResult(null);
+        setActionPending(true);
+        redeemMeal(match.participantId, mealKeyRef.current)
+          .then(res => finish({ success: res.success, message: res.success ? 'MEAL SERVED' : res.error ?? 'Failed to record meal' }, isUnauthorized(res) ? undefined : res.participant))
+          .catch(() => finish({ success: false, message: 'Failed to record meal' }))
+          .finally(() => setActionPending(false));
+      } else if (modeRef.current === 'gate') {
+        const stationInfo = STATIONS.find(s => s.value === stationRef.current)!;
+        const stationLab = stationInfo.value === 'lab' ? labRef.current || undefined : undefined;
+        // Admitted either way, but the volunteer should redirect them
+        const done = stationLab && match.labAllotted !== stationLab
+          ? `${stationInfo.done} · ALLOTTED ${match.labAllotted || 'NO LAB'}`
+          : stationInfo.done;
+        setActionResult(null);
+        setActionPending(true);
+        updateCheckInStatus(match._id!, stationInfo.value, 'scanner', stationLab)
+          .then(res => finish({ success: res.success, message: res.success ? done : res.error ?? 'Failed to update check-in' }, isUnauthorized(res) ? undefined : res.participant))
+          .catch(() => finish({ success: false, message: 'Failed to update check-in' }))
+          .finally(() => setActionPending(false));
+      }
     } else {
       setScanStatus('not_found');
       setFoundParticipant(null);
       isScanning.current = false;
       setTimeout(() => { isScanning.current = true; lastRawRef.current = ''; }, 1200);
     }
-  }, [allParticipants]);
+  }, []);
 
   // ── BarcodeDetector path (async, hardware-accelerated, every frame) ──────────
   const tickNative = useCallback(() => {
@@ -175,6 +281,11 @@ export default function ScannerPage() {
     lastRawRef.current = '';
     setScanStatus('scanning');
 
+    // Browsers only allow audio started from a user gesture — create it here
+    if (!audioCtxRef.current && typeof AudioContext !== 'undefined') {
+      audioCtxRef.current = new AudioContext();
+    }
+
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
         video: {
@@ -212,6 +323,7 @@ export default function ScannerPage() {
   const handleReset = useCallback(() => {
     lastRawRef.current = '';
     setFoundParticipant(null);
+    setActionResult(null);
     if (isCameraActive) {
       setScanStatus('scanning');
       isScanning.current = true;
@@ -270,7 +382,11 @@ export default function ScannerPage() {
             QR SCANNER
           </h1>
           <p style={{ ...mono, ...dim, fontSize: '1rem' }}>
-            Scan a participant badge to retrieve their full details
+            {mode === 'food'
+              ? 'Food counter — each scan redeems the selected meal slot'
+              : mode === 'gate'
+                ? 'Gate station — each scan records the selected movement'
+                : 'Scan a participant badge to retrieve their full details'}
             {detectorRef.current && (
               <span style={{ color: 'rgba(74,222,128,0.7)', marginLeft: '0.75rem' }}>
                 ● native decoder active
@@ -283,6 +399,86 @@ export default function ScannerPage() {
           {/* Left: camera */}
           <div style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
 
+            {/* Mode selector */}
+            <div style={card({ padding: '1rem 1.25rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' })}>
+              <div style={{ ...mono, ...dim, fontSize: '0.7rem', letterSpacing: '0.12em' }}>SCANNER MODE</div>
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                {([['lookup', 'LOOKUP'], ['gate', 'GATE'], ['food', 'FOOD COUNTER']] as const)
+                  .filter(([value]) => value === 'lookup' || hasPermission(role, value === 'gate' ? 'checkin' : 'food'))
+                  .map(([value, label]) => {
+                  const isActive = mode === value;
+                  return (
+                    <button
+                      key={value}
+                      onClick={() => { setMode(value); setActionResult(null); }}
+                      style={{
+                        flex: 1, padding: '0.6rem',
+                        background: isActive ? '#fff' : 'transparent',
+                        border: isActive ? '1px solid #fff' : '1px solid rgba(255,255,255,0.2)',
+                        color: isActive ? '#000' : 'rgba(255,255,255,0.6)',
+                        ...mono, fontSize: '0.75rem', fontWeight: isActive ? 'bold' : 'normal',
+                        cursor: 'pointer', letterSpacing: '0.06em', transition: 'all 0.2s',
+                      }}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+              {mode === 'gate' && (
+                <select
+                  value={station}
+                  onChange={e => { setStation(e.target.value as CheckInType); setActionResult(null); }}
+                  style={{
+                    width: '100%', background: 'transparent',
+                    border: '1px solid rgba(255,255,255,0.2)', color: '#fff',
+                    padding: '0.6rem 0.75rem', ...mono, fontSize: '0.8rem', cursor: 'pointer',
+                  }}
+                >
+                  {STATIONS.map(s => (
+                    <option key={s.value} value={s.value} style={{ backgroundColor: '#000' }}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {mode === 'gate' && station === 'lab' && labs.length > 0 && (
+                <select
+                  value={lab}
+                  onChange={e => { setLab(e.target.value); setActionResult(null); }}
+                  style={{
+                    width: '100%', background: 'transparent',
+                    border: '1px solid rgba(255,255,255,0.2)', color: '#fff',
+                    padding: '0.6rem 0.75rem', ...mono, fontSize: '0.8rem', cursor: 'pointer',
+                  }}
+                >
+                  <option value="" style={{ backgroundColor: '#000' }}>Any lab (not recorded)</option>
+                  {labs.map(name => (
+                    <option key={name} value={name} style={{ backgroundColor: '#000' }}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {mode === 'food' && (
+                <select
+                  value={mealKey}
+                  onChange={e => { setMealKey(e.target.value); setActionResult(null); }}
+                  style={{
+                    width: '100%', background: 'transparent',
+                    border: '1px solid rgba(255,255,255,0.2)', color: '#fff',
+                    padding: '0.6rem 0.75rem', ...mono, fontSize: '0.8rem', cursor: 'pointer',
+                  }}
+                >
+                  {schedule.map(slot => (
+                    <option key={slot.key} value={slot.key} style={{ backgroundColor: '#000' }}>
+                      {slot.label}{getOpenMealSlot([slot]) ? ' · OPEN NOW' : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
             <div
               style={card({
                 borderColor:
@@ -356,19 +552,17 @@ export default function ScannerPage() {
               {!isCameraActive ? (
                 <button
                   onClick={startCamera}
-                  disabled={loadingParticipants}
                   style={{
                     flex: 1, padding: '0.875rem',
                     background: '#fff', border: 'none', color: '#000',
                     fontFamily: 'monospace', fontSize: '0.875rem', fontWeight: 'bold',
-                    cursor: loadingParticipants ? 'not-allowed' : 'pointer',
-                    letterSpacing: '0.05em', opacity: loadingParticipants ? 0.5 : 1,
+                    cursor: 'pointer', letterSpacing: '0.05em',
                     transition: 'opacity 0.2s',
                   }}
-                  onMouseEnter={e => { if (!loadingParticipants) e.currentTarget.style.opacity = '0.85'; }}
-                  onMouseLeave={e => { e.currentTarget.style.opacity = loadingParticipants ? '0.5' : '1'; }}
+                  onMouseEnter={e => { e.currentTarget.style.opacity = '0.85'; }}
+                  onMouseLeave={e => { e.currentTarget.style.opacity = '1'; }}
                 >
-                  {loadingParticipants ? '↻ LOADING DB...' : '▶ START SCANNING'}
+                  ▶ START SCANNING
                 </button>
               ) : (
                 <>
@@ -406,7 +600,7 @@ export default function ScannerPage() {
                     : 'rgba(255,255,255,0.5)',
                 },
                 { label: 'SCANS', value: String(scanCount), color: '#fff' },
-                { label: 'DB SIZE', value: String(allParticipants.length), color: '#fff' },
+                { label: 'DB SIZE', value: dbSize === null ? '—' : String(dbSize), color: '#fff' },
                 {
                   label: 'DECODER',
                   value: detectorRef.current ? 'NATIVE' : 'JSQR',
@@ -422,7 +616,16 @@ export default function ScannerPage() {
           </div>
 
           {/* Right: result */}
-          <div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+            {mode !== 'lookup' && foundParticipant && (
+              <ScanResultBanner
+                result={actionResult}
+                pending={actionPending}
+                title={mode === 'food'
+                  ? schedule.find(s => s.key === mealKey)?.label ?? mealKey
+                  : STATIONS.find(s => s.value === station)!.label + (station === 'lab' && lab ? ` · ${lab}` : '')}
+              />
+            )}
             {foundParticipant
               ? <ParticipantCard participant={foundParticipant} onClose={handleReset} />
               : <EmptyState scanStatus={scanStatus} />
@@ -434,6 +637,55 @@ export default function ScannerPage() {
   );
 }
 
+/**
+ * Short confirmation tone plus vibration, so gate and food volunteers
+ * get feedback without looking at the screen.
+ */
+function playFeedback(ctx: AudioContext | null, ok: boolean) {
+  if (ctx) {
+    try {
+      const osc  = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = ok ? 'sine' : 'square';
+      osc.frequency.value = ok ? 880 : 220;
+      gain.gain.value = 0.15;
+      osc.connect(gain).connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + (ok ? 0.15 : 0.45));
+    } catch {
+      // audio is best-effort
+    }
+  }
+  navigator.vibrate?.(ok ? 80 : [120, 60, 120]);
+}
+
+function ScanResultBanner({ result, pending, title }: {
+  result: ScanActionResult | null;
+  pending: boolean;
+  title: string;
+}) {
+  const mono: React.CSSProperties = { fontFamily: 'monospace' };
+  const ok = !!result?.success;
+  const color = pending || !result ? 'rgba(255,255,255,0.6)' : ok ? '#4ade80' : '#f87171';
+
+  return (
+    <div style={{
+      border: `1px solid ${pending || !result ? 'rgba(255,255,255,0.15)' : ok ? 'rgba(74,222,128,0.4)' : 'rgba(248,113,113,0.4)'}`,
+      background: pending || !result ? 'transparent' : ok ? 'rgba(74,222,128,0.06)' : 'rgba(248,113,113,0.07)',
+      padding: '1.25rem 1.5rem',
+    }}>
+      <div style={{ ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.4)', letterSpacing: '0.12em', marginBottom: '0.5rem' }}>
+        {title.toUpperCase()}
+      </div>
+      <div style={{ ...mono, fontSize: '1.1rem', fontWeight: 'bold', color }}>
+        {pending || !result
+          ? '↻ RECORDING…'
+          : `${ok ? '✓' : '✗'} ${result.message.toUpperCase()}`}
+      </div>
+    </div>
+  );
+}
+
 function EmptyState({ scanStatus }: { scanStatus: ScanStatus }) {
   const mono: React.CSSProperties = { fontFamily: 'monospace' };
   const isNotFound = scanStatus === 'not_found';
@@ -471,20 +723,20 @@ function EmptyState({ scanStatus }: { scanStatus: ScanStatus }) {
   );
 }
 
-function ParticipantCard({ participant: p, onClose }: { participant: DBParticipant; onClose: () => void }) {
+function Field({ label, value }: { label: string; value?: string | null }) {
   const mono: React.CSSProperties = { fontFamily: 'monospace' };
+  if (!value) return null;
+  return (
+    <div>
+      <div style={{ ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.35)', letterSpacing: '0.12em', marginBottom: '0.25rem' }}>{label}</div>
+      <div style={{ ...mono, fontSize: '0.875rem', color: '#fff', wordBreak: 'break-word' }}>{value}</div>
+    </div>
+  );
+}
 
-  const Field = ({ label, value }: { label: string; value?: string | null }) => {
-    if (!value) return null;
-    return (
-      <div>
-        <div style={{ ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.35)', letterSpacing: '0.12em', marginBottom: '0.25rem' }}>{label}</div>
-        <div style={{ ...mono, fontSize: '0.875rem', color: '#fff', wordBreak: 'break-word' }}>{value}</div>
-      </div>
-    );
-  };
-
-  const CheckRow = ({ label, status, time }: { label: string; status?: boolean; time?: Date | string }) => (
+function CheckRow({ label, status, time }: { label: string; status?: boolean; time?: Date | string }) {
+  const mono: React.CSSProperties = { fontFamily: 'monospace' };
+  return (
     <div style={{
       display: 'flex', justifyContent: 'space-between', alignItems: 'center',
       padding: '0.6rem 0.875rem',
@@ -500,6 +752,10 @@ function ParticipantCard({ participant: p, onClose }: { participant: DBParticipa
       </div>
     </div>
   );
+}
+
+function ParticipantCard({ participant: p, onClose }: { participant: DBParticipant; onClose: () => void }) {
+  const mono: React.CSSProperties = { fontFamily: 'monospace' };
 
   return (
     <div style={{
@@ -547,6 +803,11 @@ function ParticipantCard({ participant: p, onClose }: { participant: DBParticipa
         <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
           <CheckRow label="COLLEGE CHECK-IN" status={p.collegeCheckIn?.status} time={p.collegeCheckIn?.time} />
           <CheckRow label="LAB CHECK-IN" status={p.labCheckIn?.status} time={p.labCheckIn?.time} />
+          {p.tempLabCheckOut?.status && (
+            <CheckRow label="TEMP LAB EXIT" status={p.tempLabCheckOut.status} time={p.tempLabCheckOut.time} />
+          )}
+          <CheckRow label="LAB CHECK-OUT" status={p.labCheckOut?.status} time={p.labCheckOut?.time} />
+          <CheckRow label="COLLEGE CHECK-OUT" status={p.collegeCheckOut?.status} time={p.collegeCheckOut?.time} />
         </div>
       </div>
     </div>
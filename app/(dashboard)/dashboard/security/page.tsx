@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { TwoFactorStatus, assertAuthorized, isUnauthorized } from '@/types';
+import {
+  getTwoFactorStatus,
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+} from '@/actions/two-factor';
+import { checkSessionAction } from '@/actions/auth';
+import UserSessionsPanel from '@/components/users/UserSessionsPanel';
+
+// ─── Style tokens ────────────────────────────────────────────────────────────
+const mono: React.CSSProperties = { fontFamily: 'monospace' };
+const headStyle: React.CSSProperties = {
+  ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.08em',
+};
+const sectionStyle: React.CSSProperties = {
+  border: '1px solid rgba(255,255,255,0.15)', padding: '1.25rem', marginBottom: '2rem',
+  display: 'flex', flexDirection: 'column', gap: '0.75rem',
+};
+const inputStyle: React.CSSProperties = {
+  boxSizing: 'border-box', width: '14rem',
+  backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.15)',
+  color: '#fff', ...mono, fontSize: '0.85rem', letterSpacing: '0.15em',
+  padding: '0.5rem 0.6rem', outline: 'none',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.5rem 0.9rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  ...mono, fontSize: '0.7rem', cursor: 'pointer',
+  letterSpacing: '0.05em', transition: 'all 0.2s', whiteSpace: 'nowrap',
+};
+const primaryBtn: React.CSSProperties = {
+  ...btnStyle, backgroundColor: '#fff', color: '#000', border: '1px solid #fff', fontWeight: 'bold',
+};
+
+type Enrollment = { secret: string; qrCodeDataUrl: string };
+
+export default function SecurityPage() {
+  const [status, setStatus]     = useState<TwoFactorStatus | null>(null);
+  const [userId, setUserId]     = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode]         = useState('');
+  const [busy, setBusy]         = useState(false);
+  const [message, setMessage]   = useState<{ ok: boolean; text: string } | null>(null);
+
+  const load = async () => {
+    try {
+      setStatus(assertAuthorized(await getTwoFactorStatus()));
+    } catch (e) { console.error(e); }
+  };
+
+  useEffect(() => {
+    getTwoFactorStatus()
+      .then(result => setStatus(assertAuthorized(result)))
+      .catch(err => console.error('Failed to load two-factor status:', err));
+    checkSessionAction()
+      .then(session => setUserId(session.user?.id ?? null))
+      .catch(err => console.error('Failed to load session:', err));
+  }, []);
+
+  const run = async <R extends { success: boolean; error?: string }>(
+    action: () => Promise<R>,
+    onSuccess: (result: R) => void
+  ) => {
+    setBusy(true);
+    setMessage(null);
+    const result = await action();
+    setBusy(false);
+    if (!result.success) {
+      setMessage({ ok: false, text: result.error ?? 'Something went wrong' });
+      return;
+    }
+    setCode('');
+    onSuccess(result);
+    await load();
+  };
+
+  const handleBegin = () => run(() => beginTwoFactorEnrollment(), result => {
+    if (isUnauthorized(result) || !result.secret || !result.qrCodeDataUrl) return;
+    setRecoveryCodes(null);
+    setEnrollment({ secret: result.secret, qrCodeDataUrl: result.qrCodeDataUrl });
+  });
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => confirmTwoFactorEnrollment(code), result => {
+      setEnrollment(null);
+      if (!isUnauthorized(result)) setRecoveryCodes(result.recoveryCodes ?? null);
+      setMessage({ ok: true, text: 'Two-factor authentication enabled. Reload to continue if your role required it.' });
+    });
+  };
+
+  const handleRegenerate = () => run(() => regenerateRecoveryCodes(code), result => {
+    if (!isUnauthorized(result)) setRecoveryCodes(result.recoveryCodes ?? null);
+    setMessage({ ok: true, text: 'New recovery codes generated. The old ones no longer work.' });
+  });
+
+  const handleDisable = () => {
+    if (!confirm('Turn off two-factor authentication for your account?')) return;
+    run(() => disableTwoFactor(code), () => {
+      setRecoveryCodes(null);
+      setMessage({ ok: true, text: 'Two-factor authentication turned off' });
+    });
+  };
+
+  if (!status) return (
+    <div style={{ padding: '3rem', textAlign: 'center' }}>
+      <div style={{ ...mono, fontSize: '1rem', color: 'rgba(255,255,255,0.5)' }}>Loading security settings...</div>
+    </div>
+  );
+
+  return (
+    <>
+      <style>{`
+        .sec-page { padding: 3rem; max-width: 960px; }
+        @media (max-width: 900px) {
+          .sec-page { padding: 1.25rem; padding-top: calc(60px + 1.25rem); }
+        }
+      `}</style>
+
+      <div className="sec-page">
+
+        {/* ── Header ── */}
+        <div style={{ marginBottom: '2.5rem' }}>
+          <h1 style={{ fontSize: 'clamp(2.5rem, 6vw, 4rem)', fontWeight: 900, letterSpacing: '-0.05em', marginBottom: '0.5rem' }}>
+            SECURITY
+          </h1>
+          <p style={{ ...mono, color: 'rgba(255,255,255,0.5)', fontSize: '0.875rem' }}>
+            Your account · Two-factor authentication, active sessions
+          </p>
+        </div>
+
+        {message && (
+          <div style={{ ...mono, fontSize: '0.75rem', marginBottom: '1rem', color: message.ok ? '#4ade80' : '#f87171' }}>
+            {message.text}
+          </div>
+        )}
+
+        {/* ── Two-factor ── */}
+        <div style={sectionStyle}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+            <div style={{ ...mono, fontSize: '0.7rem', color: 'rgba(255,255,255,0.5)', letterSpacing: '0.08em' }}>
+              TWO-FACTOR AUTHENTICATION
+            </div>
+            <div style={{ ...mono, fontSize: '0.7rem', letterSpacing: '0.06em', color: status.enabled ? '#4ade80' : status.required ? '#f87171' : 'rgba(255,255,255,0.6)' }}>
+              {status.enabled ? 'ENABLED' : status.required ? 'REQUIRED FOR YOUR ROLE' : 'OFF'}
+            </div>
+          </div>
+
+          {!status.enabled && !enrollment && (
+            <>
+              <p style={{ ...mono, fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>
+                Protect your account with a 6-digit code from an authenticator app (Google Authenticator, 1Password, Authy…) in addition to your password.
+              </p>
+              <div>
+                <button style={{ ...primaryBtn, opacity: busy ? 0.5 : 1 }} disabled={busy} onClick={handleBegin}>
+                  SET UP AUTHENTICATOR
+                </button>
+              </div>
+            </>
+          )}
+
+          {enrollment && (
+            <form onSubmit={handleConfirm} style={{ display: 'flex', gap: '1.5rem', flexWrap: 'wrap', alignItems: 'flex-start' }}>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={enrollment.qrCodeDataUrl} alt="Authenticator QR code" width={180} height={180} style={{ backgroundColor: '#fff' }} />
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', minWidth: 0 }}>
+                <div style={{ ...mono, fontSize: '0.75rem', color: 'rgba(255,255,255,0.6)' }}>
+                  1. Scan the QR code with your authenticator app, or enter this key:
+                </div>
+                <div style={{ ...mono, fontSize: '0.8rem', wordBreak: 'break-all', color: '#fff' }}>{enrollment.secret}</div>
+                <div style={{ ...mono, fontSize: '0.75rem', color: 'rgba(255,255,255,0.6)' }}>
+                  2. Enter the 6-digit code it shows:
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                  <input style={inputStyle} value={code} onChange={e => setCode(e.target.value)} placeholder="123456" autoComplete="one-time-code" required />
+                  <button type="submit" style={{ ...primaryBtn, opacity: busy ? 0.5 : 1 }} disabled={busy}>
+                    {busy ? 'VERIFYING...' : 'ENABLE'}
+                  </button>
+                  <button type="button" style={btnStyle} onClick={() => { setEnrollment(null); setCode(''); }}>
+                    CANCEL
+                  </button>
+                </div>
+              </div>
+            </form>
+          )}
+
+          {status.enabled && (
+            <>
+              <p style={{ ...mono, fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+                Enter a current code to generate new recovery codes{status.required ? '' : ' or turn two-factor off'}.
+              </p>
+              <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                <input style={inputStyle} value={code} onChange={e => setCode(e.target.value)} placeholder="123456" autoComplete="one-time-code" />
+                <button style={{ ...btnStyle, opacity: busy ? 0.5 : 1 }} disabled={busy || !code} onClick={handleRegenerate}>
+                  NEW RECOVERY CODES
+                </button>
+                {!status.required && (
+                  <button
+                    style={{ ...btnStyle, color: '#f87171', borderColor: 'rgba(248,113,113,0.4)', opacity: busy ? 0.5 : 1 }}
+                    disabled={busy || !code}
+                    onClick={handleDisable}
+                  >
+                    TURN OFF
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+
+          {recoveryCodes && (
+            <div style={{ border: '1px solid rgba(74,222,128,0.3)', padding: '1rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+              <div style={{ ...headStyle, color: '#4ade80' }}>
+                RECOVERY CODES — save them now, they will not be shown again. Each works once.
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))', gap: '0.5rem' }}>
+                {recoveryCodes.map(c => (
+                  <div key={c} style={{ ...mono, fontSize: '0.85rem' }}>{c}</div>
+                ))}
+              </div>
+              <div>
+                <button style={btnStyle} onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}>
+                  COPY
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* ── Sessions ── */}
+        {userId && (
+          <div style={{ border: '1px solid rgba(255,255,255,0.15)' }}>
+            <div style={{ ...headStyle, padding: '1rem 1.25rem 0' }}>ACTIVE SESSIONS</div>
+            <UserSessionsPanel userId={userId} />
+          </div>
+        )}
+
+      </div>
+    </>
+  );
+}
@@ -3,13 +3,17 @@
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import Papa from 'papaparse';
-import { DBSponsor } from '@/types';
+import { DBSponsor, assertAuthorized } from '@/types';
 import {
   getSponsors,
   createSponsors,
   updateSponsor,
   deleteSponsor,
+  getTrashedSponsors,
+  restoreSponsor,
+  purgeSponsor,
 } from '@/actions/sponsors';
+import TrashPanel from '@/components/trash/TrashPanel';
 
 export default function SponsorsPage() {
   const [sponsors, setSponsors] = useState<DBSponsor[]>([]);
@@ -18,6 +22,7 @@ export default function SponsorsPage() {
   const [fileName, setFileName] = useState('');
   const [status, setStatus] = useState('');
   const [loading, setLoading] = useState(true);
+  const [showTrash, setShowTrash] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<DBSponsor | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -29,7 +34,7 @@ export default function SponsorsPage() {
   const loadSponsors = async () => {
     try {
       setLoading(true);
-      const data = await getSponsors();
+      const data = assertAuthorized(await getSponsors());
       setSponsors(data);
       setFilteredSponsors(data);
     } catch (error) {
@@ -130,7 +135,7 @@ export default function SponsorsPage() {
   const handleBulkDelete = async () => {
     if (selectedIds.size === 0) return;
     
-    if (!confirm(`Are you sure you want to delete ${selectedIds.size} sponsor(s)?`)) return;
+    if (!confirm(`Move ${selectedIds.size} sponsor(s) to the trash?`)) return;
 
     try {
       setStatus(`Deleting ${selectedIds.size} sponsors...`);
@@ -142,9 +147,9 @@ export default function SponsorsPage() {
       const failCount = results.length - successCount;
 
       if (failCount === 0) {
-        setStatus(`Successfully deleted ${successCount} sponsor(s)`);
+        setStatus(`Moved ${successCount} sponsor(s) to the trash`);
       } else {
-        setStatus(`Deleted ${successCount} sponsor(s), ${failCount} failed`);
+        setStatus(`Moved ${successCount} sponsor(s) to the trash, ${failCount} failed`);
       }
 
       setSelectedIds(new Set());
@@ -191,14 +196,14 @@ export default function SponsorsPage() {
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this sponsor?')) return;
+    if (!confirm('Move this sponsor to the trash?')) return;
 
     try {
       setStatus('Deleting sponsor...');
       const result = await deleteSponsor(id);
 
       if (result.success) {
-        setStatus('Sponsor deleted successfully');
+        setStatus('Sponsor moved to the trash');
         await loadSponsors();
       } else {
         setStatus(`Error: ${result.error}`);
@@ -285,6 +290,22 @@ export default function SponsorsPage() {
           }}>
             Manage your event sponsors and partnerships
           </p>
+          <button
+            onClick={() => setShowTrash(v => !v)}
+            style={{
+              marginTop: '1rem',
+              padding: '0.4rem 0.9rem',
+              backgroundColor: showTrash ? '#fff' : 'transparent',
+              border: '1px solid rgba(255, 255, 255, 0.2)',
+              color: showTrash ? '#000' : '#fff',
+              fontFamily: 'monospace',
+              fontSize: '0.75rem',
+              cursor: 'pointer',
+              letterSpacing: '0.05em'
+            }}
+          >
+            TRASH
+          </button>
         </div>
 
         <div style={{
@@ -488,6 +509,18 @@ export default function SponsorsPage() {
             </div>
           </div>
 
+          {/* Trash */}
+          {showTrash && (
+            <TrashPanel<DBSponsor>
+              noun="sponsors"
+              load={getTrashedSponsors}
+              restore={restoreSponsor}
+              purge={purgeSponsor}
+              describe={s => ({ title: `${s.companyName} (${s.sponsorId})`, detail: [s.name, s.email].filter(Boolean).join(' · ') })}
+              onRestored={loadSponsors}
+            />
+          )}
+
           {/* Status Message */}
           {status && (
             <div style={{
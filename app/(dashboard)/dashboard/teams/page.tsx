@@ -0,0 +1,401 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  DBParticipant, TeamInput, TeamsOverview, TeamWithMembers, TeamSizeStatus,
+  UnauthorizedResult, assertAuthorized, getTeamSizeStatus, isUnauthorized,
+} from '@/types';
+import {
+  getTeamsOverview, createTeam, updateTeam, deleteTeam,
+  moveMembers, mergeTeams, splitTeam, importTeamsFromParticipants,
+} from '@/actions/teams';
+import { updateTeamSizeLimits } from '@/actions/event-config';
+
+// ─── Style tokens ────────────────────────────────────────────────────────────
+const mono: React.CSSProperties = { fontFamily: 'monospace' };
+const headStyle: React.CSSProperties = {
+  ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.08em',
+};
+const inputStyle: React.CSSProperties = {
+  width: '100%', boxSizing: 'border-box',
+  backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.15)',
+  color: '#fff', ...mono, fontSize: '0.75rem',
+  padding: '0.5rem 0.6rem', outline: 'none',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  ...mono, fontSize: '0.7rem', cursor: 'pointer',
+  letterSpacing: '0.05em', transition: 'all 0.2s', whiteSpace: 'nowrap',
+};
+const primaryBtnStyle: React.CSSProperties = {
+  ...btnStyle, backgroundColor: '#fff', color: '#000', border: '1px solid #fff', fontWeight: 'bold',
+};
+
+const STATUS_COLORS: Record<TeamSizeStatus, string> = {
+  ok:    '#4ade80',
+  under: '#facc15',
+  over:  '#f87171',
+};
+
+const EMPTY_TEAM: TeamInput = { name: '', projectName: '', projectDescription: '', labAllotted: '', mentor: '' };
+
+type ActionResult = { success: boolean; error?: string } | UnauthorizedResult;
+
+/** Team details form: creating, editing or splitting off a team */
+type TeamForm = TeamInput & { mode: 'create' | 'edit' | 'split'; teamId?: string };
+
+const matches = (search: string, ...values: (string | undefined)[]) =>
+  values.some(v => v?.toLowerCase().includes(search));
+
+export default function TeamsPage() {
+  const [overview, setOverview] = useState<TeamsOverview | null>(null);
+  const [loading, setLoading]   = useState(true);
+  const [busy, setBusy]         = useState(false);
+  const [message, setMessage]   = useState<{ ok: boolean; text: string } | null>(null);
+  const [search, setSearch]     = useState('');
+
+  const [selected, setSelected]         = useState<Set<string>>(new Set());
+  const [checkedTeams, setCheckedTeams] = useState<Set<string>>(new Set());
+  const [moveTarget, setMoveTarget]     = useState('');
+  const [mergeTarget, setMergeTarget]   = useState('');
+  const [teamForm, setTeamForm]         = useState<TeamForm | null>(null);
+  const [limitsForm, setLimitsForm]     = useState({ minSize: '', maxSize: '' });
+
+  const applyOverview = (result: TeamsOverview) => {
+    setOverview(result);
+    setLimitsForm({ minSize: String(result.limits.minSize), maxSize: String(result.limits.maxSize) });
+  };
+
+  const load = async () => {
+    try {
+      applyOverview(assertAuthorized(await getTeamsOverview()));
+    } catch (e) {
+      console.error(e);
+      setMessage({ ok: false, text: 'Failed to load teams' });
+    } finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    getTeamsOverview()
+      .then(result => applyOverview(assertAuthorized(result)))
+      .catch(err => console.error('Failed to load teams:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  /** Run a mutation, report the outcome and reload on success */
+  const run = async (action: () => Promise<ActionResult>, successText: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setMessage({ ok: false, text: isUnauthorized(result) ? 'Not allowed' : result.error ?? 'Something went wrong' });
+        return false;
+      }
+      setMessage({ ok: true, text: successText });
+      setSelected(new Set());
+      setCheckedTeams(new Set());
+      await load();
+      return true;
+    } catch (e) {
+      console.error(e);
+      setMessage({ ok: false, text: e instanceof Error ? e.message : 'Something went wrong' });
+      return false;
+    } finally { setBusy(false); }
+  };
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  };
+
+  if (loading || !overview) {
+    return <div style={{ padding: '3rem', ...mono, color: 'rgba(255,255,255,0.4)' }}>Loading teams…</div>;
+  }
+
+  const { teams, orphans, limits } = overview;
+  const q = search.trim().toLowerCase();
+
+  const visibleTeams = q
+    ? teams.filter(t =>
+        matches(q, t.teamId, t.name, t.projectName, t.mentor, t.labAllotted) ||
+        t.members.some(m => matches(q, m.name, m.email, m.participantId)))
+    : teams;
+  const visibleOrphans = q ? orphans.filter(m => matches(q, m.name, m.email, m.participantId, m.teamName, m.teamId)) : orphans;
+
+  const flagged = teams.filter(t => getTeamSizeStatus(t.members.length, limits) !== 'ok').length;
+
+  // Split needs every selected participant to come from the same team
+  const selectedTeamIds = new Set(
+    teams.filter(t => t.members.some(m => selected.has(m._id!))).map(t => t.teamId)
+  );
+  const selectedOrphans = orphans.some(m => selected.has(m._id!));
+  const splitSource = selectedTeamIds.size === 1 && !selectedOrphans ? [...selectedTeamIds][0] : null;
+
+  const mergeCandidates = teams.filter(t => checkedTeams.has(t.teamId));
+
+  // ── Handlers ──────────────────────────────────────────────────────────────
+  const handleSaveLimits = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = { minSize: Number(limitsForm.minSize), maxSize: Number(limitsForm.maxSize) };
+    run(() => updateTeamSizeLimits(next), `Team size set to ${next.minSize}–${next.maxSize}`);
+  };
+
+  const handleSaveTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!teamForm) return;
+    const { mode, teamId, ...input } = teamForm;
+    const ids = [...selected];
+
+    const ok =
+      mode === 'edit'  ? await run(() => updateTeam(teamId!, input), `Updated ${teamId}`) :
+      mode === 'split' ? await run(() => splitTeam(teamId!, ids, input), `Split ${ids.length} member(s) off ${teamId}`) :
+                         await run(() => createTeam(input, ids), `Created "${input.name}"`);
+    if (ok) setTeamForm(null);
+  };
+
+  const handleDelete = (team: TeamWithMembers) => {
+    if (!confirm(`Delete ${team.teamId} "${team.name}"? Its ${team.members.length} member(s) will be left without a team.`)) return;
+    run(() => deleteTeam(team.teamId), `Deleted ${team.teamId}`);
+  };
+
+  const handleMove = () => {
+    const ids = [...selected];
+    if (moveTarget === '__none__') {
+      run(() => moveMembers(ids, null), `Removed ${ids.length} participant(s) from their team`);
+    } else if (moveTarget) {
+      run(() => moveMembers(ids, moveTarget), `Moved ${ids.length} participant(s) to ${moveTarget}`);
+    }
+  };
+
+  const handleMerge = () => {
+    if (!mergeTarget) return;
+    const sources = mergeCandidates.map(t => t.teamId).filter(id => id !== mergeTarget);
+    if (!confirm(`Merge ${sources.join(', ')} into ${mergeTarget}? The merged teams will be deleted.`)) return;
+    run(() => mergeTeams(mergeTarget, sources), `Merged ${sources.length} team(s) into ${mergeTarget}`);
+  };
+
+  const handleImport = () =>
+    run(async () => {
+      const result = await importTeamsFromParticipants();
+      if (!isUnauthorized(result) && result.success && result.created === 0 && result.merged === 0) {
+        return { success: false, error: 'No new teams found on participants' };
+      }
+      return result;
+    }, 'Created teams from participant team names and IDs');
+
+  // ── Rendering helpers ─────────────────────────────────────────────────────
+  const memberRow = (m: DBParticipant, detail?: string) => (
+    <label key={m._id} style={{ display: 'flex', alignItems: 'center', gap: '0.6rem', padding: '0.35rem 0', borderBottom: '1px solid rgba(255,255,255,0.05)', cursor: 'pointer' }}>
+      <input type="checkbox" checked={selected.has(m._id!)} onChange={() => setSelected(s => toggle(s, m._id!))} />
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ ...mono, fontSize: '0.8rem', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+          {m.name} <span style={{ color: 'rgba(255,255,255,0.35)' }}>· {m.participantId}</span>
+        </div>
+        <div style={headStyle}>{[m.email, m.labAllotted, detail].filter(Boolean).join(' · ')}</div>
+      </div>
+    </label>
+  );
+
+  const field = (label: string, key: keyof TeamInput, multiline = false) => (
+    <div>
+      <div style={{ ...headStyle, marginBottom: '0.35rem' }}>{label}</div>
+      {multiline ? (
+        <textarea style={{ ...inputStyle, minHeight: '60px', resize: 'vertical' }} value={teamForm?.[key] ?? ''}
+          onChange={e => setTeamForm(f => f && { ...f, [key]: e.target.value })} />
+      ) : (
+        <input style={inputStyle} value={teamForm?.[key] ?? ''}
+          onChange={e => setTeamForm(f => f && { ...f, [key]: e.target.value })} />
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      <style>{`
+        .tm-page { padding: 3rem; }
+        .tm-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 1rem; }
+        @media (max-width: 900px) {
+          .tm-page { padding: 1.25rem; padding-top: calc(60px + 1.25rem); }
+          .tm-grid { grid-template-columns: 1fr; }
+        }
+      `}</style>
+
+      <div className="tm-page">
+
+        {/* ── Header ── */}
+        <div style={{ marginBottom: '2.5rem' }}>
+          <h1 style={{ fontSize: 'clamp(2.5rem, 6vw, 4rem)', fontWeight: 900, letterSpacing: '-0.05em', marginBottom: '0.5rem' }}>
+            TEAMS
+          </h1>
+          <p style={{ ...mono, color: 'rgba(255,255,255,0.5)', fontSize: '0.875rem' }}>
+            {teams.length} team{teams.length === 1 ? '' : 's'} · {orphans.length} without a team · {flagged} outside size limits
+          </p>
+        </div>
+
+        {/* ── Size limits & toolbar ── */}
+        <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', alignItems: 'end', marginBottom: '1.5rem' }}>
+          <form onSubmit={handleSaveLimits} style={{ display: 'flex', gap: '0.5rem', alignItems: 'end', border: '1px solid rgba(255,255,255,0.15)', padding: '0.75rem' }}>
+            <div style={{ width: '70px' }}>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>MIN SIZE</div>
+              <input style={inputStyle} type="number" min={1} value={limitsForm.minSize} onChange={e => setLimitsForm(f => ({ ...f, minSize: e.target.value }))} />
+            </div>
+            <div style={{ width: '70px' }}>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>MAX SIZE</div>
+              <input style={inputStyle} type="number" min={1} value={limitsForm.maxSize} onChange={e => setLimitsForm(f => ({ ...f, maxSize: e.target.value }))} />
+            </div>
+            <button type="submit" disabled={busy} style={btnStyle}>SAVE</button>
+          </form>
+
+          <input style={{ ...inputStyle, width: '240px' }} value={search} onChange={e => setSearch(e.target.value)} placeholder="Search teams or members…" />
+
+          <div style={{ display: 'flex', gap: '0.5rem', marginLeft: 'auto', flexWrap: 'wrap' }}>
+            <button disabled={busy} style={btnStyle} onClick={handleImport} title="Create teams from the team names and IDs already on participants">
+              IMPORT FROM PARTICIPANTS
+            </button>
+            <button disabled={busy} style={primaryBtnStyle} onClick={() => setTeamForm({ ...EMPTY_TEAM, mode: 'create' })}>
+              + NEW TEAM{selected.size > 0 ? ` (${selected.size})` : ''}
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <div style={{ ...mono, fontSize: '0.75rem', color: message.ok ? '#4ade80' : '#f87171', marginBottom: '1rem' }}>
+            {message.text}
+          </div>
+        )}
+
+        {/* ── Selection actions ── */}
+        {(selected.size > 0 || checkedTeams.size > 1) && (
+          <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'center', border: '1px solid rgba(255,255,255,0.2)', padding: '0.75rem 1rem', marginBottom: '1.5rem', backgroundColor: 'rgba(255,255,255,0.03)' }}>
+            {selected.size > 0 && (
+              <>
+                <span style={{ ...mono, fontSize: '0.75rem' }}>{selected.size} participant(s) selected</span>
+                <select style={{ ...inputStyle, width: 'auto', backgroundColor: '#000' }} value={moveTarget} onChange={e => setMoveTarget(e.target.value)}>
+                  <option value="">Move to…</option>
+                  <option value="__none__">— No team —</option>
+                  {teams.map(t => <option key={t.teamId} value={t.teamId}>{t.teamId} · {t.name} ({t.members.length})</option>)}
+                </select>
+                <button disabled={busy || !moveTarget} style={btnStyle} onClick={handleMove}>MOVE</button>
+                <button
+                  disabled={busy || !splitSource}
+                  style={{ ...btnStyle, opacity: splitSource ? 1 : 0.4 }}
+                  title="Select members of a single team to split them into a new team"
+                  onClick={() => splitSource && setTeamForm({ ...EMPTY_TEAM, mode: 'split', teamId: splitSource })}
+                >
+                  SPLIT INTO NEW TEAM
+                </button>
+                <button style={btnStyle} onClick={() => setSelected(new Set())}>CLEAR</button>
+              </>
+            )}
+            {checkedTeams.size > 1 && (
+              <>
+                <span style={{ ...mono, fontSize: '0.75rem', marginLeft: selected.size > 0 ? 'auto' : 0 }}>
+                  Merge {checkedTeams.size} teams into
+                </span>
+                <select style={{ ...inputStyle, width: 'auto', backgroundColor: '#000' }} value={mergeTarget} onChange={e => setMergeTarget(e.target.value)}>
+                  <option value="">Choose team…</option>
+                  {mergeCandidates.map(t => <option key={t.teamId} value={t.teamId}>{t.teamId} · {t.name}</option>)}
+                </select>
+                <button disabled={busy || !checkedTeams.has(mergeTarget)} style={btnStyle} onClick={handleMerge}>MERGE</button>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* ── Team form ── */}
+        {teamForm && (
+          <form onSubmit={handleSaveTeam} style={{ border: '1px solid rgba(255,255,255,0.3)', padding: '1.25rem', marginBottom: '1.5rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            <div style={{ ...mono, fontSize: '0.8rem', fontWeight: 'bold', letterSpacing: '0.05em' }}>
+              {teamForm.mode === 'edit'  ? `EDIT ${teamForm.teamId}` :
+               teamForm.mode === 'split' ? `SPLIT ${selected.size} MEMBER(S) OFF ${teamForm.teamId}` :
+               `NEW TEAM${selected.size > 0 ? ` WITH ${selected.size} MEMBER(S)` : ''}`}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '0.75rem' }}>
+              {field('TEAM NAME', 'name')}
+              {field('PROJECT NAME', 'projectName')}
+              {field('LAB', 'labAllotted')}
+              {field('MENTOR', 'mentor')}
+            </div>
+            {field('PROJECT DESCRIPTION', 'projectDescription', true)}
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button type="submit" disabled={busy || !teamForm.name.trim()} style={primaryBtnStyle}>SAVE</button>
+              <button type="button" style={btnStyle} onClick={() => setTeamForm(null)}>CANCEL</button>
+            </div>
+          </form>
+        )}
+
+        {/* ── Teams ── */}
+        {visibleTeams.length === 0 ? (
+          <div style={{ ...headStyle, fontSize: '0.75rem', padding: '2rem 0' }}>
+            {teams.length === 0 ? 'No teams yet — create one or import them from participants' : 'No teams match the search'}
+          </div>
+        ) : (
+          <div className="tm-grid" style={{ marginBottom: '2.5rem' }}>
+            {visibleTeams.map(team => {
+              const status = getTeamSizeStatus(team.members.length, limits);
+              return (
+                <div key={team.teamId} style={{ border: `1px solid ${status === 'ok' ? 'rgba(255,255,255,0.15)' : STATUS_COLORS[status]}`, padding: '1rem' }}>
+                  <div style={{ display: 'flex', alignItems: 'flex-start', gap: '0.6rem', marginBottom: '0.5rem' }}>
+                    <input
+                      type="checkbox"
+                      title="Select for merge"
+                      checked={checkedTeams.has(team.teamId)}
+                      onChange={() => setCheckedTeams(s => toggle(s, team.teamId))}
+                      style={{ marginTop: '0.2rem' }}
+                    />
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontWeight: 'bold', fontSize: '1rem', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{team.name}</div>
+                      <div style={headStyle}>
+                        {[team.teamId, team.projectName, team.labAllotted && `Lab ${team.labAllotted}`, team.mentor && `Mentor: ${team.mentor}`].filter(Boolean).join(' · ')}
+                      </div>
+                    </div>
+                    <span style={{ ...mono, fontSize: '0.7rem', color: STATUS_COLORS[status], border: `1px solid ${STATUS_COLORS[status]}`, padding: '0.15rem 0.4rem', whiteSpace: 'nowrap' }}>
+                      {team.members.length}/{limits.maxSize}
+                      {status === 'under' && ' · SMALL'}
+                      {status === 'over' && ' · TOO BIG'}
+                    </span>
+                  </div>
+
+                  {team.members.length === 0
+                    ? <div style={{ ...headStyle, padding: '0.35rem 0' }}>No members</div>
+                    : team.members.map(m => memberRow(m))}
+
+                  <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+                    <button
+                      disabled={busy}
+                      style={btnStyle}
+                      onClick={() => setTeamForm({
+                        mode: 'edit', teamId: team.teamId, name: team.name,
+                        projectName: team.projectName ?? '', projectDescription: team.projectDescription ?? '',
+                        labAllotted: team.labAllotted ?? '', mentor: team.mentor ?? '',
+                      })}
+                    >
+                      EDIT
+                    </button>
+                    <button disabled={busy} style={{ ...btnStyle, color: '#f87171', borderColor: 'rgba(248,113,113,0.4)' }} onClick={() => handleDelete(team)}>
+                      DELETE
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* ── Participants without a team ── */}
+        <div style={{ border: `1px solid ${orphans.length > 0 ? 'rgba(250,204,21,0.4)' : 'rgba(255,255,255,0.15)'}`, padding: '1rem 1.5rem' }}>
+          <div style={{ ...headStyle, fontSize: '0.75rem', color: orphans.length > 0 ? '#facc15' : 'rgba(255,255,255,0.55)', marginBottom: '0.5rem' }}>
+            WITHOUT A TEAM · {orphans.length}
+          </div>
+          {visibleOrphans.length === 0
+            ? <div style={headStyle}>{orphans.length === 0 ? 'Every participant is in a team' : 'No matches'}</div>
+            : visibleOrphans.map(m => memberRow(m, m.teamId ? `unknown team ${m.teamId}` : m.teamName && `team name "${m.teamName}"`))}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { DashboardUser, assertAuthorized, isUnauthorized } from '@/types';
+import { getUsers, inviteUser, updateUserRole, setUserActive, resetUserPassword, resetUserTwoFactor } from '@/actions/users';
+import { getSecurityPolicyAction, updateSecurityPolicy } from '@/actions/event-config';
+import { checkSessionAction } from '@/actions/auth';
+import UserSessionsPanel from '@/components/users/UserSessionsPanel';
+import { USER_ROLES, ROLE_LABELS, type UserRole } from '@/lib/permissions';
+
+// ─── Style tokens ────────────────────────────────────────────────────────────
+const mono: React.CSSProperties = { fontFamily: 'monospace' };
+const headStyle: React.CSSProperties = {
+  ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.3)', letterSpacing: '0.08em',
+};
+const inputStyle: React.CSSProperties = {
+  width: '100%', boxSizing: 'border-box',
+  backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.15)',
+  color: '#fff', ...mono, fontSize: '0.75rem',
+  padding: '0.5rem 0.6rem', outline: 'none',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  ...mono, fontSize: '0.7rem', cursor: 'pointer',
+  letterSpacing: '0.05em', transition: 'all 0.2s', whiteSpace: 'nowrap',
+};
+
+const formatDate = (value?: Date | string) =>
+  value
+    ? new Date(value).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })
+    : '—';
+
+const GRID_COLS = '2fr 1.2fr 1fr 1.2fr auto';
+
+export default function UsersPage() {
+  const [users, setUsers]       = useState<DashboardUser[]>([]);
+  const [loading, setLoading]   = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [busyId, setBusyId]     = useState<string | null>(null);
+  const [sessionsId, setSessionsId] = useState<string | null>(null);
+  const [message, setMessage]   = useState<{ ok: boolean; text: string } | null>(null);
+  const [requireAdmin2fa, setRequireAdmin2fa] = useState(false);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+
+  const [email, setEmail]       = useState('');
+  const [name, setName]         = useState('');
+  const [role, setRole]         = useState<UserRole>('volunteer_scanner');
+  const [inviting, setInviting] = useState(false);
+
+  const load = async () => {
+    try {
+      setUsers(assertAuthorized(await getUsers()));
+    } catch (e) { console.error(e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    load();
+    checkSessionAction()
+      .then(session => setCurrentUserId(session.user?.id ?? null))
+      .catch(err => console.error('Failed to load session:', err));
+    getSecurityPolicyAction()
+      .then(assertAuthorized)
+      .then(policy => setRequireAdmin2fa(policy.requireTwoFactorForAdmins))
+      .catch(err => console.error('Failed to load security policy:', err));
+  }, []);
+
+  const report = (result: { success: boolean; error?: string }, okText: string) => {
+    setMessage(result.success ? { ok: true, text: okText } : { ok: false, text: result.error ?? 'Something went wrong' });
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    setMessage(null);
+    const result = await inviteUser({ email, name: name || undefined, role });
+    setInviting(false);
+    report(result, `Invitation sent to ${email}`);
+    if (!isUnauthorized(result) && result.user) {
+      setEmail('');
+      setName('');
+      await load();
+    }
+  };
+
+  const runForUser = async (
+    id: string,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    okText: string
+  ) => {
+    setBusyId(id);
+    setMessage(null);
+    const result = await action();
+    setBusyId(null);
+    report(result, okText);
+    if (result.success) await load();
+  };
+
+  const handlePolicyToggle = async () => {
+    const next = !requireAdmin2fa;
+    if (next && !confirm('Require two-factor authentication for all admins? Admins without it will be limited to the Security page until they enroll.')) return;
+    setSavingPolicy(true);
+    setMessage(null);
+    const result = await updateSecurityPolicy({ requireTwoFactorForAdmins: next });
+    setSavingPolicy(false);
+    report(result, next ? 'Two-factor is now required for admins' : 'Two-factor is now optional for admins');
+    if (result.success) setRequireAdmin2fa(next);
+  };
+
+  if (loading) return (
+    <div style={{ padding: '3rem', textAlign: 'center' }}>
+      <div style={{ ...mono, fontSize: '1rem', color: 'rgba(255,255,255,0.5)' }}>Loading users...</div>
+    </div>
+  );
+
+  return (
+    <>
+      <style>{`
+        .um-page { padding: 3rem; }
+        .um-row { display: grid; grid-template-columns: ${GRID_COLS}; gap: 0.75rem; align-items: center; }
+        @media (max-width: 900px) {
+          .um-page { padding: 1.25rem; padding-top: calc(60px + 1.25rem); }
+          .um-row { grid-template-columns: 1fr; }
+          .um-head { display: none !important; }
+        }
+      `}</style>
+
+      <div className="um-page">
+
+        {/* ── Header ── */}
+        <div style={{ marginBottom: '2.5rem' }}>
+          <h1 style={{ fontSize: 'clamp(2.5rem, 6vw, 4rem)', fontWeight: 900, letterSpacing: '-0.05em', marginBottom: '0.5rem' }}>
+            USERS
+          </h1>
+          <p style={{ ...mono, color: 'rgba(255,255,255,0.5)', fontSize: '0.875rem' }}>
+            Dashboard accounts · Invite, change roles, deactivate
+          </p>
+        </div>
+
+        {/* ── Invite form ── */}
+        <form onSubmit={handleInvite} style={{ border: '1px solid rgba(255,255,255,0.15)', padding: '1.25rem', marginBottom: '2rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          <div style={{ ...mono, fontSize: '0.7rem', color: 'rgba(255,255,255,0.5)', letterSpacing: '0.08em' }}>
+            INVITE USER — they receive a one-time link to set their password
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: '0.75rem', alignItems: 'end' }}>
+            <div>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>EMAIL</div>
+              <input style={inputStyle} type="email" required value={email} onChange={e => setEmail(e.target.value)} placeholder="volunteer@example.com" />
+            </div>
+            <div>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>NAME</div>
+              <input style={inputStyle} value={name} onChange={e => setName(e.target.value)} placeholder="optional" />
+            </div>
+            <div>
+              <div style={{ ...headStyle, marginBottom: '0.35rem' }}>ROLE</div>
+              <select style={{ ...inputStyle, backgroundColor: '#000' }} value={role} onChange={e => setRole(e.target.value as UserRole)}>
+                {USER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+              </select>
+            </div>
+            <button type="submit" disabled={inviting}
+              style={{ ...btnStyle, padding: '0.55rem 1rem', backgroundColor: '#fff', color: '#000', border: '1px solid #fff', fontWeight: 'bold', opacity: inviting ? 0.5 : 1 }}
+            >
+              {inviting ? 'SENDING...' : 'SEND INVITE'}
+            </button>
+          </div>
+        </form>
+
+        {/* ── Security policy ── */}
+        <div style={{ border: '1px solid rgba(255,255,255,0.15)', padding: '1rem 1.25rem', marginBottom: '2rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+          <div>
+            <div style={{ ...mono, fontSize: '0.7rem', color: 'rgba(255,255,255,0.5)', letterSpacing: '0.08em' }}>
+              REQUIRE TWO-FACTOR FOR ADMINS
+            </div>
+            <div style={{ ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.3)', marginTop: '0.25rem' }}>
+              Admins without an authenticator can only open the Security page until they enroll
+            </div>
+          </div>
+          <button
+            disabled={savingPolicy}
+            onClick={handlePolicyToggle}
+            style={{ ...btnStyle, color: requireAdmin2fa ? '#4ade80' : 'rgba(255,255,255,0.7)', borderColor: requireAdmin2fa ? 'rgba(74,222,128,0.4)' : 'rgba(255,255,255,0.2)', opacity: savingPolicy ? 0.5 : 1 }}
+          >
+            {requireAdmin2fa ? 'REQUIRED' : 'OPTIONAL'}
+          </button>
+        </div>
+
+        {message && (
+          <div style={{ ...mono, fontSize: '0.75rem', marginBottom: '1rem', color: message.ok ? '#4ade80' : '#f87171' }}>
+            {message.text}
+          </div>
+        )}
+
+        {/* ── Column headers ── */}
+        <div className="um-row um-head" style={{ border: '1px solid rgba(255,255,255,0.08)', borderBottom: 'none', padding: '0.625rem 1.25rem', backgroundColor: 'rgba(255,255,255,0.03)' }}>
+          <div style={headStyle}>USER</div>
+          <div style={headStyle}>ROLE</div>
+          <div style={headStyle}>STATUS</div>
+          <div style={headStyle}>LAST LOGIN</div>
+          <div style={headStyle}>ACTIONS</div>
+        </div>
+
+        {/* ── User rows ── */}
+        <div style={{ border: '1px solid rgba(255,255,255,0.08)', display: 'flex', flexDirection: 'column' }}>
+          {users.length === 0 ? (
+            <div style={{ padding: '4rem', textAlign: 'center', ...mono, fontSize: '0.875rem', color: 'rgba(255,255,255,0.25)' }}>
+              No users found
+            </div>
+          ) : users.map((u, i) => {
+            const isSelf = u._id === currentUserId;
+            const busy   = busyId === u._id;
+            const status = !u.isActive ? 'DEACTIVATED' : u.invitePending ? 'INVITED' : 'ACTIVE';
+            return (
+              <div key={u._id} style={{ borderBottom: i < users.length - 1 ? '1px solid rgba(255,255,255,0.05)' : 'none' }}>
+                <div className="um-row" style={{ padding: '0.875rem 1.25rem', opacity: busy ? 0.5 : 1 }}>
+                  <div style={{ minWidth: 0 }}>
+                    <div style={{ ...mono, fontSize: '0.875rem', fontWeight: 'bold', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                      {u.name || u.email}{isSelf && <span style={{ color: 'rgba(255,255,255,0.35)', fontWeight: 'normal' }}> (you)</span>}
+                    </div>
+                    <div style={{ ...mono, fontSize: '0.65rem', color: 'rgba(255,255,255,0.3)' }}>{u.email}</div>
+                  </div>
+
+                  <select
+                    value={u.role}
+                    disabled={isSelf || busy}
+                    onChange={e => runForUser(u._id, () => updateUserRole(u._id, e.target.value as UserRole), `Role updated for ${u.email}`)}
+                    style={{ ...inputStyle, backgroundColor: '#000', cursor: isSelf ? 'not-allowed' : 'pointer' }}
+                  >
+                    {USER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+
+                  <div style={{ ...mono, fontSize: '0.7rem', letterSpacing: '0.06em', color: status === 'ACTIVE' ? '#4ade80' : status === 'DEACTIVATED' ? '#f87171' : 'rgba(255,255,255,0.6)' }}>
+                    {status}
+                    {u.twoFactorEnabled && <span style={{ color: 'rgba(255,255,255,0.4)' }}> · 2FA</span>}
+                  </div>
+
+                  <div style={{ ...mono, fontSize: '0.75rem', color: 'rgba(255,255,255,0.6)' }}>
+                    {formatDate(u.lastLoginAt)}
+                  </div>
+
+                  <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                    <button
+                      style={{ ...btnStyle, ...(sessionsId === u._id && { backgroundColor: '#fff', color: '#000' }) }}
+                      onClick={() => setSessionsId(id => id === u._id ? null : u._id)}
+                    >
+                      SESSIONS
+                    </button>
+                    <button
+                      disabled={busy}
+                      style={btnStyle}
+                      onClick={() => runForUser(u._id, () => resetUserPassword(u._id), `Password link sent to ${u.email}`)}
+                    >
+                      {u.invitePending ? 'RESEND LINK' : 'RESET PASSWORD'}
+                    </button>
+                    {!isSelf && u.twoFactorEnabled && (
+                      <button
+                        disabled={busy}
+                        style={btnStyle}
+                        onClick={() => confirm(`Turn off two-factor for ${u.email} and sign them out everywhere?`) &&
+                          runForUser(u._id, () => resetUserTwoFactor(u._id), `Two-factor reset for ${u.email}`)}
+                      >
+                        RESET 2FA
+                      </button>
+                    )}
+                    {!isSelf && (
+                      <button
+                        disabled={busy}
+                        style={{ ...btnStyle, color: u.isActive ? '#f87171' : '#4ade80', borderColor: u.isActive ? 'rgba(248,113,113,0.4)' : 'rgba(74,222,128,0.4)' }}
+                        onClick={() => runForUser(u._id, () => setUserActive(u._id, !u.isActive), `${u.email} ${u.isActive ? 'deactivated' : 'reactivated'}`)}
+                      >
+                        {u.isActive ? 'DEACTIVATE' : 'REACTIVATE'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {sessionsId === u._id && <UserSessionsPanel userId={u._id} />}
+              </div>
+            );
+          })}
+        </div>
+
+      </div>
+    </>
+  );
+}
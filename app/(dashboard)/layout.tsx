@@ -1,12 +1,39 @@
 'use client';
 
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
 import Sidebar from '@/components/Sidebar';
+import { checkSessionAction } from '@/actions/auth';
+import { canAccessPath, getHomePath } from '@/lib/permissions';
+
+const SECURITY_PATH = '/dashboard/security';
 
 export default function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const pathname = usePathname();
+  const router = useRouter();
+  const [role, setRole] = useState<string | null>(null);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState(false);
+
+  useEffect(() => {
+    checkSessionAction()
+      .then(session => {
+        if (!session.authenticated || !session.user) router.replace('/login');
+        else {
+          setRole(session.user.role);
+          setTwoFactorSetupRequired(session.user.twoFactorSetupRequired);
+        }
+      })
+      .catch(() => router.replace('/login'));
+  }, [router]);
+
+  const homePath = role ? getHomePath(role) : null;
+  const blockedByTwoFactor = twoFactorSetupRequired && pathname !== SECURITY_PATH;
+
   return (
     <div style={{
       display: 'flex',
@@ -14,13 +41,58 @@ export default function DashboardLayout({
       backgroundColor: '#000',
       color: '#fff'
     }}>
-      <Sidebar />
+      <Sidebar role={role} />
       <main style={{
         flex: 1,
         overflowY: 'auto'
       }}>
-        {children}
+        {role && blockedByTwoFactor && (
+          <div style={{ minHeight: '80vh', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '3rem' }}>
+            <div style={{ textAlign: 'center', fontFamily: 'monospace' }}>
+              <h1 style={{ fontSize: '2rem', fontWeight: 900, letterSpacing: '-0.04em', marginBottom: '0.5rem' }}>
+                TWO-FACTOR REQUIRED
+              </h1>
+              <p style={{ fontSize: '0.8rem', color: 'rgba(255,255,255,0.4)', marginBottom: '1.5rem' }}>
+                Your role requires an authenticator app. Set it up to continue.
+              </p>
+              <Link href={SECURITY_PATH} style={{
+                padding: '0.6rem 1.2rem',
+                border: '1px solid rgba(255,255,255,0.2)',
+                color: '#fff',
+                fontSize: '0.75rem',
+                letterSpacing: '0.05em',
+                textDecoration: 'none'
+              }}>
+                → SET UP TWO-FACTOR
+              </Link>
+            </div>
+          </div>
+        )}
+        {role && !blockedByTwoFactor && (canAccessPath(role, pathname) ? children : (
+          <div style={{ minHeight: '80vh', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '3rem' }}>
+            <div style={{ textAlign: 'center', fontFamily: 'monospace' }}>
+              <h1 style={{ fontSize: '2rem', fontWeight: 900, letterSpacing: '-0.04em', marginBottom: '0.5rem' }}>
+                ACCESS RESTRICTED
+              </h1>
+              <p style={{ fontSize: '0.8rem', color: 'rgba(255,255,255,0.4)', marginBottom: '1.5rem' }}>
+                Your role does not include this page.
+              </p>
+              {homePath && (
+                <Link href={homePath} style={{
+                  padding: '0.6rem 1.2rem',
+                  border: '1px solid rgba(255,255,255,0.2)',
+                  color: '#fff',
+                  fontSize: '0.75rem',
+                  letterSpacing: '0.05em',
+                  textDecoration: 'none'
+                }}>
+                  → GO TO MY PAGES
+                </Link>
+              )}
+            </div>
+          </div>
+        ))}
       </main>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,15 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth';
 import { getRecentBackupLogs } from '@/actions/backup-log';
 import { sendHourlyBackupReport } from '@/actions/email-report';
 import { getBotConfigSnapshot } from '@/actions/bot-config-snapshot';
 import { getBotStatusSnapshot } from '@/actions/bot-status-snapshot';
+import { getEventStats } from '@/lib/event-stats';
 
 export const runtime     = 'nodejs';
 export const maxDuration = 30;
 
 export async function GET(req: NextRequest) {
-  const secret = req.headers.get('x-cron-secret');
-  if (!process.env.CRON_SECRET || secret !== process.env.CRON_SECRET) {
+  if (!isCronRequest(req)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -22,13 +23,18 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    const [logs, botConfig, botStatus] = await Promise.all([
+    const [logs, botConfig, botStatus, eventStats] = await Promise.all([
       getRecentBackupLogs(1),
       getBotConfigSnapshot(),
       getBotStatusSnapshot(),
+      // The report still goes out without the event snapshot
+      getEventStats().catch(err => {
+        console.error('[backup-report] Event stats unavailable:', err);
+        return undefined;
+      }),
     ]);
 
-    await sendHourlyBackupReport(logs, recipient, botConfig, botStatus);
+    await sendHourlyBackupReport(logs, recipient, botConfig, botStatus, eventStats);
 
     console.log(`[backup-report] Sent report for ${logs.length} entries to ${recipient}`);
 
@@ -5,10 +5,12 @@ import clientPromise from '@/lib/mongodb';
 import { DBParticipant } from '@/types';
 import { ObjectId } from 'mongodb';
 import { logBackupResult } from '@/actions/backup-log';
+import { getMealSchedule } from '@/lib/event-config';
+import { NOT_TRASHED } from '@/lib/trash';
+import { isCronRequest } from '@/lib/auth';
 
 const DB_NAME         = 'hackoverflow';
 const COLLECTION_NAME = 'participants';
-const CRON_SECRET     = process.env.CRON_SECRET;
 
 export const runtime     = 'nodejs';
 export const maxDuration = 60;
@@ -36,12 +38,20 @@ const escapeCell = (v: unknown): string => {
 
 async function buildCSV(): Promise<{ csv: string; count: number }> {
   const client = await clientPromise;
-  const participants = await client
-    .db(DB_NAME)
-    .collection<ParticipantDocument>(COLLECTION_NAME)
-    .find({})
-    .sort({ createdAt: -1 })
-    .toArray();
+  const [participants, schedule] = await Promise.all([
+    client
+      .db(DB_NAME)
+      .collection<ParticipantDocument>(COLLECTION_NAME)
+      .find(NOT_TRASHED)
+      .sort({ createdAt: -1 })
+      .toArray(),
+    getMealSchedule(),
+  ]);
+
+  const headers = [
+    ...CSV_HEADERS,
+    ...schedule.flatMap(slot => [`meal_${slot.key}`, `meal_${slot.key}Time`]),
+  ];
 
   const rows = participants.map(p =>
     [
@@ -58,12 +68,16 @@ async function buildCSV(): Promise<{ csv: string; count: number }> {
       p.tempLabCheckOut?.time   ? new Date(p.tempLabCheckOut.time).toISOString()  : '',
       p.createdAt ? new Date(p.createdAt).toISOString() : '',
       p.updatedAt ? new Date(p.updatedAt).toISOString() : '',
+      ...schedule.flatMap(slot => [
+        p.meals?.[slot.key] ?? false,
+        p.mealTimes?.[slot.key] ? new Date(p.mealTimes[slot.key]).toISOString() : '',
+      ]),
     ]
       .map(escapeCell)
       .join(',')
   );
 
-  return { csv: [CSV_HEADERS.join(','), ...rows].join('\n'), count: participants.length };
+  return { csv: [headers.join(','), ...rows].join('\n'), count: participants.length };
 }
 
 async function uploadToDrive(csv: string, filename: string): Promise<string> {
@@ -89,8 +103,7 @@ async function uploadToDrive(csv: string, filename: string): Promise<string> {
 }
 
 export async function GET(req: NextRequest) {
-  const authHeader = req.headers.get('x-cron-secret');
-  if (!CRON_SECRET || authHeader !== CRON_SECRET) {
+  if (!isCronRequest(req)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
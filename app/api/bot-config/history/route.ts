@@ -1,21 +1,10 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/auth";
 import clientPromise from "@/lib/mongodb";
 
 const DB_NAME = process.env.MONGODB_DB || "hackoverflow";
 
-async function authenticate() {
-  const cookieStore = await cookies();
-  const token = cookieStore.get("auth-token")?.value;
-  if (!token) return null;
-  try { return verifyToken(token); } catch { return null; }
-}
-
-export async function GET() {
-  const user = await authenticate();
-  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-
+export const GET = withAuth("bot")(async () => {
   try {
     const client = await clientPromise;
     const history = await client
@@ -30,4 +19,4 @@ export async function GET() {
   } catch (err) {
     return NextResponse.json({ error: String(err) }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,23 +1,12 @@
 
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/auth";
 import clientPromise from "@/lib/mongodb";
 
 const DB_NAME = process.env.MONGODB_DB || "hackoverflow";
 const COLL    = "bot_logs";
 
-async function authenticate() {
-  const cookieStore = await cookies();
-  const token = cookieStore.get("auth-token")?.value;
-  if (!token) return null;
-  try { return verifyToken(token); } catch { return null; }
-}
-
-export async function GET(req: NextRequest) {
-  const user = await authenticate();
-  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-
+export const GET = withAuth("bot")(async (req: NextRequest) => {
   const { searchParams } = new URL(req.url);
   const limit  = Math.min(Number(searchParams.get("limit")  ?? 100), 200);
   const type   = searchParams.get("type");    // filter by log type
@@ -74,4 +63,4 @@ export async function GET(req: NextRequest) {
   } catch (err) {
     return NextResponse.json({ error: String(err) }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -5,28 +5,19 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
-import { verifyToken } from '@/lib/auth';
+import { withAuth } from '@/lib/auth';
+import { recordAudit, diffFields } from '@/lib/audit-log';
 import clientPromise from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 
 const DB_NAME = process.env.MONGODB_DB || 'hackoverflow';
 const COLL    = 'scheduled_messages';
 
-async function authenticate() {
-  const cookieStore = await cookies();
-  const token = cookieStore.get('auth-token')?.value;
-  if (!token) return null;
-  try { return verifyToken(token); } catch { return null; }
-}
-
-export async function PATCH(
+export const PATCH = withAuth('bot')(async (
   req: NextRequest,
+  user,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const user = await authenticate();
-  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-
+) => {
   const { id } = await params;
   if (!ObjectId.isValid(id)) return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
 
@@ -44,42 +35,54 @@ export async function PATCH(
     if (typeof body.channelId      !== 'undefined') $set.channelId      = body.channelId;
     if (typeof body.cronExpression !== 'undefined') $set.cronExpression = body.cronExpression;
 
-    const result = await client
+    const before = await client
       .db(DB_NAME)
       .collection(COLL)
-      .updateOne({ _id: new ObjectId(id) }, { $set });
+      .findOneAndUpdate({ _id: new ObjectId(id) }, { $set });
 
-    if (result.matchedCount === 0)
+    if (!before)
       return NextResponse.json({ error: 'Message not found' }, { status: 404 });
 
+    await recordAudit(user, {
+      action: 'scheduled_message.update',
+      targetType: 'scheduled_message',
+      targetIds: [id],
+      changes: diffFields(before, $set, Object.keys($set)),
+    });
+
     return NextResponse.json({ success: true });
   } catch (err) {
     return NextResponse.json({ error: String(err) }, { status: 500 });
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withAuth('bot')(async (
   _req: NextRequest,
+  user,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const user = await authenticate();
-  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-
+) => {
   const { id } = await params;
   if (!ObjectId.isValid(id)) return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
 
   try {
     const client = await clientPromise;
-    const result = await client
+    const deleted = await client
       .db(DB_NAME)
       .collection(COLL)
-      .deleteOne({ _id: new ObjectId(id) });
+      .findOneAndDelete({ _id: new ObjectId(id) });
 
-    if (result.deletedCount === 0)
+    if (!deleted)
       return NextResponse.json({ error: 'Message not found' }, { status: 404 });
 
+    await recordAudit(user, {
+      action: 'scheduled_message.delete',
+      targetType: 'scheduled_message',
+      targetIds: [id],
+      changes: diffFields(deleted, {}),
+    });
+
     return NextResponse.json({ success: true });
   } catch (err) {
     return NextResponse.json({ error: String(err) }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
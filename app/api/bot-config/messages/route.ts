@@ -5,25 +5,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
-import { verifyToken } from '@/lib/auth';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 import clientPromise from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 
 const DB_NAME = process.env.MONGODB_DB || 'hackoverflow';
 const COLL    = 'scheduled_messages';
 
-async function authenticate() {
-  const cookieStore = await cookies();
-  const token = cookieStore.get('auth-token')?.value;
-  if (!token) return null;
-  try { return verifyToken(token); } catch { return null; }
-}
-
-export async function GET() {
-  const user = await authenticate();
-  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-
+export const GET = withAuth('bot')(async () => {
   try {
     const client = await clientPromise;
     const messages = await client
@@ -37,12 +27,9 @@ export async function GET() {
   } catch (err) {
     return NextResponse.json({ error: String(err) }, { status: 500 });
   }
-}
-
-export async function POST(req: NextRequest) {
-  const user = await authenticate();
-  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+});
 
+export const POST = withAuth('bot')(async (req: NextRequest, user) => {
   try {
     const body = await req.json();
     const { name, channelId, content, embedTitle, embedColor, scheduleType, cronExpression, sendAt, messageFormat } = body;
@@ -72,14 +59,21 @@ export async function POST(req: NextRequest) {
       sentCount:     0,
       lastSentAt:    null,
       createdAt:     new Date(),
-      createdBy:     (user as { email?: string }).email ?? 'unknown',
+      createdBy:     user.email,
     };
 
     const client = await clientPromise;
     await client.db(DB_NAME).collection(COLL).insertOne(doc);
 
+    await recordAudit(user, {
+      action: 'scheduled_message.create',
+      targetType: 'scheduled_message',
+      targetIds: [doc._id.toString()],
+      summary: `Created "${doc.name}" for channel ${doc.channelId}`,
+    });
+
     return NextResponse.json({ success: true, message: 'Scheduled message created', id: doc._id });
   } catch (err) {
     return NextResponse.json({ error: String(err) }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
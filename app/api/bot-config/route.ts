@@ -1,26 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/auth";
+import { recordAudit, diffFields } from "@/lib/audit-log";
 import clientPromise from "@/lib/mongodb";
 
 const DB_NAME = process.env.MONGODB_DB || "hackoverflow";
 const COLLECTION = "bot_config";
 const DOC_ID = "hackathon-data";
 
-type AuthUser = { email?: string; id?: string };
-
-async function authenticate(): Promise<AuthUser | null> {
-  const cookieStore = await cookies();
-  const token = cookieStore.get("auth-token")?.value;
-  if (!token) return null;
-  try { return verifyToken(token) as AuthUser; } catch { return null; }
-}
-
 // ─── GET — read current config ───────────────────────────────────────────────
-export async function GET() {
-  const user = await authenticate();
-  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-
+export const GET = withAuth("bot")(async () => {
   try {
     const client = await clientPromise;
     const doc = await client.db(DB_NAME).collection(COLLECTION).findOne({ _id: DOC_ID as never });
@@ -39,13 +27,10 @@ export async function GET() {
   } catch (err) {
     return NextResponse.json({ error: "Database error", details: String(err) }, { status: 500 });
   }
-}
+});
 
 // ─── PUT — full replace with auto-snapshot ───────────────────────────────────
-export async function PUT(req: NextRequest) {
-  const user = await authenticate();
-  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-
+export const PUT = withAuth("bot")(async (req: NextRequest, user) => {
   try {
     const body = await req.json();
     if (typeof body !== "object" || Array.isArray(body) || !body) {
@@ -77,17 +62,22 @@ export async function PUT(req: NextRequest) {
       { upsert: true }
     );
 
+    await recordAudit(user, {
+      action: "bot_config.update",
+      targetType: "bot_config",
+      targetIds: [DOC_ID],
+      changes: diffFields(current ?? {}, body),
+      summary: `Saved version ${currentVersion + 1}`,
+    });
+
     return NextResponse.json({ success: true, message: "Bot configuration updated", version: currentVersion + 1 });
   } catch (err) {
     return NextResponse.json({ error: "Failed to save", details: String(err) }, { status: 500 });
   }
-}
+});
 
 // ─── POST — seed (one-time) ──────────────────────────────────────────────────
-export async function POST(req: NextRequest) {
-  const user = await authenticate();
-  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-
+export const POST = withAuth("bot")(async (req: NextRequest, user) => {
   try {
     const body = await req.json();
     const client = await clientPromise;
@@ -106,8 +96,15 @@ export async function POST(req: NextRequest) {
       __v: 1,
     });
 
+    await recordAudit(user, {
+      action: "bot_config.seed",
+      targetType: "bot_config",
+      targetIds: [DOC_ID],
+      summary: "Seeded initial bot config",
+    });
+
     return NextResponse.json({ success: true, message: "Bot config seeded" }, { status: 201 });
   } catch (err) {
     return NextResponse.json({ error: "Failed to seed", details: String(err) }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
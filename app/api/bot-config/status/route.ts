@@ -7,8 +7,7 @@
  */
 
 import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
-import { verifyToken } from '@/lib/auth';
+import { withAuth } from '@/lib/auth';
 import clientPromise from '@/lib/mongodb';
 
 const DB_NAME        = process.env.MONGODB_DB || 'hackoverflow';
@@ -16,17 +15,7 @@ const COLL           = 'bot_heartbeat';
 const DOC_ID         = 'kernel-bot';
 const STALE_AFTER_MS = 75_000; // if no heartbeat in 75s → offline
 
-async function authenticate() {
-  const cookieStore = await cookies();
-  const token = cookieStore.get('auth-token')?.value;
-  if (!token) return null;
-  try { return verifyToken(token); } catch { return null; }
-}
-
-export async function GET() {
-  const user = await authenticate();
-  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-
+export const GET = withAuth('bot')(async () => {
   try {
     const client = await clientPromise;
     const doc = await client
@@ -61,4 +50,4 @@ export async function GET() {
   } catch (err) {
     return NextResponse.json({ error: String(err) }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
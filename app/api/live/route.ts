@@ -0,0 +1,94 @@
+/**
+ * Live updates stream
+ *
+ * GET /api/live?topics=participants,meal_schedule,bot_logs
+ *
+ * Server-Sent Events; every message is a JSON `LiveUpdate`. Topics the
+ * user may not read are left out. Streams end after a few minutes and
+ * EventSource reconnects on its own, so a revoked session stops
+ * receiving updates at the next reconnect.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { hasPermission, type Permission } from '@/lib/permissions';
+import { subscribeLiveUpdates } from '@/lib/live-updates';
+import type { LiveTopic, LiveUpdate } from '@/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const TOPIC_PERMISSIONS: Record<LiveTopic, Permission> = {
+  participants:  'participants.read',
+  meal_schedule: 'participants.read',
+  bot_logs:      'bot',
+};
+
+const UPDATE_TOPICS: Record<LiveUpdate['type'], LiveTopic> = {
+  participant:         'participants',
+  participant_removed: 'participants',
+  meal_schedule:       'meal_schedule',
+  bot_log:             'bot_logs',
+};
+
+const HEARTBEAT_MS  = 25_000;
+const MAX_STREAM_MS = 5 * 60_000;
+const RETRY_MS      = 3_000;
+
+export const GET = withAuth(['participants.read', 'bot'])(async (req: NextRequest, user) => {
+  const requested = (req.nextUrl.searchParams.get('topics') ?? '').split(',');
+  const topics = new Set(
+    (Object.keys(TOPIC_PERMISSIONS) as LiveTopic[])
+      .filter(topic => requested.includes(topic) && hasPermission(user.role, TOPIC_PERMISSIONS[topic]))
+  );
+  if (topics.size === 0) {
+    return NextResponse.json({ error: 'No permitted topics requested' }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const unsubscribe = subscribeLiveUpdates(update => {
+        if (topics.has(UPDATE_TOPICS[update.type])) write(`data: ${JSON.stringify(update)}\n\n`);
+      });
+      // Comments keep proxies from timing out an idle stream
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+      const expiry = setTimeout(() => close(), MAX_STREAM_MS);
+
+      close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        clearTimeout(expiry);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      req.signal.addEventListener('abort', () => close());
+
+      write(`retry: ${RETRY_MS}\n\n`);
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+});
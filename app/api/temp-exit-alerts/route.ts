@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth';
+import { runTempExitAlerts } from '@/lib/temp-exit-alerts';
+
+export const runtime     = 'nodejs';
+export const maxDuration = 30;
+
+export async function GET(req: NextRequest) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runTempExitAlerts();
+
+    if (result.alerted.length > 0) {
+      console.log(
+        `[temp-exit-alerts] Alerted ${result.alerted.length} exit(s) — email: ${result.emailSent}, discord: ${result.discordQueued}`
+      );
+    }
+    for (const e of result.errors) console.warn('[temp-exit-alerts]', e);
+
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error('[temp-exit-alerts] Failed:', message);
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth';
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from '@/lib/trash';
+
+export const runtime     = 'nodejs';
+export const maxDuration = 30;
+
+export async function GET(req: NextRequest) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeExpiredTrash();
+    return NextResponse.json({ success: true, retentionDays: TRASH_RETENTION_DAYS, purged });
+
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error('[trash-purge] Failed:', message);
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
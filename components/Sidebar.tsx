@@ -3,8 +3,9 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useState, useEffect } from 'react';
+import { canAccessPath, ROLE_LABELS, type UserRole } from '@/lib/permissions';
 
-export default function Sidebar() {
+export default function Sidebar({ role }: { role: string | null }) {
   const pathname = usePathname();
   const [isOpen, setIsOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
@@ -48,6 +49,51 @@ export default function Sidebar() {
         </svg>
       )
     },
+    {
+      title: 'Teams',
+      href: '/dashboard/teams',
+      icon: (
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <circle cx="12" cy="7" r="3"></circle>
+          <circle cx="5" cy="10" r="2"></circle>
+          <circle cx="19" cy="10" r="2"></circle>
+          <path d="M7 21v-2a5 5 0 0 1 10 0v2"></path>
+          <path d="M1 21v-1a4 4 0 0 1 4-4"></path>
+          <path d="M23 21v-1a4 4 0 0 0-4-4"></path>
+        </svg>
+      )
+    },
+    {
+      title: 'Labs',
+      href: '/dashboard/labs',
+      icon: (
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="2" y="3" width="20" height="14" rx="2" ry="2"></rect>
+          <line x1="8" y1="21" x2="16" y2="21"></line>
+          <line x1="12" y1="17" x2="12" y2="21"></line>
+        </svg>
+      )
+    },
+    {
+      title: 'Lab Occupancy',
+      href: '/dashboard/occupancy',
+      icon: (
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <line x1="18" y1="20" x2="18" y2="10"></line>
+          <line x1="12" y1="20" x2="12" y2="4"></line>
+          <line x1="6" y1="20" x2="6" y2="14"></line>
+        </svg>
+      )
+    },
+    {
+      title: 'Analytics',
+      href: '/dashboard/analytics',
+      icon: (
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <polyline points="22 12 18 12 15 21 9 3 6 12 2 12"></polyline>
+        </svg>
+      )
+    },
     {
       title: 'Sponsors',
       href: '/dashboard/sponsors',
@@ -139,6 +185,40 @@ export default function Sidebar() {
         </svg>
       )
     },
+    {
+      title: 'Users',
+      href: '/dashboard/users',
+      icon: (
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2"></path>
+          <circle cx="9" cy="7" r="4"></circle>
+          <line x1="19" y1="8" x2="19" y2="14"></line>
+          <line x1="22" y1="11" x2="16" y2="11"></line>
+        </svg>
+      )
+    },
+    {
+      title: 'Audit Log',
+      href: '/dashboard/audit',
+      icon: (
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
+          <polyline points="14 2 14 8 20 8"></polyline>
+          <line x1="8" y1="13" x2="16" y2="13"></line>
+          <line x1="8" y1="17" x2="16" y2="17"></line>
+        </svg>
+      )
+    },
+    {
+      title: 'Security',
+      href: '/dashboard/security',
+      icon: (
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+          <path d="M7 11V7a5 5 0 0 1 10 0v4"></path>
+        </svg>
+      )
+    },
   ];
 
   const sidebarContent = (
@@ -184,7 +264,7 @@ export default function Sidebar() {
             letterSpacing: '0.2em',
             marginTop: '3px',
           }}>
-            ADMIN PANEL
+            {role && role in ROLE_LABELS ? ROLE_LABELS[role as UserRole].toUpperCase() : 'ADMIN PANEL'}
           </div>
         </div>
       </div>
@@ -198,7 +278,7 @@ export default function Sidebar() {
         padding: '1rem 0.75rem',
         overflowY: 'auto',
       }}>
-        {menuItems.map((item, i) => {
+        {menuItems.filter(item => role && canAccessPath(role, item.href)).map((item, i) => {
           const isActive = pathname === item.href;
           const isDatabase = item.href === '/dashboard/database';
           return (
@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DBParticipant, ParticipantEvent, isUnauthorized } from '@/types';
+import { getParticipantEvents } from '@/actions/participant-events';
+import { CHECKIN_STATE_LABELS, deriveCheckInState } from '@/lib/checkin';
+
+const MOVEMENT_LABELS: Record<ParticipantEvent['type'], string> = {
+  college:    'College check-in',
+  lab:        'Lab check-in',
+  tempLabOut: 'Temporary lab exit',
+  labOut:     'Lab check-out',
+  collegeOut: 'College check-out',
+};
+
+const formatTime = (timestamp: Date | string) =>
+  new Date(timestamp).toLocaleString('en-IN', {
+    day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit',
+  });
+
+const labelStyle: React.CSSProperties = {
+  fontFamily: 'monospace', fontSize: '0.7rem',
+  color: 'rgba(255,255,255,0.4)', letterSpacing: '0.08em',
+};
+
+export default function ParticipantTimelineDrawer({ participant, onClose }: {
+  participant: DBParticipant;
+  onClose: () => void;
+}) {
+  const [events, setEvents]   = useState<ParticipantEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    getParticipantEvents({ participantId: participant.participantId })
+      .then(result => { if (!cancelled && !isUnauthorized(result)) setEvents(result); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [participant.participantId]);
+
+  // Close on Escape
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: 'fixed', inset: 0, backgroundColor: 'rgba(0,0,0,0.6)', zIndex: 200, display: 'flex', justifyContent: 'flex-end' }}
+    >
+      <aside
+        onClick={e => e.stopPropagation()}
+        style={{
+          width: 'min(420px, 100%)', height: '100%', overflowY: 'auto',
+          backgroundColor: '#000', borderLeft: '1px solid rgba(255,255,255,0.15)',
+          padding: '1.5rem', boxSizing: 'border-box',
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start', gap: '1rem', marginBottom: '1.5rem' }}>
+          <div>
+            <div style={{ fontFamily: 'monospace', fontSize: '1rem', fontWeight: 'bold', marginBottom: '0.35rem' }}>
+              {participant.name}
+            </div>
+            <div style={labelStyle}>
+              {participant.participantId}{participant.teamName ? ` · ${participant.teamName}` : ''}
+            </div>
+            <div style={{ ...labelStyle, marginTop: '0.35rem', color: 'rgba(255,255,255,0.7)' }}>
+              {CHECKIN_STATE_LABELS[deriveCheckInState(participant)].toUpperCase()}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close timeline"
+            style={{
+              background: 'transparent', border: '1px solid rgba(255,255,255,0.2)',
+              color: 'rgba(255,255,255,0.7)', fontFamily: 'monospace',
+              padding: '0.25rem 0.6rem', cursor: 'pointer',
+            }}
+          >×</button>
+        </div>
+
+        <div style={{ ...labelStyle, marginBottom: '1rem' }}>MOVEMENT TIMELINE</div>
+
+        {loading ? (
+          <div style={{ ...labelStyle, padding: '2rem 0', textAlign: 'center' }}>Loading…</div>
+        ) : events.length === 0 ? (
+          <div style={{ ...labelStyle, padding: '2rem 0', textAlign: 'center' }}>No movements recorded</div>
+        ) : (
+          <ol style={{ listStyle: 'none', margin: 0, padding: 0, borderLeft: '1px solid rgba(255,255,255,0.15)' }}>
+            {events.map(event => (
+              <li key={event._id} style={{ position: 'relative', padding: '0 0 1.25rem 1.25rem' }}>
+                <span style={{
+                  position: 'absolute', left: '-4px', top: '0.3rem',
+                  width: '7px', height: '7px', borderRadius: '50%',
+                  backgroundColor: event.type === 'tempLabOut' ? '#f87171' : '#4ade80',
+                }} />
+                <div style={{ fontFamily: 'monospace', fontSize: '0.85rem', color: '#fff', marginBottom: '0.2rem' }}>
+                  {MOVEMENT_LABELS[event.type]}
+                </div>
+                <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: 'rgba(255,255,255,0.6)' }}>
+                  {formatTime(event.timestamp)}
+                </div>
+                <div style={{ ...labelStyle, marginTop: '0.2rem' }}>
+                  {event.station} · {event.actor}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { TempExitAlertSettings } from '@/types';
+import { updateTempExitAlertSettings } from '@/actions/event-config';
+
+// ─── Style tokens ────────────────────────────────────────────────────────────
+const inputStyle: React.CSSProperties = {
+  width: '100%', boxSizing: 'border-box',
+  backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.15)',
+  color: '#fff', fontFamily: 'monospace', fontSize: '0.75rem',
+  padding: '0.45rem 0.6rem', outline: 'none',
+};
+const headStyle: React.CSSProperties = {
+  fontFamily: 'monospace', fontSize: '0.6rem',
+  color: 'rgba(255,255,255,0.35)', letterSpacing: '0.08em', marginBottom: '0.35rem',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  fontFamily: 'monospace', fontSize: '0.75rem', cursor: 'pointer',
+  letterSpacing: '0.05em', transition: 'all 0.2s',
+};
+
+export default function TempExitAlertSettingsEditor({ settings, onSaved, onCancel }: {
+  settings: TempExitAlertSettings;
+  onSaved: (settings: TempExitAlertSettings) => void;
+  onCancel: () => void;
+}) {
+  const [enabled, setEnabled]     = useState(settings.enabled);
+  const [threshold, setThreshold] = useState(String(settings.thresholdMinutes));
+  const [emailTo, setEmailTo]     = useState(settings.emailTo.join(', '));
+  const [channelId, setChannelId] = useState(settings.discordChannelId ?? '');
+  const [saving, setSaving]       = useState(false);
+  const [error, setError]         = useState('');
+
+  const handleSave = async () => {
+    const next: TempExitAlertSettings = {
+      enabled,
+      thresholdMinutes: Number(threshold),
+      emailTo: emailTo.split(',').map(e => e.trim()).filter(Boolean),
+      discordChannelId: channelId.trim() || undefined,
+    };
+
+    setSaving(true);
+    setError('');
+    const result = await updateTempExitAlertSettings(next);
+    setSaving(false);
+    if (result.success) onSaved(next);
+    else setError(result.error ?? 'Failed to save alert settings');
+  };
+
+  return (
+    <div style={{ border: '1px solid rgba(255,255,255,0.15)', padding: '1.25rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      <div style={{ fontFamily: 'monospace', fontSize: '0.7rem', color: 'rgba(255,255,255,0.5)', letterSpacing: '0.08em' }}>
+        TEMP EXIT ALERTS — sent once per exit by the alert cron job
+      </div>
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', cursor: 'pointer', userSelect: 'none', fontFamily: 'monospace', fontSize: '0.75rem', color: 'rgba(255,255,255,0.7)' }}>
+        <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} style={{ accentColor: '#fff', cursor: 'pointer' }} />
+        Send email and Discord alerts
+      </label>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '0.75rem' }}>
+        <div>
+          <div style={headStyle}>THRESHOLD (MINUTES)</div>
+          <input style={inputStyle} type="number" min={1} value={threshold} onChange={e => setThreshold(e.target.value)} />
+        </div>
+        <div>
+          <div style={headStyle}>EMAIL TO (COMMA SEPARATED)</div>
+          <input style={inputStyle} value={emailTo} placeholder="defaults to report recipient" onChange={e => setEmailTo(e.target.value)} />
+        </div>
+        <div>
+          <div style={headStyle}>DISCORD CHANNEL ID</div>
+          <input style={inputStyle} value={channelId} placeholder="defaults to DISCORD_ALERT_CHANNEL_ID" onChange={e => setChannelId(e.target.value)} />
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: '#f87171' }}>{error}</div>
+      )}
+
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', flexWrap: 'wrap' }}>
+        <button onClick={onCancel} style={btnStyle}>CANCEL</button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          style={{ ...btnStyle, backgroundColor: '#fff', color: '#000', border: 'none', fontWeight: 'bold', opacity: saving ? 0.5 : 1 }}
+        >
+          {saving ? 'SAVING…' : 'SAVE SETTINGS'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import { MealSlot } from '@/types';
+import { updateMealSchedule } from '@/actions/event-config';
+
+// ─── datetime-local <-> ISO helpers ──────────────────────────────────────────
+// <input type="datetime-local"> works in browser-local time without a zone.
+function toLocalInput(iso?: string): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+// ─── Style tokens ────────────────────────────────────────────────────────────
+const inputStyle: React.CSSProperties = {
+  width: '100%', boxSizing: 'border-box',
+  backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.15)',
+  color: '#fff', fontFamily: 'monospace', fontSize: '0.75rem',
+  padding: '0.45rem 0.6rem', outline: 'none', colorScheme: 'dark',
+};
+const headStyle: React.CSSProperties = {
+  fontFamily: 'monospace', fontSize: '0.6rem',
+  color: 'rgba(255,255,255,0.35)', letterSpacing: '0.08em',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  fontFamily: 'monospace', fontSize: '0.75rem', cursor: 'pointer',
+  letterSpacing: '0.05em', transition: 'all 0.2s',
+};
+
+const GRID = '1fr 1.5fr 0.8fr 0.8fr 1.4fr 1.4fr 32px';
+
+export default function MealScheduleEditor({ schedule, onSaved, onCancel }: {
+  schedule: MealSlot[];
+  onSaved: (meals: MealSlot[]) => void;
+  onCancel: () => void;
+}) {
+  const [slots, setSlots]   = useState<MealSlot[]>(schedule.map(s => ({ ...s })));
+  const [saving, setSaving] = useState(false);
+  const [error, setError]   = useState('');
+
+  const update = (i: number, patch: Partial<MealSlot>) =>
+    setSlots(prev => prev.map((s, idx) => (idx === i ? { ...s, ...patch } : s)));
+
+  const addSlot = () => {
+    const last = slots[slots.length - 1];
+    setSlots(prev => [...prev, {
+      key: `slot_${prev.length + 1}`,
+      label: '',
+      shortLabel: '',
+      day: last?.day ?? 'DAY 1',
+    }]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    const result = await updateMealSchedule(slots);
+    setSaving(false);
+    if (result.success) onSaved(slots);
+    else setError(result.error ?? 'Failed to save schedule');
+  };
+
+  return (
+    <div style={{ border: '1px solid rgba(255,255,255,0.15)', padding: '1.25rem', marginBottom: '2rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      <div style={{ fontFamily: 'monospace', fontSize: '0.7rem', color: 'rgba(255,255,255,0.5)', letterSpacing: '0.08em' }}>
+        MEAL SCHEDULE — the scanner preselects whichever slot is open now
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: GRID, gap: '0.5rem' }}>
+        <div style={headStyle}>KEY</div>
+        <div style={headStyle}>LABEL</div>
+        <div style={headStyle}>SHORT</div>
+        <div style={headStyle}>DAY</div>
+        <div style={headStyle}>OPENS</div>
+        <div style={headStyle}>CLOSES</div>
+        <div />
+      </div>
+
+      {slots.map((slot, i) => (
+        <div key={i} style={{ display: 'grid', gridTemplateColumns: GRID, gap: '0.5rem', alignItems: 'center' }}>
+          <input style={inputStyle} value={slot.key}        onChange={e => update(i, { key: e.target.value })} />
+          <input style={inputStyle} value={slot.label}      onChange={e => update(i, { label: e.target.value })} />
+          <input style={inputStyle} value={slot.shortLabel} onChange={e => update(i, { shortLabel: e.target.value })} />
+          <input style={inputStyle} value={slot.day}        onChange={e => update(i, { day: e.target.value })} />
+          <input style={inputStyle} type="datetime-local" value={toLocalInput(slot.startsAt)}
+            onChange={e => update(i, { startsAt: fromLocalInput(e.target.value) })} />
+          <input style={inputStyle} type="datetime-local" value={toLocalInput(slot.endsAt)}
+            onChange={e => update(i, { endsAt: fromLocalInput(e.target.value) })} />
+          <button
+            onClick={() => setSlots(prev => prev.filter((_, idx) => idx !== i))}
+            style={{ ...btnStyle, padding: '0.35rem', color: '#f87171', borderColor: 'rgba(248,113,113,0.3)' }}
+            aria-label="Remove slot"
+          >×</button>
+        </div>
+      ))}
+
+      {error && (
+        <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: '#f87171' }}>{error}</div>
+      )}
+
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <button onClick={addSlot} style={btnStyle}>+ ADD SLOT</button>
+        <div style={{ flex: 1 }} />
+        <button onClick={onCancel} style={btnStyle}>CANCEL</button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          style={{ ...btnStyle, backgroundColor: '#fff', color: '#000', border: 'none', fontWeight: 'bold', opacity: saving ? 0.5 : 1 }}
+        >
+          {saving ? 'SAVING…' : 'SAVE SCHEDULE'}
+        </button>
+      </div>
+    </div>
+  );
+}
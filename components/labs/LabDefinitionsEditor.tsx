@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { LabDefinition, isUnauthorized } from '@/types';
+import { updateLabDefinitions } from '@/actions/event-config';
+
+// ─── Style tokens ────────────────────────────────────────────────────────────
+const inputStyle: React.CSSProperties = {
+  width: '100%', boxSizing: 'border-box',
+  backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.15)',
+  color: '#fff', fontFamily: 'monospace', fontSize: '0.75rem',
+  padding: '0.45rem 0.6rem', outline: 'none',
+};
+const headStyle: React.CSSProperties = {
+  fontFamily: 'monospace', fontSize: '0.6rem',
+  color: 'rgba(255,255,255,0.35)', letterSpacing: '0.08em',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  fontFamily: 'monospace', fontSize: '0.75rem', cursor: 'pointer',
+  letterSpacing: '0.05em', transition: 'all 0.2s',
+};
+
+const GRID = '1.2fr 0.6fr 1.2fr 1.2fr 32px';
+
+export default function LabDefinitionsEditor({ labs, onSaved, onCancel }: {
+  labs: LabDefinition[];
+  onSaved: (labs: LabDefinition[]) => void;
+  onCancel: () => void;
+}) {
+  const [rows, setRows]     = useState<LabDefinition[]>(labs.map(l => ({ ...l })));
+  const [saving, setSaving] = useState(false);
+  const [error, setError]   = useState('');
+
+  const update = (i: number, patch: Partial<LabDefinition>) =>
+    setRows(prev => prev.map((l, idx) => (idx === i ? { ...l, ...patch } : l)));
+
+  const addLab = () =>
+    setRows(prev => [...prev, { name: `LAB ${prev.length + 1}`, capacity: prev[prev.length - 1]?.capacity ?? 40 }]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    const result = await updateLabDefinitions(rows);
+    setSaving(false);
+    if (result.success) onSaved(rows);
+    else setError(isUnauthorized(result) ? 'Not allowed' : result.error ?? 'Failed to save labs');
+  };
+
+  return (
+    <div style={{ border: '1px solid rgba(255,255,255,0.15)', padding: '1.25rem', marginBottom: '2rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      <div style={{ fontFamily: 'monospace', fontSize: '0.7rem', color: 'rgba(255,255,255,0.5)', letterSpacing: '0.08em' }}>
+        LABS — seats and WiFi handed to everyone allocated there
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: GRID, gap: '0.5rem' }}>
+        <div style={headStyle}>NAME</div>
+        <div style={headStyle}>SEATS</div>
+        <div style={headStyle}>WIFI SSID</div>
+        <div style={headStyle}>WIFI PASSWORD</div>
+        <div />
+      </div>
+
+      {rows.map((lab, i) => (
+        <div key={i} style={{ display: 'grid', gridTemplateColumns: GRID, gap: '0.5rem', alignItems: 'center' }}>
+          <input style={inputStyle} value={lab.name} onChange={e => update(i, { name: e.target.value })} />
+          <input style={inputStyle} type="number" min={1} value={lab.capacity}
+            onChange={e => update(i, { capacity: Number(e.target.value) })} />
+          <input style={inputStyle} value={lab.wifiSsid ?? ''} onChange={e => update(i, { wifiSsid: e.target.value })} />
+          <input style={inputStyle} value={lab.wifiPassword ?? ''} onChange={e => update(i, { wifiPassword: e.target.value })} />
+          <button
+            onClick={() => setRows(prev => prev.filter((_, idx) => idx !== i))}
+            style={{ ...btnStyle, padding: '0.35rem', color: '#f87171', borderColor: 'rgba(248,113,113,0.3)' }}
+            aria-label="Remove lab"
+          >×</button>
+        </div>
+      ))}
+
+      {error && (
+        <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: '#f87171' }}>{error}</div>
+      )}
+
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <button onClick={addLab} style={btnStyle}>+ ADD LAB</button>
+        <div style={{ flex: 1 }} />
+        <button onClick={onCancel} style={btnStyle}>CANCEL</button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          style={{ ...btnStyle, backgroundColor: '#fff', color: '#000', border: 'none', fontWeight: 'bold', opacity: saving ? 0.5 : 1 }}
+        >
+          {saving ? 'SAVING…' : 'SAVE LABS'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DBParticipant, DBSponsor, Trashed, UnauthorizedResult, isUnauthorized } from '@/types';
+
+const labelStyle: React.CSSProperties = {
+  fontFamily: 'monospace', fontSize: '0.65rem',
+  color: 'rgba(255,255,255,0.35)', letterSpacing: '0.08em',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.3rem 0.6rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(255,255,255,0.2)', color: 'rgba(255,255,255,0.7)',
+  fontFamily: 'monospace', fontSize: '0.65rem', cursor: 'pointer',
+  letterSpacing: '0.05em', whiteSpace: 'nowrap',
+};
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleString('en-IN', {
+    timeZone: 'Asia/Kolkata', day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit',
+  });
+
+type ActionResult = { success: boolean; error?: string } | UnauthorizedResult;
+
+interface TrashPanelProps<T extends DBParticipant | DBSponsor> {
+  /** Plural noun for headings and messages, e.g. "participants" */
+  noun: string;
+  load: () => Promise<Trashed<T>[] | UnauthorizedResult>;
+  restore: (id: string) => Promise<ActionResult>;
+  purge: (id: string) => Promise<ActionResult>;
+  /** Main line and detail line shown for each record */
+  describe: (item: Trashed<T>) => { title: string; detail: string };
+  /** Called after a record is restored so the page can reload its list */
+  onRestored: () => void;
+}
+
+/**
+ * Trash view for participants or sponsors: lists deleted records with
+ * who deleted them and when they will be purged, and lets the user
+ * restore or permanently delete each one.
+ */
+export default function TrashPanel<T extends DBParticipant | DBSponsor>({
+  noun, load, restore, purge, describe, onRestored,
+}: TrashPanelProps<T>) {
+  const [items, setItems]     = useState<Trashed<T>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId]   = useState<string | null>(null);
+  const [error, setError]     = useState('');
+
+  const refresh = async () => {
+    const result = await load();
+    setItems(isUnauthorized(result) ? [] : result);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    load()
+      .then(result => { if (!cancelled) setItems(isUnauthorized(result) ? [] : result); })
+      .catch(err => { if (!cancelled) setError(`Failed to load trashed ${noun}`); console.error(err); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [load, noun]);
+
+  const run = async (id: string, action: () => Promise<ActionResult>, restored: boolean) => {
+    setBusyId(id);
+    setError('');
+    const result = await action();
+    setBusyId(null);
+    if (!result.success) {
+      setError(isUnauthorized(result) ? 'Not allowed' : result.error ?? 'Something went wrong');
+      return;
+    }
+    await refresh();
+    if (restored) onRestored();
+  };
+
+  return (
+    <div style={{ border: '1px solid rgba(248,113,113,0.25)', padding: '1rem 1.5rem', backgroundColor: 'rgba(248,113,113,0.03)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem', gap: '1rem', flexWrap: 'wrap' }}>
+        <div style={{ ...labelStyle, fontSize: '0.75rem', color: 'rgba(255,255,255,0.55)' }}>
+          TRASH · {items.length} {noun.toUpperCase()}
+        </div>
+        <div style={labelStyle}>Deleted {noun} are purged automatically after the retention period</div>
+      </div>
+
+      {error && <div style={{ fontFamily: 'monospace', fontSize: '0.7rem', color: '#f87171', marginBottom: '0.5rem' }}>{error}</div>}
+
+      {loading ? (
+        <div style={labelStyle}>Loading…</div>
+      ) : items.length === 0 ? (
+        <div style={labelStyle}>Trash is empty</div>
+      ) : items.map(item => {
+        const id = item._id!;
+        const { title, detail } = describe(item);
+        return (
+          <div key={id} style={{ display: 'flex', alignItems: 'center', gap: '1rem', padding: '0.5rem 0', borderBottom: '1px solid rgba(255,255,255,0.05)', opacity: busyId === id ? 0.5 : 1, flexWrap: 'wrap' }}>
+            <div style={{ flex: 1, minWidth: '200px' }}>
+              <div style={{ fontFamily: 'monospace', fontSize: '0.8rem', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                {title}
+              </div>
+              <div style={labelStyle}>
+                {detail} · deleted {formatTime(item.deletedAt)}{item.deletedBy ? ` by ${item.deletedBy}` : ''} · purged {formatTime(item.purgeAt)}
+              </div>
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button
+                disabled={busyId === id}
+                style={{ ...btnStyle, color: '#4ade80', borderColor: 'rgba(74,222,128,0.4)' }}
+                onClick={() => run(id, () => restore(id), true)}
+              >
+                RESTORE
+              </button>
+              <button
+                disabled={busyId === id}
+                style={{ ...btnStyle, color: '#f87171', borderColor: 'rgba(248,113,113,0.4)' }}
+                onClick={() => confirm(`Permanently delete "${title}"? This cannot be undone.`) && run(id, () => purge(id), false)}
+              >
+                DELETE FOREVER
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
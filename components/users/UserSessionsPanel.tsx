@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { UserSession, isUnauthorized } from '@/types';
+import { getUserSessions, revokeUserSession, revokeAllUserSessions } from '@/actions/sessions';
+
+const labelStyle: React.CSSProperties = {
+  fontFamily: 'monospace', fontSize: '0.65rem',
+  color: 'rgba(255,255,255,0.35)', letterSpacing: '0.08em',
+};
+const btnStyle: React.CSSProperties = {
+  padding: '0.3rem 0.6rem', backgroundColor: 'transparent',
+  border: '1px solid rgba(248,113,113,0.4)', color: '#f87171',
+  fontFamily: 'monospace', fontSize: '0.65rem', cursor: 'pointer',
+  letterSpacing: '0.05em', whiteSpace: 'nowrap',
+};
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleString('en-IN', {
+    timeZone: 'Asia/Kolkata', day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit',
+  });
+
+export default function UserSessionsPanel({ userId }: { userId: string }) {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading]   = useState(true);
+  const [error, setError]       = useState('');
+
+  const load = async () => {
+    const result = await getUserSessions(userId);
+    setSessions(isUnauthorized(result) ? [] : result);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    getUserSessions(userId)
+      .then(result => { if (!cancelled) setSessions(isUnauthorized(result) ? [] : result); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setError('');
+    const result = await action();
+    if (!result.success) setError(result.error ?? 'Failed to revoke');
+    await load();
+  };
+
+  const others = sessions.filter(s => !s.current);
+
+  return (
+    <div style={{ padding: '0.75rem 1.25rem 1rem', backgroundColor: 'rgba(255,255,255,0.02)', borderTop: '1px solid rgba(255,255,255,0.05)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem', gap: '1rem' }}>
+        <div style={labelStyle}>ACTIVE SESSIONS · {sessions.length}</div>
+        {others.length > 0 && (
+          <button style={btnStyle} onClick={() => run(() => revokeAllUserSessions(userId))}>
+            REVOKE ALL{sessions.length > others.length ? ' OTHERS' : ''}
+          </button>
+        )}
+      </div>
+
+      {error && <div style={{ fontFamily: 'monospace', fontSize: '0.7rem', color: '#f87171', marginBottom: '0.5rem' }}>{error}</div>}
+
+      {loading ? (
+        <div style={labelStyle}>Loading…</div>
+      ) : sessions.length === 0 ? (
+        <div style={labelStyle}>No active sessions</div>
+      ) : sessions.map(s => (
+        <div key={s.id} style={{ display: 'flex', alignItems: 'center', gap: '1rem', padding: '0.4rem 0', borderBottom: '1px solid rgba(255,255,255,0.04)' }}>
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+              {s.userAgent ?? 'Unknown device'}
+            </div>
+            <div style={labelStyle}>
+              {s.ip ?? '—'} · signed in {formatTime(s.createdAt)} · last seen {formatTime(s.lastSeenAt)}
+            </div>
+          </div>
+          {s.current ? (
+            <span style={{ ...labelStyle, color: '#4ade80' }}>THIS SESSION</span>
+          ) : (
+            <button style={btnStyle} onClick={() => run(() => revokeUserSession(userId, s.id))}>REVOKE</button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/mongodb', () => ({ default: Promise.resolve({}) }));
+
+const { diffFields, REDACTED } = await import('@/lib/audit-log');
+
+describe('diffFields', () => {
+  it('records the before and after values of changed fields', () => {
+    expect(diffFields({ name: 'Asha', email: 'a@example.com' }, { name: 'Asha K', email: 'a@example.com' })).toEqual([
+      { field: 'name', before: 'Asha', after: 'Asha K' },
+    ]);
+  });
+
+  it('records a changed login password without its values', () => {
+    expect(diffFields({ loginPassword: 'old-secret' }, { loginPassword: 'new-secret' })).toEqual([
+      { field: 'loginPassword', before: REDACTED, after: REDACTED },
+    ]);
+  });
+
+  it('redacts the WiFi password but keeps the SSID', () => {
+    const changes = diffFields(
+      { wifiCredentials: { ssid: 'LAB-1', password: 'old-wifi' } },
+      { wifiCredentials: { ssid: 'LAB-2', password: 'new-wifi' } }
+    );
+    expect(changes).toEqual([{
+      field: 'wifiCredentials',
+      before: { ssid: 'LAB-1', password: REDACTED },
+      after: { ssid: 'LAB-2', password: REDACTED },
+    }]);
+  });
+
+  it('still reports a change when only a secret changed', () => {
+    const changes = diffFields(
+      { wifiCredentials: { ssid: 'LAB-1', password: 'old-wifi' } },
+      { wifiCredentials: { ssid: 'LAB-1', password: 'new-wifi' } }
+    );
+    expect(changes.map(c => c.field)).toEqual(['wifiCredentials']);
+    expect(JSON.stringify(changes)).not.toMatch(/old-wifi|new-wifi/);
+  });
+
+  it('redacts lab WiFi passwords inside arrays', () => {
+    const [change] = diffFields({}, { labs: [{ name: 'LAB-1', wifiSsid: 'LAB-1', wifiPassword: 'secret' }] });
+    expect(change.after).toEqual([{ name: 'LAB-1', wifiSsid: 'LAB-1', wifiPassword: REDACTED }]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import jwt from 'jsonwebtoken';
+import { NextRequest, NextResponse } from 'next/server';
+
+const SECRET = 'test-secret-that-is-at-least-32-characters-long';
+const USER_ID = '65f2a0c0e4b0a1b2c3d4e5f6';
+
+const state = vi.hoisted(() => ({
+  users: new Map<string, { email: string; role: string; isActive?: boolean }>(),
+  activeSessions: new Set<string>(),
+}));
+
+vi.mock('@/lib/mongodb', () => {
+  const users = {
+    findOne: async ({ _id, email }: { _id: { toString(): string }; email: string }) => {
+      const user = state.users.get(_id.toString());
+      return user && user.email === email ? user : null;
+    },
+  };
+  return { default: Promise.resolve({ db: () => ({ collection: () => users }) }) };
+});
+vi.mock('@/lib/sessions', () => ({
+  isSessionActive: async (jti: string) => state.activeSessions.has(jti),
+}));
+vi.mock('@/lib/two-factor', () => ({
+  getSecurityPolicy: async () => ({ requireTwoFactorForAdmins: false }),
+  isTwoFactorRequired: () => false,
+}));
+
+process.env.JWT_SECRET = SECRET;
+const { withAuth, JWT_CONFIG, SECURITY_HEADERS } = await import('@/lib/auth');
+
+const claims = { userId: USER_ID, email: 'organizer@example.com', role: 'organizer', jti: 'session-1' };
+const sign = (payload: object, secret = SECRET) => jwt.sign(payload, secret, { algorithm: 'HS256' });
+
+const request = (token?: string) =>
+  new NextRequest('http://localhost/api/test', {
+    headers: token ? { cookie: `${JWT_CONFIG.COOKIE_NAME}=${token}` } : {},
+  });
+
+const handler = vi.fn(async () => NextResponse.json({ ok: true }));
+const route = withAuth('participants.read')(handler);
+const call = (token?: string) => route(request(token), undefined);
+
+const expectSecurityHeaders = (response: Response) => {
+  for (const [name, value] of Object.entries(SECURITY_HEADERS)) {
+    expect(response.headers.get(name)).toBe(value);
+  }
+};
+
+describe('withAuth', () => {
+  beforeEach(() => {
+    handler.mockClear();
+    state.users.clear();
+    state.users.set(USER_ID, { email: claims.email, role: 'organizer' });
+    state.activeSessions = new Set([claims.jti]);
+  });
+
+  it('rejects a request without a token', async () => {
+    const response = await call();
+    expect(response.status).toBe(401);
+    expectSecurityHeaders(response);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed token', async () => {
+    for (const token of ['not-a-jwt', sign(claims, 'some-other-secret-of-at-least-32-chars'), sign({ userId: USER_ID })]) {
+      const response = await call(token);
+      expect(response.status).toBe(401);
+      expectSecurityHeaders(response);
+    }
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired token', async () => {
+    const response = await call(sign({ ...claims, exp: Math.floor(Date.now() / 1000) - 60 }));
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ error: 'Authentication token has expired' });
+    expectSecurityHeaders(response);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects a valid token whose session was revoked', async () => {
+    state.activeSessions.clear();
+
+    const response = await call(sign(claims));
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ error: 'Session has been revoked' });
+    expectSecurityHeaders(response);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects a deactivated user', async () => {
+    state.users.set(USER_ID, { email: claims.email, role: 'organizer', isActive: false });
+
+    const response = await call(sign(claims));
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 when the role lacks the permission', async () => {
+    const response = await withAuth('database')(handler)(request(sign(claims)), undefined);
+    expect(response.status).toBe(403);
+    expectSecurityHeaders(response);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('calls the handler with the session user and adds the security headers', async () => {
+    const response = await call(sign(claims));
+    expect(response.status).toBe(200);
+    expectSecurityHeaders(response);
+    expect(handler).toHaveBeenCalledWith(
+      expect.any(NextRequest),
+      expect.objectContaining({ id: USER_ID, email: claims.email, role: 'organizer', sessionId: 'session-1' }),
+      undefined
+    );
+  });
+});
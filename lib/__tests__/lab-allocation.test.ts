@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { planLabAllocation, type AllocationUnit } from '@/lib/lab-allocation';
+import type { LabDefinition } from '@/types';
+
+const LABS: LabDefinition[] = [{ name: 'LAB-1', capacity: 2, wifiSsid: 'LAB-1-WIFI', wifiPassword: 'secret' }];
+
+const seated = { labAllotted: 'LAB-1', wifiSsid: 'LAB-1-WIFI', wifiPassword: 'secret' };
+
+const units: AllocationUnit[] = [
+  {
+    key: 'TEAM-001',
+    teamId: 'TEAM-001',
+    label: 'TEAM-001 · Null Pointers',
+    members: [{ id: 'a', ...seated }, { id: 'b', ...seated }],
+    currentLab: 'LAB-1',
+    pinned: false,
+  },
+  {
+    key: 'P-003',
+    label: 'Chen (P-003)',
+    members: [{ id: 'c', ...seated }],
+    currentLab: 'LAB-1',
+    pinned: false,
+  },
+];
+
+describe('planLabAllocation', () => {
+  it('takes units a reset cannot seat out of their old lab', () => {
+    const { plan, released } = planLabAllocation(LABS, units, { mode: 'reset', spreadInstitutes: false });
+
+    expect(released.map(u => u.key)).toEqual(['P-003']);
+    expect(plan.unplaced).toEqual([expect.objectContaining({ label: 'Chen (P-003)', removedFrom: 'LAB-1' })]);
+    expect(plan.labs).toEqual([{ name: 'LAB-1', capacity: 2, before: 3, after: 2 }]);
+    expect(plan.changedParticipants).toBe(1);
+  });
+
+  it('keeps everyone in place outside reset mode', () => {
+    const { plan, released } = planLabAllocation(LABS, units, { mode: 'fill', spreadInstitutes: false });
+
+    expect(released).toEqual([]);
+    expect(plan.unplaced).toEqual([]);
+    expect(plan.changedParticipants).toBe(0);
+  });
+});
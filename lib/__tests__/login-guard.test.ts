@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+interface LockoutRow { email: string; failures: number; lockedUntil?: Date; updatedAt: Date }
+
+const store = vi.hoisted(() => ({
+  lockouts: new Map<string, LockoutRow>(),
+  audit: [] as { email: string; reason: string }[],
+}));
+
+vi.mock('@/lib/mongodb', () => {
+  const lockouts = {
+    createIndex: async () => '',
+    findOne: async ({ email }: { email: string }) => store.lockouts.get(email) ?? null,
+    findOneAndUpdate: async (
+      { email }: { email: string },
+      update: { $inc: { failures: number }; $set: { updatedAt: Date } }
+    ) => {
+      const row = store.lockouts.get(email) ?? { email, failures: 0, updatedAt: update.$set.updatedAt };
+      row.failures += update.$inc.failures;
+      row.updatedAt = update.$set.updatedAt;
+      store.lockouts.set(email, row);
+      return { ...row };
+    },
+    updateOne: async ({ email }: { email: string }, update: { $set: Partial<LockoutRow> }) => {
+      const row = store.lockouts.get(email);
+      if (row) Object.assign(row, update.$set);
+    },
+    deleteOne: async ({ email }: { email: string }) => { store.lockouts.delete(email); },
+  };
+  const audit = {
+    createIndex: async () => '',
+    insertOne: async (entry: { email: string; reason: string }) => { store.audit.push(entry); },
+  };
+  const client = {
+    db: () => ({ collection: (name: string) => (name === 'login_lockouts' ? lockouts : audit) }),
+  };
+  return { default: Promise.resolve(client) };
+});
+
+const {
+  LOCKOUT_CONFIG,
+  getLockDurationMs,
+  getLockedUntil,
+  recordLoginFailure,
+  clearLoginFailures,
+} = await import('@/lib/login-guard');
+
+const EMAIL = 'organizer@example.com';
+const fail = (reason: 'bad_password' | 'locked' = 'bad_password') =>
+  recordLoginFailure({ email: EMAIL, ip: '203.0.113.7', reason });
+
+describe('getLockDurationMs', () => {
+  it('does not lock within the free attempts', () => {
+    expect(getLockDurationMs(0)).toBe(0);
+    expect(getLockDurationMs(LOCKOUT_CONFIG.FREE_ATTEMPTS - 1)).toBe(0);
+  });
+
+  it('doubles the lock with every further failure', () => {
+    const first = LOCKOUT_CONFIG.FREE_ATTEMPTS;
+    expect(getLockDurationMs(first)).toBe(LOCKOUT_CONFIG.BASE_LOCK_MS);
+    expect(getLockDurationMs(first + 1)).toBe(LOCKOUT_CONFIG.BASE_LOCK_MS * 2);
+    expect(getLockDurationMs(first + 3)).toBe(LOCKOUT_CONFIG.BASE_LOCK_MS * 8);
+  });
+
+  it('caps the lock at MAX_LOCK_MS', () => {
+    expect(getLockDurationMs(LOCKOUT_CONFIG.FREE_ATTEMPTS + 50)).toBe(LOCKOUT_CONFIG.MAX_LOCK_MS);
+  });
+});
+
+describe('account lockout', () => {
+  const NOW = new Date('2026-03-14T10:00:00Z');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    store.lockouts.clear();
+    store.audit = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('locks the account once the free attempts are used up', async () => {
+    for (let i = 1; i < LOCKOUT_CONFIG.FREE_ATTEMPTS; i++) await fail();
+    expect(await getLockedUntil(EMAIL)).toBeNull();
+
+    await fail();
+    expect(await getLockedUntil(EMAIL)).toEqual(new Date(NOW.getTime() + LOCKOUT_CONFIG.BASE_LOCK_MS));
+  });
+
+  it('audits every failed attempt', async () => {
+    await fail();
+    await fail();
+    expect(store.audit.map(e => e.email)).toEqual([EMAIL, EMAIL]);
+  });
+
+  it('unlocks when the lock expires', async () => {
+    for (let i = 0; i < LOCKOUT_CONFIG.FREE_ATTEMPTS; i++) await fail();
+
+    vi.setSystemTime(NOW.getTime() + LOCKOUT_CONFIG.BASE_LOCK_MS + 1);
+    expect(await getLockedUntil(EMAIL)).toBeNull();
+  });
+
+  it('does not extend the lock for attempts rejected as locked', async () => {
+    for (let i = 0; i < LOCKOUT_CONFIG.FREE_ATTEMPTS; i++) await fail();
+    const lockedUntil = await getLockedUntil(EMAIL);
+
+    await fail('locked');
+    expect(await getLockedUntil(EMAIL)).toEqual(lockedUntil);
+    expect(store.audit).toHaveLength(LOCKOUT_CONFIG.FREE_ATTEMPTS + 1);
+  });
+
+  it('resets the counter after a successful login', async () => {
+    for (let i = 0; i < LOCKOUT_CONFIG.FREE_ATTEMPTS; i++) await fail();
+    await clearLoginFailures(EMAIL);
+    expect(await getLockedUntil(EMAIL)).toBeNull();
+
+    // A fresh counter gets the free attempts again
+    await fail();
+    expect(await getLockedUntil(EMAIL)).toBeNull();
+  });
+});
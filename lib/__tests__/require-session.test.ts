@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { UnauthorizedResult } from '@/types';
+
+const mongo = vi.hoisted(() => {
+  const client = { db: vi.fn(() => { throw new Error('MongoDB must not be reached'); }) };
+  return { client, getClient: vi.fn(async () => client) };
+});
+
+vi.mock('@/lib/mongodb', () => ({
+  default: Promise.resolve(mongo.client),
+  getClient: mongo.getClient,
+  PARTICIPANTS_DB: 'hackoverflow',
+  BOT_DB: 'hackoverflow',
+}));
+vi.mock('@/actions/auth', () => ({
+  checkSessionAction: vi.fn(async () => ({ authenticated: false, user: null })),
+}));
+vi.mock('googleapis', () => ({ google: {} }));
+
+const modules = {
+  participants: await import('@/actions/participants'),
+  sponsors: await import('@/actions/sponsors'),
+  database: await import('@/actions/database'),
+  backup: await import('@/actions/backup'),
+};
+
+const UNAUTHENTICATED: UnauthorizedResult = {
+  success: false,
+  unauthorized: true,
+  reason: 'unauthenticated',
+  error: 'Authentication required',
+};
+
+const actions = Object.entries(modules).flatMap(([module, exports]) =>
+  Object.entries(exports)
+    .filter(([, value]) => typeof value === 'function')
+    .map(([name, action]) => [`${module}.${name}`, action as (...args: unknown[]) => Promise<unknown>] as const)
+);
+
+describe('requireSession', () => {
+  beforeEach(() => {
+    mongo.client.db.mockClear();
+    mongo.getClient.mockClear();
+  });
+
+  it('covers the destructive actions', () => {
+    expect(actions.map(([name]) => name)).toEqual(expect.arrayContaining([
+      'participants.deleteAllParticipants',
+      'participants.purgeParticipant',
+      'sponsors.deleteAllSponsors',
+      'database.deleteCollection',
+      'database.upsertParticipantsFromCSV',
+      'backup.backupToDrive',
+    ]));
+  });
+
+  it.each(actions)('%s rejects an anonymous caller without touching MongoDB', async (_name, action) => {
+    await expect(action('000000000000000000000000', {}, {})).resolves.toEqual(UNAUTHENTICATED);
+    expect(mongo.client.db).not.toHaveBeenCalled();
+    expect(mongo.getClient).not.toHaveBeenCalled();
+  });
+});
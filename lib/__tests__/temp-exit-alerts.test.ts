@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_TEMP_EXIT_ALERT, type TempExitAlertSettings } from '@/types';
+
+interface FakeParticipant {
+  _id: string;
+  participantId: string;
+  name: string;
+  tempLabCheckOut?: { status: boolean; time?: Date; alertedAt?: Date };
+  labCheckOut?: { status: boolean };
+  collegeCheckOut?: { status: boolean };
+}
+
+const db = vi.hoisted(() => ({
+  participants: [] as FakeParticipant[],
+  scheduled: [] as unknown[],
+  settings: {} as TempExitAlertSettings,
+}));
+
+vi.mock('@/lib/mongodb', () => {
+  const participants = {
+    find: () => ({
+      project: () => ({
+        toArray: async () => db.participants.filter(p => p.tempLabCheckOut?.status && !p.tempLabCheckOut.alertedAt),
+      }),
+    }),
+    // Mirrors the claim filter: only an unalerted exit can be stamped
+    updateOne: async (filter: { _id: string }, update: { $set: Record<string, Date> }) => {
+      const p = db.participants.find(d => d._id === filter._id);
+      if (!p?.tempLabCheckOut?.status || p.tempLabCheckOut.alertedAt) return { modifiedCount: 0 };
+      p.tempLabCheckOut.alertedAt = update.$set['tempLabCheckOut.alertedAt'];
+      return { modifiedCount: 1 };
+    },
+  };
+  const scheduledMessages = { insertOne: async (doc: unknown) => { db.scheduled.push(doc); } };
+  const client = {
+    db: () => ({ collection: (name: string) => (name === 'participants' ? participants : scheduledMessages) }),
+  };
+  return { default: Promise.resolve(client), PARTICIPANTS_DB: 'hackoverflow', BOT_DB: 'hackoverflow' };
+});
+vi.mock('@/lib/trash', () => ({ NOT_TRASHED: {} }));
+vi.mock('@/lib/email', () => ({ sendNotificationEmail: vi.fn(async () => undefined) }));
+vi.mock('@/lib/event-config', () => ({ getTempExitAlertSettings: async () => db.settings }));
+
+const { isTempExitOverdue, runTempExitAlerts } = await import('@/lib/temp-exit-alerts');
+const { sendNotificationEmail } = await import('@/lib/email');
+
+const NOW = new Date('2026-03-14T10:00:00Z');
+const minutesAgo = (m: number) => new Date(NOW.getTime() - m * 60_000);
+
+const settings = (overrides: Partial<TempExitAlertSettings> = {}): TempExitAlertSettings => ({
+  ...DEFAULT_TEMP_EXIT_ALERT,
+  emailTo: ['staff@example.com'],
+  discordChannelId: '123456789012345678',
+  ...overrides,
+});
+
+const outFor = (minutes: number) => ({ tempLabCheckOut: { status: true, time: minutesAgo(minutes) } });
+
+describe('isTempExitOverdue', () => {
+  it('flags an exit once it has lasted the threshold', () => {
+    expect(isTempExitOverdue(outFor(9), settings({ thresholdMinutes: 10 }), NOW)).toBe(false);
+    expect(isTempExitOverdue(outFor(10), settings({ thresholdMinutes: 10 }), NOW)).toBe(true);
+    expect(isTempExitOverdue(outFor(45), settings({ thresholdMinutes: 30 }), NOW)).toBe(true);
+  });
+
+  it('ignores exits that were already alerted', () => {
+    const p = { tempLabCheckOut: { status: true, time: minutesAgo(60), alertedAt: minutesAgo(50) } };
+    expect(isTempExitOverdue(p, settings(), NOW)).toBe(false);
+  });
+
+  it('ignores closed exits and participants who checked out', () => {
+    expect(isTempExitOverdue({ tempLabCheckOut: { status: false, time: minutesAgo(60) } }, settings(), NOW)).toBe(false);
+    expect(isTempExitOverdue({ ...outFor(60), labCheckOut: { status: true } }, settings(), NOW)).toBe(false);
+    expect(isTempExitOverdue({ ...outFor(60), collegeCheckOut: { status: true } }, settings(), NOW)).toBe(false);
+  });
+
+  it('never flags anything while alerts are disabled', () => {
+    expect(isTempExitOverdue(outFor(600), settings({ enabled: false }), NOW)).toBe(false);
+  });
+});
+
+describe('runTempExitAlerts', () => {
+  beforeEach(() => {
+    vi.mocked(sendNotificationEmail).mockClear();
+    db.scheduled = [];
+    db.settings = settings({ thresholdMinutes: 10 });
+    db.participants = [
+      { _id: 'a', participantId: 'P-001', name: 'Asha', ...outFor(25) },
+      { _id: 'b', participantId: 'P-002', name: 'Bilal', ...outFor(5) },
+    ];
+  });
+
+  it('alerts overdue exits by email and Discord', async () => {
+    const result = await runTempExitAlerts(NOW);
+
+    expect(result.alerted).toEqual([{ participantId: 'P-001', name: 'Asha', teamName: undefined, minutesOut: 25 }]);
+    expect(result.emailSent).toBe(true);
+    expect(result.discordQueued).toBe(true);
+    expect(sendNotificationEmail).toHaveBeenCalledTimes(1);
+    expect(db.scheduled).toHaveLength(1);
+  });
+
+  it('alerts each exit only once across runs', async () => {
+    await runTempExitAlerts(NOW);
+    const second = await runTempExitAlerts(new Date(NOW.getTime() + 5 * 60_000));
+
+    // Asha was already alerted; Bilal has now been out for 10 minutes
+    expect(second.alerted.map(a => a.participantId)).toEqual(['P-002']);
+    const third = await runTempExitAlerts(new Date(NOW.getTime() + 10 * 60_000));
+    expect(third.alerted).toEqual([]);
+    expect(sendNotificationEmail).toHaveBeenCalledTimes(2);
+  });
+
+  it('alerts again after a new exit replaces the alerted one', async () => {
+    await runTempExitAlerts(NOW);
+    db.participants[0].tempLabCheckOut = { status: true, time: NOW };
+
+    const later = await runTempExitAlerts(new Date(NOW.getTime() + 15 * 60_000));
+    expect(later.alerted.map(a => a.participantId)).toEqual(['P-001', 'P-002']);
+  });
+
+  it('sends nothing while alerts are disabled', async () => {
+    db.settings = settings({ enabled: false });
+
+    const result = await runTempExitAlerts(NOW);
+    expect(result.alerted).toEqual([]);
+    expect(sendNotificationEmail).not.toHaveBeenCalled();
+    expect(db.scheduled).toHaveLength(0);
+    expect(db.participants[0].tempLabCheckOut?.alertedAt).toBeUndefined();
+  });
+});
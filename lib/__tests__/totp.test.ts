@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { hotp, totp, base32Encode, base32Decode, verifyTotp, getTotpStep, type TotpAlgorithm } from '@/lib/totp';
+
+/** RFC 6238 Appendix B seeds — the ASCII strings given for each algorithm */
+const SEEDS: Record<TotpAlgorithm, Buffer> = {
+  sha1:   Buffer.from('12345678901234567890', 'ascii'),
+  sha256: Buffer.from('12345678901234567890123456789012', 'ascii'),
+  sha512: Buffer.from('1234567890123456789012345678901234567890123456789012345678901234', 'ascii'),
+};
+
+/** RFC 6238 Appendix B (8 digits, 30 s step) */
+const VECTORS = [
+  { time: 59,          sha1: '94287082', sha256: '46119246', sha512: '90693936' },
+  { time: 1111111109,  sha1: '07081804', sha256: '68084774', sha512: '25091201' },
+  { time: 1111111111,  sha1: '14050471', sha256: '67062674', sha512: '99943326' },
+  { time: 1234567890,  sha1: '89005924', sha256: '91819424', sha512: '93441116' },
+  { time: 2000000000,  sha1: '69279037', sha256: '90698825', sha512: '38618901' },
+  { time: 20000000000, sha1: '65353130', sha256: '77737706', sha512: '47863826' },
+];
+
+/** RFC 4226 Appendix D (6 digits, SHA-1, counters 0–9) */
+const HOTP_VECTORS = [
+  '755224', '287082', '359152', '969429', '338314',
+  '254676', '287922', '162583', '399871', '520489',
+];
+
+describe('totp', () => {
+  for (const vector of VECTORS) {
+    for (const algorithm of ['sha1', 'sha256', 'sha512'] as const) {
+      it(`matches RFC 6238 at T=${vector.time} with ${algorithm.toUpperCase()}`, () => {
+        expect(totp(SEEDS[algorithm], vector.time * 1000, { digits: 8, algorithm })).toBe(vector[algorithm]);
+      });
+    }
+  }
+
+  it('matches the RFC 4226 HOTP values', () => {
+    expect(HOTP_VECTORS.map((_, counter) => hotp(SEEDS.sha1, counter))).toEqual(HOTP_VECTORS);
+  });
+});
+
+describe('base32', () => {
+  it('round-trips the RFC seed', () => {
+    const secret = base32Encode(SEEDS.sha1);
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(secret).toString('ascii')).toBe('12345678901234567890');
+  });
+});
+
+describe('verifyTotp', () => {
+  const secret = base32Encode(SEEDS.sha1);
+  const now = 1111111111 * 1000;
+  const step = getTotpStep(now);
+  const codeAt = (offsetSteps: number) => totp(SEEDS.sha1, now + offsetSteps * 30_000);
+
+  it('accepts the current code and returns its step', () => {
+    expect(verifyTotp(secret, codeAt(0), now)).toBe(step);
+  });
+
+  it('tolerates spaces inside the code', () => {
+    const code = codeAt(0);
+    expect(verifyTotp(secret, `${code.slice(0, 3)} ${code.slice(3)}`, now)).toBe(step);
+  });
+
+  it('allows one step of clock drift either way', () => {
+    expect(verifyTotp(secret, codeAt(-1), now)).toBe(step - 1);
+    expect(verifyTotp(secret, codeAt(1), now)).toBe(step + 1);
+  });
+
+  it('rejects codes outside the drift window', () => {
+    expect(verifyTotp(secret, codeAt(-2), now)).toBeNull();
+    expect(verifyTotp(secret, codeAt(2), now)).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(secret, '12345', now)).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', now)).toBeNull();
+  });
+
+  it('rejects a replay of the last used step', () => {
+    expect(verifyTotp(secret, codeAt(0), now, step)).toBeNull();
+  });
+
+  it('rejects earlier steps once a later one was used', () => {
+    expect(verifyTotp(secret, codeAt(-1), now, step)).toBeNull();
+    expect(verifyTotp(secret, codeAt(1), now, step)).toBe(step + 1);
+  });
+});
@@ -309,3 +309,18 @@ export function methodNotAllowedResponse(
     }
   );
 }
+
+/**
+ * Adds the standard security headers to a response built elsewhere
+ * (e.g. a plain `NextResponse.json` from a route handler). Headers the
+ * response already sets are left alone.
+ *
+ * @param response - Response to decorate
+ * @returns The same response, for chaining
+ */
+export function applySecurityHeaders<R extends Response>(response: R): R {
+  for (const [name, value] of Object.entries(SECURITY_HEADERS)) {
+    if (!response.headers.has(name)) response.headers.set(name, value);
+  }
+  return response;
+}
@@ -0,0 +1,125 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of administrative mutations — who changed what,
+ * when, and a field-level before/after diff where one record changed.
+ * Secrets such as participant passwords are recorded as changed but
+ * never stored, since entries outlive the records they describe.
+ * Written by the mutating server actions and bot-config API routes;
+ * read through actions/audit-log.
+ *
+ * Server-only.
+ *
+ * @module lib/audit-log
+ */
+
+import clientPromise from '@/lib/mongodb';
+import type { AuditChange, AuditLogEntry } from '@/types';
+
+const DB_NAME = 'hackoverflow';
+export const AUDIT_LOG_COLLECTION = 'audit_log';
+
+/** Actor recorded for scheduled jobs that change data without a signed-in user */
+export const SYSTEM_ACTOR = { id: 'system', email: 'system' } as const;
+
+/** Bookkeeping fields left out of diffs */
+const IGNORED_FIELDS = new Set(['_id', 'createdAt', 'updatedAt', 'updatedBy', '__v']);
+
+/**
+ * Secret fields, matched by name at any depth — `loginPassword`,
+ * `wifiCredentials.password` and a lab's `wifiPassword`
+ */
+const REDACTED_FIELDS = new Set(['loginPassword', 'password', 'wifiPassword']);
+
+/** Stored in place of a redacted value */
+export const REDACTED = '[redacted]';
+
+let indexesEnsured = false;
+
+/**
+ * Get the audit collection, creating its query indexes on first use
+ */
+export async function getAuditLogCollection() {
+  const client = await clientPromise;
+  const collection = client.db(DB_NAME).collection<Omit<AuditLogEntry, '_id'>>(AUDIT_LOG_COLLECTION);
+
+  if (!indexesEnsured) {
+    await Promise.all([
+      collection.createIndex({ timestamp: -1 }),
+      collection.createIndex({ actorEmail: 1, timestamp: -1 }),
+      collection.createIndex({ action: 1, timestamp: -1 }),
+      collection.createIndex({ targetIds: 1, timestamp: -1 }),
+    ]);
+    indexesEnsured = true;
+  }
+
+  return collection;
+}
+
+/** Comparable form of a value — dates and ObjectIds compare by content */
+function normalize(value: unknown): string | undefined {
+  return value === undefined ? undefined : JSON.stringify(value);
+}
+
+/** Copy of `value` with every secret field replaced by REDACTED */
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value === null || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [key, REDACTED_FIELDS.has(key) && v !== undefined ? REDACTED : redact(v)])
+  );
+}
+
+/**
+ * Top-level fields that differ between two versions of a record
+ *
+ * Pass `{}` as `after` to capture a deleted record, or as `before` for
+ * a created one. Nested objects are compared as a whole. Secret fields
+ * are compared on their real values but stored as REDACTED.
+ *
+ * @param fields - Only compare these fields (default: every field present in either)
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields?: readonly string[]
+): AuditChange[] {
+  const keys = fields ?? [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return keys
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => normalize(before[field]) !== normalize(after[field]))
+    .map(field => {
+      const stored = (value: unknown) => (REDACTED_FIELDS.has(field) ? REDACTED : redact(value));
+      return {
+        field,
+        ...(before[field] !== undefined && { before: stored(before[field]) }),
+        ...(after[field] !== undefined && { after: stored(after[field]) }),
+      };
+    });
+}
+
+/**
+ * Append an entry to the audit log
+ *
+ * Failures are logged rather than thrown: the mutation has already been
+ * applied, and a missing audit entry must not turn it into an error.
+ *
+ * @param actor - Signed-in user who made the change
+ */
+export async function recordAudit(
+  actor: { id: string; email: string },
+  entry: Omit<AuditLogEntry, '_id' | 'actorId' | 'actorEmail' | 'timestamp'>
+): Promise<void> {
+  try {
+    const collection = await getAuditLogCollection();
+    await collection.insertOne({
+      ...entry,
+      actorId: actor.id,
+      actorEmail: actor.email,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    console.error('Error recording audit entry:', error);
+  }
+}
@@ -8,10 +8,15 @@
  */
 
 import type { NextRequest } from 'next/server';
+import crypto from 'crypto';
 import jwt, { JsonWebTokenError, TokenExpiredError } from 'jsonwebtoken';
 import { z } from 'zod';
 import { JWTPayloadSchema, type JWTPayload } from './validation';
 import clientPromise from './mongodb';
+import { isSessionActive } from './sessions';
+import { getSecurityPolicy, isTwoFactorRequired } from './two-factor';
+import { hasPermission, type Permission } from './permissions';
+import { unauthorizedResponse, forbiddenResponse, applySecurityHeaders } from './api-response';
 import { ObjectId } from 'mongodb';
 
 /**
@@ -59,10 +64,29 @@ export const JWT_CONFIG = {
   COOKIE_NAME: 'auth-token' as const,
   /** Cookie max age in seconds (7 days) */
   COOKIE_MAX_AGE: 60 * 60 * 24 * 7,
+  /** Tokens with less than this many seconds left are re-issued by the proxy */
+  REFRESH_THRESHOLD: 60 * 60 * 24,
   /** Algorithm used for signing */
   ALGORITHM: 'HS256' as const,
 } as const;
 
+/**
+ * Two-factor login challenge configuration
+ *
+ * Between the password step and the code step the browser holds a
+ * short-lived challenge token in its own cookie. It is signed with the
+ * same secret but lacks the session claims, so it can never pass
+ * `verifyToken` as an auth token.
+ */
+export const TWO_FACTOR_CHALLENGE = {
+  /** Cookie name for the pending challenge */
+  COOKIE_NAME: 'auth-2fa' as const,
+  /** Seconds the user has to enter their code */
+  MAX_AGE: 5 * 60,
+  /** Marks the token's purpose so it is never mistaken for another */
+  PURPOSE: '2fa' as const,
+} as const;
+
 /**
  * Result type for token verification
  */
@@ -186,6 +210,44 @@ export function generateToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string
   });
 }
 
+/**
+ * Whether a verified token is close enough to expiry to be re-issued
+ *
+ * @param payload - Payload of a token that passed `verifyToken`
+ */
+export function shouldRefreshToken(payload: JWTPayload): boolean {
+  if (!payload.exp) return false;
+  return payload.exp - Math.floor(Date.now() / 1000) < JWT_CONFIG.REFRESH_THRESHOLD;
+}
+
+/**
+ * Issues a challenge token for the second login step
+ *
+ * @param userId - User who passed the password check
+ */
+export function generateTwoFactorChallenge(userId: string): string {
+  return jwt.sign(
+    { userId, purpose: TWO_FACTOR_CHALLENGE.PURPOSE },
+    getJWTSecret(),
+    { expiresIn: TWO_FACTOR_CHALLENGE.MAX_AGE, algorithm: JWT_CONFIG.ALGORITHM }
+  );
+}
+
+/**
+ * Verifies a challenge token
+ *
+ * @returns The user ID it was issued for, or null if invalid or expired
+ */
+export function verifyTwoFactorChallenge(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, getJWTSecret(), { algorithms: [JWT_CONFIG.ALGORITHM] });
+    if (typeof decoded !== 'object' || decoded.purpose !== TWO_FACTOR_CHALLENGE.PURPOSE) return null;
+    return typeof decoded.userId === 'string' ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Session verification result
  */
@@ -201,6 +263,19 @@ export interface SessionUser {
   email: string;
   name?: string;
   role: string;
+  /** `jti` of the session this request is authenticated by */
+  sessionId: string;
+  /** Policy requires 2FA for this role but the user has not enrolled */
+  twoFactorSetupRequired: boolean;
+}
+
+/**
+ * Whether a signed-in user still has to enroll in 2FA under the
+ * current security policy
+ */
+export async function needsTwoFactorSetup(user: { role?: string; twoFactor?: unknown }): Promise<boolean> {
+  if (user.twoFactor) return false;
+  return isTwoFactorRequired(user.role ?? 'admin', await getSecurityPolicy());
 }
 
 /**
@@ -210,6 +285,7 @@ export interface SessionUser {
  * 1. The token is valid and not expired
  * 2. The user still exists in the database
  * 3. The user account is still active
+ * 4. The session has not been revoked (see lib/sessions)
  * 
  * @param request - Next.js request object
  * @returns Session verification result with user data or error
@@ -227,7 +303,7 @@ export async function verifySession(
     };
   }
   
-  const { userId, email, role } = tokenResult.payload;
+  const { userId, email, role, jti } = tokenResult.payload;
   
   try {
     // Verify user exists in database
@@ -263,6 +339,14 @@ export async function verifySession(
       };
     }
     
+    // Check the session has not been revoked or logged out
+    if (!(await isSessionActive(jti, userId))) {
+      return {
+        valid: false,
+        error: 'Session has been revoked',
+      };
+    }
+    
     return {
       valid: true,
       user: {
@@ -270,6 +354,8 @@ export async function verifySession(
         email: user.email,
         name: user.name,
         role: user.role ?? role,
+        sessionId: jti,
+        twoFactorSetupRequired: await needsTwoFactorSetup({ role: user.role ?? role, twoFactor: user.twoFactor }),
       },
     };
   } catch (error) {
@@ -281,6 +367,64 @@ export async function verifySession(
   }
 }
 
+/**
+ * Wraps an API route handler so it only runs for a verified session
+ *
+ * The session is checked against the database (see `verifySession`),
+ * so revoked sessions and deactivated users are rejected even while
+ * their token is unexpired. Rejections use the standard 401/403
+ * responses from lib/api-response, and the handler's own response gets
+ * `SECURITY_HEADERS` added.
+ *
+ * @param permission - Permission(s) required, any one suffices.
+ *                     Omit to allow any signed-in user.
+ *
+ * @example
+ * ```typescript
+ * export const GET = withAuth('bot')(async (request, user) => {
+ *   return NextResponse.json({ email: user.email });
+ * });
+ * ```
+ */
+export function withAuth(permission?: Permission | Permission[]) {
+  return function <Context>(
+    handler: (request: NextRequest, user: SessionUser, context: Context) => Promise<Response>
+  ): (request: NextRequest, context: Context) => Promise<Response> {
+    return async (request, context) => {
+      const session = await verifySession(request);
+      if (!session.valid) {
+        return unauthorizedResponse(session.error);
+      }
+
+      if (permission && !hasPermission(session.user.role, permission)) {
+        return forbiddenResponse('You do not have permission to access this resource');
+      }
+
+      if (permission && session.user.twoFactorSetupRequired) {
+        return forbiddenResponse('Two-factor authentication is required for your role');
+      }
+
+      return applySecurityHeaders(await handler(request, session.user, context));
+    };
+  };
+}
+
+/**
+ * Whether a scheduled-job request carries the `x-cron-secret` header
+ * matching `CRON_SECRET`
+ *
+ * Both values are hashed first so the constant-time comparison also
+ * hides the secret's length.
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  const expected = process.env.CRON_SECRET;
+  const provided = request.headers.get('x-cron-secret');
+  if (!expected || !provided) return false;
+
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(provided), digest(expected));
+}
+
 /**
  * Creates secure cookie options for the auth token
  * 
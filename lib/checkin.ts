@@ -0,0 +1,122 @@
+/**
+ * Check-in State Machine
+ *
+ * Pure transition rules shared by the check-in server actions and the
+ * dashboard UI. Each gate movement is only valid from specific states:
+ *
+ *   not-arrived → on-campus → in-lab ⇄ temp-out → lab-out → left
+ *
+ * A participant who never entered a lab may leave straight from
+ * on-campus, and a temporary exit can be closed with a lab checkout.
+ *
+ * @module lib/checkin
+ */
+
+import type { CheckInState, CheckInType, DBParticipant } from '@/types';
+
+/**
+ * Allowed source states and resulting state for each movement
+ */
+export const CHECKIN_TRANSITIONS: Record<CheckInType, { from: CheckInState[]; to: CheckInState }> = {
+  college:    { from: ['not-arrived'],          to: 'on-campus' },
+  lab:        { from: ['on-campus', 'temp-out'], to: 'in-lab' },
+  tempLabOut: { from: ['in-lab'],               to: 'temp-out' },
+  labOut:     { from: ['in-lab', 'temp-out'],   to: 'lab-out' },
+  collegeOut: { from: ['on-campus', 'lab-out'], to: 'left' },
+};
+
+/**
+ * Human-readable labels for each state
+ */
+export const CHECKIN_STATE_LABELS: Record<CheckInState, string> = {
+  'not-arrived': 'Not arrived',
+  'on-campus':   'On campus',
+  'in-lab':      'In lab',
+  'temp-out':    'Temporarily out of lab',
+  'lab-out':     'Checked out of lab',
+  'left':        'Left the event',
+};
+
+/**
+ * Participant flag field updated by each movement
+ */
+export const CHECKIN_FLAG_FIELDS: Record<CheckInType, keyof DBParticipant> = {
+  college:    'collegeCheckIn',
+  lab:        'labCheckIn',
+  tempLabOut: 'tempLabCheckOut',
+  labOut:     'labCheckOut',
+  collegeOut: 'collegeCheckOut',
+};
+
+/**
+ * Resolves a participant's current state
+ *
+ * Uses the stored `checkInState` when present, otherwise derives it
+ * from the legacy per-movement flags (documents created before the
+ * state machine, or restored from a CSV backup).
+ */
+export function deriveCheckInState(
+  p: Pick<DBParticipant, 'checkInState' | 'collegeCheckIn' | 'labCheckIn' | 'tempLabCheckOut' | 'labCheckOut' | 'collegeCheckOut'>
+): CheckInState {
+  if (p.checkInState) return p.checkInState;
+  if (p.collegeCheckOut?.status) return 'left';
+  if (p.labCheckOut?.status)     return 'lab-out';
+  if (p.tempLabCheckOut?.status) return 'temp-out';
+  if (p.labCheckIn?.status)      return 'in-lab';
+  if (p.collegeCheckIn?.status)  return 'on-campus';
+  return 'not-arrived';
+}
+
+/**
+ * Aggregation expression for `deriveCheckInState`, so pipelines can
+ * group by state without loading participants
+ */
+export const CHECKIN_STATE_EXPRESSION = {
+  $ifNull: [
+    '$checkInState',
+    {
+      $switch: {
+        branches: [
+          { case: { $eq: ['$collegeCheckOut.status', true] }, then: 'left' },
+          { case: { $eq: ['$labCheckOut.status', true] },     then: 'lab-out' },
+          { case: { $eq: ['$tempLabCheckOut.status', true] }, then: 'temp-out' },
+          { case: { $eq: ['$labCheckIn.status', true] },      then: 'in-lab' },
+          { case: { $eq: ['$collegeCheckIn.status', true] },  then: 'on-campus' },
+        ],
+        default: 'not-arrived',
+      },
+    },
+  ],
+} as const;
+
+/**
+ * Returns the state `type` leads to, or null when the move is illegal
+ */
+export function getNextCheckInState(state: CheckInState, type: CheckInType): CheckInState | null {
+  const transition = CHECKIN_TRANSITIONS[type];
+  return transition.from.includes(state) ? transition.to : null;
+}
+
+/**
+ * Explains why `type` cannot be recorded from `state`
+ */
+export function describeInvalidTransition(state: CheckInState, type: CheckInType): string {
+  switch (type) {
+    case 'college':
+      return state === 'left' ? 'Already checked out of college' : 'Already checked in at college';
+    case 'lab':
+      if (state === 'not-arrived') return 'Not checked in at college yet';
+      if (state === 'in-lab')      return 'Already in lab';
+      return `Cannot enter lab: ${CHECKIN_STATE_LABELS[state].toLowerCase()}`;
+    case 'tempLabOut':
+      if (state === 'temp-out')    return 'Already temporarily out of lab';
+      return 'Not checked in at lab';
+    case 'labOut':
+      if (state === 'lab-out' || state === 'left') return 'Already checked out of lab';
+      return 'Not checked in at lab';
+    case 'collegeOut':
+      if (state === 'not-arrived') return 'Not checked in at college';
+      if (state === 'left')        return 'Already checked out of college';
+      return 'Check out of lab first';
+  }
+}
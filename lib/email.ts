@@ -127,6 +127,25 @@ export async function sendBatchEmails(
   }
 }
 
+/**
+ * Sends one operational notification (alerts, reports) to staff
+ * recipients — no participant personalisation.
+ */
+export async function sendNotificationEmail(
+  to: string[],
+  subject: string,
+  html: string
+): Promise<void> {
+  const transporter = createTransporter();
+  await transporter.sendMail({
+    from: `"Hackoverflow 4.0" <${process.env.EMAIL_USER}>`,
+    to: to.join(', '),
+    subject,
+    html,
+    text: html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim(),
+  });
+}
+
 export function isValidEmail(email: string): boolean {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
 }
@@ -0,0 +1,107 @@
+/**
+ * Event Configuration Storage
+ *
+ * Reads the single event configuration document that holds settings
+ * which vary between editions — the meal schedule, the overdue
+ * temporary-exit alert settings, the admin security policy, the team
+ * size limits and the lab definitions. Each section falls back to its
+ * default until it has been saved.
+ *
+ * Used by server actions, cron routes and other lib modules, which run
+ * without a session or have already checked it. Pages read through the
+ * guarded actions in actions/event-config.
+ *
+ * Server-only.
+ *
+ * @module lib/event-config
+ */
+
+import clientPromise, { BOT_DB } from '@/lib/mongodb';
+import {
+  DEFAULT_MEAL_SCHEDULE,
+  DEFAULT_TEMP_EXIT_ALERT,
+  DEFAULT_SECURITY_POLICY,
+  DEFAULT_TEAM_SIZE_LIMITS,
+  type EventConfig,
+  type LabDefinition,
+  type MealSlot,
+  type SecurityPolicy,
+  type TeamSizeLimits,
+  type TempExitAlertSettings,
+} from '@/types';
+
+const COLL = 'event_config';
+export const EVENT_CONFIG_DOC_ID = 'current';
+
+/**
+ * Get the event configuration collection
+ */
+export async function getEventConfigCollection() {
+  const client = await clientPromise;
+  return client.db(BOT_DB).collection(COLL);
+}
+
+/**
+ * Get the current event configuration
+ */
+export async function getEventConfig(): Promise<EventConfig> {
+  try {
+    const col = await getEventConfigCollection();
+    const doc = await col.findOne({ _id: EVENT_CONFIG_DOC_ID as never });
+
+    const meals = Array.isArray(doc?.meals) && doc.meals.length > 0
+      ? doc.meals as MealSlot[]
+      : DEFAULT_MEAL_SCHEDULE;
+
+    return {
+      meals,
+      tempExitAlert: { ...DEFAULT_TEMP_EXIT_ALERT, ...(doc?.tempExitAlert as Partial<TempExitAlertSettings> | undefined) },
+      security: { ...DEFAULT_SECURITY_POLICY, ...(doc?.security as Partial<SecurityPolicy> | undefined) },
+      teamSize: { ...DEFAULT_TEAM_SIZE_LIMITS, ...(doc?.teamSize as Partial<TeamSizeLimits> | undefined) },
+      labs: Array.isArray(doc?.labs) ? doc.labs as LabDefinition[] : [],
+      updatedAt: doc?.updatedAt as Date | undefined,
+      updatedBy: doc?.updatedBy as string | undefined,
+    };
+  } catch (error) {
+    console.error('Error fetching event config:', error);
+    return {
+      meals: DEFAULT_MEAL_SCHEDULE,
+      tempExitAlert: DEFAULT_TEMP_EXIT_ALERT,
+      security: DEFAULT_SECURITY_POLICY,
+      teamSize: DEFAULT_TEAM_SIZE_LIMITS,
+      labs: [],
+    };
+  }
+}
+
+/**
+ * Get the configured meal schedule
+ */
+export async function getMealSchedule(): Promise<MealSlot[]> {
+  const config = await getEventConfig();
+  return config.meals;
+}
+
+/**
+ * Get the overdue temporary-exit alert settings
+ */
+export async function getTempExitAlertSettings(): Promise<TempExitAlertSettings> {
+  const config = await getEventConfig();
+  return config.tempExitAlert;
+}
+
+/**
+ * Get the allowed team sizes
+ */
+export async function getTeamSizeLimits(): Promise<TeamSizeLimits> {
+  const config = await getEventConfig();
+  return config.teamSize;
+}
+
+/**
+ * Get the defined labs, including their WiFi passwords
+ */
+export async function getLabDefinitions(): Promise<LabDefinition[]> {
+  const config = await getEventConfig();
+  return config.labs;
+}
@@ -0,0 +1,143 @@
+/**
+ * Event Statistics
+ *
+ * One aggregation over the participants collection for everything the
+ * dashboard summarises: check-in funnel, states, teams, labs, meals per
+ * slot, institutes and home states. The home page, database page,
+ * counts on the check-in and food pages and the hourly report all read
+ * from here.
+ *
+ * Results are cached for a few seconds per server process, and callers
+ * arriving while an aggregation runs share it, so a room full of open
+ * dashboards costs one aggregation per interval.
+ *
+ * Server-only.
+ *
+ * @module lib/event-stats
+ */
+
+import type { Document } from 'mongodb';
+import clientPromise, { PARTICIPANTS_DB } from '@/lib/mongodb';
+import { NOT_TRASHED } from '@/lib/trash';
+import { CHECKIN_STATE_EXPRESSION, CHECKIN_STATE_LABELS } from '@/lib/checkin';
+import { getMealSchedule } from '@/lib/event-config';
+import type { CheckInState, EventStats, MealSlot, StatsBreakdownRow } from '@/types';
+
+const CACHE_TTL_MS = 3_000;
+
+/** States of participants who are, or have been, inside a lab */
+const LAB_STATES: CheckInState[] = ['in-lab', 'temp-out', 'lab-out'];
+
+let cached: { stats: EventStats; expires: number } | null = null;
+let pending: Promise<EventStats> | null = null;
+
+/**
+ * Current event statistics, at most a few seconds old
+ */
+export async function getEventStats(): Promise<EventStats> {
+  if (cached && cached.expires > Date.now()) return cached.stats;
+
+  if (!pending) {
+    pending = computeEventStats()
+      .then(stats => {
+        cached = { stats, expires: Date.now() + CACHE_TTL_MS };
+        return stats;
+      })
+      .finally(() => { pending = null; });
+  }
+  return pending;
+}
+
+const countIf = (condition: unknown) => ({ $sum: { $cond: [condition, 1, 0] } });
+
+/** Registered / arrived per value of `field`, skipping blanks */
+function breakdown(field: string, extra: Document = {}): Document[] {
+  return [
+    { $match: { [field]: { $nin: [null, ''] } } },
+    { $group: { _id: `$${field}`, registered: { $sum: 1 }, arrived: countIf('$_arrived'), ...extra } },
+  ];
+}
+
+function toRows<T extends StatsBreakdownRow>(docs: (Omit<T, 'name'> & { _id: string })[]): T[] {
+  return docs
+    .map(({ _id, ...rest }) => ({ name: _id, ...rest }) as unknown as T)
+    .sort((a, b) => b.registered - a.registered || a.name.localeCompare(b.name));
+}
+
+async function computeEventStats(): Promise<EventStats> {
+  const client = await clientPromise;
+  const collection = client.db(PARTICIPANTS_DB).collection('participants');
+  const schedule: MealSlot[] = await getMealSchedule();
+
+  const [result] = await collection.aggregate<{
+    checkInStates: { _id: CheckInState; count: number }[];
+    enteredLab: { count: number }[];
+    meals: Record<string, number>[];
+    labs: (Omit<EventStats['labs'][number], 'name'> & { _id: string })[];
+    teams: { count: number }[];
+    unassigned: { count: number }[];
+    institutes: (Omit<StatsBreakdownRow, 'name'> & { _id: string })[];
+    states: (Omit<StatsBreakdownRow, 'name'> & { _id: string })[];
+  }>([
+    { $match: NOT_TRASHED },
+    { $addFields: { _state: CHECKIN_STATE_EXPRESSION } },
+    // Members count towards their team by ID; older records only carry a team name
+    { $addFields: { _arrived: { $ne: ['$_state', 'not-arrived'] }, _team: { $ifNull: ['$teamId', '$teamName'] } } },
+    {
+      $facet: {
+        checkInStates: [{ $group: { _id: '$_state', count: { $sum: 1 } } }],
+        // Lab flags survive checking out of the college, so leavers still count
+        enteredLab: [
+          { $match: { $or: [{ _state: { $in: LAB_STATES } }, { 'labCheckIn.status': true }] } },
+          { $count: 'count' },
+        ],
+        meals: [{
+          $group: {
+            _id: null,
+            ...Object.fromEntries(schedule.map(slot => [slot.key, countIf({ $eq: [`$meals.${slot.key}`, true] })])),
+          },
+        }],
+        labs: breakdown('labAllotted', { inLab: countIf({ $eq: ['$_state', 'in-lab'] }) }),
+        teams: [
+          { $match: { _team: { $nin: [null, ''] } } },
+          { $group: { _id: '$_team' } },
+          { $count: 'count' },
+        ],
+        unassigned: [
+          { $match: { _team: { $in: [null, ''] } } },
+          { $count: 'count' },
+        ],
+        institutes: breakdown('institute'),
+        states: breakdown('state'),
+      },
+    },
+  ]).toArray();
+
+  const byState = Object.fromEntries(
+    (Object.keys(CHECKIN_STATE_LABELS) as CheckInState[]).map(state => [state, 0])
+  ) as Record<CheckInState, number>;
+  for (const { _id, count } of result.checkInStates) byState[_id] = count;
+
+  const total = result.checkInStates.reduce((n, s) => n + s.count, 0);
+  const meals = result.meals[0] ?? {};
+
+  return {
+    total,
+    funnel: {
+      registered: total,
+      arrived:    total - byState['not-arrived'],
+      enteredLab: result.enteredLab[0]?.count ?? 0,
+      left:       byState.left,
+    },
+    byState,
+    teams: {
+      total:      result.teams[0]?.count ?? 0,
+      unassigned: result.unassigned[0]?.count ?? 0,
+    },
+    labs: toRows<EventStats['labs'][number]>(result.labs).sort((a, b) => a.name.localeCompare(b.name)),
+    meals: schedule.map(slot => ({ key: slot.key, label: slot.label, collected: meals[slot.key] ?? 0 })),
+    institutes: toRows(result.institutes),
+    states: toRows(result.states),
+    generatedAt: new Date(),
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * Lab Allocation Engine
+ *
+ * Pure planning logic shared by the allocation preview and apply
+ * actions. Teams are allocated as units so members always share a lab;
+ * participants without a team are units of one.
+ *
+ * Units are seated largest first, each into the lab whose occupancy
+ * would be lowest afterwards (first-fit decreasing by load), which keeps
+ * labs evenly filled. With `spreadInstitutes` the share of the unit's
+ * institutes already in a lab is added to that score, and
+ * `maxPerInstitute` rules out any lab the unit would push over the limit.
+ *
+ * @module lib/lab-allocation
+ */
+
+import type {
+  DBParticipant,
+  LabAllocationMove,
+  LabAllocationOptions,
+  LabAllocationPlan,
+  LabDefinition,
+} from '@/types';
+
+/** A participant as the allocator sees them */
+export interface AllocationMember {
+  id: string;
+  institute?: string;
+  labAllotted?: string;
+  wifiSsid?: string;
+  wifiPassword?: string;
+}
+
+/** A team, or a participant without one, that must share a lab */
+export interface AllocationUnit {
+  /** Team ID, or the participant ID for a participant without a team */
+  key: string;
+  teamId?: string;
+  /** Shown in the preview, e.g. "TEAM-004 · Null Pointers" */
+  label: string;
+  members: AllocationMember[];
+  /** Lab the unit is currently in, if any */
+  currentLab?: string;
+  /** A member is inside a lab right now, so the unit must not move */
+  pinned: boolean;
+}
+
+/** The plan plus, per lab, which units end up there */
+export interface AllocationResult {
+  plan: LabAllocationPlan;
+  /** Lab name → units to write to that lab */
+  placements: Map<string, AllocationUnit[]>;
+  /** Unplaced units a reset takes out of their current lab */
+  released: AllocationUnit[];
+}
+
+interface LabState {
+  lab: LabDefinition;
+  load: number;
+  institutes: Map<string, number>;
+  units: AllocationUnit[];
+}
+
+const normalizeInstitute = (institute?: string) => institute?.trim().toLowerCase() || '';
+
+const ratio = (state: LabState, extra = 0) => (state.load + extra) / state.lab.capacity;
+
+function addUnit(state: LabState, unit: AllocationUnit) {
+  state.load += unit.members.length;
+  state.units.push(unit);
+  for (const m of unit.members) {
+    const key = normalizeInstitute(m.institute);
+    if (key) state.institutes.set(key, (state.institutes.get(key) ?? 0) + 1);
+  }
+}
+
+function removeUnit(state: LabState, unit: AllocationUnit) {
+  state.load -= unit.members.length;
+  state.units = state.units.filter(u => u !== unit);
+  for (const m of unit.members) {
+    const key = normalizeInstitute(m.institute);
+    if (key) state.institutes.set(key, (state.institutes.get(key) ?? 0) - 1);
+  }
+}
+
+/** Count of the unit's members per institute */
+function instituteCounts(unit: AllocationUnit): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const m of unit.members) {
+    const key = normalizeInstitute(m.institute);
+    if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Why `unit` cannot go into `state`, or null if it fits */
+function rejectReason(state: LabState, unit: AllocationUnit, options: LabAllocationOptions): string | null {
+  const size = unit.members.length;
+  if (state.load + size > state.lab.capacity) return `no lab has ${size} free seat(s)`;
+
+  if (options.maxPerInstitute) {
+    for (const [institute, count] of instituteCounts(unit)) {
+      if ((state.institutes.get(institute) ?? 0) + count > options.maxPerInstitute) {
+        return `every lab with room already has ${options.maxPerInstitute} from the same institute`;
+      }
+    }
+  }
+  return null;
+}
+
+/** Lower is better */
+function score(state: LabState, unit: AllocationUnit, options: LabAllocationOptions): number {
+  let value = ratio(state, unit.members.length);
+  if (options.spreadInstitutes && state.load > 0) {
+    let same = 0;
+    for (const [institute] of instituteCounts(unit)) same += state.institutes.get(institute) ?? 0;
+    value += same / state.load;
+  }
+  return value;
+}
+
+/**
+ * Seat `unit` in the best lab that accepts it
+ *
+ * @returns null when placed, otherwise the reason it could not be
+ */
+function place(labs: LabState[], unit: AllocationUnit, options: LabAllocationOptions): string | null {
+  let best: LabState | null = null;
+  let bestScore = Infinity;
+  let reason = 'no labs are defined';
+
+  for (const state of labs) {
+    const rejected = rejectReason(state, unit, options);
+    if (rejected) {
+      // Capacity is the more useful explanation when both apply somewhere
+      if (reason === 'no labs are defined' || rejected.startsWith('no lab')) reason = rejected;
+      continue;
+    }
+    const s = score(state, unit, options);
+    if (s < bestScore) { best = state; bestScore = s; }
+  }
+
+  if (!best) return reason;
+  addUnit(best, unit);
+  return null;
+}
+
+/**
+ * Move whole unpinned units from the fullest lab to the emptiest while
+ * that narrows the gap between them
+ */
+function rebalance(labs: LabState[], options: LabAllocationOptions) {
+  const maxIterations = labs.reduce((n, s) => n + s.units.length, 0) * labs.length;
+
+  for (let i = 0; i < maxIterations && labs.length > 1; i++) {
+    const sorted = [...labs].sort((a, b) => ratio(a) - ratio(b));
+    const emptiest = sorted[0];
+    const fullest  = sorted[sorted.length - 1];
+
+    const candidate = fullest.units
+      .filter(u => !u.pinned)
+      .sort((a, b) => a.members.length - b.members.length)
+      .find(u =>
+        ratio(emptiest, u.members.length) < ratio(fullest) &&
+        rejectReason(emptiest, u, options) === null
+      );
+
+    if (!candidate) return;
+    removeUnit(fullest, candidate);
+    addUnit(emptiest, candidate);
+  }
+}
+
+/**
+ * Whether seating `member` in `lab` changes their lab or WiFi details
+ *
+ * A lab without an SSID leaves the member's credentials alone.
+ */
+export function needsUpdate(member: AllocationMember, lab: LabDefinition): boolean {
+  return member.labAllotted !== lab.name ||
+    (lab.wifiSsid !== undefined && (member.wifiSsid !== lab.wifiSsid || member.wifiPassword !== lab.wifiPassword));
+}
+
+/**
+ * Whether `member` still holds `lab`'s WiFi details, which a reset
+ * clears along with the lab
+ */
+export function hasLabWifi(member: AllocationMember, lab: LabDefinition | undefined): boolean {
+  return !!lab?.wifiSsid && member.wifiSsid === lab.wifiSsid;
+}
+
+/**
+ * Participant fields that seat them in `lab`
+ *
+ * Like `needsUpdate`, a lab without an SSID leaves credentials alone.
+ */
+export function labAssignment(lab: LabDefinition): Pick<DBParticipant, 'labAllotted' | 'wifiCredentials'> {
+  return {
+    labAllotted: lab.name,
+    ...(lab.wifiSsid && {
+      wifiCredentials: { ssid: lab.wifiSsid, ...(lab.wifiPassword && { password: lab.wifiPassword }) },
+    }),
+  };
+}
+
+/**
+ * Plan an allocation of `units` to `labs`
+ */
+export function planLabAllocation(
+  labs: LabDefinition[],
+  units: AllocationUnit[],
+  options: LabAllocationOptions
+): AllocationResult {
+  const states: LabState[] = labs.map(lab => ({ lab, load: 0, institutes: new Map(), units: [] }));
+  const byName = new Map(states.map(s => [s.lab.name, s]));
+
+  const before = new Map<string, number>();
+  for (const unit of units) {
+    for (const m of unit.members) {
+      if (m.labAllotted && byName.has(m.labAllotted)) before.set(m.labAllotted, (before.get(m.labAllotted) ?? 0) + 1);
+    }
+  }
+
+  // Keep current placements the mode allows; everyone else is seated afresh
+  const toPlace: AllocationUnit[] = [];
+  for (const unit of units) {
+    const current = unit.currentLab ? byName.get(unit.currentLab) : undefined;
+    const keep = current && (options.mode !== 'reset' || unit.pinned);
+    if (keep) addUnit(current, unit);
+    else toPlace.push(unit);
+  }
+
+  toPlace.sort((a, b) => b.members.length - a.members.length || a.key.localeCompare(b.key));
+
+  // A reset leaves nobody in their old lab, including those it cannot seat
+  const unplaced: LabAllocationPlan['unplaced'] = [];
+  const released: AllocationUnit[] = [];
+  for (const unit of toPlace) {
+    const reason = place(states, unit, options);
+    if (!reason) continue;
+    const release = options.mode === 'reset' && unit.members.some(m => m.labAllotted);
+    if (release) released.push(unit);
+    unplaced.push({
+      label: unit.label,
+      teamId: unit.teamId,
+      size: unit.members.length,
+      reason,
+      ...(release && unit.currentLab && { removedFrom: unit.currentLab }),
+    });
+  }
+
+  if (options.mode === 'rebalance') rebalance(states, options);
+
+  const moves: LabAllocationMove[] = [];
+  const placements = new Map<string, AllocationUnit[]>();
+  let changedParticipants = 0;
+
+  for (const state of states) {
+    const { lab } = state;
+    placements.set(lab.name, state.units);
+
+    for (const unit of state.units) {
+      if (unit.currentLab !== lab.name) {
+        moves.push({
+          label: unit.label,
+          teamId: unit.teamId,
+          size: unit.members.length,
+          from: unit.currentLab && byName.has(unit.currentLab) ? unit.currentLab : undefined,
+          to: lab.name,
+        });
+      }
+      changedParticipants += unit.members.filter(m => needsUpdate(m, lab)).length;
+    }
+  }
+
+  for (const unit of released) {
+    changedParticipants += unit.members.filter(m => m.labAllotted).length;
+  }
+
+  moves.sort((a, b) => a.to.localeCompare(b.to) || a.label.localeCompare(b.label));
+
+  return {
+    plan: {
+      labs: states.map(s => ({
+        name: s.lab.name,
+        capacity: s.lab.capacity,
+        before: before.get(s.lab.name) ?? 0,
+        after: s.load,
+      })),
+      moves,
+      unplaced,
+      changedParticipants,
+    },
+    placements,
+    released,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Live Updates
+ *
+ * Fans participant, meal schedule and bot log changes out to the
+ * `/api/live` Server-Sent Events streams. One source runs per server
+ * process while anyone is subscribed, however many streams are open:
+ *
+ * - a MongoDB change stream when the deployment supports it (replica
+ *   sets, Atlas)
+ * - otherwise, or if the change stream fails, a poll every few seconds
+ *   on `updatedAt` (participants, event config) and `timestamp` (bot logs)
+ *
+ * Polling cannot see hard deletes; purges only ever touch participants
+ * that were already reported as removed when they went to the trash.
+ *
+ * Server-only.
+ *
+ * @module lib/live-updates
+ */
+
+import type { ChangeStreamDocument, Db, Document, Filter, MongoClient, ObjectId } from 'mongodb';
+import clientPromise, { PARTICIPANTS_DB, BOT_DB } from '@/lib/mongodb';
+import { getMealSchedule } from '@/lib/event-config';
+import type { BotLogEntry, DBParticipant, LiveUpdate } from '@/types';
+
+const PARTICIPANTS = 'participants';
+const EVENT_CONFIG = 'event_config';
+const BOT_LOGS     = 'bot_logs';
+
+const POLL_INTERVAL_MS = 3_000;
+/** Rows read per collection per poll; the rest follow on the next poll */
+const POLL_BATCH = 500;
+
+type Listener = (update: LiveUpdate) => void;
+
+const listeners = new Set<Listener>();
+let stopSource: (() => void) | null = null;
+
+/**
+ * Receive every live update until the returned function is called
+ */
+export function subscribeLiveUpdates(listener: Listener): () => void {
+  listeners.add(listener);
+  if (!stopSource) stopSource = startSource();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && stopSource) {
+      stopSource();
+      stopSource = null;
+    }
+  };
+}
+
+function emit(update: LiveUpdate): void {
+  for (const listener of listeners) {
+    try {
+      listener(update);
+    } catch (error) {
+      console.error('Live update listener failed:', error);
+    }
+  }
+}
+
+// ─── Document → update ────────────────────────────────────────────────────────
+
+function participantUpdate(doc: Document): LiveUpdate {
+  if (doc.deletedAt) return { type: 'participant_removed', _id: String(doc._id) };
+  return { type: 'participant', participant: { ...doc, _id: String(doc._id) } as DBParticipant };
+}
+
+function botLogUpdate(doc: Document): LiveUpdate {
+  return {
+    type: 'bot_log',
+    log: { ...doc, _id: String(doc._id), timestamp: new Date(doc.timestamp).toISOString() } as BotLogEntry,
+  };
+}
+
+async function emitMealSchedule(): Promise<void> {
+  emit({ type: 'meal_schedule', schedule: await getMealSchedule() });
+}
+
+// ─── Sources ──────────────────────────────────────────────────────────────────
+
+function startSource(): () => void {
+  let stopped = false;
+  let stop = () => {};
+  // Where polling picks up if the change stream fails
+  let resumeFrom = new Date();
+
+  clientPromise
+    .then(client => {
+      if (stopped) return;
+      stop = watchChanges(client, () => { resumeFrom = new Date(); }, () => {
+        if (!stopped) stop = pollChanges(client, resumeFrom);
+      });
+    })
+    .catch(error => console.error('Live updates failed to start:', error));
+
+  return () => {
+    stopped = true;
+    stop();
+  };
+}
+
+// Participants live in the dashboard's database, the event config and
+// bot logs in the one shared with the bot; the stream watches both
+function watchChanges(client: MongoClient, onChange: () => void, onFailure: () => void): () => void {
+  const stream = client.watch<Document, ChangeStreamDocument<Document>>(
+    [{
+      $match: {
+        $or: [
+          { 'ns.db': PARTICIPANTS_DB, 'ns.coll': PARTICIPANTS },
+          { 'ns.db': BOT_DB, 'ns.coll': { $in: [EVENT_CONFIG, BOT_LOGS] } },
+        ],
+        operationType: { $in: ['insert', 'update', 'replace', 'delete'] },
+      },
+    }],
+    { fullDocument: 'updateLookup' }
+  );
+
+  stream.on('change', change => {
+    onChange();
+    handleChange(change).catch(error => console.error('Error handling change event:', error));
+  });
+
+  // Standalone servers reject change streams on the first read
+  stream.once('error', error => {
+    console.warn('Change streams unavailable, polling for live updates instead:', error.message);
+    stream.removeAllListeners('change');
+    stream.close().catch(() => {});
+    onFailure();
+  });
+
+  return () => {
+    stream.removeAllListeners();
+    stream.close().catch(() => {});
+  };
+}
+
+async function handleChange(change: ChangeStreamDocument<Document>): Promise<void> {
+  switch (change.operationType) {
+    case 'insert':
+    case 'update':
+    case 'replace': {
+      const doc = change.fullDocument;
+      if (change.ns.coll === EVENT_CONFIG) return emitMealSchedule();
+      // Gone again before the lookup ran; its delete event follows
+      if (!doc) return;
+      if (change.ns.coll === PARTICIPANTS) emit(participantUpdate(doc));
+      else if (change.ns.coll === BOT_LOGS && change.operationType === 'insert') emit(botLogUpdate(doc));
+      return;
+    }
+    case 'delete':
+      if (change.ns.coll === PARTICIPANTS) {
+        emit({ type: 'participant_removed', _id: String(change.documentKey._id) });
+      }
+      return;
+  }
+}
+
+interface PollCursor {
+  time: Date;
+  /** Last `_id` read at exactly `time`; bulk updates share one timestamp */
+  id?: ObjectId;
+}
+
+function afterCursor(field: string, cursor: PollCursor): Filter<Document> {
+  return cursor.id
+    ? { $or: [{ [field]: { $gt: cursor.time } }, { [field]: cursor.time, _id: { $gt: cursor.id } }] }
+    : { [field]: { $gt: cursor.time } };
+}
+
+async function readAfter(db: Db, collection: string, field: string, cursor: PollCursor): Promise<Document[]> {
+  const docs = await db
+    .collection(collection)
+    .find(afterCursor(field, cursor))
+    .sort({ [field]: 1, _id: 1 })
+    .limit(POLL_BATCH)
+    .toArray();
+
+  const last = docs[docs.length - 1];
+  if (last) {
+    cursor.time = last[field];
+    cursor.id = last._id;
+  }
+  return docs;
+}
+
+function pollChanges(client: MongoClient, since: Date): () => void {
+  const participantsDb = client.db(PARTICIPANTS_DB);
+  const botDb = client.db(BOT_DB);
+  const participants: PollCursor = { time: since };
+  const botLogs: PollCursor = { time: since };
+  let configTime = since;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const poll = async () => {
+    try {
+      // Trashed participants are read too, so removals are reported
+      for (const doc of await readAfter(participantsDb, PARTICIPANTS, 'updatedAt', participants)) emit(participantUpdate(doc));
+      for (const doc of await readAfter(botDb, BOT_LOGS, 'timestamp', botLogs)) emit(botLogUpdate(doc));
+
+      const config = await botDb.collection(EVENT_CONFIG).findOne({ updatedAt: { $gt: configTime } });
+      if (config) {
+        configTime = config.updatedAt;
+        await emitMealSchedule();
+      }
+    } catch (error) {
+      console.error('Error polling for live updates:', error);
+    } finally {
+      if (!stopped) timer = setTimeout(poll, POLL_INTERVAL_MS);
+    }
+  };
+
+  timer = setTimeout(poll, POLL_INTERVAL_MS);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Login Lockout and Audit
+ *
+ * Per-account protection that complements the per-IP rate limit: after
+ * `FREE_ATTEMPTS` consecutive failures an email is locked out, and every
+ * further failure doubles the lock (capped at `MAX_LOCK_MS`). A
+ * successful login clears the counter; idle counters expire after a day.
+ *
+ * Every failed attempt is also written to `login_audit` so admins can
+ * see who was targeted and from where. Unknown emails are tracked the
+ * same way, so lockout behaviour does not reveal which accounts exist.
+ *
+ * @module lib/login-guard
+ */
+
+import clientPromise from '@/lib/mongodb';
+
+const DB_NAME = 'hackoverflow';
+export const LOGIN_LOCKOUTS_COLLECTION = 'login_lockouts';
+export const LOGIN_AUDIT_COLLECTION    = 'login_audit';
+
+export const LOCKOUT_CONFIG = {
+  /** Consecutive failures allowed before the first lock */
+  FREE_ATTEMPTS: 5,
+  /** First lock duration; doubles with each further failure */
+  BASE_LOCK_MS: 30 * 1000,
+  /** Longest a single lock can last */
+  MAX_LOCK_MS: 60 * 60 * 1000,
+  /** Failure counters with no activity for this long are dropped */
+  RESET_AFTER_SECONDS: 24 * 60 * 60,
+  /** Audit entries are kept for this long */
+  AUDIT_RETENTION_SECONDS: 90 * 24 * 60 * 60,
+} as const;
+
+export type LoginFailureReason =
+  | 'unknown_email'
+  | 'bad_password'
+  | 'bad_2fa'
+  | 'no_password'
+  | 'deactivated'
+  | 'locked';
+
+interface LoginLockout {
+  email: string;
+  failures: number;
+  lockedUntil?: Date;
+  updatedAt: Date;
+}
+
+export interface LoginAuditEntry {
+  email: string;
+  ip: string;
+  userAgent?: string;
+  reason: LoginFailureReason;
+  timestamp: Date;
+}
+
+let indexesEnsured = false;
+
+async function getCollections() {
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const lockouts = db.collection<LoginLockout>(LOGIN_LOCKOUTS_COLLECTION);
+  const audit    = db.collection<LoginAuditEntry>(LOGIN_AUDIT_COLLECTION);
+
+  if (!indexesEnsured) {
+    await Promise.all([
+      lockouts.createIndex({ email: 1 }, { unique: true }),
+      lockouts.createIndex({ updatedAt: 1 }, { expireAfterSeconds: LOCKOUT_CONFIG.RESET_AFTER_SECONDS }),
+      audit.createIndex({ email: 1, timestamp: -1 }),
+      audit.createIndex({ timestamp: 1 }, { expireAfterSeconds: LOCKOUT_CONFIG.AUDIT_RETENTION_SECONDS }),
+    ]);
+    indexesEnsured = true;
+  }
+
+  return { lockouts, audit };
+}
+
+/**
+ * Lock duration after `failures` consecutive failures, or 0 if the
+ * account is still within its free attempts
+ */
+export function getLockDurationMs(failures: number): number {
+  const over = failures - LOCKOUT_CONFIG.FREE_ATTEMPTS;
+  if (over < 0) return 0;
+  return Math.min(LOCKOUT_CONFIG.BASE_LOCK_MS * 2 ** over, LOCKOUT_CONFIG.MAX_LOCK_MS);
+}
+
+/**
+ * When the lock on `email` ends, or null if it is not locked
+ */
+export async function getLockedUntil(email: string): Promise<Date | null> {
+  const { lockouts } = await getCollections();
+  const entry = await lockouts.findOne({ email });
+  return entry?.lockedUntil && entry.lockedUntil > new Date() ? entry.lockedUntil : null;
+}
+
+/**
+ * Count a failed attempt against `email`, extend its lock if needed and
+ * write an audit entry. Attempts rejected because the account is
+ * already locked are audited but do not extend the lock.
+ *
+ * Errors are logged rather than thrown so a database hiccup here never
+ * changes the response the user sees.
+ */
+export async function recordLoginFailure(attempt: Omit<LoginAuditEntry, 'timestamp'>): Promise<void> {
+  try {
+    const { lockouts, audit } = await getCollections();
+    const now = new Date();
+
+    await audit.insertOne({ ...attempt, timestamp: now });
+    if (attempt.reason === 'locked') return;
+
+    const entry = await lockouts.findOneAndUpdate(
+      { email: attempt.email },
+      { $inc: { failures: 1 }, $set: { updatedAt: now } },
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    const lockMs = entry ? getLockDurationMs(entry.failures) : 0;
+    if (lockMs > 0) {
+      await lockouts.updateOne(
+        { email: attempt.email },
+        { $set: { lockedUntil: new Date(now.getTime() + lockMs) } }
+      );
+    }
+  } catch (error) {
+    console.error('Error recording login failure:', error);
+  }
+}
+
+/**
+ * Reset the failure counter after a successful login
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  try {
+    const { lockouts } = await getCollections();
+    await lockouts.deleteOne({ email });
+  } catch (error) {
+    console.error('Error clearing login failures:', error);
+  }
+}
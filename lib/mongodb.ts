@@ -6,6 +6,12 @@ if (!process.env.MONGODB_URI) {
 
 const uri = process.env.MONGODB_URI;
 
+// Participants, users and the rest of the dashboard's own collections
+export const PARTICIPANTS_DB = 'hackoverflow';
+// Collections shared with the Discord bot (bot_logs, scheduled_messages, …)
+// and the event config
+export const BOT_DB = process.env.MONGODB_DB || 'hackoverflow';
+
 let _client: MongoClient | null = null;
 
 async function createClient(): Promise<MongoClient> {
@@ -0,0 +1,55 @@
+/**
+ * Participant Event Log
+ *
+ * Append-only record of every check-in movement. Participant documents
+ * only keep the latest `{status, time}` per flag, so repeated lab exits
+ * and returns are reconstructed from this collection instead.
+ *
+ * Server-only — events are written by the check-in actions, never
+ * directly by the client.
+ *
+ * @module lib/participant-events
+ */
+
+import clientPromise from '@/lib/mongodb';
+import type { ParticipantEvent } from '@/types';
+
+const DB_NAME = 'hackoverflow';
+export const PARTICIPANT_EVENTS_COLLECTION = 'participant_events';
+
+let indexesEnsured = false;
+
+/**
+ * Get the events collection, creating its query indexes on first use
+ */
+export async function getParticipantEventsCollection() {
+  const client = await clientPromise;
+  const collection = client.db(DB_NAME).collection<Omit<ParticipantEvent, '_id'>>(PARTICIPANT_EVENTS_COLLECTION);
+
+  if (!indexesEnsured) {
+    await Promise.all([
+      collection.createIndex({ participantId: 1, timestamp: 1 }),
+      collection.createIndex({ teamName: 1, timestamp: 1 }),
+      collection.createIndex({ timestamp: 1 }),
+    ]);
+    indexesEnsured = true;
+  }
+
+  return collection;
+}
+
+/**
+ * Append a movement to the log
+ *
+ * Failures are logged rather than thrown: the participant's state has
+ * already been updated, and a missing timeline entry must not turn a
+ * successful check-in into an error at the gate.
+ */
+export async function recordParticipantEvent(event: Omit<ParticipantEvent, '_id'>): Promise<void> {
+  try {
+    const collection = await getParticipantEventsCollection();
+    await collection.insertOne(event);
+  } catch (error) {
+    console.error('Error recording participant event:', error);
+  }
+}
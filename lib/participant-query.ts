@@ -0,0 +1,149 @@
+/**
+ * Participant Queries
+ *
+ * Builds MongoDB filters, sorts and keyset cursors for
+ * `queryParticipants`, and creates the indexes that back them.
+ *
+ * Pagination is keyset-based: the cursor carries the last row's sort
+ * value and `_id`, so later pages cost the same as the first and rows
+ * don't shift when participants are added mid-scroll.
+ *
+ * Server-only.
+ *
+ * @module lib/participant-query
+ */
+
+import { ObjectId, type Collection, type Document, type Filter } from 'mongodb';
+import { NOT_TRASHED } from '@/lib/trash';
+import { CHECKIN_STATE_EXPRESSION } from '@/lib/checkin';
+import type { ParticipantFilter, ParticipantSortField } from '@/types';
+
+let indexesEnsured = false;
+
+/**
+ * Create the participant query indexes on first use
+ *
+ * Meal flags live under `meals.<slot key>`, and slot keys are
+ * configurable, so they share one wildcard index.
+ */
+export async function ensureParticipantIndexes(collection: Collection<Document>): Promise<void> {
+  if (indexesEnsured) return;
+  await Promise.all([
+    collection.createIndex({ participantId: 1 }),
+    collection.createIndex({ name: 1, _id: 1 }),
+    collection.createIndex({ createdAt: -1, _id: -1 }),
+    collection.createIndex({ updatedAt: 1, _id: 1 }),
+    collection.createIndex({ checkInState: 1, name: 1 }),
+    collection.createIndex({ labAllotted: 1, name: 1 }),
+    collection.createIndex({ teamId: 1 }),
+    collection.createIndex({ institute: 1 }),
+    collection.createIndex({ state: 1 }),
+    collection.createIndex({ 'meals.$**': 1 }),
+  ]);
+  indexesEnsured = true;
+}
+
+/** Escape user input for use inside a RegExp */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const SEARCH_FIELDS = ['name', 'email', 'phone', 'participantId', 'teamId', 'teamName', 'institute'] as const;
+
+/**
+ * MongoDB filter for `filter` and `search`, always excluding the trash
+ */
+export function buildParticipantFilter(filter: ParticipantFilter = {}, search?: string): Filter<Document> {
+  const and: Filter<Document>[] = [NOT_TRASHED];
+
+  if (filter.checkInState?.length) {
+    // Documents restored from old backups may lack `checkInState`; derive it for those only
+    and.push({
+      $or: [
+        { checkInState: { $in: filter.checkInState } },
+        { checkInState: null, $expr: { $in: [CHECKIN_STATE_EXPRESSION, filter.checkInState] } },
+      ],
+    });
+  }
+
+  if (filter.lab !== undefined) {
+    and.push({ labAllotted: filter.lab === null ? { $in: [null, ''] } : filter.lab });
+  }
+
+  if (filter.teamId !== undefined) {
+    and.push({ teamId: filter.teamId === null ? { $in: [null, ''] } : filter.teamId });
+  }
+
+  if (filter.institute) and.push({ institute: filter.institute });
+  if (filter.state) and.push({ state: filter.state });
+
+  for (const [key, collected] of Object.entries(filter.meals ?? {})) {
+    and.push({ [`meals.${key}`]: collected ? true : { $ne: true } });
+  }
+
+  if (filter.participantIds?.length) {
+    and.push({ participantId: { $in: filter.participantIds } });
+  }
+
+  const term = search?.trim();
+  if (term) {
+    const pattern = new RegExp(escapeRegex(term), 'i');
+    and.push({ $or: SEARCH_FIELDS.map(field => ({ [field]: pattern })) });
+  }
+
+  return and.length === 1 ? and[0] : { $and: and };
+}
+
+// ─── Cursors ──────────────────────────────────────────────────────────────────
+
+interface CursorPayload {
+  /** Sort value of the last row; dates are sent as ISO strings */
+  v: string | null;
+  /** Whether `v` is a date */
+  d?: true;
+  /** `_id` of the last row */
+  id: string;
+}
+
+export function encodeCursor(value: unknown, id: ObjectId): string {
+  const payload: CursorPayload = value instanceof Date
+    ? { v: value.toISOString(), d: true, id: id.toHexString() }
+    : { v: value === undefined || value === null ? null : String(value), id: id.toHexString() };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Filter selecting rows after the cursor in the given sort order
+ *
+ * @throws if the cursor is malformed
+ */
+export function cursorFilter(cursor: string, field: ParticipantSortField, direction: 'asc' | 'desc'): Filter<Document> {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  if (!payload || typeof payload.id !== 'string' || !ObjectId.isValid(payload.id)) {
+    throw new Error('Invalid cursor');
+  }
+
+  const value = payload.d && payload.v ? new Date(payload.v) : payload.v;
+  const id = new ObjectId(payload.id);
+  const op = direction === 'asc' ? '$gt' : '$lt';
+
+  // Missing values sort first ascending, last descending
+  if (value === null) {
+    return direction === 'asc'
+      ? { $or: [{ [field]: null, _id: { $gt: id } }, { [field]: { $ne: null } }] }
+      : { [field]: null, _id: { $lt: id } };
+  }
+
+  return {
+    $or: [
+      { [field]: { [op]: value } },
+      { [field]: value, _id: { [op]: id } },
+      ...(direction === 'desc' ? [{ [field]: null }] : []),
+    ],
+  };
+}
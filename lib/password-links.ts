@@ -0,0 +1,84 @@
+/**
+ * One-Time Password Links
+ *
+ * Invite and reset links for dashboard accounts. Only the SHA-256 of the
+ * token is stored on the user (`passwordToken`), so a database read does
+ * not reveal usable links. Issuing a new link replaces any previous one;
+ * setting the password clears it.
+ *
+ * @module lib/password-links
+ */
+
+import crypto from 'crypto';
+import type { ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { sendNotificationEmail } from './email';
+import { sanitizeString } from './validation';
+
+export type PasswordLinkKind = 'invite' | 'reset';
+
+/** How long each kind of link stays valid */
+export const PASSWORD_LINK_TTL_MS: Record<PasswordLinkKind, number> = {
+  invite: 72 * 60 * 60 * 1000,
+  reset:  60 * 60 * 1000,
+};
+
+export function hashPasswordToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+/**
+ * Generates a fresh token for `userId`, stores its hash and returns the
+ * set-password URL to send to the user.
+ */
+export async function issuePasswordLink(userId: ObjectId, kind: PasswordLinkKind): Promise<string> {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  const client = await clientPromise;
+  await client.db('hackoverflow').collection('users').updateOne(
+    { _id: userId },
+    {
+      $set: {
+        passwordToken: {
+          hash: hashPasswordToken(token),
+          expiresAt: new Date(Date.now() + PASSWORD_LINK_TTL_MS[kind]),
+        },
+        updatedAt: new Date(),
+      },
+    }
+  );
+
+  return `${getAppUrl()}/set-password?token=${token}`;
+}
+
+/**
+ * Emails an invite or reset link
+ */
+export async function sendPasswordLinkEmail(
+  to: { email: string; name?: string },
+  url: string,
+  kind: PasswordLinkKind
+): Promise<void> {
+  const greeting = to.name ? `Hi ${sanitizeString(to.name)},` : 'Hi,';
+  const hours    = PASSWORD_LINK_TTL_MS[kind] / (60 * 60 * 1000);
+  const intro    = kind === 'invite'
+    ? 'You have been invited to the Hackoverflow admin dashboard. Choose a password to activate your account.'
+    : 'A password reset was requested for your Hackoverflow dashboard account. Choose a new password below.';
+
+  const html = `
+    <p>${greeting}</p>
+    <p>${intro}</p>
+    <p><a href="${url}">Set your password</a></p>
+    <p>This link can be used once and expires in ${hours} hour${hours === 1 ? '' : 's'}.</p>
+  `;
+
+  await sendNotificationEmail(
+    [to.email],
+    kind === 'invite' ? 'Your Hackoverflow dashboard invitation' : 'Reset your Hackoverflow dashboard password',
+    html
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Role-Based Access Control
+ *
+ * Single permission matrix shared by server actions, API routes and the
+ * dashboard navigation. Pure data and helpers — safe to import from
+ * client components.
+ *
+ * Roles:
+ * - `admin`             — everything, including user accounts, database, bot config and the audit log
+ * - `organizer`         — participants, sponsors, mailer, ID cards, gates, food, event settings
+ * - `volunteer_scanner` — gate check-in/out only
+ * - `volunteer_food`    — food counter only
+ *
+ * `moderator` and `user` are kept for accounts created before RBAC and
+ * map to organizer permissions.
+ *
+ * @module lib/permissions
+ */
+
+export const USER_ROLES = [
+  'admin',
+  'organizer',
+  'volunteer_scanner',
+  'volunteer_food',
+  'moderator',
+  'user',
+] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export type Permission =
+  | 'participants.read'
+  | 'participants.write'
+  | 'checkin'
+  | 'food'
+  | 'sponsors'
+  | 'mailer'
+  | 'idcards'
+  | 'settings'
+  | 'database'
+  | 'bot'
+  | 'users'
+  | 'audit';
+
+const ORGANIZER: Permission[] = [
+  'participants.read',
+  'participants.write',
+  'checkin',
+  'food',
+  'sponsors',
+  'mailer',
+  'idcards',
+  'settings',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: [...ORGANIZER, 'database', 'bot', 'users', 'audit'],
+  organizer: ORGANIZER,
+  volunteer_scanner: ['participants.read', 'checkin'],
+  volunteer_food: ['participants.read', 'food'],
+  moderator: ORGANIZER,
+  user: ORGANIZER,
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  organizer: 'Organizer',
+  volunteer_scanner: 'Volunteer · Gate',
+  volunteer_food: 'Volunteer · Food',
+  moderator: 'Moderator (legacy)',
+  user: 'User (legacy)',
+};
+
+/**
+ * Dashboard routes and the permissions that open them (any one suffices).
+ * Longest matching prefix wins.
+ */
+export const PAGE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  '/dashboard':              ['participants.read'],
+  '/dashboard/participants': ['participants.read'],
+  '/dashboard/teams':        ['participants.read'],
+  '/dashboard/labs':         ['participants.write'],
+  '/dashboard/occupancy':    ['participants.read'],
+  '/dashboard/analytics':    ['participants.read'],
+  '/dashboard/sponsors':     ['sponsors'],
+  '/dashboard/mailer':       ['mailer'],
+  '/dashboard/id-cards':     ['idcards'],
+  '/dashboard/scanner':      ['checkin', 'food'],
+  '/dashboard/checkin':      ['checkin'],
+  '/dashboard/food':         ['food'],
+  '/dashboard/database':     ['database'],
+  '/dashboard/bot':          ['bot'],
+  '/dashboard/users':        ['users'],
+  '/dashboard/audit':        ['audit'],
+  '/dashboard/security':     [],
+};
+
+function isRole(role: string): role is UserRole {
+  return (USER_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Whether `role` grants at least one of `permissions`
+ *
+ * Unknown roles grant nothing.
+ */
+export function hasPermission(
+  role: string | undefined,
+  permissions: Permission | readonly Permission[]
+): boolean {
+  if (!role || !isRole(role)) return false;
+  const granted = ROLE_PERMISSIONS[role];
+  const required = typeof permissions === 'string' ? [permissions] : permissions;
+  return required.some(p => granted.includes(p));
+}
+
+/**
+ * Whether `role` may open the dashboard page at `pathname`
+ *
+ * Paths without an entry in PAGE_PERMISSIONS fall back to their closest
+ * listed parent. An empty list means any signed-in user.
+ */
+export function canAccessPath(role: string | undefined, pathname: string): boolean {
+  const match = Object.keys(PAGE_PERMISSIONS)
+    .filter(prefix => pathname === prefix || pathname.startsWith(prefix + '/'))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!match || PAGE_PERMISSIONS[match].length === 0) return true;
+  return hasPermission(role, PAGE_PERMISSIONS[match]);
+}
+
+/**
+ * First dashboard page `role` may open — where to send a volunteer
+ * whose permissions don't include the overview.
+ */
+export function getHomePath(role: string | undefined): string | null {
+  return Object.keys(PAGE_PERMISSIONS).find(path => hasPermission(role, PAGE_PERMISSIONS[path])) ?? null;
+}
@@ -0,0 +1,193 @@
+/**
+ * Rate Limit Stores
+ *
+ * Storage backends for the sliding-window limiter in lib/rate-limiter.
+ *
+ * - `memory`  — process-local Map. Fast, but resets on every deploy and
+ *               is not shared between serverless instances.
+ * - `mongodb` — one document per key in a TTL-indexed collection, updated
+ *               atomically so concurrent instances share the same window.
+ *
+ * Select with `RATE_LIMIT_STORE=memory|mongodb` (default `memory`).
+ *
+ * @module lib/rate-limit-store
+ */
+
+import clientPromise from './mongodb';
+
+/**
+ * Outcome of recording one request against a key
+ */
+export interface RateLimitHit {
+  /** Whether the request fitted in the window and was recorded */
+  readonly allowed: boolean;
+  /** Requests in the window before this one */
+  readonly previousCount: number;
+  /** Oldest request timestamp still in the window (ms) */
+  readonly oldestTimestamp: number;
+}
+
+/**
+ * A backend that tracks request timestamps per key
+ */
+export interface RateLimitStore {
+  /**
+   * Drop timestamps older than `now - windowMs` for `key`, then record
+   * `now` if fewer than `maxRequests` remain.
+   */
+  hit(key: string, now: number, windowMs: number, maxRequests: number): Promise<RateLimitHit>;
+}
+
+// ── Memory store ────────────────────────────────────────────
+
+/**
+ * The memory store, which can also answer synchronously
+ */
+export interface MemoryRateLimitStore extends RateLimitStore {
+  hitSync(key: string, now: number, windowMs: number, maxRequests: number): RateLimitHit;
+}
+
+/**
+ * Cleanup interval for expired entries (5 minutes)
+ */
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Process-local store backed by a Map
+ * Key format: `${keyPrefix}:${identifier}`
+ */
+export function createMemoryRateLimitStore(): MemoryRateLimitStore {
+  const timestampsByKey = new Map<string, number[]>();
+  // Longest window seen per key, so cleanup never drops live timestamps
+  const windowByKey = new Map<string, number>();
+  let lastCleanup = Date.now();
+
+  // Removes expired timestamps and empty entries to prevent memory leaks
+  const cleanup = (now: number) => {
+    for (const [key, timestamps] of timestampsByKey) {
+      const cutoff = now - (windowByKey.get(key) ?? 0);
+      const live = timestamps.filter(ts => ts > cutoff);
+
+      if (live.length === 0) {
+        timestampsByKey.delete(key);
+        windowByKey.delete(key);
+      } else {
+        timestampsByKey.set(key, live);
+      }
+    }
+  };
+
+  const hitSync = (key: string, now: number, windowMs: number, maxRequests: number): RateLimitHit => {
+    windowByKey.set(key, Math.max(windowMs, windowByKey.get(key) ?? 0));
+
+    if (now - lastCleanup > CLEANUP_INTERVAL_MS) {
+      cleanup(now);
+      lastCleanup = now;
+    }
+
+    // Filter timestamps within the current window
+    const timestamps = (timestampsByKey.get(key) ?? []).filter(ts => ts > now - windowMs);
+
+    const previousCount = timestamps.length;
+    const allowed = previousCount < maxRequests;
+    if (allowed) timestamps.push(now);
+    timestampsByKey.set(key, timestamps);
+
+    return { allowed, previousCount, oldestTimestamp: timestamps[0] ?? now };
+  };
+
+  return {
+    hitSync,
+    async hit(key, now, windowMs, maxRequests) {
+      return hitSync(key, now, windowMs, maxRequests);
+    },
+  };
+}
+
+// ── MongoDB store ───────────────────────────────────────────
+
+interface RateLimitDocument {
+  key: string;
+  hits: number[];
+  allowed: boolean;
+  expiresAt: Date;
+}
+
+export const RATE_LIMITS_COLLECTION = 'rate_limits';
+
+/**
+ * Shared store backed by a TTL-indexed MongoDB collection
+ */
+export function createMongoRateLimitStore(): RateLimitStore {
+  let indexesEnsured = false;
+
+  const getCollection = async () => {
+    const client = await clientPromise;
+    const collection = client.db('hackoverflow').collection<RateLimitDocument>(RATE_LIMITS_COLLECTION);
+
+    if (!indexesEnsured) {
+      await Promise.all([
+        collection.createIndex({ key: 1 }, { unique: true }),
+        collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+      ]);
+      indexesEnsured = true;
+    }
+
+    return collection;
+  };
+
+  return {
+    async hit(key, now, windowMs, maxRequests) {
+      const collection = await getCollection();
+
+      // Single pipeline update: trim the window, decide, and record — so
+      // two instances hitting the same key cannot both squeeze in.
+      const update = [
+        { $set: { hits: { $filter: { input: { $ifNull: ['$hits', []] }, cond: { $gt: ['$$this', now - windowMs] } } } } },
+        { $set: { allowed: { $lt: [{ $size: '$hits' }, maxRequests] } } },
+        {
+          $set: {
+            hits: { $cond: ['$allowed', { $concatArrays: ['$hits', [now]] }, '$hits'] },
+            expiresAt: new Date(now + windowMs),
+          },
+        },
+      ];
+
+      let doc: RateLimitDocument | null;
+      try {
+        doc = await collection.findOneAndUpdate({ key }, update, { upsert: true, returnDocument: 'after' });
+      } catch (error) {
+        // Two concurrent upserts for a new key: the loser retries as an update
+        if ((error as { code?: number }).code !== 11000) throw error;
+        doc = await collection.findOneAndUpdate({ key }, update, { returnDocument: 'after' });
+      }
+
+      if (!doc) throw new Error(`Rate limit update returned no document for ${key}`);
+
+      return {
+        allowed: doc.allowed,
+        previousCount: doc.allowed ? doc.hits.length - 1 : doc.hits.length,
+        oldestTimestamp: doc.hits[0] ?? now,
+      };
+    },
+  };
+}
+
+// ── Selection ───────────────────────────────────────────────
+
+/**
+ * Creates the store named by RATE_LIMIT_STORE
+ */
+export function createRateLimitStore(kind = process.env.RATE_LIMIT_STORE): RateLimitStore {
+  switch (kind) {
+    case 'mongodb':
+      return createMongoRateLimitStore();
+    case undefined:
+    case '':
+    case 'memory':
+      return createMemoryRateLimitStore();
+    default:
+      console.warn(`⚠️ WARNING: Unknown RATE_LIMIT_STORE "${kind}", using in-memory store`);
+      return createMemoryRateLimitStore();
+  }
+}
@@ -1,13 +1,25 @@
 /**
  * Rate Limiter Implementation
  * 
- * A sliding window rate limiter for API routes using in-memory storage.
- * For production at scale, consider using Redis-based rate limiting.
+ * A sliding window rate limiter for API routes and server actions.
+ *
+ * - `checkRateLimit` is synchronous and counts requests in this process
+ *   only.
+ * - `checkSharedRateLimit` uses the store selected by RATE_LIMIT_STORE
+ *   (see lib/rate-limit-store): in-memory by default, or MongoDB via
+ *   `RATE_LIMIT_STORE=mongodb` so limits survive deploys and are shared
+ *   across serverless instances.
  * 
  * @module lib/rate-limiter
  */
 
 import type { NextRequest } from 'next/server';
+import {
+  createMemoryRateLimitStore,
+  createRateLimitStore,
+  type RateLimitHit,
+  type RateLimitStore,
+} from './rate-limit-store';
 
 /**
  * Configuration options for rate limiting
@@ -36,23 +48,21 @@ export interface RateLimitResult {
 }
 
 /**
- * Internal structure for tracking request timestamps
+ * Store selected by RATE_LIMIT_STORE, created on first use
  */
-interface RateLimitEntry {
-  timestamps: number[];
-  lastCleanup: number;
-}
+let store: RateLimitStore | null = null;
 
 /**
- * In-memory store for rate limiting
- * Key format: `${keyPrefix}:${identifier}`
+ * Process-local store behind `checkRateLimit`, also used when the
+ * configured store fails (e.g. database unreachable) so limits still
+ * apply per instance rather than not at all
  */
-const rateLimitStore = new Map<string, RateLimitEntry>();
+const memoryStore = createMemoryRateLimitStore();
 
-/**
- * Cleanup interval for expired entries (5 minutes)
- */
-const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+function getStore(): RateLimitStore {
+  store ??= createRateLimitStore();
+  return store;
+}
 
 /**
  * Extracts a unique identifier from the request for rate limiting
@@ -66,8 +76,19 @@ const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
  * @returns A string identifier for rate limiting
  */
 export function getClientIdentifier(request: NextRequest): string {
+  return getClientIdentifierFromHeaders(request.headers);
+}
+
+/**
+ * Same as `getClientIdentifier`, for callers that only have the request
+ * headers — e.g. server actions via `headers()` from next/headers.
+ *
+ * @param headers - Incoming request headers
+ * @returns A string identifier for rate limiting
+ */
+export function getClientIdentifierFromHeaders(headers: Pick<Headers, 'get'>): string {
   // Check for forwarded IP (common with proxies/load balancers)
-  const forwardedFor = request.headers.get('x-forwarded-for');
+  const forwardedFor = headers.get('x-forwarded-for');
   if (forwardedFor) {
     // Take the first IP in the chain (original client)
     const clientIp = forwardedFor.split(',')[0]?.trim();
@@ -75,12 +96,12 @@ export function getClientIdentifier(request: NextRequest): string {
   }
 
   // Check for X-Real-IP header
-  const realIp = request.headers.get('x-real-ip');
+  const realIp = headers.get('x-real-ip');
   if (realIp) return realIp;
 
   // Fallback to a hash of user agent + some request info
-  const userAgent = request.headers.get('user-agent') ?? 'unknown';
-  const acceptLanguage = request.headers.get('accept-language') ?? 'unknown';
+  const userAgent = headers.get('user-agent') ?? 'unknown';
+  const acceptLanguage = headers.get('accept-language') ?? 'unknown';
   
   // Create a simple hash for anonymous identification
   return `anon:${simpleHash(userAgent + acceptLanguage)}`;
@@ -99,23 +120,19 @@ function simpleHash(str: string): string {
   return Math.abs(hash).toString(36);
 }
 
-/**
- * Cleans up old entries from the rate limit store
- * Called periodically to prevent memory leaks
- */
-function cleanupExpiredEntries(windowMs: number): void {
-  const now = Date.now();
-  const cutoff = now - windowMs;
-
-  for (const [key, entry] of rateLimitStore.entries()) {
-    // Remove timestamps outside the window
-    entry.timestamps = entry.timestamps.filter((ts) => ts > cutoff);
-    
-    // Remove entries with no remaining timestamps
-    if (entry.timestamps.length === 0) {
-      rateLimitStore.delete(key);
-    }
-  }
+/** Rate limit result for a recorded hit */
+function toResult(hit: RateLimitHit, { maxRequests, windowMs }: RateLimitConfig): RateLimitResult {
+  const { allowed, previousCount: currentCount } = hit;
+
+  // Calculate reset time (when the oldest request in window expires)
+  const resetTime = hit.oldestTimestamp + windowMs;
+
+  return {
+    allowed,
+    remaining: Math.max(0, maxRequests - currentCount - (allowed ? 1 : 0)),
+    resetTime,
+    currentCount: currentCount + (allowed ? 1 : 0),
+  };
 }
 
 /**
@@ -124,7 +141,10 @@ function cleanupExpiredEntries(windowMs: number): void {
  * Uses a sliding window algorithm:
  * - Tracks individual request timestamps
  * - Counts requests within the sliding window
- * - Automatically cleans up old timestamps
+ * - Old timestamps are dropped by the store
+ *
+ * Counts are kept in this process only; use `checkSharedRateLimit` for
+ * limits that must hold across instances and deploys.
  * 
  * @param identifier - Unique identifier for the client
  * @param config - Rate limit configuration
@@ -147,50 +167,38 @@ export function checkRateLimit(
   identifier: string,
   config: RateLimitConfig
 ): RateLimitResult {
+  const { maxRequests, windowMs, keyPrefix = 'default' } = config;
+  const hit = memoryStore.hitSync(`${keyPrefix}:${identifier}`, Date.now(), windowMs, maxRequests);
+  return toResult(hit, config);
+}
+
+/**
+ * Same as `checkRateLimit`, counted in the store selected by
+ * RATE_LIMIT_STORE
+ *
+ * Falls back to the process-local store if that store fails.
+ *
+ * @param identifier - Unique identifier for the client
+ * @param config - Rate limit configuration
+ * @returns Rate limit result with allowed status and metadata
+ */
+export async function checkSharedRateLimit(
+  identifier: string,
+  config: RateLimitConfig
+): Promise<RateLimitResult> {
   const { maxRequests, windowMs, keyPrefix = 'default' } = config;
   const key = `${keyPrefix}:${identifier}`;
   const now = Date.now();
-  const windowStart = now - windowMs;
-
-  // Get or create entry
-  let entry = rateLimitStore.get(key);
-  
-  if (!entry) {
-    entry = {
-      timestamps: [],
-      lastCleanup: now,
-    };
-    rateLimitStore.set(key, entry);
-  }
 
-  // Periodic cleanup of all entries
-  if (now - entry.lastCleanup > CLEANUP_INTERVAL_MS) {
-    cleanupExpiredEntries(windowMs);
-    entry.lastCleanup = now;
+  let hit: RateLimitHit;
+  try {
+    hit = await getStore().hit(key, now, windowMs, maxRequests);
+  } catch (error) {
+    console.error('Rate limit store error, falling back to in-memory limits:', error);
+    hit = memoryStore.hitSync(key, now, windowMs, maxRequests);
   }
 
-  // Filter timestamps within the current window
-  entry.timestamps = entry.timestamps.filter((ts) => ts > windowStart);
-
-  // Check if rate limit exceeded
-  const currentCount = entry.timestamps.length;
-  const allowed = currentCount < maxRequests;
-
-  if (allowed) {
-    // Record this request
-    entry.timestamps.push(now);
-  }
-
-  // Calculate reset time (when the oldest request in window expires)
-  const oldestTimestamp = entry.timestamps[0] ?? now;
-  const resetTime = oldestTimestamp + windowMs;
-
-  return {
-    allowed,
-    remaining: Math.max(0, maxRequests - currentCount - (allowed ? 1 : 0)),
-    resetTime,
-    currentCount: currentCount + (allowed ? 1 : 0),
-  };
+  return toResult(hit, config);
 }
 
 /**
@@ -0,0 +1,56 @@
+/**
+ * Server Action Session Guard
+ *
+ * Wraps a server action so it only runs for a signed-in, active user
+ * whose role grants the required permission (see lib/permissions).
+ * The wrapped handler receives the verified session user as its first
+ * argument; callers invoke the action with the remaining arguments.
+ * Anonymous or under-privileged callers get an `UnauthorizedResult`
+ * instead of the handler's result — the handler never runs.
+ *
+ * @example
+ * export const deleteThing = requireSession('database')(
+ *   async (user, id: string) => { ... }
+ * );
+ *
+ * @module lib/require-session
+ */
+
+import { checkSessionAction } from '@/actions/auth';
+import type { SessionUser } from '@/lib/auth';
+import { hasPermission, type Permission } from '@/lib/permissions';
+import type { UnauthorizedResult } from '@/types';
+
+function unauthorized(reason: UnauthorizedResult['reason'], error: string): UnauthorizedResult {
+  return { success: false, unauthorized: true, reason, error };
+}
+
+/**
+ * Returns a wrapper that guards an action behind a valid session
+ *
+ * @param permission - Permission(s) required, any one suffices.
+ *                     Omit to allow any signed-in user.
+ */
+export function requireSession(permission?: Permission | Permission[]) {
+  return function <Args extends unknown[], R>(
+    action: (user: SessionUser, ...args: Args) => Promise<R>
+  ): (...args: Args) => Promise<R | UnauthorizedResult> {
+    return async (...args: Args) => {
+      const session = await checkSessionAction();
+      if (!session.authenticated || !session.user) {
+        return unauthorized('unauthenticated', 'Authentication required');
+      }
+
+      if (permission && !hasPermission(session.user.role, permission)) {
+        return unauthorized('forbidden', 'You do not have permission to perform this action');
+      }
+
+      // Users the 2FA policy applies to can only manage their own account until enrolled
+      if (permission && session.user.twoFactorSetupRequired) {
+        return unauthorized('forbidden', 'Two-factor authentication is required for your role — enable it on the Security page');
+      }
+
+      return action(session.user, ...args);
+    };
+  };
+}
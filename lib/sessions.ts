@@ -0,0 +1,151 @@
+/**
+ * Server-Side Sessions
+ *
+ * Every issued JWT carries a `jti` that names a document in `sessions`.
+ * A token is only honoured while its session exists, has not been
+ * revoked and has not expired, so logging out or revoking a session
+ * invalidates a token immediately instead of at its 7-day expiry.
+ *
+ * @module lib/sessions
+ */
+
+import crypto from 'crypto';
+import clientPromise from './mongodb';
+
+const DB_NAME = 'hackoverflow';
+export const SESSIONS_COLLECTION = 'sessions';
+
+/** `lastSeenAt` is refreshed at most this often per session */
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SessionDocument {
+  jti: string;
+  userId: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  ip?: string;
+  userAgent?: string;
+  revokedAt?: Date;
+}
+
+let indexesEnsured = false;
+
+/**
+ * Get the sessions collection, creating its indexes on first use.
+ * Sessions are removed by a TTL index once their token has expired.
+ */
+export async function getSessionsCollection() {
+  const client = await clientPromise;
+  const collection = client.db(DB_NAME).collection<SessionDocument>(SESSIONS_COLLECTION);
+
+  if (!indexesEnsured) {
+    await Promise.all([
+      collection.createIndex({ jti: 1 }, { unique: true }),
+      collection.createIndex({ userId: 1, lastSeenAt: -1 }),
+      collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    ]);
+    indexesEnsured = true;
+  }
+
+  return collection;
+}
+
+function activeFilter(now: Date) {
+  return { revokedAt: { $exists: false }, expiresAt: { $gt: now } };
+}
+
+/**
+ * Record a new session and return its `jti` for the token
+ */
+export async function createSession(session: {
+  userId: string;
+  maxAgeSeconds: number;
+  ip?: string;
+  userAgent?: string;
+}): Promise<string> {
+  const collection = await getSessionsCollection();
+  const now = new Date();
+  const jti = crypto.randomUUID();
+
+  await collection.insertOne({
+    jti,
+    userId: session.userId,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: new Date(now.getTime() + session.maxAgeSeconds * 1000),
+    ip: session.ip,
+    userAgent: session.userAgent,
+  });
+
+  return jti;
+}
+
+/**
+ * Whether the session behind a token is still valid for `userId`
+ */
+export async function isSessionActive(jti: string, userId: string): Promise<boolean> {
+  const collection = await getSessionsCollection();
+  const now = new Date();
+  const session = await collection.findOne({ jti, userId, ...activeFilter(now) });
+  if (!session) return false;
+
+  if (now.getTime() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+    collection
+      .updateOne({ jti }, { $set: { lastSeenAt: now } })
+      .catch(err => console.error('Failed to update session lastSeenAt:', err));
+  }
+
+  return true;
+}
+
+/**
+ * Push back the expiry of a live session when its token is re-issued.
+ * Returns false if the session has been revoked or has already expired.
+ */
+export async function extendSession(jti: string, userId: string, maxAgeSeconds: number): Promise<boolean> {
+  const collection = await getSessionsCollection();
+  const now = new Date();
+  const result = await collection.updateOne(
+    { jti, userId, ...activeFilter(now) },
+    { $set: { lastSeenAt: now, expiresAt: new Date(now.getTime() + maxAgeSeconds * 1000) } }
+  );
+  return result.matchedCount > 0;
+}
+
+/**
+ * Active sessions for a user, most recently used first
+ */
+export async function listActiveSessions(userId: string): Promise<SessionDocument[]> {
+  const collection = await getSessionsCollection();
+  return collection
+    .find({ userId, ...activeFilter(new Date()) }, { projection: { _id: 0 } })
+    .sort({ lastSeenAt: -1 })
+    .toArray();
+}
+
+/**
+ * Revoke one session. Returns false if it was not found or already revoked.
+ */
+export async function revokeSession(jti: string, userId?: string): Promise<boolean> {
+  const collection = await getSessionsCollection();
+  const result = await collection.updateOne(
+    { jti, ...(userId && { userId }), revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping one
+ *
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(userId: string, exceptJti?: string): Promise<number> {
+  const collection = await getSessionsCollection();
+  const result = await collection.updateMany(
+    { userId, revokedAt: { $exists: false }, ...(exceptJti && { jti: { $ne: exceptJti } }) },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount;
+}
@@ -0,0 +1,104 @@
+/**
+ * Teams Collection
+ *
+ * Team documents hold team-level details (name, project, lab, mentor).
+ * Membership lives on the participant as `teamId`, so moving a member
+ * is a single participant update and a participant can never end up in
+ * two teams. `teamName` on the participant is a denormalised copy of the
+ * team's name that the team actions keep in sync.
+ *
+ * Server-only.
+ *
+ * @module lib/teams
+ */
+
+import clientPromise from '@/lib/mongodb';
+import type { Team } from '@/types';
+
+const DB_NAME = 'hackoverflow';
+export const TEAMS_COLLECTION = 'teams';
+
+/** Prefix and zero-padding of generated team IDs: TEAM-001, TEAM-002, … */
+const TEAM_ID_PREFIX = 'TEAM-';
+const TEAM_ID_DIGITS = 3;
+
+let indexesEnsured = false;
+
+/**
+ * Get the teams collection, creating its indexes on first use
+ */
+export async function getTeamsCollection() {
+  const client = await clientPromise;
+  const collection = client.db(DB_NAME).collection<Omit<Team, '_id'>>(TEAMS_COLLECTION);
+
+  if (!indexesEnsured) {
+    await Promise.all([
+      collection.createIndex({ teamId: 1 }, { unique: true }),
+      collection.createIndex({ name: 1 }),
+    ]);
+    indexesEnsured = true;
+  }
+
+  return collection;
+}
+
+/**
+ * Format the `n`th generated team ID
+ */
+export function formatTeamId(n: number): string {
+  return `${TEAM_ID_PREFIX}${String(n).padStart(TEAM_ID_DIGITS, '0')}`;
+}
+
+/**
+ * Comparable form of a team name: trimmed, case- and spacing-insensitive
+ */
+export function normalizeTeamName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Next unused generated team ID
+ *
+ * IDs imported from CSV that don't follow the TEAM-NNN pattern are
+ * ignored. Two callers can get the same ID; the unique index rejects
+ * the second insert, which is retried by `insertTeam`.
+ */
+export async function getNextTeamId(): Promise<string> {
+  const collection = await getTeamsCollection();
+  const existing = await collection
+    .find({ teamId: { $regex: `^${TEAM_ID_PREFIX}\\d+$` } }, { projection: { teamId: 1 } })
+    .toArray();
+
+  const highest = existing.reduce(
+    (max, t) => Math.max(max, Number(t.teamId.slice(TEAM_ID_PREFIX.length))),
+    0
+  );
+  return formatTeamId(highest + 1);
+}
+
+/**
+ * Whether a write failed on a unique index (e.g. a taken `teamId`)
+ */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+}
+
+/**
+ * Insert a team with a freshly generated ID, retrying if another
+ * request took the same ID first
+ */
+export async function insertTeam(details: Omit<Team, '_id' | 'teamId'>): Promise<Team> {
+  const collection = await getTeamsCollection();
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const team = { ...details, teamId: await getNextTeamId() };
+    try {
+      const result = await collection.insertOne(team);
+      return { ...team, _id: result.insertedId.toString() };
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) throw error;
+    }
+  }
+
+  throw new Error('Could not allocate a team ID, please try again');
+}
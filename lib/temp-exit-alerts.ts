@@ -0,0 +1,215 @@
+/**
+ * Overdue Temporary Exit Alerts
+ *
+ * Finds participants whose temporary lab exit has lasted longer than the
+ * configured threshold and alerts staff by email and through the Discord
+ * bot's `scheduled_messages` queue. Each exit is claimed by stamping
+ * `tempLabCheckOut.alertedAt` before any alert is sent, so overlapping
+ * cron runs never alert the same exit twice. A new exit overwrites the
+ * whole `tempLabCheckOut` object and therefore clears the stamp.
+ * Nothing is sent while the alerts are disabled in the event settings.
+ *
+ * Run from the `/api/temp-exit-alerts` cron route.
+ *
+ * @module lib/temp-exit-alerts
+ */
+
+import { ObjectId } from 'mongodb';
+import clientPromise, { PARTICIPANTS_DB, BOT_DB } from '@/lib/mongodb';
+import { sendNotificationEmail } from '@/lib/email';
+import { NOT_TRASHED } from '@/lib/trash';
+import { getTempExitAlertSettings } from '@/lib/event-config';
+import type { DBParticipant, TempExitAlertSettings } from '@/types';
+
+type ParticipantDocument = Omit<DBParticipant, '_id'> & { _id: ObjectId };
+
+export interface TempExitAlertRunResult {
+  thresholdMinutes: number;
+  /** Participants newly alerted in this run */
+  alerted: { participantId: string; name: string; teamName?: string; minutesOut: number }[];
+  emailSent: boolean;
+  discordQueued: boolean;
+  errors: string[];
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatTime(d: Date): string {
+  return d.toLocaleString('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    hour: '2-digit', minute: '2-digit',
+    hour12: false,
+  }) + ' IST';
+}
+
+function buildEmailHtml(
+  alerted: TempExitAlertRunResult['alerted'],
+  exitTimes: Map<string, Date>,
+  thresholdMinutes: number
+): string {
+  const rows = alerted.map(a => `
+      <tr>
+        <td style="padding:8px 12px;border-bottom:1px solid rgba(255,255,255,0.08)">${escapeHtml(a.participantId)}</td>
+        <td style="padding:8px 12px;border-bottom:1px solid rgba(255,255,255,0.08)">${escapeHtml(a.name)}</td>
+        <td style="padding:8px 12px;border-bottom:1px solid rgba(255,255,255,0.08)">${escapeHtml(a.teamName ?? '—')}</td>
+        <td style="padding:8px 12px;border-bottom:1px solid rgba(255,255,255,0.08)">${formatTime(exitTimes.get(a.participantId)!)}</td>
+        <td style="padding:8px 12px;border-bottom:1px solid rgba(255,255,255,0.08);color:#f87171">${a.minutesOut}m</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#000;color:#fff;font-family:monospace">
+  <div style="max-width:640px;margin:0 auto">
+    <div style="font-size:18px;font-weight:bold;margin-bottom:8px">
+      ${alerted.length} participant${alerted.length === 1 ? '' : 's'} out of the lab for more than ${thresholdMinutes} minutes
+    </div>
+    <div style="font-size:12px;color:rgba(255,255,255,0.5);margin-bottom:16px">
+      Temporary exits recorded at the gate that have not been closed.
+    </div>
+    <table style="width:100%;border-collapse:collapse;font-size:12px;border:1px solid rgba(255,255,255,0.1)">
+      <tr style="color:rgba(255,255,255,0.5);text-align:left">
+        <th style="padding:8px 12px">ID</th><th style="padding:8px 12px">NAME</th>
+        <th style="padding:8px 12px">TEAM</th><th style="padding:8px 12px">LEFT AT</th>
+        <th style="padding:8px 12px">OUT</th>
+      </tr>${rows}
+    </table>
+    <div style="margin-top:16px;font-size:11px;color:rgba(255,255,255,0.25)">
+      Automated alert &middot; Hackoverflow Dashboard &middot; Each exit is reported once
+    </div>
+  </div>
+</body>
+</html>`;
+}
+
+function buildDiscordContent(alerted: TempExitAlertRunResult['alerted'], thresholdMinutes: number): string {
+  const lines = alerted.map(a =>
+    `• **${a.name}** (${a.participantId})${a.teamName ? ` — ${a.teamName}` : ''} · out ${a.minutesOut}m`
+  );
+  return [`Out of the lab for more than ${thresholdMinutes} minutes:`, ...lines].join('\n');
+}
+
+/**
+ * Whether a participant's temporary exit is due an alert at `now`: the
+ * exit is still open, has lasted at least the threshold and has not
+ * been alerted yet
+ */
+export function isTempExitOverdue(
+  p: Pick<DBParticipant, 'tempLabCheckOut' | 'labCheckOut' | 'collegeCheckOut'>,
+  settings: TempExitAlertSettings,
+  now: Date
+): boolean {
+  const exit = p.tempLabCheckOut;
+  if (!settings.enabled || !exit?.status || !exit.time || exit.alertedAt) return false;
+  if (p.labCheckOut?.status || p.collegeCheckOut?.status) return false;
+  return new Date(exit.time).getTime() <= now.getTime() - settings.thresholdMinutes * 60_000;
+}
+
+/**
+ * Alert on every temporary exit that crossed the threshold since the last run
+ */
+export async function runTempExitAlerts(now = new Date()): Promise<TempExitAlertRunResult> {
+  const settings = await getTempExitAlertSettings();
+
+  const result: TempExitAlertRunResult = {
+    thresholdMinutes: settings.thresholdMinutes,
+    alerted: [],
+    emailSent: false,
+    discordQueued: false,
+    errors: [],
+  };
+  if (!settings.enabled) return result;
+
+  const client = await clientPromise;
+  const participants = client.db(PARTICIPANTS_DB).collection<ParticipantDocument>('participants');
+
+  // Every unalerted temporary exit; isTempExitOverdue decides which are due
+  const openExits = await participants
+    .find({
+      ...NOT_TRASHED,
+      'tempLabCheckOut.status':    true,
+      'tempLabCheckOut.alertedAt': { $exists: false },
+    })
+    .project<Pick<ParticipantDocument, '_id' | 'participantId' | 'name' | 'teamName' | 'tempLabCheckOut' | 'labCheckOut' | 'collegeCheckOut'>>({
+      participantId: 1, name: 1, teamName: 1, tempLabCheckOut: 1, labCheckOut: 1, collegeCheckOut: 1,
+    })
+    .toArray();
+
+  const exitTimes = new Map<string, Date>();
+
+  for (const p of openExits) {
+    if (!isTempExitOverdue(p, settings, now)) continue;
+    const exitTime = p.tempLabCheckOut!.time!;
+
+    // Claim this exit — only the run that sets alertedAt reports it
+    const claim = await participants.updateOne(
+      {
+        _id: p._id,
+        'tempLabCheckOut.status':    true,
+        'tempLabCheckOut.time':      exitTime,
+        'tempLabCheckOut.alertedAt': { $exists: false },
+      },
+      { $set: { 'tempLabCheckOut.alertedAt': now } }
+    );
+    if (claim.modifiedCount === 0) continue;
+
+    exitTimes.set(p.participantId, new Date(exitTime));
+    result.alerted.push({
+      participantId: p.participantId,
+      name:          p.name,
+      teamName:      p.teamName,
+      minutesOut:    Math.floor((now.getTime() - new Date(exitTime).getTime()) / 60_000),
+    });
+  }
+
+  if (result.alerted.length === 0) return result;
+
+  const subject = `[ALERT] ${result.alerted.length} participant${result.alerted.length === 1 ? '' : 's'} out of lab > ${settings.thresholdMinutes}m`;
+
+  // ── Email ──────────────────────────────────────────────────────────────────
+  const fallback   = process.env.EMAIL_REPORT_TO ?? process.env.EMAIL_USER;
+  const recipients = settings.emailTo.length > 0 ? settings.emailTo : fallback ? [fallback] : [];
+  if (recipients.length > 0) {
+    try {
+      await sendNotificationEmail(recipients, subject, buildEmailHtml(result.alerted, exitTimes, settings.thresholdMinutes));
+      result.emailSent = true;
+    } catch (err) {
+      result.errors.push(`Email: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  } else {
+    result.errors.push('Email: no recipients configured');
+  }
+
+  // ── Discord (picked up by the bot's scheduled message runner) ──────────────
+  const channelId = settings.discordChannelId || process.env.DISCORD_ALERT_CHANNEL_ID;
+  if (channelId) {
+    try {
+      await client.db(BOT_DB).collection('scheduled_messages').insertOne({
+        _id:            new ObjectId(),
+        name:           `Temp exit alert · ${formatTime(now)}`,
+        channelId,
+        messageFormat:  'embed',
+        content:        buildDiscordContent(result.alerted, settings.thresholdMinutes),
+        embedTitle:     subject,
+        embedColor:     '#f87171',
+        scheduleType:   'once',
+        cronExpression: null,
+        sendAt:         now,
+        active:         true,
+        sent:           false,
+        sentCount:      0,
+        lastSentAt:     null,
+        createdAt:      now,
+        createdBy:      'temp-exit-alerts',
+      });
+      result.discordQueued = true;
+    } catch (err) {
+      result.errors.push(`Discord: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  } else {
+    result.errors.push('Discord: no alert channel configured');
+  }
+
+  return result;
+}
@@ -0,0 +1,188 @@
+/**
+ * TOTP (RFC 6238) and Recovery Codes
+ *
+ * Dependency-free implementation on Node's crypto: HOTP (RFC 4226),
+ * TOTP on top of it, base32 secrets and `otpauth://` URIs for
+ * authenticator apps. Checked against the RFC 6238 Appendix B test
+ * vectors by lib/__tests__/totp.test.ts.
+ *
+ * Server-only.
+ *
+ * @module lib/totp
+ */
+
+import crypto from 'crypto';
+
+export type TotpAlgorithm = 'sha1' | 'sha256' | 'sha512';
+
+export interface TotpOptions {
+  /** Time step in seconds (RFC default 30) */
+  step?: number;
+  /** Code length (6 for authenticator apps, 8 in the RFC vectors) */
+  digits?: number;
+  algorithm?: TotpAlgorithm;
+}
+
+const DEFAULTS = { step: 30, digits: 6, algorithm: 'sha1' } as const satisfies Required<TotpOptions>;
+
+/** Issuer shown in authenticator apps */
+export const TOTP_ISSUER = 'Hackoverflow Admin';
+
+/** Steps either side of "now" accepted to absorb clock drift */
+const DRIFT_STEPS = 1;
+
+// ── Base32 (RFC 4648, no padding) ───────────────────────────
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(output);
+}
+
+// ── HOTP / TOTP ─────────────────────────────────────────────
+
+/**
+ * HOTP value for `counter` (RFC 4226 §5.3)
+ */
+export function hotp(
+  key: Buffer,
+  counter: number,
+  digits: number = DEFAULTS.digits,
+  algorithm: TotpAlgorithm = DEFAULTS.algorithm
+): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac(algorithm, key).update(message).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Time step containing `timeMs`
+ */
+export function getTotpStep(timeMs: number, step: number = DEFAULTS.step): number {
+  return Math.floor(timeMs / 1000 / step);
+}
+
+/**
+ * TOTP value at `timeMs` for a raw key
+ */
+export function totp(key: Buffer, timeMs: number, options: TotpOptions = {}): string {
+  const { step, digits, algorithm } = { ...DEFAULTS, ...options };
+  return hotp(key, getTotpStep(timeMs, step), digits, algorithm);
+}
+
+/**
+ * Check a 6-digit code against a base32 secret, allowing one step of
+ * clock drift either way.
+ *
+ * @param lastUsedStep - Step of the last accepted code; codes at or
+ *                       before it are rejected so a code cannot be replayed
+ * @returns The matched step, or null if the code is invalid
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  timeMs: number = Date.now(),
+  lastUsedStep?: number
+): number | null {
+  const normalized = code.replace(/\s+/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const current = getTotpStep(timeMs);
+
+  for (let offset = -DRIFT_STEPS; offset <= DRIFT_STEPS; offset++) {
+    const step = current + offset;
+    if (lastUsedStep !== undefined && step <= lastUsedStep) continue;
+
+    const expected = hotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return step;
+  }
+
+  return null;
+}
+
+/**
+ * New random 160-bit secret, base32-encoded
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * `otpauth://` URI for QR enrollment in authenticator apps
+ */
+export function buildOtpAuthUri(secret: string, accountName: string, issuer: string = TOTP_ISSUER): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: DEFAULTS.algorithm.toUpperCase(),
+    digits: String(DEFAULTS.digits),
+    period: String(DEFAULTS.step),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ── Recovery codes ──────────────────────────────────────────
+
+export const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * One-time recovery codes in `xxxxx-xxxxx` form (lowercase hex)
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+/**
+ * Hash stored for a recovery code. Codes carry 40 random bits, so a
+ * plain SHA-256 is enough and keeps lookup a simple equality match.
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.trim().toLowerCase().replace(/[^a-f0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
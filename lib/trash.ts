@@ -0,0 +1,95 @@
+/**
+ * Trash (Soft Delete)
+ *
+ * Deleting a participant or sponsor only stamps `deletedAt`/`deletedBy`
+ * on the document. Every read and write filters with `NOT_TRASHED`, so a
+ * trashed record disappears from the dashboard, scanners, exports and
+ * backups but can be restored from the trash view.
+ *
+ * Records stay in the trash for `TRASH_RETENTION_DAYS` (env, default 30)
+ * and are then removed for good by `purgeExpiredTrash`, which the
+ * `/api/trash-purge` cron route runs.
+ *
+ * Server-only.
+ *
+ * @module lib/trash
+ */
+
+import clientPromise from '@/lib/mongodb';
+import { recordAudit, SYSTEM_ACTOR } from '@/lib/audit-log';
+
+const DB_NAME = 'hackoverflow';
+
+/** Collections with a trash, and the audit target type of their records */
+const TRASHABLE = [
+  { collection: 'participants', targetType: 'participant' },
+  { collection: 'sponsors',     targetType: 'sponsor' },
+] as const;
+
+export type TrashableCollection = (typeof TRASHABLE)[number]['collection'];
+
+/** Days a record stays in the trash before it is purged */
+export const TRASH_RETENTION_DAYS = Math.max(1, Number(process.env.TRASH_RETENTION_DAYS) || 30);
+
+/** Matches records that are not in the trash — add to every query */
+export const NOT_TRASHED = { deletedAt: { $exists: false } } as const;
+
+/** Matches records that are in the trash */
+export const IN_TRASH = { deletedAt: { $exists: true } } as const;
+
+/** Fields set when moving a record to the trash */
+export function trashFields(actorEmail: string, now = new Date()) {
+  return { deletedAt: now, deletedBy: actorEmail, updatedAt: now };
+}
+
+/** Update that takes a record back out of the trash */
+export function restoreUpdate(now = new Date()) {
+  return {
+    $unset: { deletedAt: '' as const, deletedBy: '' as const },
+    $set: { updatedAt: now },
+  };
+}
+
+/** When a record trashed at `deletedAt` will be purged */
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export type TrashPurgeResult = Record<TrashableCollection, number>;
+
+/**
+ * Permanently delete records that have been in the trash longer than
+ * the retention period, recording one audit entry per collection
+ */
+export async function purgeExpiredTrash(now = new Date()): Promise<TrashPurgeResult> {
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const result = {} as TrashPurgeResult;
+
+  for (const { collection, targetType } of TRASHABLE) {
+    const col = db.collection(collection);
+    const expired = await col
+      .find({ deletedAt: { $lte: cutoff } }, { projection: { _id: 1 } })
+      .toArray();
+
+    if (expired.length === 0) {
+      result[collection] = 0;
+      continue;
+    }
+
+    const ids = expired.map(d => d._id);
+    const { deletedCount } = await col.deleteMany({ _id: { $in: ids }, deletedAt: { $lte: cutoff } });
+    result[collection] = deletedCount;
+
+    await recordAudit(SYSTEM_ACTOR, {
+      action: `${targetType}.purge`,
+      targetType,
+      targetIds: ids.map(String),
+      summary: `Purged ${deletedCount} ${targetType}(s) trashed more than ${TRASH_RETENTION_DAYS} day(s) ago`,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,91 @@
+/**
+ * Two-Factor Authentication Storage and Policy
+ *
+ * Per-user TOTP state lives on the user document:
+ * - `twoFactorPending` — secret shown during enrollment, until confirmed
+ * - `twoFactor`        — confirmed secret, last accepted time step and
+ *                        SHA-256 hashes of the unused recovery codes
+ *
+ * The admin policy (`requireTwoFactorForAdmins`) is stored in the
+ * `security` section of the event configuration document.
+ *
+ * Server-only.
+ *
+ * @module lib/two-factor
+ */
+
+import { ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { verifyTotp, hashRecoveryCode } from './totp';
+import type { UserDocument } from './validation';
+import { DEFAULT_SECURITY_POLICY, type SecurityPolicy } from '@/types';
+
+const DB_NAME = 'hackoverflow';
+
+/** Roles the `requireTwoFactorForAdmins` policy applies to */
+export const TWO_FACTOR_POLICY_ROLES: readonly string[] = ['admin'];
+
+type UserRecord = Omit<UserDocument, '_id'> & { _id: ObjectId };
+
+async function getUsersCollection() {
+  const client = await clientPromise;
+  return client.db(DB_NAME).collection<UserRecord>('users');
+}
+
+/**
+ * Current security policy, falling back to defaults until saved
+ */
+export async function getSecurityPolicy(): Promise<SecurityPolicy> {
+  try {
+    const client = await clientPromise;
+    const doc = await client
+      .db(process.env.MONGODB_DB || DB_NAME)
+      .collection('event_config')
+      .findOne({ _id: 'current' as never }, { projection: { security: 1 } });
+    return { ...DEFAULT_SECURITY_POLICY, ...(doc?.security as Partial<SecurityPolicy> | undefined) };
+  } catch (error) {
+    console.error('Error fetching security policy:', error);
+    return DEFAULT_SECURITY_POLICY;
+  }
+}
+
+/**
+ * Whether the policy requires 2FA for `role`
+ */
+export function isTwoFactorRequired(role: string, policy: SecurityPolicy): boolean {
+  return policy.requireTwoFactorForAdmins && TWO_FACTOR_POLICY_ROLES.includes(role);
+}
+
+/**
+ * Check a second-factor code for a user with 2FA enabled
+ *
+ * TOTP codes are accepted at most once per time step; recovery codes
+ * are removed when used. Both are claimed with a conditional update so
+ * two concurrent logins cannot spend the same code.
+ *
+ * @returns How the user was verified, or null if the code is invalid
+ */
+export async function verifySecondFactor(
+  userId: ObjectId,
+  code: string
+): Promise<'totp' | 'recovery' | null> {
+  const users = await getUsersCollection();
+  const user = await users.findOne({ _id: userId }, { projection: { twoFactor: 1 } });
+  if (!user?.twoFactor) return null;
+
+  const step = verifyTotp(user.twoFactor.secret, code, Date.now(), user.twoFactor.lastUsedStep);
+  if (step !== null) {
+    const claimed = await users.updateOne(
+      { _id: userId, 'twoFactor.lastUsedStep': { $not: { $gte: step } } },
+      { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return claimed.modifiedCount > 0 ? 'totp' : null;
+  }
+
+  const hash = hashRecoveryCode(code);
+  const used = await users.updateOne(
+    { _id: userId, 'twoFactor.recoveryCodes': hash },
+    { $pull: { 'twoFactor.recoveryCodes': hash } }
+  );
+  return used.modifiedCount > 0 ? 'recovery' : null;
+}
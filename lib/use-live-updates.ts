@@ -0,0 +1,85 @@
+'use client';
+
+/**
+ * Live Update Subscription
+ *
+ * React hook that opens an EventSource on `/api/live` and hands every
+ * `LiveUpdate` to the page. It reports whether the stream is connected
+ * so pages can keep their interval refresh as a fallback while it
+ * isn't.
+ *
+ * @module lib/use-live-updates
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { LiveTopic, LiveUpdate } from '@/types';
+
+/** Wait before reopening a stream the server refused (e.g. signed out) */
+const RECONNECT_MS = 30_000;
+
+export interface LiveUpdateOptions {
+  /** Subscribe only while true; defaults to true */
+  enabled?: boolean;
+  /** Called on every (re)connect, e.g. to catch up on changes missed while offline */
+  onOpen?: () => void;
+}
+
+/**
+ * Subscribe to `topics`
+ *
+ * @returns Whether the stream is currently connected
+ */
+export function useLiveUpdates(
+  topics: LiveTopic[],
+  onUpdate: (update: LiveUpdate) => void,
+  { enabled = true, onOpen }: LiveUpdateOptions = {}
+): boolean {
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef({ onUpdate, onOpen });
+  const key = topics.join(',');
+
+  // The stream stays open across renders; always call the latest handlers
+  useEffect(() => { handlersRef.current = { onUpdate, onOpen }; });
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      source = new EventSource(`/api/live?topics=${encodeURIComponent(key)}`);
+      source.onopen = () => {
+        setConnected(true);
+        handlersRef.current.onOpen?.();
+      };
+      source.onmessage = event => {
+        let update: LiveUpdate;
+        try {
+          update = JSON.parse(event.data);
+        } catch {
+          console.error('Malformed live update:', event.data);
+          return;
+        }
+        handlersRef.current.onUpdate(update);
+      };
+      source.onerror = () => {
+        setConnected(false);
+        // EventSource retries dropped connections itself but gives up on HTTP errors
+        if (source?.readyState === EventSource.CLOSED) {
+          source.close();
+          retry = setTimeout(connect, RECONNECT_MS);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      clearTimeout(retry);
+      source?.close();
+      setConnected(false);
+    };
+  }, [key, enabled]);
+
+  return connected;
+}
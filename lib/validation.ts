@@ -8,6 +8,7 @@
  */
 
 import { z } from 'zod';
+import { USER_ROLES } from './permissions';
 
 /**
  * Email validation regex
@@ -63,9 +64,14 @@ export const JWTPayloadSchema = z.object({
     .email('Invalid email in token'),
     
   role: z
-    .enum(['admin', 'user', 'moderator'])
+    .enum(USER_ROLES)
     .default('admin'),
     
+  /** Session ID — see lib/sessions */
+  jti: z
+    .string()
+    .min(1, 'Session ID is required'),
+    
   iat: z
     .number()
     .optional(),
@@ -86,13 +92,28 @@ export type JWTPayload = z.infer<typeof JWTPayloadSchema>;
 export const UserDocumentSchema = z.object({
   _id: z.any(), // MongoDB ObjectId
   email: z.string().email(),
-  password: z.string(),
+  password: z.string().optional(),
   name: z.string().optional(),
-  role: z.enum(['admin', 'user', 'moderator']).default('admin'),
+  role: z.enum(USER_ROLES).default('admin'),
   createdAt: z.date().optional(),
   updatedAt: z.date().optional(),
   lastLoginAt: z.date().optional(),
   isActive: z.boolean().default(true),
+  invitedBy: z.string().optional(),
+  passwordToken: z.object({
+    hash: z.string(),
+    expiresAt: z.date(),
+  }).optional(),
+  twoFactor: z.object({
+    secret: z.string(),
+    enabledAt: z.date(),
+    lastUsedStep: z.number().optional(),
+    recoveryCodes: z.array(z.string()),
+  }).optional(),
+  twoFactorPending: z.object({
+    secret: z.string(),
+    createdAt: z.date(),
+  }).optional(),
 });
 
 /**
@@ -100,6 +121,174 @@ export const UserDocumentSchema = z.object({
  */
 export type UserDocument = z.infer<typeof UserDocumentSchema>;
 
+/**
+ * Dashboard user invitation schema
+ */
+export const InviteUserSchema = z.object({
+  email: z
+    .string({ error: 'Email must be a string' })
+    .trim()
+    .toLowerCase()
+    .max(254, 'Email must not exceed 254 characters')
+    .regex(EMAIL_REGEX, 'Please provide a valid email address'),
+  name: z.string().trim().max(100, 'Name must not exceed 100 characters').optional(),
+  role: z.enum(USER_ROLES),
+});
+
+/**
+ * Second-factor code — a 6-digit TOTP or an `xxxxx-xxxxx` recovery code
+ */
+export const TwoFactorCodeSchema = z
+  .string({ error: 'Code must be a string' })
+  .trim()
+  .regex(/^(\d{3}\s?\d{3}|[a-fA-F0-9]{5}-?[a-fA-F0-9]{5})$/, 'Enter a 6-digit code or a recovery code');
+
+/**
+ * Admin security policy
+ */
+export const SecurityPolicySchema = z.object({
+  requireTwoFactorForAdmins: z.boolean(),
+});
+
+/**
+ * Team size limits — both bounds inclusive
+ */
+export const TeamSizeLimitsSchema = z
+  .object({
+    minSize: z.number().int('Minimum size must be a whole number').min(1, 'Minimum size must be at least 1').max(20),
+    maxSize: z.number().int('Maximum size must be a whole number').min(1, 'Maximum size must be at least 1').max(20),
+  })
+  .refine(
+    limits => limits.minSize <= limits.maxSize,
+    { message: 'Minimum size must not exceed maximum size', path: ['maxSize'] }
+  );
+
+/**
+ * Editable team details
+ */
+export const TeamInputSchema = z.object({
+  name: z.string().trim().min(1, 'Team name is required').max(80, 'Team name must not exceed 80 characters'),
+  projectName: z.string().trim().max(120).optional(),
+  projectDescription: z.string().trim().max(2000).optional(),
+  labAllotted: z.string().trim().max(40).optional(),
+  mentor: z.string().trim().max(120).optional(),
+});
+
+/**
+ * Lab definitions — names must be unique
+ */
+export const LabDefinitionsSchema = z
+  .array(
+    z.object({
+      name: z.string().trim().min(1, 'Lab name is required').max(40, 'Lab name must not exceed 40 characters'),
+      capacity: z.number().int('Capacity must be a whole number').min(1, 'Capacity must be at least 1').max(1000),
+      wifiSsid: z.string().trim().max(64).optional(),
+      wifiPassword: z.string().max(128).optional(),
+    })
+  )
+  .max(100)
+  .refine(
+    labs => new Set(labs.map(l => l.name.toLowerCase())).size === labs.length,
+    { message: 'Lab names must be unique' }
+  );
+
+/**
+ * Lab allocation run options
+ */
+export const LabAllocationOptionsSchema = z.object({
+  mode: z.enum(['fill', 'rebalance', 'reset']),
+  spreadInstitutes: z.boolean(),
+  maxPerInstitute: z.number().int().min(1, 'Institute limit must be at least 1').optional(),
+});
+
+/**
+ * Participant query from a dashboard page
+ */
+export const ParticipantQuerySchema = z.object({
+  filter: z.object({
+    checkInState: z.array(z.enum(['not-arrived', 'on-campus', 'in-lab', 'temp-out', 'lab-out', 'left'])).optional(),
+    lab: z.string().max(40).nullable().optional(),
+    teamId: z.string().max(40).nullable().optional(),
+    institute: z.string().max(200).optional(),
+    state: z.string().max(100).optional(),
+    meals: z.record(z.string().regex(/^[A-Za-z0-9_]+$/, 'Invalid meal key'), z.boolean()).optional(),
+    participantIds: z.array(z.string().max(100)).max(500).optional(),
+  }).optional(),
+  search: z.string().max(100).optional(),
+  sort: z.object({
+    field: z.enum(['name', 'participantId', 'createdAt', 'updatedAt']),
+    direction: z.enum(['asc', 'desc']),
+  }).optional(),
+  cursor: z.string().max(500).optional(),
+  limit: z.number().int().min(0).max(500).optional(),
+  projection: z.array(z.string().regex(/^[a-zA-Z]+$/, 'Invalid field')).max(50).optional(),
+});
+
+/**
+ * Set-password request from an invite or reset link
+ */
+export const SetPasswordSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid or expired link'),
+  password: z
+    .string({ error: 'Password must be a string' })
+    .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+    .max(PASSWORD_MAX_LENGTH, `Password must not exceed ${PASSWORD_MAX_LENGTH} characters`),
+});
+
+/**
+ * Meal slot validation schema
+ *
+ * Keys are used as MongoDB field names (`meals.<key>`), so they are
+ * restricted to letters, digits and underscores.
+ */
+export const MealSlotSchema = z
+  .object({
+    key: z
+      .string()
+      .min(1, 'Meal key is required')
+      .max(40, 'Meal key must not exceed 40 characters')
+      .regex(/^[A-Za-z0-9_]+$/, 'Meal key may only contain letters, digits and underscores'),
+    label: z.string().trim().min(1, 'Meal label is required').max(80),
+    shortLabel: z.string().trim().min(1, 'Short label is required').max(20),
+    day: z.string().trim().min(1, 'Day label is required').max(20),
+    startsAt: z.string().datetime({ offset: true }).optional(),
+    endsAt: z.string().datetime({ offset: true }).optional(),
+  })
+  .refine(
+    slot => !slot.startsAt || !slot.endsAt || new Date(slot.startsAt) < new Date(slot.endsAt),
+    { message: 'Meal window must end after it starts', path: ['endsAt'] }
+  );
+
+/**
+ * Full meal schedule — at least one slot, unique keys
+ */
+export const MealScheduleSchema = z
+  .array(MealSlotSchema)
+  .min(1, 'Schedule must contain at least one meal slot')
+  .refine(
+    slots => new Set(slots.map(s => s.key)).size === slots.length,
+    { message: 'Meal keys must be unique' }
+  );
+
+/**
+ * Overdue temporary-exit alert settings
+ */
+export const TempExitAlertSchema = z.object({
+  enabled: z.boolean(),
+  thresholdMinutes: z
+    .number()
+    .int('Threshold must be a whole number of minutes')
+    .min(1, 'Threshold must be at least 1 minute')
+    .max(24 * 60, 'Threshold must not exceed 24 hours'),
+  emailTo: z.array(z.string().trim().toLowerCase().email('Invalid alert email address')).max(20),
+  discordChannelId: z
+    .string()
+    .trim()
+    .regex(/^\d{17,20}$/, 'Discord channel ID must be a numeric snowflake')
+    .optional()
+    .or(z.literal('').transform(() => undefined)),
+});
+
 /**
  * API response schemas for type safety
  */
@@ -0,0 +1,70 @@
+/**
+ * Route Protection Proxy
+ *
+ * Runs before every dashboard page, `/api/bot-config/*` route and the
+ * `/api/live` stream, and rejects requests without a valid `auth-token`
+ * cookie: pages redirect to `/login?next=<path>`, API routes get a 401.
+ * Tokens close to expiry are re-issued with the same session ID and the
+ * session's expiry is pushed back to match.
+ *
+ * This is an optimistic check on the token alone; pages and routes
+ * still verify the user and session against the database.
+ *
+ * Next.js 16 renamed `middleware.ts` to `proxy.ts`; it runs on the
+ * Node.js runtime, so the shared JWT helpers work unchanged.
+ *
+ * @module proxy
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  verifyRequestToken,
+  shouldRefreshToken,
+  generateToken,
+  getSecureCookieOptions,
+  getClearCookieOptions,
+  JWT_CONFIG,
+} from '@/lib/auth';
+import { extendSession } from '@/lib/sessions';
+
+function reject(request: NextRequest, message: string): NextResponse {
+  const { pathname, search } = request.nextUrl;
+
+  const response = pathname.startsWith('/api/')
+    ? NextResponse.json({ error: 'Unauthorized', message }, { status: 401 })
+    : NextResponse.redirect(new URL(`/login?next=${encodeURIComponent(pathname + search)}`, request.url));
+
+  if (request.cookies.has(JWT_CONFIG.COOKIE_NAME)) {
+    response.cookies.set(JWT_CONFIG.COOKIE_NAME, '', getClearCookieOptions());
+  }
+  return response;
+}
+
+export async function proxy(request: NextRequest) {
+  const result = verifyRequestToken(request);
+  if (!result.valid) {
+    return reject(request, result.error.message);
+  }
+
+  const response = NextResponse.next();
+  if (!shouldRefreshToken(result.payload)) {
+    return response;
+  }
+
+  const { userId, email, role, jti } = result.payload;
+  try {
+    if (!(await extendSession(jti, userId, JWT_CONFIG.COOKIE_MAX_AGE))) {
+      return reject(request, 'Session has been revoked');
+    }
+    response.cookies.set(JWT_CONFIG.COOKIE_NAME, generateToken({ userId, email, role, jti }), getSecureCookieOptions());
+  } catch (error) {
+    // The current token is still valid, so let the request through
+    console.error('Token refresh error:', error);
+  }
+
+  return response;
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/api/bot-config/:path*', '/api/live'],
+};
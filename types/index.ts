@@ -12,45 +12,183 @@
 // ===================================
 
 /**
- * Tracks meal consumption across the 3-day hackathon.
+ * One serving slot in the event's meal schedule.
  *
- * Schedule:
- *   Day 1 → Dinner
- *   Day 2 → Breakfast, Lunch, Dinner
- *   Day 3 → Breakfast, Lunch
+ * The schedule is stored in the `event_config` collection, so events
+ * of any length (snack slots, midnight pizza, …) need no code change.
  */
-export interface MealStatus {
-  day1_dinner: boolean;
-  day2_breakfast: boolean;
-  day2_lunch: boolean;
-  day2_dinner: boolean;
-  day3_breakfast: boolean;
-  day3_lunch: boolean;
-}
-
-/** Default meal status — all false on participant creation */
-export const DEFAULT_MEAL_STATUS: MealStatus = {
-  day1_dinner: false,
-  day2_breakfast: false,
-  day2_lunch: false,
-  day2_dinner: false,
-  day3_breakfast: false,
-  day3_lunch: false,
+export interface MealSlot {
+  /** Stable key stored on participants, e.g. "day2_lunch" */
+  key: string;
+  /** Full label, e.g. "Day 2 – Lunch" */
+  label: string;
+  /** Compact column header, e.g. "Lunch" */
+  shortLabel: string;
+  /** Grouping label used by the food monitor, e.g. "DAY 2" */
+  day: string;
+  /** Serving window start (ISO timestamp) */
+  startsAt?: string;
+  /** Serving window end (ISO timestamp) */
+  endsAt?: string;
+}
+
+/** Meal collection status keyed by `MealSlot.key` */
+export type MealStatus = Record<string, boolean>;
+
+/** When each meal slot was redeemed — used to report duplicate scans */
+export type MealTimes = Record<string, Date>;
+
+/**
+ * Schedule used until an event configuration has been saved.
+ * Matches the original 3-day Hackoverflow 4.0 layout.
+ */
+export const DEFAULT_MEAL_SCHEDULE: MealSlot[] = [
+  { key: 'day1_dinner',    label: 'Day 1 – Dinner',    shortLabel: 'Dinner', day: 'DAY 1' },
+  { key: 'day2_breakfast', label: 'Day 2 – Breakfast', shortLabel: 'Bfast',  day: 'DAY 2' },
+  { key: 'day2_lunch',     label: 'Day 2 – Lunch',     shortLabel: 'Lunch',  day: 'DAY 2' },
+  { key: 'day2_dinner',    label: 'Day 2 – Dinner',    shortLabel: 'Dinner', day: 'DAY 2' },
+  { key: 'day3_breakfast', label: 'Day 3 – Breakfast', shortLabel: 'Bfast',  day: 'DAY 3' },
+  { key: 'day3_lunch',     label: 'Day 3 – Lunch',     shortLabel: 'Lunch',  day: 'DAY 3' },
+];
+
+/** Alerting for participants who stay out of the lab too long */
+export interface TempExitAlertSettings {
+  /** Whether the alert cron job sends alerts at all */
+  enabled: boolean;
+  /** Minutes a temporary lab exit may last before it is flagged */
+  thresholdMinutes: number;
+  /** Alert email recipients — falls back to EMAIL_REPORT_TO / EMAIL_USER when empty */
+  emailTo: string[];
+  /** Discord channel for bot alerts — falls back to DISCORD_ALERT_CHANNEL_ID when empty */
+  discordChannelId?: string;
+}
+
+export const DEFAULT_TEMP_EXIT_ALERT: TempExitAlertSettings = {
+  enabled: true,
+  thresholdMinutes: 10,
+  emailTo: [],
 };
 
-/** Human-readable labels for each meal slot */
-export const MEAL_LABELS: Record<keyof MealStatus, string> = {
-  day1_dinner: "Day 1 – Dinner",
-  day2_breakfast: "Day 2 – Breakfast",
-  day2_lunch: "Day 2 – Lunch",
-  day2_dinner: "Day 2 – Dinner",
-  day3_breakfast: "Day 3 – Breakfast",
-  day3_lunch: "Day 3 – Lunch",
+/** Account security rules set by admins */
+export interface SecurityPolicy {
+  /** Admins must enroll in TOTP two-factor before using guarded actions */
+  requireTwoFactorForAdmins: boolean;
+}
+
+export const DEFAULT_SECURITY_POLICY: SecurityPolicy = {
+  requireTwoFactorForAdmins: false,
 };
 
-/** Returns how many meals a participant has collected */
-export function countMealsTaken(meals: MealStatus): number {
-  return Object.values(meals).filter(Boolean).length;
+/** Allowed number of members per team */
+export interface TeamSizeLimits {
+  minSize: number;
+  maxSize: number;
+}
+
+export const DEFAULT_TEAM_SIZE_LIMITS: TeamSizeLimits = {
+  minSize: 2,
+  maxSize: 4,
+};
+
+/** A lab participants can be allocated to */
+export interface LabDefinition {
+  /** Stored on participants as `labAllotted` */
+  name: string;
+  /** Seats available */
+  capacity: number;
+  wifiSsid?: string;
+  wifiPassword?: string;
+}
+
+/** Event-wide configuration (single document in `event_config`) */
+export interface EventConfig {
+  meals: MealSlot[];
+  tempExitAlert: TempExitAlertSettings;
+  security: SecurityPolicy;
+  teamSize: TeamSizeLimits;
+  labs: LabDefinition[];
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+/** Returns how many scheduled meals a participant has collected */
+export function countMealsTaken(meals: MealStatus | undefined, schedule: MealSlot[]): number {
+  return schedule.filter(slot => meals?.[slot.key]).length;
+}
+
+/** Groups slots by their `day` label, preserving schedule order */
+export function groupMealsByDay(schedule: MealSlot[]): { label: string; meals: MealSlot[] }[] {
+  const groups: { label: string; meals: MealSlot[] }[] = [];
+  for (const slot of schedule) {
+    const group = groups.find(g => g.label === slot.day);
+    if (group) group.meals.push(slot);
+    else groups.push({ label: slot.day, meals: [slot] });
+  }
+  return groups;
+}
+
+/** Returns the slot whose serving window contains `now`, if any */
+export function getOpenMealSlot(schedule: MealSlot[], now: Date = new Date()): MealSlot | undefined {
+  const t = now.getTime();
+  return schedule.find(slot =>
+    slot.startsAt && slot.endsAt &&
+    new Date(slot.startsAt).getTime() <= t &&
+    t < new Date(slot.endsAt).getTime()
+  );
+}
+
+// ===================================
+// CHECK-IN
+// ===================================
+
+/**
+ * Where a participant currently is.
+ *
+ *   not-arrived → on-campus → in-lab ⇄ temp-out → lab-out → left
+ */
+export type CheckInState =
+  | 'not-arrived'
+  | 'on-campus'
+  | 'in-lab'
+  | 'temp-out'
+  | 'lab-out'
+  | 'left';
+
+/** Movement recorded at a gate station */
+export type CheckInType = 'college' | 'lab' | 'tempLabOut' | 'labOut' | 'collegeOut';
+
+/**
+ * One recorded movement, stored in the `participant_events` collection.
+ * Team name is copied onto the event so team timelines need no join.
+ */
+export interface ParticipantEvent {
+  _id?: string;
+  /** Mongo `_id` of the participant document */
+  participantRef: string;
+  participantId: string;
+  participantName: string;
+  teamName?: string;
+  type: CheckInType;
+  from: CheckInState;
+  to: CheckInState;
+  /** Where the movement was recorded, e.g. `scanner` or `checkin-desk` */
+  station: string;
+  /** Lab the station stands at, for lab entries */
+  lab?: string;
+  /** Email of the signed-in user who recorded it */
+  actor: string;
+  timestamp: Date;
+}
+
+/** Filters for querying participant events — all optional, combined with AND */
+export interface ParticipantEventQuery {
+  participantId?: string;
+  teamName?: string;
+  /** Inclusive lower bound (ISO string or Date) */
+  from?: string | Date;
+  /** Exclusive upper bound (ISO string or Date) */
+  to?: string | Date;
+  limit?: number;
 }
 
 // ===================================
@@ -110,6 +248,8 @@ export interface DBParticipant {
   labCheckIn?: {
     status: boolean;
     time?: Date;
+    /** Lab the entry was scanned at, when the station named one */
+    lab?: string;
   };
 
   /** Permanent checkout from the college/event */
@@ -124,22 +264,458 @@ export interface DBParticipant {
     time?: Date;
   };
 
-  /** Temporary exit from the lab (tracked for alerts if > 10 min) */
+  /** Temporary exit from the lab (alerted once past the configured threshold) */
   tempLabCheckOut?: {
     status: boolean;
     time?: Date;
+    /** Set when the overdue alert for this exit has been sent */
+    alertedAt?: Date;
   };
 
+  /** Current check-in state — derived from the flags above when absent */
+  checkInState?: CheckInState;
+
   // ── Meals ─────────────────────────────────────────────
-  /** Meal collection status across all 3 days */
+  /** Meal collection status, keyed by the configured meal schedule */
   meals?: MealStatus;
 
+  /** Redemption time per meal slot, set by the food counter */
+  mealTimes?: MealTimes;
+
   // ── Authentication ──────────────────────────────────
   loginPassword?: string;
 
   // ── Metadata ──────────────────────────────────────────
   createdAt?: Date;
   updatedAt?: Date;
+  /** Set when moved to the trash — hidden everywhere until restored or purged */
+  deletedAt?: Date;
+  /** Email of the user who moved it to the trash */
+  deletedBy?: string;
+}
+
+// ===================================
+// PARTICIPANT QUERIES
+// ===================================
+
+/** Server-side participant filters — all optional, combined with AND */
+export interface ParticipantFilter {
+  checkInState?: CheckInState[];
+  /** Lab name; null matches participants with no lab */
+  lab?: string | null;
+  /** Team ID; null matches participants not in a team */
+  teamId?: string | null;
+  institute?: string;
+  state?: string;
+  /** Meal slot key → collected (true) or not collected yet (false) */
+  meals?: Record<string, boolean>;
+  /** Badge IDs (`participantId`), e.g. from a QR scan */
+  participantIds?: string[];
+}
+
+export type ParticipantSortField = 'name' | 'participantId' | 'createdAt' | 'updatedAt';
+
+export interface ParticipantQuery {
+  filter?: ParticipantFilter;
+  /** Case-insensitive match on name, email, phone, participant ID, team and institute */
+  search?: string;
+  sort?: { field: ParticipantSortField; direction: 'asc' | 'desc' };
+  /** `nextCursor` from the previous page */
+  cursor?: string;
+  /** Page size — default 50, at most 500 */
+  limit?: number;
+  /** Fields to return (`_id` is always included); everything when omitted */
+  projection?: (keyof DBParticipant)[];
+}
+
+export interface ParticipantQueryResult {
+  participants: DBParticipant[];
+  /** Matches for the filter and search, across all pages */
+  total: number;
+  /** Absent on the last page */
+  nextCursor?: string;
+}
+
+/** Headcounts by check-in state, meals collected, lab and team */
+export interface ParticipantCounts {
+  total: number;
+  byState: Record<CheckInState, number>;
+  /** Meal slot key → participants who collected it */
+  meals: Record<string, number>;
+  /** Allotted lab name → participants allotted to it */
+  labs: Record<string, number>;
+  /** Distinct team names among participants */
+  teams: number;
+}
+
+/** Participants registered and arrived for one institute, state or lab */
+export interface StatsBreakdownRow {
+  name: string;
+  registered: number;
+  /** Checked in at the college gate at some point */
+  arrived: number;
+}
+
+/** Event-wide statistics, aggregated in MongoDB (see lib/event-stats) */
+export interface EventStats {
+  total: number;
+  /** Participants who have reached each stage, whatever their state now */
+  funnel: {
+    registered: number;
+    arrived: number;
+    enteredLab: number;
+    left: number;
+  };
+  byState: Record<CheckInState, number>;
+  teams: {
+    /** Distinct team names */
+    total: number;
+    /** Participants without a team name */
+    unassigned: number;
+  };
+  /** Allotted labs, with `inLab` counting participants currently inside */
+  labs: (StatsBreakdownRow & { inLab: number })[];
+  /** One entry per configured slot, in schedule order */
+  meals: { key: string; label: string; collected: number }[];
+  /** Largest first; participants without an institute are left out */
+  institutes: StatsBreakdownRow[];
+  /** Largest first; participants without a state are left out */
+  states: StatsBreakdownRow[];
+  generatedAt: Date;
+}
+
+/** A participant or sponsor in the trash, with the date it will be purged */
+export type Trashed<T extends DBParticipant | DBSponsor> = T & {
+  deletedAt: Date;
+  purgeAt: Date;
+};
+
+// ===================================
+// LIVE UPDATES
+// ===================================
+
+/** Streams a dashboard page can subscribe to on `/api/live` */
+export type LiveTopic = 'participants' | 'meal_schedule' | 'bot_logs';
+
+/** A Discord bot log entry as written by the bot to `bot_logs` */
+export interface BotLogEntry {
+  _id: string;
+  type: string;
+  event: string;
+  userId?: string;
+  username?: string;
+  channelId?: string;
+  detail?: string;
+  success: boolean;
+  durationMs?: number;
+  timestamp: string;
+}
+
+/** A change pushed over the live update stream */
+export type LiveUpdate =
+  /** Created, edited, checked in, fed or restored from the trash — the full document */
+  | { type: 'participant'; participant: DBParticipant }
+  /** Moved to the trash or purged */
+  | { type: 'participant_removed'; _id: string }
+  | { type: 'meal_schedule'; schedule: MealSlot[] }
+  | { type: 'bot_log'; log: BotLogEntry };
+
+// ===================================
+// TEAMS
+// ===================================
+
+/**
+ * A team in the `teams` collection
+ *
+ * Membership is stored on the participant (`DBParticipant.teamId`), so
+ * a participant can never be in two teams at once; `teamName` on the
+ * participant is a copy of `name` kept in sync by the team actions.
+ */
+export interface Team {
+  _id?: string;
+  /** Unique team identifier, e.g. "TEAM-001" */
+  teamId: string;
+  name: string;
+  projectName?: string;
+  projectDescription?: string;
+  /** Lab the whole team sits in — copied to members when set */
+  labAllotted?: string;
+  mentor?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/** Editable team fields */
+export type TeamInput = Omit<Team, '_id' | 'teamId' | 'createdAt' | 'updatedAt'>;
+
+/** Team with its current members, as listed on the teams page */
+export interface TeamWithMembers extends Team {
+  members: DBParticipant[];
+}
+
+/** Everything the teams page shows */
+export interface TeamsOverview {
+  teams: TeamWithMembers[];
+  /** Participants with no team, or whose `teamId` matches no team */
+  orphans: DBParticipant[];
+  limits: TeamSizeLimits;
+}
+
+export type TeamSizeStatus = 'ok' | 'under' | 'over';
+
+/** Whether a team of `size` members is within the configured limits */
+export function getTeamSizeStatus(size: number, limits: TeamSizeLimits): TeamSizeStatus {
+  if (size < limits.minSize) return 'under';
+  if (size > limits.maxSize) return 'over';
+  return 'ok';
+}
+
+// ===================================
+// LAB ALLOCATION
+// ===================================
+
+/**
+ * How the allocator treats participants who already have a lab
+ *
+ * - `fill`      — keep existing placements; seat only those without a valid lab
+ * - `rebalance` — as `fill`, then move whole teams from the fullest labs
+ *                 to the emptiest until occupancy is as even as it gets
+ * - `reset`     — ignore existing placements and allocate everyone again
+ *
+ * In every mode, teams with a member currently inside a lab stay put.
+ */
+export type LabAllocationMode = 'fill' | 'rebalance' | 'reset';
+
+export interface LabAllocationOptions {
+  mode: LabAllocationMode;
+  /** Prefer labs with fewer people from the same institute */
+  spreadInstitutes: boolean;
+  /** Never seat more than this many people from one institute in a lab */
+  maxPerInstitute?: number;
+}
+
+/** A team (or a participant without one) moving to a lab */
+export interface LabAllocationMove {
+  label: string;
+  teamId?: string;
+  size: number;
+  /** Current lab, when it is a defined lab */
+  from?: string;
+  to: string;
+}
+
+/** Outcome of an allocation run — the preview and the applied result alike */
+export interface LabAllocationPlan {
+  labs: { name: string; capacity: number; before: number; after: number }[];
+  moves: LabAllocationMove[];
+  /** Teams and participants that could not be seated */
+  unplaced: {
+    label: string;
+    teamId?: string;
+    size: number;
+    reason: string;
+    /** Lab a reset takes them out of */
+    removedFrom?: string;
+  }[];
+  /** Participants whose `labAllotted` or `wifiCredentials` change */
+  changedParticipants: number;
+}
+
+// ===================================
+// LAB OCCUPANCY
+// ===================================
+
+/** A participant listed on the lab occupancy view */
+export interface LabOccupant {
+  _id: string;
+  participantId: string;
+  name: string;
+  teamName?: string;
+  labAllotted?: string;
+  /** Lab they were scanned into, when recorded */
+  scannedLab?: string;
+  /** When they entered the lab, or left it temporarily */
+  since?: Date;
+}
+
+/**
+ * Who is in one lab right now
+ *
+ * Headcounts go by where people physically are — the lab they were
+ * scanned into, else their allotted lab. Allotment counts go by
+ * `labAllotted`.
+ */
+export interface LabOccupancy {
+  lab: string;
+  /** Seats, when the lab is defined in the event config */
+  capacity?: number;
+  /** Allotted here and still at the event */
+  allotted: number;
+  /** Allotted here but not in a lab yet */
+  awaiting: number;
+  /** Allotted here and checked out of the lab */
+  checkedOut: number;
+  /** Inside the lab now */
+  inLab: number;
+  /** Temporarily out, expected back */
+  tempOut: number;
+  tempOutMembers: LabOccupant[];
+  /** Inside this lab but allotted to another (or none) */
+  wrongLab: LabOccupant[];
+}
+
+export interface LabOccupancyOverview {
+  labs: LabOccupancy[];
+  generatedAt: Date;
+}
+
+// ===================================
+// ANALYTICS
+// ===================================
+
+/** Activity recorded in one clock hour (IST) */
+export interface HourlyActivity {
+  /** Start of the hour */
+  hour: Date;
+  arrivals: number;
+  labEntries: number;
+  meals: number;
+}
+
+/** Participants whose lab stay fell in [minMinutes, maxMinutes) */
+export interface DwellBucket {
+  label: string;
+  minMinutes: number;
+  /** Absent for the open-ended last bucket */
+  maxMinutes?: number;
+  count: number;
+}
+
+/** Meals served in a slot against the people on campus for it */
+export interface MealUptake {
+  key: string;
+  label: string;
+  collected: number;
+  /**
+   * Arrived before the serving window closed and not gone before it
+   * opened; everyone who arrived when the slot has no window
+   */
+  headcount: number;
+}
+
+export interface EventAnalytics {
+  /** Consecutive hours from the first to the last recorded activity */
+  hourly: HourlyActivity[];
+  dwell: {
+    buckets: DwellBucket[];
+    /** Participants with both a lab check-in and a lab check-out */
+    completed: number;
+    averageMinutes: number | null;
+  };
+  meals: MealUptake[];
+  /** No-show rate is `1 - arrived / registered` */
+  institutes: StatsBreakdownRow[];
+  states: StatsBreakdownRow[];
+  generatedAt: Date;
+}
+
+/** Everything in the post-event PDF report */
+export interface PostEventReport {
+  stats: EventStats;
+  /** First college check-in and last college check-out recorded */
+  window: { firstArrival?: Date; lastDeparture?: Date };
+  teams: {
+    /** Teams in the `teams` collection, or distinct team names when it is empty */
+    registered: number;
+    /** Teams with at least one member who arrived */
+    present: number;
+    /** Teams with a project name */
+    projects: number;
+    averageSize: number | null;
+  };
+  mailer: {
+    /** Bulk sends recorded in the audit log */
+    batches: number;
+    sent: number;
+    failed: number;
+    /** Grouped by subject, largest first */
+    campaigns: { subject: string; batches: number; sent: number; failed: number }[];
+  };
+  bot: {
+    total: number;
+    errors: number;
+    /** Distinct Discord users */
+    users: number;
+    byType: { type: string; total: number; errors: number; avgMs: number }[];
+  };
+  generatedAt: Date;
+}
+
+// ===================================
+// ACTION RESULTS
+// ===================================
+
+/**
+ * Returned by any guarded server action when the caller has no valid
+ * session (`reason: 'unauthenticated'`) or lacks the required role
+ * (`reason: 'forbidden'`).
+ */
+export interface UnauthorizedResult {
+  success: false;
+  unauthorized: true;
+  reason: 'unauthenticated' | 'forbidden';
+  error: string;
+}
+
+/** Narrows a guarded action's return value to the unauthorized case */
+export function isUnauthorized(value: unknown): value is UnauthorizedResult {
+  return typeof value === 'object' && value !== null && (value as UnauthorizedResult).unauthorized === true;
+}
+
+/** Unwraps a guarded action's return value, throwing when unauthorized */
+export function assertAuthorized<T>(value: T | UnauthorizedResult): T {
+  if (isUnauthorized(value)) throw new Error(value.error);
+  return value;
+}
+
+// ===================================
+// DASHBOARD USER
+// ===================================
+
+/** Dashboard account as listed on the user management page */
+export interface DashboardUser {
+  _id: string;
+  email: string;
+  name?: string;
+  role: string;
+  isActive: boolean;
+  /** True until the invitee has set a password via their link */
+  invitePending: boolean;
+  twoFactorEnabled: boolean;
+  createdAt?: Date;
+  lastLoginAt?: Date;
+}
+
+/** Active login session of a dashboard user */
+export interface UserSession {
+  /** Session ID (the token's `jti`) */
+  id: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  ip?: string;
+  userAgent?: string;
+  /** True for the session making the request */
+  current: boolean;
+}
+
+/** Two-factor state of the signed-in user */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** Unused recovery codes left */
+  recoveryCodesRemaining: number;
+  /** The security policy requires 2FA for this user's role */
+  required: boolean;
 }
 
 // ===================================
@@ -210,4 +786,79 @@ export interface DBSponsor {
   companyName: string;
   createdAt?: Date;
   updatedAt?: Date;
-}
\ No newline at end of file
+  /** Set when moved to the trash — hidden everywhere until restored or purged */
+  deletedAt?: Date;
+  /** Email of the user who moved it to the trash */
+  deletedBy?: string;
+}
+
+// ===================================
+// AUDIT LOG
+// ===================================
+
+/** Kind of record an audited action touched */
+export const AUDIT_TARGET_TYPES = [
+  'participant',
+  'sponsor',
+  'collection',
+  'email',
+  'user',
+  'session',
+  'event_config',
+  'bot_config',
+  'scheduled_message',
+  'team',
+  'lab_allocation',
+] as const;
+
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+/** One changed field; `before`/`after` are absent when the field did not exist */
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/** Recipient and delivery counts of one bulk email send */
+export interface AuditEmailBatch {
+  subject: string;
+  recipients: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * One administrative mutation, stored in the `audit_log` collection.
+ * Gate and food scans are not audited here — they are already kept in
+ * `participant_events` and on the participant document.
+ */
+export interface AuditLogEntry {
+  _id?: string;
+  /** Dotted action name, e.g. `participant.update` or `collection.drop` */
+  action: string;
+  targetType: AuditTargetType;
+  /** IDs of the records touched; empty for bulk operations */
+  targetIds: string[];
+  /** Field-level diff, for updates and single deletes */
+  changes?: AuditChange[];
+  /** Short human-readable description, e.g. counts for bulk operations */
+  summary?: string;
+  /** Counts for `email.send_batch`, aggregated by the post-event report */
+  email?: AuditEmailBatch;
+  actorId: string;
+  actorEmail: string;
+  timestamp: Date;
+}
+
+/** Filters for the audit log viewer — all optional, combined with AND */
+export interface AuditLogQuery {
+  actor?: string;
+  action?: string;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  /** Inclusive lower bound (ISO string) */
+  from?: string;
+  /** Exclusive upper bound (ISO string) */
+  to?: string;
+}
@@ -0,0 +1,83 @@
+/**
+ * Chart Export Utilities
+ *
+ * Browser-side downloads for the analytics charts: the rendered SVG
+ * rasterised to PNG through a canvas, and the underlying numbers as CSV.
+ *
+ * @module utils/chart-export
+ */
+
+function triggerDownload(href: string, fileName: string): void {
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+}
+
+const escapeCell = (v: unknown): string => {
+  if (v == null) return '';
+  const s = String(v);
+  return s.includes(',') || s.includes('"') || s.includes('\n')
+    ? `"${s.replace(/"/g, '""')}"`
+    : s;
+};
+
+/**
+ * Downloads rows as a CSV file.
+ *
+ * @param fileName - Name for the downloaded file
+ * @param headers - Column headers
+ * @param rows - One array of cell values per row
+ */
+export function downloadCSV(fileName: string, headers: string[], rows: unknown[][]): void {
+  const csv = [headers, ...rows].map(row => row.map(escapeCell).join(',')).join('\n');
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  triggerDownload(url, fileName);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Rasterises an SVG element and downloads it as a PNG.
+ *
+ * The SVG must carry its own colours and fonts as attributes — page
+ * CSS does not apply once it is serialised.
+ *
+ * @param svg - Rendered chart
+ * @param fileName - Name for the downloaded file
+ * @param background - Fill behind the chart (default: black, like the dashboard)
+ * @param scale - Pixel density of the PNG relative to the SVG's size (default: 2)
+ */
+export async function downloadSVGAsPNG(
+  svg: SVGSVGElement,
+  fileName: string,
+  background: string = '#000',
+  scale: number = 2
+): Promise<void> {
+  const { width, height } = svg.viewBox.baseVal;
+  const markup = new XMLSerializer().serializeToString(svg);
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to render chart'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    triggerDownload(canvas.toDataURL('image/png'), fileName);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
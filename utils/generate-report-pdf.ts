@@ -0,0 +1,383 @@
+/**
+ * Post-Event Report PDF
+ *
+ * Draws the post-event summary for sponsors and the college as an A4
+ * PDF with jsPDF: attendance funnel, demographics, teams and projects,
+ * meals, mailer volumes and Discord bot usage.
+ *
+ * Branding follows the email templates — the same palette
+ * (actions/email-template `BRAND_PALETTE`), dark name bar and
+ * gold → orange → pink → plum accent stripe — on white pages so the
+ * report prints cleanly.
+ *
+ * Text uses jsPDF's built-in Helvetica, which only covers Latin-1;
+ * dashes and quotes are swapped for plain ones and anything else
+ * outside it (emoji in email subjects, say) is dropped.
+ *
+ * @module utils/generate-report-pdf
+ */
+
+import { jsPDF } from 'jspdf';
+import { BRAND_PALETTE as BRAND } from '@/actions/email-template';
+import type { PostEventReport, StatsBreakdownRow } from '@/types';
+
+// ─── Page constants ───────────────────────────────────────────────────────────
+const A4_W      = 210;
+const A4_H      = 297;
+const MARGIN    = 16;
+const CONTENT_W = A4_W - MARGIN * 2;
+const FOOTER_Y  = A4_H - 10;
+/** Lowest point content may reach before a page break */
+const BOTTOM    = A4_H - 20;
+
+const INK    = '#1A1A1A';
+const SUBTLE = '#6B6B6B';
+const RULE   = '#E4E4E4';
+const TRACK  = '#F1F1F1';
+
+/** Accent stripe stops, as in the email template's `GRAD_BAR` */
+const STRIPE = [BRAND.gold, BRAND.orange, BRAND.pink, BRAND.plum];
+
+/** Institutes / states / campaigns listed before "and N more" */
+const TOP_ROWS = 15;
+
+// ─── Formatting ───────────────────────────────────────────────────────────────
+const clean = (s: string) =>
+  s.replace(/[–—]/g, '-').replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/…/g, '...')
+    .replace(/[^\x20-\xFF]/g, '').replace(/ {2,}/g, ' ').trim();
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleString('en-IN', {
+    timeZone: 'Asia/Kolkata', day: '2-digit', month: 'short', year: 'numeric',
+    hour: '2-digit', minute: '2-digit', hour12: false,
+  }) + ' IST';
+
+const num = (n: number) => n.toLocaleString('en-IN');
+
+const pct = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '-');
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const v = parseInt(hex.slice(1), 16);
+  return [(v >> 16) & 255, (v >> 8) & 255, v & 255];
+};
+
+// ─── Drawing helpers ──────────────────────────────────────────────────────────
+interface Doc { pdf: jsPDF; y: number }
+
+function ensureSpace(doc: Doc, height: number): void {
+  if (doc.y + height <= BOTTOM) return;
+  doc.pdf.addPage();
+  doc.y = MARGIN + 4;
+}
+
+/** Horizontal gradient through the brand stripe colours */
+function stripe(pdf: jsPDF, x: number, y: number, w: number, h: number): void {
+  const slices = 60;
+  const stops = STRIPE.map(hexToRgb);
+  for (let i = 0; i < slices; i++) {
+    const t = (i / (slices - 1)) * (stops.length - 1);
+    const k = Math.min(Math.floor(t), stops.length - 2);
+    const f = t - k;
+    const [r, g, b] = stops[k].map((c, j) => Math.round(c + (stops[k + 1][j] - c) * f));
+    pdf.setFillColor(r, g, b);
+    // Slight overlap hides hairline seams between slices
+    pdf.rect(x + (w / slices) * i, y, w / slices + 0.2, h, 'F');
+  }
+}
+
+function header(doc: Doc, report: PostEventReport): void {
+  const { pdf } = doc;
+  pdf.setFillColor(BRAND.dark);
+  pdf.rect(0, 0, A4_W, 42, 'F');
+  stripe(pdf, 0, 42, A4_W, 1.5);
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(24);
+  pdf.setTextColor(BRAND.orange);
+  pdf.text('HACKOVERFLOW', MARGIN, 19);
+
+  pdf.setFontSize(10);
+  pdf.setTextColor(BRAND.white);
+  pdf.text('POST-EVENT REPORT', MARGIN, 27, { charSpace: 0.8 });
+
+  const { firstArrival, lastDeparture } = report.window;
+  const span = firstArrival
+    ? `${formatDate(firstArrival)}${lastDeparture ? `  to  ${formatDate(lastDeparture)}` : ''}`
+    : 'No check-ins recorded';
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.setTextColor('#9A9A9A');
+  pdf.text(clean(span), MARGIN, 34);
+  pdf.text(`Generated ${formatDate(report.generatedAt)}`, A4_W - MARGIN, 34, { align: 'right' });
+
+  doc.y = 54;
+}
+
+function sectionTitle(doc: Doc, title: string): void {
+  ensureSpace(doc, 24);
+  const { pdf } = doc;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(11);
+  pdf.setTextColor(BRAND.orange);
+  pdf.text(title.toUpperCase(), MARGIN, doc.y, { charSpace: 0.4 });
+  pdf.setDrawColor(RULE);
+  pdf.setLineWidth(0.3);
+  pdf.line(MARGIN, doc.y + 2, A4_W - MARGIN, doc.y + 2);
+  doc.y += 8;
+}
+
+function note(doc: Doc, text: string): void {
+  const lines = doc.pdf.splitTextToSize(clean(text), CONTENT_W) as string[];
+  ensureSpace(doc, lines.length * 4 + 2);
+  doc.pdf.setFont('helvetica', 'normal');
+  doc.pdf.setFontSize(8);
+  doc.pdf.setTextColor(SUBTLE);
+  doc.pdf.text(lines, MARGIN, doc.y);
+  doc.y += lines.length * 4 + 2;
+}
+
+/** Row of dark cards with a large gold figure, like the email callouts */
+function figures(doc: Doc, items: { label: string; value: string; sub?: string }[]): void {
+  const gap = 3;
+  const w = (CONTENT_W - gap * (items.length - 1)) / items.length;
+  const h = 22;
+  ensureSpace(doc, h + 6);
+  const { pdf } = doc;
+
+  items.forEach((item, i) => {
+    const x = MARGIN + (w + gap) * i;
+    pdf.setFillColor(BRAND.card);
+    pdf.rect(x, doc.y, w, h, 'F');
+    pdf.setFillColor(STRIPE[i % STRIPE.length]);
+    pdf.rect(x, doc.y, w, 0.8, 'F');
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(6.5);
+    pdf.setTextColor('#A0A0A0');
+    pdf.text(clean(item.label.toUpperCase()), x + 3, doc.y + 6, { charSpace: 0.3 });
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(15);
+    pdf.setTextColor(BRAND.gold);
+    pdf.text(clean(item.value), x + 3, doc.y + 14);
+
+    if (item.sub) {
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(6.5);
+      pdf.setTextColor('#A0A0A0');
+      pdf.text(clean(item.sub), x + 3, doc.y + 19);
+    }
+  });
+  doc.y += h + 6;
+}
+
+/** Labelled horizontal bars scaled to `max` */
+function bars(doc: Doc, rows: { label: string; value: number; detail: string; color: string }[], max: number): void {
+  const labelW = 38, detailW = 36, rowH = 8;
+  const barW = CONTENT_W - labelW - detailW;
+  const { pdf } = doc;
+
+  for (const row of rows) {
+    ensureSpace(doc, rowH);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor(INK);
+    pdf.text(clean(row.label), MARGIN, doc.y + 4.5);
+
+    pdf.setFillColor(TRACK);
+    pdf.rect(MARGIN + labelW, doc.y + 1, barW, 5, 'F');
+    pdf.setFillColor(row.color);
+    pdf.rect(MARGIN + labelW, doc.y + 1, max > 0 ? (barW * row.value) / max : 0, 5, 'F');
+
+    pdf.setTextColor(SUBTLE);
+    pdf.text(clean(row.detail), A4_W - MARGIN, doc.y + 4.5, { align: 'right' });
+    doc.y += rowH;
+  }
+  doc.y += 4;
+}
+
+/**
+ * Table with a dark header row, repeated after page breaks
+ *
+ * @param widths - Column widths as fractions of the content width
+ */
+function table(doc: Doc, headers: string[], rows: string[][], widths: number[]): void {
+  const rowH = 6.5;
+  const { pdf } = doc;
+  const xs = widths.reduce<number[]>((acc, w, i) => [...acc, acc[i] + w * CONTENT_W], [MARGIN]);
+  // First column left-aligned, numbers right-aligned
+  const cellX = (i: number) => (i === 0 ? xs[i] + 2 : xs[i + 1] - 2);
+  const align = (i: number) => (i === 0 ? 'left' : 'right') as 'left' | 'right';
+
+  const drawHeader = () => {
+    pdf.setFillColor(BRAND.dark);
+    pdf.rect(MARGIN, doc.y, CONTENT_W, rowH, 'F');
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(7.5);
+    pdf.setTextColor(BRAND.white);
+    headers.forEach((h, i) => pdf.text(h.toUpperCase(), cellX(i), doc.y + 4.3, { align: align(i) }));
+    doc.y += rowH;
+  };
+
+  ensureSpace(doc, rowH * 2);
+  drawHeader();
+
+  rows.forEach((row, r) => {
+    if (doc.y + rowH > BOTTOM) {
+      pdf.addPage();
+      doc.y = MARGIN + 4;
+      drawHeader();
+    }
+    if (r % 2 === 1) {
+      pdf.setFillColor('#F7F7F7');
+      pdf.rect(MARGIN, doc.y, CONTENT_W, rowH, 'F');
+    }
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8.5);
+    pdf.setTextColor(INK);
+    row.forEach((cell, i) => {
+      const maxW = widths[i] * CONTENT_W - 4;
+      const [text] = pdf.splitTextToSize(clean(cell), maxW) as string[];
+      pdf.text(text ?? '', cellX(i), doc.y + 4.5, { align: align(i) });
+    });
+    doc.y += rowH;
+  });
+
+  pdf.setDrawColor(RULE);
+  pdf.setLineWidth(0.3);
+  pdf.line(MARGIN, doc.y, A4_W - MARGIN, doc.y);
+  doc.y += 6;
+}
+
+function footers(pdf: jsPDF): void {
+  const pages = pdf.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    pdf.setPage(i);
+    stripe(pdf, MARGIN, FOOTER_Y - 4, CONTENT_W, 0.6);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7);
+    pdf.setTextColor(SUBTLE);
+    pdf.text('HACKOVERFLOW  /  POST-EVENT REPORT', MARGIN, FOOTER_Y);
+    pdf.text(`Page ${i} of ${pages}`, A4_W - MARGIN, FOOTER_Y, { align: 'right' });
+  }
+}
+
+function breakdownTable(doc: Doc, heading: string, rows: StatsBreakdownRow[]): void {
+  if (rows.length === 0) {
+    note(doc, `No participants have ${heading === 'Institute' ? 'an institute' : 'a state'} recorded.`);
+    return;
+  }
+  table(
+    doc,
+    [heading, 'Registered', 'Arrived', 'Turnout'],
+    rows.slice(0, TOP_ROWS).map(r => [r.name, num(r.registered), num(r.arrived), pct(r.arrived, r.registered)]),
+    [0.55, 0.15, 0.15, 0.15]
+  );
+  if (rows.length > TOP_ROWS) {
+    const rest = rows.slice(TOP_ROWS);
+    note(doc, `And ${rest.length} more, with ${num(rest.reduce((n, r) => n + r.registered, 0))} registered between them.`);
+  }
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Builds the post-event report and downloads it.
+ */
+export function generatePostEventReportPDF(
+  report: PostEventReport,
+  fileName = 'hackoverflow-post-event-report.pdf',
+): void {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const doc: Doc = { pdf, y: MARGIN };
+  const { stats, teams, mailer, bot } = report;
+  const { funnel } = stats;
+  const mealsServed = stats.meals.reduce((n, m) => n + m.collected, 0);
+
+  header(doc, report);
+
+  figures(doc, [
+    { label: 'Registered', value: num(funnel.registered) },
+    { label: 'Arrived', value: num(funnel.arrived), sub: `${pct(funnel.arrived, funnel.registered)} turnout` },
+    { label: 'Teams', value: num(teams.registered), sub: `${num(teams.present)} present` },
+    { label: 'Projects', value: num(teams.projects) },
+    { label: 'Meals served', value: num(mealsServed) },
+  ]);
+
+  // ── Attendance ──
+  sectionTitle(doc, 'Attendance funnel');
+  bars(doc, [
+    { label: 'Registered',  value: funnel.registered, color: BRAND.gold,   detail: num(funnel.registered) },
+    { label: 'Arrived',     value: funnel.arrived,    color: BRAND.orange, detail: `${num(funnel.arrived)} · ${pct(funnel.arrived, funnel.registered)}` },
+    { label: 'Entered lab', value: funnel.enteredLab, color: BRAND.pink,   detail: `${num(funnel.enteredLab)} · ${pct(funnel.enteredLab, funnel.registered)}` },
+    { label: 'Checked out', value: funnel.left,       color: BRAND.plum,   detail: `${num(funnel.left)} · ${pct(funnel.left, funnel.registered)}` },
+  ], funnel.registered);
+  note(doc, `${num(funnel.registered - funnel.arrived)} registered participants never arrived (${pct(funnel.registered - funnel.arrived, funnel.registered)} no-show rate).`);
+
+  // ── Demographics ──
+  sectionTitle(doc, 'Participants by institute');
+  breakdownTable(doc, 'Institute', stats.institutes);
+  sectionTitle(doc, 'Participants by state');
+  breakdownTable(doc, 'State', stats.states);
+
+  // ── Teams ──
+  sectionTitle(doc, 'Teams and projects');
+  table(doc, ['', 'Count'], [
+    ['Teams registered', num(teams.registered)],
+    ['Teams with at least one member present', num(teams.present)],
+    ['Teams with a named project', num(teams.projects)],
+    ['Average team size', teams.averageSize != null ? String(teams.averageSize) : '-'],
+    ['Participants without a team', num(stats.teams.unassigned)],
+  ], [0.8, 0.2]);
+
+  // ── Meals ──
+  sectionTitle(doc, 'Meal consumption');
+  if (stats.meals.length === 0) {
+    note(doc, 'No meal slots are configured.');
+  } else {
+    table(
+      doc,
+      ['Meal', 'Served', 'Of arrived'],
+      [
+        ...stats.meals.map(m => [m.label, num(m.collected), pct(m.collected, funnel.arrived)]),
+        ['Total', num(mealsServed), ''],
+      ],
+      [0.6, 0.2, 0.2]
+    );
+  }
+
+  // ── Mailer ──
+  sectionTitle(doc, 'Mailer');
+  figures(doc, [
+    { label: 'Emails sent', value: num(mailer.sent) },
+    { label: 'Failed', value: num(mailer.failed), sub: `${pct(mailer.failed, mailer.sent + mailer.failed)} of attempts` },
+    { label: 'Campaigns', value: num(mailer.campaigns.length), sub: `${num(mailer.batches)} batches` },
+  ]);
+  if (mailer.campaigns.length > 0) {
+    table(
+      doc,
+      ['Subject', 'Batches', 'Sent', 'Failed'],
+      mailer.campaigns.slice(0, TOP_ROWS).map(c => [c.subject, num(c.batches), num(c.sent), num(c.failed)]),
+      [0.58, 0.14, 0.14, 0.14]
+    );
+  }
+
+  // ── Bot ──
+  sectionTitle(doc, 'Discord bot usage');
+  figures(doc, [
+    { label: 'Interactions', value: num(bot.total) },
+    { label: 'Unique users', value: num(bot.users) },
+    { label: 'Errors', value: num(bot.errors), sub: `${pct(bot.errors, bot.total)} of interactions` },
+  ]);
+  if (bot.byType.length > 0) {
+    table(
+      doc,
+      ['Type', 'Interactions', 'Errors', 'Avg time'],
+      bot.byType.map(t => [t.type.replace(/_/g, ' '), num(t.total), num(t.errors), `${num(t.avgMs)} ms`]),
+      [0.49, 0.17, 0.17, 0.17]
+    );
+  }
+
+  footers(pdf);
+  pdf.save(fileName);
+}